@@ -12,10 +12,12 @@
  * PixiJS uses a DOMAdapter pattern to abstract browser APIs. This adapter
  * implements that interface for React Native:
  *
- * - createCanvas: Returns ExpoCanvasElement wrapping expo-gl context
- * - createImage: Returns image-like object for texture loading
- * - getWebGLRenderingContext: Returns WebGL constructor
- * - fetch: Handles remote and local asset URLs
+ * - createCanvas: Returns offscreen ExpoCanvasElements with a software 2D context
+ * - getCanvasRenderingContext2D: Returns the software 2D context class
+ * - createImage: Returns ExpoImageElement that loads through expo-asset
+ * - getWebGLRenderingContext: Tells WebGL 1 and WebGL 2 contexts apart
+ * - getNavigator: Reports the platform and the active context's GPU capabilities
+ * - fetch: Handles remote URLs, local files and bundled require() assets
  * - parseXML: Uses @xmldom/xmldom for SVG and other XML parsing
  *
  * @example Setting up the adapter
@@ -27,49 +29,114 @@
  * DOMAdapter.set(ExpoAdapter);
  *
  * // In GLView.onContextCreate:
- * const canvas = setActiveGLContext(gl, width, height);
+ * const canvas = setActiveGLContext(gl, width, height, viewId);
  * ```
  */
 
 import type { ExpoWebGLRenderingContext } from 'expo-gl';
-import { ExpoCanvasElement } from './ExpoCanvasElement';
+import { Platform } from 'react-native';
+import { ExpoCanvasElement, getContextWebGLVersion } from './ExpoCanvasElement';
 import { DOMParser } from '@xmldom/xmldom';
+import { ExpoImageElement } from './ExpoImageElement';
+import { ExpoCanvasRenderingContext2D } from '../canvas/ExpoCanvasRenderingContext2D';
+import { ExpoResponse } from './ExpoResponse';
+import {
+  parseModuleId,
+  resolveModuleUri,
+  resolveAssetUri,
+  readLocalFile,
+  getMimeType,
+} from './expoFiles';
+import { queryGPUCapabilities, type GPUCapabilities } from './gpuCapabilities';
+import { createTouchTracker, clearTouchTracking } from '../utils/touchEventBridge';
+import type { TouchTracker } from '../utils/touchEventBridge';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * Per-view GL state tracked by the context registry.
+ *
+ * Every PixiView owns exactly one of these, so several views can live on
+ * the same screen without sharing a canvas, GL context or touch state.
+ */
+export interface ExpoViewContext {
+  /** Registry key of the owning view */
+  id: string;
+  /** Canvas element wrapping the view's GL context */
+  canvas: ExpoCanvasElement;
+  /** expo-gl WebGL context of the view */
+  gl: ExpoWebGLRenderingContext;
+  /** Touch tracking state for the view's touch bridge */
+  touchTracker: TouchTracker;
+}
 
 // =============================================================================
 // MODULE STATE
-// Tracks the currently active GL context for PixiJS rendering.
+// Registry of GL contexts, keyed per view.
 // =============================================================================
 
-/** Currently active canvas element wrapper */
-let activeCanvas: ExpoCanvasElement | null = null;
+/** View id used when callers don't provide one (single-view apps) */
+const DEFAULT_VIEW_ID = 'default';
+
+/** Registered view contexts, in registration order */
+const viewContexts = new Map<string, ExpoViewContext>();
 
-/** Currently active expo-gl WebGL context */
-let activeGL: ExpoWebGLRenderingContext | null = null;
+/** Id of the view whose context is currently active */
+let currentViewId: string | null = null;
+
+/** Counter for generated view ids */
+let viewIdCounter = 0;
+
+/**
+ * Resolve a view context by id, falling back to the active view.
+ */
+function resolveViewContext(viewId?: string): ExpoViewContext | null {
+  const id = viewId ?? currentViewId;
+  if (id === null) return null;
+  return viewContexts.get(id) ?? null;
+}
 
 // =============================================================================
 // CONTEXT MANAGEMENT FUNCTIONS
-// Public API for managing the active GL context.
+// Public API for managing per-view GL contexts.
 // =============================================================================
 
 /**
- * Set the active GL context from expo-gl's GLView.
+ * Generate a unique id for registering a view's GL context.
+ *
+ * @returns A new view id
+ */
+export function createViewId(): string {
+  viewIdCounter += 1;
+  return `pixi-view-${viewIdCounter}`;
+}
+
+/**
+ * Set the GL context of a view from expo-gl's GLView.
  *
  * This function must be called in GLView's onContextCreate callback
- * before creating any PixiJS Application or renderer.
+ * before creating any PixiJS Application or renderer. The registered
+ * view becomes the active one.
  *
  * @param gl - The WebGL context from expo-gl
  * @param width - Canvas width in pixels
  * @param height - Canvas height in pixels
+ * @param viewId - Registry key of the owning view (default: 'default')
  * @returns ExpoCanvasElement configured with the GL context
  *
  * @example
  * ```tsx
+ * const viewId = createViewId();
+ *
  * <GLView
  *   onContextCreate={(gl) => {
  *     const canvas = setActiveGLContext(
  *       gl,
  *       gl.drawingBufferWidth,
- *       gl.drawingBufferHeight
+ *       gl.drawingBufferHeight,
+ *       viewId,
  *     );
  *     // canvas is now ready for PixiJS
  *   }}
@@ -80,42 +147,187 @@ export function setActiveGLContext(
   gl: ExpoWebGLRenderingContext,
   width: number,
   height: number,
+  viewId: string = DEFAULT_VIEW_ID,
 ): ExpoCanvasElement {
-  activeCanvas = new ExpoCanvasElement(width, height);
-  activeCanvas.setGLContext(gl);
-  activeGL = gl;
-  return activeCanvas;
+  const canvas = new ExpoCanvasElement(width, height);
+  canvas.setGLContext(gl);
+
+  // Keep touch state across context re-creation of the same view
+  const touchTracker = viewContexts.get(viewId)?.touchTracker ?? createTouchTracker();
+
+  viewContexts.set(viewId, { id: viewId, canvas, gl, touchTracker });
+  currentViewId = viewId;
+  return canvas;
+}
+
+/**
+ * Replace the lost GL context of a view with a new one from expo-gl.
+ *
+ * The view keeps its canvas, so a renderer created on it survives: the
+ * canvas dispatches `webglcontextrestored` and PixiJS re-creates its
+ * textures, buffers and shaders on the new context. The view becomes the
+ * active one.
+ *
+ * @param gl - The new WebGL context from expo-gl
+ * @param viewId - Registry key of the owning view (default: 'default')
+ * @returns The view's canvas, or null if the view is not registered
+ */
+export function restoreGLContext(
+  gl: ExpoWebGLRenderingContext,
+  viewId: string = DEFAULT_VIEW_ID,
+): ExpoCanvasElement | null {
+  const context = viewContexts.get(viewId);
+  if (!context) return null;
+
+  context.gl = gl;
+  currentViewId = viewId;
+  context.canvas.restoreGLContext(gl);
+
+  return context.canvas;
+}
+
+/**
+ * Make a registered view the active one.
+ *
+ * Offscreen canvases from `ExpoAdapter.createCanvas` share the active
+ * view's GL context, so activate a view before running PixiJS code on its
+ * behalf.
+ *
+ * @param viewId - Registry key of the view
+ * @returns true if the view is registered, false otherwise
+ */
+export function activateViewContext(viewId: string): boolean {
+  if (!viewContexts.has(viewId)) return false;
+  currentViewId = viewId;
+  return true;
+}
+
+/**
+ * Get the registered context of a view.
+ *
+ * @param viewId - Registry key of the view (default: the active view)
+ * @returns The view context, or null if none is registered
+ */
+export function getViewContext(viewId?: string): ExpoViewContext | null {
+  return resolveViewContext(viewId);
 }
 
 /**
- * Get the currently active canvas element.
+ * Get the canvas element of a view.
  *
- * @returns The active ExpoCanvasElement, or null if none is set
+ * @param viewId - Registry key of the view (default: the active view)
+ * @returns The view's ExpoCanvasElement, or null if none is set
  */
-export function getActiveCanvas(): ExpoCanvasElement | null {
-  return activeCanvas;
+export function getActiveCanvas(viewId?: string): ExpoCanvasElement | null {
+  return resolveViewContext(viewId)?.canvas ?? null;
 }
 
 /**
- * Get the currently active expo-gl WebGL context.
+ * Get the expo-gl WebGL context of a view.
  *
- * @returns The active GL context, or null if none is set
+ * @param viewId - Registry key of the view (default: the active view)
+ * @returns The view's GL context, or null if none is set
  */
-export function getActiveGL(): ExpoWebGLRenderingContext | null {
-  return activeGL;
+export function getActiveGL(viewId?: string): ExpoWebGLRenderingContext | null {
+  return resolveViewContext(viewId)?.gl ?? null;
 }
 
 /**
- * Clear the active context.
+ * Get the GPU capabilities of a view's GL context.
+ *
+ * @param viewId - Registry key of the view (default: the active view)
+ * @returns Capability report, or null if no context is registered
+ *
+ * @example
+ * ```ts
+ * const caps = getGPUCapabilities();
+ * const useAstc = caps?.compressedTextures.astc ?? false;
+ * ```
+ */
+export function getGPUCapabilities(viewId?: string): GPUCapabilities | null {
+  const gl = getActiveGL(viewId);
+  return gl ? queryGPUCapabilities(gl) : null;
+}
+
+/**
+ * Clear the context of a view.
  *
  * Should be called when the GLView unmounts to prevent memory leaks
- * and stale references.
+ * and stale references. Other views keep their contexts; if the cleared
+ * view was active, the most recently registered remaining view becomes
+ * active.
+ *
+ * @param viewId - Registry key of the view (default: the active view)
  */
-export function clearActiveContext(): void {
-  activeCanvas = null;
-  activeGL = null;
+export function clearActiveContext(viewId?: string): void {
+  const id = viewId ?? currentViewId;
+  if (id === null) return;
+
+  const context = viewContexts.get(id);
+  if (context) {
+    clearTouchTracking(context.touchTracker);
+    viewContexts.delete(id);
+  }
+
+  if (currentViewId === id) {
+    const remaining = [...viewContexts.keys()];
+    currentViewId = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+  }
 }
 
+// =============================================================================
+// FETCH HELPERS
+// =============================================================================
+
+/**
+ * Build a Response for a resolved local URI.
+ *
+ * File URIs are read from disk; anything else (e.g. Android resource URIs
+ * returned by expo-asset in release builds) goes through the native fetch.
+ *
+ * @param localUri - Resolved URI of the resource
+ * @param requestUrl - URL originally requested (reported as response.url)
+ * @param options - Fetch options for the native fallback
+ */
+async function fetchLocalUri(
+  localUri: string,
+  requestUrl: string,
+  options?: RequestInit,
+): Promise<Response> {
+  if (!localUri.startsWith('file://')) {
+    return fetch(localUri, options);
+  }
+
+  try {
+    const bytes = await readLocalFile(localUri);
+    return new ExpoResponse(bytes, {
+      url: requestUrl,
+      contentType: getMimeType(localUri),
+    }) as unknown as Response;
+  } catch (error) {
+    throw new Error(`ExpoAdapter: Failed to fetch ${requestUrl}: ${(error as Error).message}`);
+  }
+}
+
+// =============================================================================
+// WEBGL VERSION
+// =============================================================================
+
+/**
+ * Stand-in for the WebGLRenderingContext constructor.
+ *
+ * expo-gl's WebGL 2 contexts can also be handed out as 'webgl', so a plain
+ * `instanceof WebGLRenderingContext` check doesn't tell PixiJS which API
+ * it is using. This constructor matches contexts used as WebGL 1.
+ */
+const ExpoWebGLContextClass =
+  function WebGLRenderingContext() {} as unknown as typeof WebGLRenderingContext;
+
+Object.defineProperty(ExpoWebGLContextClass, Symbol.hasInstance, {
+  value: (value: unknown): boolean =>
+    typeof value === 'object' && value !== null && getContextWebGLVersion(value) === 1,
+});
+
 // =============================================================================
 // EXPO ADAPTER
 // Main adapter object implementing PixiJS's Adapter interface.
@@ -130,7 +342,7 @@ export function clearActiveContext(): void {
  *
  * @remarks
  * Key differences from browser adapter:
- * - Canvas 2D context is not supported (WebGL only)
+ * - Canvas 2D is a software rasterizer, available on offscreen canvases
  * - FontFaceSet is not available (use expo-font)
  * - Base URL is empty (use expo-asset for bundled resources)
  * - XML parsing uses @xmldom/xmldom instead of DOMParser
@@ -141,25 +353,34 @@ export const ExpoAdapter = {
   // ===========================================================================
 
   /**
-   * Create a canvas element for rendering.
+   * Create an offscreen canvas element.
+   *
+   * PixiJS calls this for scratch canvases (gradients, patterns, text,
+   * CanvasSource, capability probes). The view's own canvas comes from
+   * setActiveGLContext and is passed to PixiJS as the `canvas` option, so
+   * it is never returned here.
    *
-   * If an active canvas exists (from setActiveGLContext), returns it.
-   * Otherwise creates a new ExpoCanvasElement that will need a GL context.
+   * Offscreen canvases provide a software 2D context. They also share the
+   * active view's GL context so that `getContext('webgl')` probes succeed.
+   * PixiJS doesn't say which renderer a canvas is for, so PixiView activates
+   * its view before it initializes, renders, resizes, dispatches pointer
+   * events to or destroys its application; code running outside those, like
+   * ticker callbacks with several views on screen, should call
+   * activateViewContext first.
    *
    * @param width - Canvas width in pixels
    * @param height - Canvas height in pixels
-   * @returns ExpoCanvasElement instance
+   * @returns Offscreen ExpoCanvasElement instance
    */
   createCanvas: (width?: number, height?: number): ExpoCanvasElement => {
-    if (activeCanvas) {
-      // Update dimensions if provided
-      if (width !== undefined) activeCanvas.width = width;
-      if (height !== undefined) activeCanvas.height = height;
-      return activeCanvas;
+    const canvas = new ExpoCanvasElement(width ?? 1, height ?? 1, true);
+    const gl = getActiveGL();
+
+    if (gl) {
+      canvas.setGLContext(gl);
     }
 
-    // Create placeholder canvas (will need GL context later)
-    return new ExpoCanvasElement(width ?? 1, height ?? 1);
+    return canvas;
   },
 
   // ===========================================================================
@@ -169,34 +390,15 @@ export const ExpoAdapter = {
   /**
    * Create an image element for texture loading.
    *
-   * Returns a minimal HTMLImageElement-like object. For actual texture
-   * loading, use the loadExpoAsset loader extension which integrates
-   * with expo-asset.
+   * Returns an ExpoImageElement: setting `src` resolves the source through
+   * expo-asset (require() module IDs, URLs, file and data URIs), populates
+   * `naturalWidth`/`naturalHeight`/`localUri` and fires `onload`/`onerror`.
+   * The loaded image can be uploaded by expo-gl like loadExpoAsset textures.
    *
-   * @returns Object mimicking HTMLImageElement interface
+   * @returns ExpoImageElement instance
    */
-  createImage: (): any => {
-    const image = {
-      src: '',
-      width: 0,
-      height: 0,
-      naturalWidth: 0,
-      naturalHeight: 0,
-      complete: false,
-      crossOrigin: '' as string | null,
-      onload: null as ((this: any, ev: Event) => any) | null,
-      onerror: null as OnErrorEventHandler | null,
-
-      /**
-       * Setting source would trigger image loading.
-       * Full implementation uses expo-asset or react-native Image.
-       */
-      set source(value: string) {
-        this.src = value;
-      },
-    };
-
-    return image;
+  createImage: (): ExpoImageElement => {
+    return new ExpoImageElement();
   },
 
   // ===========================================================================
@@ -206,24 +408,22 @@ export const ExpoAdapter = {
   /**
    * Get the Canvas 2D rendering context constructor.
    *
-   * @returns null - Canvas 2D is not supported in expo-gl
-   *
-   * @remarks
-   * expo-gl only provides WebGL contexts. For 2D canvas operations,
-   * consider using @shopify/react-native-skia as an alternative.
+   * @returns ExpoCanvasRenderingContext2D, the software 2D context class
    */
-  getCanvasRenderingContext2D: (): any => {
-    console.warn('ExpoAdapter: 2D context is not supported in expo-gl');
-    return null;
+  getCanvasRenderingContext2D: (): typeof ExpoCanvasRenderingContext2D => {
+    return ExpoCanvasRenderingContext2D;
   },
 
   /**
    * Get the WebGL rendering context constructor.
    *
-   * @returns WebGLRenderingContext constructor
+   * PixiJS treats contexts that are instances of this constructor as
+   * WebGL 1 and all others as WebGL 2.
+   *
+   * @returns Constructor matching contexts used as WebGL 1
    */
   getWebGLRenderingContext: (): typeof WebGLRenderingContext => {
-    return WebGLRenderingContext;
+    return ExpoWebGLContextClass;
   },
 
   // ===========================================================================
@@ -233,15 +433,21 @@ export const ExpoAdapter = {
   /**
    * Get navigator information.
    *
-   * Returns minimal navigator object for feature detection.
-   * GPU access is not available in React Native.
+   * Returns a minimal navigator object for feature detection. WebGPU is
+   * not available in React Native, so `gpu` is always null; the active
+   * view's WebGL capabilities are reported in `gpuCapabilities`.
    *
    * @returns Navigator-like object
    */
-  getNavigator: (): { userAgent: string; gpu: GPU | null } => {
+  getNavigator: (): {
+    userAgent: string;
+    gpu: GPU | null;
+    gpuCapabilities: GPUCapabilities | null;
+  } => {
     return {
-      userAgent: 'expo-gl/react-native',
+      userAgent: `expo-gl/react-native (${Platform.OS} ${Platform.Version})`,
       gpu: null,
+      gpuCapabilities: getGPUCapabilities(),
     };
   },
 
@@ -276,24 +482,39 @@ export const ExpoAdapter = {
   // ===========================================================================
 
   /**
-   * Fetch a resource from network or local storage.
+   * Fetch a resource from network, local storage or the app bundle.
    *
    * Handles different URL schemes:
    * - http:// / https:// - Standard network fetch
-   * - file:// - Local file (requires expo-file-system)
-   * - asset:// - Bundled asset (requires expo-asset)
+   * - file:// - Local file (read with expo-file-system)
+   * - asset:// - Bundled asset (resolved with expo-asset)
+   * - require() module IDs (numbers or `__expo_module_<id>` keys) - resolved with expo-asset
    *
-   * @param url - Resource URL or Request object
-   * @param options - Fetch options
+   * Local and bundled resources resolve to a Response supporting text(),
+   * json(), arrayBuffer() and blob(), so PixiJS parsers (spritesheets,
+   * bitmap fonts, shaders, binary data) work unchanged.
+   *
+   * @param url - Resource URL, require() module ID or Request object
+   * @param options - Fetch options (only used for network requests)
    * @returns Promise resolving to Response
+   * @throws If a local file does not exist or cannot be read
    *
    * @example
    * ```ts
    * const response = await ExpoAdapter.fetch('https://example.com/data.json');
    * const json = await response.json();
+   *
+   * const atlas = await ExpoAdapter.fetch(require('./assets/atlas.fnt'));
+   * const text = await atlas.text();
    * ```
    */
-  fetch: async (url: RequestInfo, options?: RequestInit): Promise<Response> => {
+  fetch: async (url: RequestInfo | number, options?: RequestInit): Promise<Response> => {
+    // require() module ID
+    const moduleId = parseModuleId(url);
+    if (moduleId !== null) {
+      return fetchLocalUri(await resolveModuleUri(moduleId), String(url), options);
+    }
+
     const requestUrl = typeof url === 'string' ? url : (url as Request).url;
 
     // Remote URL - use standard fetch
@@ -303,14 +524,12 @@ export const ExpoAdapter = {
 
     // Local file URL
     if (requestUrl.startsWith('file://')) {
-      console.warn('ExpoAdapter: Local file loading requires expo-file-system');
-      return fetch(requestUrl, options);
+      return fetchLocalUri(requestUrl, requestUrl, options);
     }
 
-    // Asset URL or require() number
-    if (requestUrl.startsWith('asset://') || typeof url === 'number') {
-      console.warn('ExpoAdapter: Asset loading requires expo-asset');
-      throw new Error('Asset loading not implemented');
+    // Bundled asset URL
+    if (requestUrl.startsWith('asset://')) {
+      return fetchLocalUri(await resolveAssetUri(requestUrl), requestUrl, options);
     }
 
     // Default - try standard fetch
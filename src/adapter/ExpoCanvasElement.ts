@@ -33,8 +33,14 @@
  */
 
 import type { ExpoWebGLRenderingContext } from 'expo-gl';
-
-// ...
+import { ExpoCanvasRenderingContext2D } from '../canvas/ExpoCanvasRenderingContext2D';
+import type { PixelData } from '../canvas/paint';
+import { encodeImage, flipPixelRows, unpremultiplyPixels } from '../image';
+import type { EncodedImage } from '../image';
+import { base64Encode } from '../utils/encoding';
+import { ExpoBlob } from './ExpoResponse';
+import { supportsWebGL2 } from './gpuCapabilities';
+import { installTextureUploadBridge } from './textureUpload';
 
 // =============================================================================
 // TYPE DEFINITIONS
@@ -49,6 +55,57 @@ type ContextIds =
   | 'webgl2'
   | 'experimental-webgl2';
 
+// =============================================================================
+// WEBGL VERSION
+// Which API a context was handed out as, for PixiJS's version checks.
+// =============================================================================
+
+/** WebGL 2 capable contexts that a view canvas handed out as 'webgl' */
+const webGL1Contexts = new WeakSet<object>();
+
+/**
+ * Get the WebGL version a context is used as.
+ *
+ * PixiJS tells WebGL 1 and 2 apart with
+ * `gl instanceof DOMAdapter.get().getWebGLRenderingContext()`. A WebGL 2
+ * capable expo-gl context handed out through `getContext('webgl')` reports
+ * version 1, so PixiJS keeps to the WebGL 1 API with it.
+ *
+ * @param gl - WebGL context
+ * @returns 1 or 2
+ */
+export function getContextWebGLVersion(gl: object): 1 | 2 {
+  if (webGL1Contexts.has(gl)) return 1;
+
+  return supportsWebGL2(gl as WebGLRenderingContext) ? 2 : 1;
+}
+
+// =============================================================================
+// CONTEXT EVENTS
+// =============================================================================
+
+/** Event dispatched on context loss and restoration */
+interface ContextEvent {
+  type: string;
+  statusMessage: string;
+  defaultPrevented: boolean;
+  preventDefault(): void;
+}
+
+/**
+ * Create a WebGLContextEvent-like event object.
+ */
+function createContextEvent(type: string, statusMessage: string): ContextEvent {
+  return {
+    type,
+    statusMessage,
+    defaultPrevented: false,
+    preventDefault() {
+      this.defaultPrevented = true;
+    },
+  };
+}
+
 // =============================================================================
 // MOCK CANVAS STYLE
 // CSS style object compatible with PixiJS canvas expectations.
@@ -133,8 +190,10 @@ class MockCanvasStyle {
  * - Style object for CSS compatibility
  *
  * @remarks
- * Only WebGL contexts are supported. Canvas 2D (getContext('2d')) is not
- * available in expo-gl. For 2D rendering, consider @shopify/react-native-skia.
+ * The main view canvas only provides WebGL. Offscreen canvases (created by
+ * `ExpoAdapter.createCanvas`) also provide a software 2D context whose
+ * pixels are uploaded as textures through expo-gl. As in browsers, a canvas
+ * hands out either a 2D or a WebGL context, not both.
  */
 export class ExpoCanvasElement {
   // ===========================================================================
@@ -150,6 +209,9 @@ export class ExpoCanvasElement {
   /** Parent element reference (always null in RN) */
   public parentElement: any = null;
 
+  /** Whether this is an offscreen canvas (not the view's drawing buffer) */
+  public readonly offscreen: boolean;
+
   // ===========================================================================
   // PRIVATE PROPERTIES
   // ===========================================================================
@@ -163,9 +225,21 @@ export class ExpoCanvasElement {
   /** expo-gl WebGL context */
   private _gl: ExpoWebGLRenderingContext | null = null;
 
+  /** Software 2D context (offscreen canvases only) */
+  private _context2D: ExpoCanvasRenderingContext2D | null = null;
+
+  /** Whether the GL context was lost and not restored yet */
+  private _contextLost = false;
+
+  /** WebGL version the context was handed out as (null before, or for the 2D context) */
+  private _webglVersion: 1 | 2 | null = null;
+
   /** Event listeners storage */
   private _listeners: Map<string, Set<any>> = new Map();
 
+  /** Whether a resize event is queued */
+  private _resizeQueued = false;
+
   // ===========================================================================
   // CONSTRUCTOR
   // ===========================================================================
@@ -175,10 +249,12 @@ export class ExpoCanvasElement {
    *
    * @param width - Initial canvas width in pixels (default: 1)
    * @param height - Initial canvas height in pixels (default: 1)
+   * @param offscreen - Whether this is an offscreen canvas (default: false)
    */
-  constructor(width = 1, height = 1) {
+  constructor(width = 1, height = 1, offscreen = false) {
     this._width = width;
     this._height = height;
+    this.offscreen = offscreen;
   }
 
   // ===========================================================================
@@ -192,8 +268,9 @@ export class ExpoCanvasElement {
   }
 
   set width(value: number) {
+    if (value === this._width) return;
     this._width = value;
-    this.dispatchEvent({ type: 'resize' });
+    this._onResize();
   }
 
   /** Canvas height in pixels */
@@ -202,8 +279,25 @@ export class ExpoCanvasElement {
   }
 
   set height(value: number) {
+    if (value === this._height) return;
     this._height = value;
-    this.dispatchEvent({ type: 'resize' });
+    this._onResize();
+  }
+
+  /**
+   * Resize the 2D buffer and queue a single 'resize' event for the current
+   * task, since PixiJS sets width and height one after the other.
+   */
+  private _onResize(): void {
+    this._context2D?.resetBuffer(this._width, this._height);
+
+    if (this._resizeQueued) return;
+    this._resizeQueued = true;
+
+    queueMicrotask(() => {
+      this._resizeQueued = false;
+      this.dispatchEvent({ type: 'resize' });
+    });
   }
 
   /** Client width (physical) */
@@ -306,6 +400,7 @@ export class ExpoCanvasElement {
    */
   setGLContext(gl: ExpoWebGLRenderingContext): void {
     this._gl = gl;
+    installTextureUploadBridge(gl);
   }
 
   /**
@@ -317,95 +412,227 @@ export class ExpoCanvasElement {
     return this._gl;
   }
 
+  /** Whether the GL context was lost and not restored yet */
+  get contextLost(): boolean {
+    return this._contextLost;
+  }
+
+  /**
+   * Mark the GL context as lost and dispatch `webglcontextlost`.
+   *
+   * expo-gl has no context loss events of its own; PixiView calls this when
+   * it finds its context destroyed. The lost context reports
+   * `isContextLost() === true` from then on.
+   *
+   * @param statusMessage - Reason reported on the event
+   */
+  loseGLContext(statusMessage = ''): void {
+    if (this._contextLost) return;
+    this._contextLost = true;
+
+    if (this._gl) {
+      (this._gl as any).isContextLost = () => true;
+    }
+
+    this.dispatchEvent(createContextEvent('webglcontextlost', statusMessage));
+  }
+
+  /**
+   * Replace a lost GL context and dispatch `webglcontextrestored`.
+   *
+   * The new context is handed out as the same WebGL version as the lost one.
+   * Listeners such as PixiJS's GlContextSystem re-create their GPU resources
+   * on the event.
+   *
+   * @param gl - New expo-gl WebGL context
+   */
+  restoreGLContext(gl: ExpoWebGLRenderingContext): void {
+    this.setGLContext(gl);
+
+    if (this._webglVersion === 1 && !this.offscreen) {
+      webGL1Contexts.add(gl);
+    }
+
+    this._contextLost = false;
+    this.dispatchEvent(createContextEvent('webglcontextrestored', ''));
+  }
+
   /**
    * Get a rendering context (HTMLCanvasElement interface).
    *
-   * Only WebGL contexts are supported in expo-gl.
-   * Canvas 2D ('2d') is not supported.
+   * WebGL contexts come from expo-gl. 'webgl2' is only handed out when the
+   * device's context supports WebGL 2, so PixiJS falls back to 'webgl'
+   * otherwise. As in browsers, a canvas keeps the WebGL version it first
+   * handed out. The '2d' context is a software rasterizer, available on
+   * offscreen canvases only.
    *
-   * @param type - Context type ('webgl', 'webgl2', etc.)
+   * @param type - Context type ('2d', 'webgl', 'webgl2', etc.)
    * @param _options - Context attributes (ignored)
-   * @returns WebGL context or null
+   * @returns Rendering context or null
    */
-  getContext(type: ContextIds, _options?: WebGLContextAttributes): WebGLRenderingContext | null {
+  getContext(
+    type: '2d',
+    _options?: CanvasRenderingContext2DSettings,
+  ): ExpoCanvasRenderingContext2D | null;
+  getContext(
+    type: 'webgl2' | 'experimental-webgl2',
+    _options?: WebGLContextAttributes,
+  ): WebGL2RenderingContext | null;
+  getContext(type: ContextIds, _options?: WebGLContextAttributes): WebGLRenderingContext | null;
+  getContext(type: ContextIds, _options?: object): any {
     switch (type) {
       case 'webgl':
       case 'experimental-webgl':
-        if (!this._gl) {
+        return this._getWebGLContext(1);
+
+      case 'webgl2':
+      case 'experimental-webgl2':
+        return this._getWebGLContext(2);
+
+      case '2d':
+        if (!this.offscreen) {
           console.warn(
-            'ExpoCanvasElement: WebGL context not available. ' +
-              'Make sure GLView.onContextCreate has been called first.',
+            'ExpoCanvasElement: 2D context is not available on the view canvas. ' +
+              'Use an offscreen canvas from DOMAdapter.get().createCanvas().',
           );
           return null;
         }
-        return this._gl as unknown as WebGLRenderingContext;
+        if (this._webglVersion) return null;
+        if (!this._context2D) {
+          this._context2D = new ExpoCanvasRenderingContext2D(this);
+        }
+        return this._context2D;
 
-      case '2d':
-        console.warn(
-          'ExpoCanvasElement: 2D context is not supported in expo-gl. ' +
-            'Consider using @shopify/react-native-skia for 2D rendering.',
-        );
+      default:
         return null;
+    }
+  }
 
-      case 'webgl2':
-      case 'experimental-webgl2':
-        console.warn(
-          'ExpoCanvasElement: WebGL2 is not fully supported in expo-gl. ' +
-            'Falling back to WebGL1.',
-        );
-        return this._gl as unknown as WebGLRenderingContext;
+  /**
+   * Hand out the expo-gl context as a WebGL 1 or WebGL 2 context.
+   *
+   * @param version - Requested WebGL version
+   * @returns The GL context, or null if it can't be used as that version
+   */
+  private _getWebGLContext(version: 1 | 2): WebGLRenderingContext | null {
+    if (this._context2D) return null;
+    if (!this._gl) {
+      console.warn(
+        'ExpoCanvasElement: WebGL context not available. ' +
+          'Make sure GLView.onContextCreate has been called first.',
+      );
+      return null;
+    }
 
-      default:
-        return null;
+    if (this._webglVersion && this._webglVersion !== version) return null;
+    if (version === 2 && !supportsWebGL2(this._gl)) return null;
+
+    // Offscreen canvases share the view's context; only the view decides its version
+    if (!this.offscreen) {
+      if (version === 1) {
+        webGL1Contexts.add(this._gl);
+      } else {
+        webGL1Contexts.delete(this._gl);
+      }
     }
+
+    this._webglVersion = version;
+    return this._gl as unknown as WebGLRenderingContext;
+  }
+
+  /**
+   * Get the pixels of the software 2D context.
+   * Used by the texture upload bridge when PixiJS uploads this canvas.
+   *
+   * @returns Live straight-alpha RGBA pixels, or null without a 2D context
+   */
+  getPixelData(): PixelData | null {
+    return this._context2D?.getPixelData() ?? null;
   }
 
   // ===========================================================================
   // DATA EXPORT METHODS
-  // Limited support for canvas data export.
+  // Encode canvas content as PNG or JPEG in TypeScript.
   // ===========================================================================
 
   /**
-   * Convert canvas content to data URL.
+   * Convert canvas content to a data URL.
    *
-   * @param _type - Image MIME type (ignored)
-   * @param _quality - Image quality 0-1 (ignored)
-   * @returns Empty string (not fully implemented)
+   * @param type - Image MIME type: 'image/png' (default) or 'image/jpeg'.
+   *   Other types fall back to PNG, as in browsers.
+   * @param quality - JPEG quality 0-1 (default: 0.92)
+   * @returns Data URL, e.g. 'data:image/png;base64,...'
    *
    * @remarks
-   * Full implementation would require reading pixels from GL context
-   * and encoding to PNG/JPEG, which needs additional native modules.
+   * Offscreen canvases encode their 2D content. The view canvas reads the
+   * default framebuffer, so call this before the frame is presented
+   * (e.g. from a 'postrender' listener) to capture what was drawn.
    */
-  toDataURL(_type?: string, _quality?: number): string {
-    if (!this._gl) {
-      console.warn('ExpoCanvasElement: Cannot create data URL without GL context');
-      return '';
-    }
+  toDataURL(type?: string, quality?: number): string {
+    const { bytes, type: encodedType } = this._encode(type, quality);
+    return `data:${encodedType};base64,${base64Encode(bytes)}`;
+  }
 
-    // Read pixels from the GL context
-    const width = this._width;
-    const height = this._height;
-    const pixels = new Uint8Array(width * height * 4);
+  /**
+   * Convert canvas content to a Blob.
+   *
+   * @param callback - Receives an ExpoBlob with the encoded image, or null on failure
+   * @param type - Image MIME type: 'image/png' (default) or 'image/jpeg'
+   * @param quality - JPEG quality 0-1 (default: 0.92)
+   */
+  toBlob(callback: (blob: Blob | null) => void, type?: string, quality?: number): void {
+    let blob: ExpoBlob | null = null;
+
+    try {
+      const encoded = this._encode(type, quality);
+      blob = new ExpoBlob(encoded.bytes, encoded.type);
+    } catch (error) {
+      console.warn(`ExpoCanvasElement: toBlob failed: ${(error as Error).message}`);
+    }
 
-    this._gl.readPixels(0, 0, width, height, this._gl.RGBA, this._gl.UNSIGNED_BYTE, pixels);
+    // Browsers call back asynchronously
+    setTimeout(() => callback(blob as unknown as Blob | null), 0);
+  }
 
-    // Note: Full implementation would require encoding to PNG/JPEG
-    console.warn('ExpoCanvasElement: toDataURL requires additional implementation for encoding');
+  /**
+   * Encode the canvas pixels as an image file.
+   */
+  private _encode(type?: string, quality?: number): EncodedImage {
+    const width = Math.max(1, this._width);
+    const height = Math.max(1, this._height);
 
-    return '';
+    return encodeImage(this._readPixels(width, height), width, height, { type, quality });
   }
 
   /**
-   * Convert canvas content to Blob.
-   * Not implemented in React Native.
+   * Read the canvas pixels as straight-alpha RGBA, top row first.
    *
-   * @param callback - Callback receiving null
-   * @param _type - Image MIME type (ignored)
-   * @param _quality - Image quality (ignored)
+   * @param width - Width in pixels
+   * @param height - Height in pixels
+   * @returns RGBA pixels; transparent if the canvas has no content
    */
-  toBlob(callback: (blob: Blob | null) => void, _type?: string, _quality?: number): void {
-    console.warn('ExpoCanvasElement: toBlob is not implemented');
-    callback(null);
+  private _readPixels(width: number, height: number): Uint8Array {
+    const pixelData = this.getPixelData();
+    if (pixelData && pixelData.width === width && pixelData.height === height) {
+      return new Uint8Array(pixelData.data);
+    }
+
+    const pixels = new Uint8Array(width * height * 4);
+    const gl = this._gl;
+
+    if (!gl || this.offscreen || this._contextLost) return pixels;
+
+    // PixiJS may have a render texture bound; read the default framebuffer
+    const framebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    if (framebuffer) gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+
+    if (framebuffer) gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+
+    // The drawing buffer is bottom-up with premultiplied alpha
+    flipPixelRows(pixels, width, height);
+    return unpremultiplyPixels(pixels);
   }
 
   // ===========================================================================
@@ -523,3 +750,11 @@ export class ExpoCanvasElement {
     throw new Error('ExpoCanvasElement: transferControlToOffscreen is not supported');
   }
 }
+
+// Make `instanceof HTMLCanvasElement` hold for PixiJS's CanvasSource.test().
+// The polyfills are loaded before the adapter (see src/index.ts), so the
+// polyfilled constructor exists by the time this module is evaluated.
+const HTMLCanvasElementPolyfill = (globalThis as any).HTMLCanvasElement;
+if (HTMLCanvasElementPolyfill && HTMLCanvasElementPolyfill !== ExpoCanvasElement) {
+  Object.setPrototypeOf(ExpoCanvasElement.prototype, HTMLCanvasElementPolyfill.prototype);
+}
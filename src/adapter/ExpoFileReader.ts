@@ -0,0 +1,262 @@
+/**
+ * @fileoverview FileReader that can read ExpoBlob instances.
+ *
+ * React Native's FileReader only reads blobs created by its native blob
+ * module, so it fails on the in-memory ExpoBlob returned by fetch and
+ * canvas.toBlob. PixiJS's renderer.extract.base64() reads the canvas blob
+ * with `new FileReader().readAsDataURL(blob)`, so the polyfills install this
+ * class as the global FileReader. Other blobs are handed to the native reader.
+ *
+ * @module @penabt/pixi-expo/ExpoFileReader
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { base64Encode, utf8Decode } from '../utils/encoding';
+import { ExpoBlob } from './ExpoResponse';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Event passed to FileReader handlers */
+interface FileReaderEvent {
+  type: string;
+  target: ExpoFileReader;
+}
+
+/** FileReader event handler */
+type FileReaderHandler = ((event: FileReaderEvent) => void) | null;
+
+/** How the blob contents are returned */
+type ReadFormat = 'arrayBuffer' | 'dataURL' | 'text';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** FileReader from the host environment, captured before the polyfill replaces it */
+const NativeFileReader: typeof FileReader | undefined = (globalThis as any).FileReader;
+
+// =============================================================================
+// EXPO FILE READER
+// =============================================================================
+
+/**
+ * FileReader implementation for ExpoBlob.
+ *
+ * Supports readAsArrayBuffer, readAsDataURL and readAsText with the on*
+ * handlers and addEventListener. Reads complete asynchronously, as in browsers.
+ *
+ * @example
+ * ```ts
+ * const reader = new FileReader();
+ * reader.onload = () => console.log(reader.result); // data:image/png;base64,...
+ * reader.readAsDataURL(blob);
+ * ```
+ */
+export class ExpoFileReader {
+  static readonly EMPTY = 0;
+  static readonly LOADING = 1;
+  static readonly DONE = 2;
+
+  readonly EMPTY = 0;
+  readonly LOADING = 1;
+  readonly DONE = 2;
+
+  /** Current state: EMPTY, LOADING or DONE */
+  public readyState = 0;
+
+  /** Read result once the read has finished */
+  public result: string | ArrayBuffer | null = null;
+
+  /** Error from the last failed read */
+  public error: Error | null = null;
+
+  /** Event handlers */
+  public onloadstart: FileReaderHandler = null;
+  public onprogress: FileReaderHandler = null;
+  public onload: FileReaderHandler = null;
+  public onabort: FileReaderHandler = null;
+  public onerror: FileReaderHandler = null;
+  public onloadend: FileReaderHandler = null;
+
+  /** Listeners added with addEventListener */
+  private _listeners = new Map<string, Set<(event: FileReaderEvent) => void>>();
+
+  /** Incremented on every read and abort, so stale reads are ignored */
+  private _readId = 0;
+
+  // ===========================================================================
+  // READ METHODS
+  // ===========================================================================
+
+  /**
+   * Read the blob as an ArrayBuffer.
+   * @param blob - Blob to read
+   */
+  readAsArrayBuffer(blob: Blob | ExpoBlob): void {
+    this._read(blob, 'arrayBuffer');
+  }
+
+  /**
+   * Read the blob as a base64 data URL.
+   * @param blob - Blob to read
+   */
+  readAsDataURL(blob: Blob | ExpoBlob): void {
+    this._read(blob, 'dataURL');
+  }
+
+  /**
+   * Read the blob as UTF-8 text.
+   * @param blob - Blob to read
+   * @param _encoding - Text encoding (only UTF-8 is supported)
+   */
+  readAsText(blob: Blob | ExpoBlob, _encoding?: string): void {
+    this._read(blob, 'text');
+  }
+
+  /**
+   * Abort the current read.
+   */
+  abort(): void {
+    if (this.readyState !== this.LOADING) return;
+
+    this._readId++;
+    this.readyState = this.DONE;
+    this.result = null;
+    this._emit('abort');
+    this._emit('loadend');
+  }
+
+  // ===========================================================================
+  // EVENT HANDLING
+  // ===========================================================================
+
+  /**
+   * Add an event listener.
+   * @param type - Event type ('load', 'error', 'loadend', ...)
+   * @param listener - Event handler
+   */
+  addEventListener(type: string, listener: (event: FileReaderEvent) => void): void {
+    if (!this._listeners.has(type)) {
+      this._listeners.set(type, new Set());
+    }
+    this._listeners.get(type)!.add(listener);
+  }
+
+  /**
+   * Remove an event listener.
+   * @param type - Event type
+   * @param listener - Event handler to remove
+   */
+  removeEventListener(type: string, listener: (event: FileReaderEvent) => void): void {
+    this._listeners.get(type)?.delete(listener);
+  }
+
+  // ===========================================================================
+  // PRIVATE METHODS
+  // ===========================================================================
+
+  /**
+   * Start a read, finishing it on a later tick.
+   */
+  private _read(blob: Blob | ExpoBlob, format: ReadFormat): void {
+    if (this.readyState === this.LOADING) {
+      throw new Error('ExpoFileReader: A read is already in progress');
+    }
+
+    const readId = ++this._readId;
+    this.readyState = this.LOADING;
+    this.result = null;
+    this.error = null;
+    this._emit('loadstart');
+
+    this._readBlob(blob, format).then(
+      (result) => {
+        if (readId !== this._readId) return;
+        this.readyState = this.DONE;
+        this.result = result;
+        this._emit('load');
+        this._emit('loadend');
+      },
+      (error: Error) => {
+        if (readId !== this._readId) return;
+        this.readyState = this.DONE;
+        this.error = error;
+        this._emit('error');
+        this._emit('loadend');
+      },
+    );
+  }
+
+  /**
+   * Read a blob's contents in the requested format.
+   */
+  private async _readBlob(
+    blob: Blob | ExpoBlob,
+    format: ReadFormat,
+  ): Promise<string | ArrayBuffer> {
+    if (!(blob instanceof ExpoBlob)) {
+      return readNativeBlob(blob as Blob, format);
+    }
+
+    const bytes = await blob.bytes();
+
+    switch (format) {
+      case 'arrayBuffer':
+        return bytes.buffer as ArrayBuffer;
+      case 'dataURL':
+        return `data:${blob.type || 'application/octet-stream'};base64,${base64Encode(bytes)}`;
+      case 'text':
+        return utf8Decode(bytes);
+    }
+  }
+
+  /**
+   * Call the on* handler and listeners for an event.
+   */
+  private _emit(type: string): void {
+    const event: FileReaderEvent = { type, target: this };
+    const handler = (this as any)[`on${type}`] as FileReaderHandler;
+
+    handler?.call(this, event);
+    this._listeners.get(type)?.forEach((listener) => listener.call(this, event));
+  }
+}
+
+// =============================================================================
+// NATIVE BLOBS
+// =============================================================================
+
+/**
+ * Read a blob from React Native's blob module with the native FileReader.
+ *
+ * @param blob - Native blob
+ * @param format - How to return the contents
+ * @returns Promise resolving to the read result
+ */
+function readNativeBlob(blob: Blob, format: ReadFormat): Promise<string | ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    if (!NativeFileReader) {
+      reject(new Error('ExpoFileReader: No native FileReader to read this blob'));
+      return;
+    }
+
+    const reader = new NativeFileReader();
+    reader.onload = () => resolve(reader.result as string | ArrayBuffer);
+    reader.onerror = () => reject(reader.error ?? new Error('ExpoFileReader: Read failed'));
+
+    switch (format) {
+      case 'arrayBuffer':
+        reader.readAsArrayBuffer(blob);
+        break;
+      case 'dataURL':
+        reader.readAsDataURL(blob);
+        break;
+      case 'text':
+        reader.readAsText(blob);
+        break;
+    }
+  });
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Image } from 'react-native';
+import { ExpoImageElement } from './ExpoImageElement';
+
+vi.mock('expo-asset', () => ({ Asset: {} }));
+vi.mock('react-native', () => ({ Image: { getSize: vi.fn() } }));
+
+/**
+ * Make Image.getSize report a size, or fail.
+ */
+function mockImageSize(size: { width: number; height: number } | Error): void {
+  vi.mocked(Image.getSize).mockImplementation((_uri, onSuccess, onFailure) => {
+    if (size instanceof Error) {
+      onFailure?.(size);
+    } else {
+      onSuccess(size.width, size.height);
+    }
+  });
+}
+
+describe('ExpoImageElement', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads a file URI and fires onload and load listeners', async () => {
+    mockImageSize({ width: 32, height: 16 });
+    const image = new ExpoImageElement();
+    const onload = vi.fn();
+    const listener = vi.fn();
+    image.onload = onload;
+    image.addEventListener('load', listener);
+
+    image.src = 'file:///bunny.png';
+    await image.decode();
+
+    expect(image.localUri).toBe('file:///bunny.png');
+    expect([image.naturalWidth, image.naturalHeight]).toEqual([32, 16]);
+    expect(onload).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a load successful when onload throws', async () => {
+    mockImageSize({ width: 1, height: 1 });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const image = new ExpoImageElement();
+    const onerror = vi.fn();
+    const listener = vi.fn();
+    image.onload = () => {
+      throw new Error('handler failed');
+    };
+    image.onerror = onerror;
+    image.addEventListener('load', listener);
+
+    image.src = 'file:///bunny.png';
+    await expect(image.decode()).resolves.toBeUndefined();
+
+    expect(onerror).not.toHaveBeenCalled();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalled();
+  });
+
+  it('rejects decode with the load error when onerror throws', async () => {
+    mockImageSize(new Error('not an image'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const image = new ExpoImageElement();
+    const listener = vi.fn();
+    image.onerror = () => {
+      throw new Error('handler failed');
+    };
+    image.addEventListener('error', listener);
+
+    image.src = 'file:///broken.png';
+    await expect(image.decode()).rejects.toThrow('not an image');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(image.complete).toBe(true);
+  });
+});
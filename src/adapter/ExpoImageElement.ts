@@ -0,0 +1,386 @@
+/**
+ * @fileoverview HTMLImageElement implementation backed by expo-asset.
+ *
+ * PixiJS and third-party plugins load images with the browser pattern
+ * `const img = DOMAdapter.get().createImage(); img.src = url;` and wait for
+ * `onload`. This class implements that pattern for React Native.
+ *
+ * @module @penabt/pixi-expo/ExpoImageElement
+ * @author Pena Team
+ * @license MIT
+ *
+ * @description
+ * Setting `src` resolves the source to a local file URI and measures it:
+ * - require() module IDs (numbers or `__expo_module_<id>` keys) via expo-asset
+ * - http:// / https:// URLs, downloaded via expo-asset
+ * - file:// URIs, used as-is
+ * - data: URIs, written to the cache directory once per content
+ *
+ * When loading succeeds, `localUri` is set so expo-gl's texImage2D can
+ * upload the image natively, exactly like images from the loadExpoAsset loader.
+ *
+ * @example
+ * ```ts
+ * const img = DOMAdapter.get().createImage();
+ * img.onload = () => console.log(img.naturalWidth, img.naturalHeight);
+ * img.src = 'https://example.com/sprite.png';
+ * ```
+ */
+
+import { Asset } from 'expo-asset';
+import { Image } from 'react-native';
+import { findCacheFile, parseModuleId, resolveAssetUri, writeCacheFile } from './expoFiles';
+import { base64Decode, utf8Encode } from '../utils/encoding';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Resolved source of an image */
+interface ResolvedImage {
+  /** Local URI expo-gl can read */
+  localUri: string;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+}
+
+/** File extensions for image MIME types in data URIs */
+const DATA_URI_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'image/svg+xml': '.svg',
+};
+
+/**
+ * Get image dimensions using React Native's Image.getSize
+ */
+function getImageSize(uri: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    Image.getSize(uri, (width, height) => resolve({ width, height }), reject);
+  });
+}
+
+/**
+ * Hash a string to 16 hex digits (two 32-bit FNV-1a style hashes with
+ * different primes), for naming cache files after their contents.
+ */
+function hashString(value: string): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x811c9dc5;
+
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 0x01000193);
+    h2 = Math.imul(h2 ^ code, 0x5bd1e995);
+  }
+
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Write a data: URI to the cache directory and return the file URI.
+ *
+ * expo-gl reads the file whenever the texture is uploaded, which can be long
+ * after the image loaded, so the file can't be deleted after loading.
+ * Instead it is named after the URI's contents, so loading the same data
+ * URI again reuses it and the cache holds one file per distinct image.
+ */
+function writeDataUri(dataUri: string): string {
+  const commaIndex = dataUri.indexOf(',');
+
+  if (commaIndex === -1) {
+    throw new Error('Malformed data URI');
+  }
+
+  const header = dataUri.substring(5, commaIndex);
+  const payload = dataUri.substring(commaIndex + 1);
+  const mimeType = header.split(';')[0] || 'image/png';
+  const extension = DATA_URI_EXTENSIONS[mimeType] ?? '.png';
+  const fileName = `pixi-expo-image-${dataUri.length}-${hashString(dataUri)}${extension}`;
+
+  const cached = findCacheFile(fileName);
+  if (cached) return cached;
+
+  const bytes = header.endsWith(';base64')
+    ? base64Decode(payload)
+    : utf8Encode(decodeURIComponent(payload));
+
+  return writeCacheFile(fileName, bytes);
+}
+
+/**
+ * Resolve any supported image source to a local URI and its dimensions.
+ */
+async function resolveImage(src: string | number): Promise<ResolvedImage> {
+  const moduleId = parseModuleId(src);
+
+  let localUri: string;
+  let width = 0;
+  let height = 0;
+
+  if (moduleId !== null) {
+    const asset = Asset.fromModule(moduleId);
+    await asset.downloadAsync();
+    localUri = asset.localUri || asset.uri;
+    width = asset.width ?? 0;
+    height = asset.height ?? 0;
+  } else {
+    const uri = String(src);
+
+    if (uri.startsWith('data:')) {
+      localUri = writeDataUri(uri);
+    } else if (uri.startsWith('file://')) {
+      localUri = uri;
+    } else {
+      localUri = await resolveAssetUri(uri);
+    }
+  }
+
+  if (!localUri) {
+    throw new Error(`Failed to get local URI for image: ${src}`);
+  }
+
+  if (!width || !height) {
+    const size = await getImageSize(localUri);
+    width = size.width;
+    height = size.height;
+  }
+
+  return { localUri, width, height };
+}
+
+// =============================================================================
+// EXPO IMAGE ELEMENT
+// =============================================================================
+
+/**
+ * HTMLImageElement-like image that loads through expo-asset.
+ *
+ * Returned by `ExpoAdapter.createImage()`. Passes `instanceof HTMLImageElement`
+ * checks against the polyfilled constructor, so PixiJS's ImageSource accepts it.
+ */
+export class ExpoImageElement {
+  // ===========================================================================
+  // PUBLIC PROPERTIES
+  // ===========================================================================
+
+  /** Rendered width (defaults to naturalWidth once loaded) */
+  public width = 0;
+
+  /** Rendered height (defaults to naturalHeight once loaded) */
+  public height = 0;
+
+  /** Intrinsic width in pixels */
+  public naturalWidth = 0;
+
+  /** Intrinsic height in pixels */
+  public naturalHeight = 0;
+
+  /** Whether loading has finished (successfully or not) */
+  public complete = false;
+
+  /** CORS mode (ignored in React Native) */
+  public crossOrigin: string | null = null;
+
+  /** Local file URI read by expo-gl's texImage2D */
+  public localUri: string | null = null;
+
+  /** Load handler */
+  public onload: ((this: ExpoImageElement, ev: any) => any) | null = null;
+
+  /** Error handler */
+  public onerror: ((this: ExpoImageElement, ev: any) => any) | null = null;
+
+  // ===========================================================================
+  // PRIVATE PROPERTIES
+  // ===========================================================================
+
+  /** Current source */
+  private _src = '';
+
+  /** Incremented on every src change so stale loads are ignored */
+  private _loadId = 0;
+
+  /** Pending load, resolving to the load error if any (for decode()) */
+  private _loading: Promise<Error | null> = Promise.resolve(null);
+
+  /** Event listeners storage */
+  private _listeners: Map<string, Set<any>> = new Map();
+
+  // ===========================================================================
+  // SOURCE
+  // ===========================================================================
+
+  /** Image source; setting it starts loading */
+  get src(): string {
+    return this._src;
+  }
+
+  set src(value: string | number) {
+    this._src = String(value ?? '');
+    this.complete = false;
+    this.localUri = null;
+
+    const loadId = ++this._loadId;
+
+    if (this._src === '') {
+      this._loading = Promise.resolve(null);
+      return;
+    }
+
+    this._loading = this._load(value, loadId);
+  }
+
+  /** Current source (same as src) */
+  get currentSrc(): string {
+    return this._src;
+  }
+
+  /**
+   * Wait for the current source to load.
+   *
+   * @returns Promise resolving once loaded, rejecting on error
+   */
+  async decode(): Promise<void> {
+    const error = await this._loading;
+    if (error) throw error;
+  }
+
+  // ===========================================================================
+  // LOADING
+  // ===========================================================================
+
+  /**
+   * Resolve and measure the source, then fire load/error events.
+   * Never rejects; the load error (if any) is the resolved value.
+   */
+  private async _load(src: string | number, loadId: number): Promise<Error | null> {
+    let resolved: ResolvedImage;
+
+    try {
+      resolved = await resolveImage(src);
+    } catch (error) {
+      const loadError = error instanceof Error ? error : new Error(`Failed to load image: ${src}`);
+
+      if (loadId !== this._loadId) return loadError;
+
+      this.complete = true;
+      this._fireEvent({ type: 'error', error: loadError }, this.onerror);
+      return loadError;
+    }
+
+    if (loadId !== this._loadId) return null;
+
+    this.localUri = resolved.localUri;
+    this.naturalWidth = resolved.width;
+    this.naturalHeight = resolved.height;
+    this.width = resolved.width;
+    this.height = resolved.height;
+    this.complete = true;
+
+    this._fireEvent({ type: 'load' }, this.onload);
+    return null;
+  }
+
+  /**
+   * Call an `on<type>` handler and then the event's listeners. Errors they
+   * throw are logged, so a throwing onload can't turn a load into an error.
+   */
+  private _fireEvent(
+    event: { type: string; [key: string]: any },
+    handler: ((this: ExpoImageElement, ev: any) => any) | null,
+  ): void {
+    try {
+      handler?.call(this, event);
+    } catch (error) {
+      console.error(`[ExpoImageElement] Error in on${event.type} handler:`, error);
+    }
+
+    this.dispatchEvent(event);
+  }
+
+  // ===========================================================================
+  // EVENT HANDLING
+  // ===========================================================================
+
+  /**
+   * Add an event listener ('load' or 'error').
+   *
+   * @param type - Event type
+   * @param listener - Event handler function or object
+   * @param options - Listener options (only `once` is honored)
+   */
+  addEventListener(type: string, listener: any, options?: boolean | AddEventListenerOptions): void {
+    if (!this._listeners.has(type)) {
+      this._listeners.set(type, new Set());
+    }
+
+    if (typeof options === 'object' && options?.once) {
+      const onceListener = (event: any) => {
+        this.removeEventListener(type, onceListener);
+        if (typeof listener === 'function') {
+          listener.call(this, event);
+        } else {
+          listener.handleEvent(event);
+        }
+      };
+      this._listeners.get(type)!.add(onceListener);
+      return;
+    }
+
+    this._listeners.get(type)!.add(listener);
+  }
+
+  /**
+   * Remove an event listener.
+   *
+   * @param type - Event type
+   * @param listener - Event handler to remove
+   */
+  removeEventListener(type: string, listener: any): void {
+    this._listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Dispatch an event to registered listeners.
+   *
+   * @param event - Event object with type property
+   * @returns true if event had listeners, false otherwise
+   */
+  dispatchEvent(event: { type: string; [key: string]: any }): boolean {
+    const listeners = this._listeners.get(event.type);
+
+    if (!listeners || listeners.size === 0) {
+      return false;
+    }
+
+    event.target = this;
+    event.currentTarget = this;
+
+    [...listeners].forEach((listener) => {
+      try {
+        if (typeof listener === 'function') {
+          listener.call(this, event);
+        } else if (listener.handleEvent) {
+          listener.handleEvent(event);
+        }
+      } catch (error) {
+        console.error('[ExpoImageElement] Error in event listener:', error);
+      }
+    });
+
+    return true;
+  }
+}
+
+// Make `instanceof HTMLImageElement` hold for PixiJS's ImageSource.test().
+// The polyfills are loaded before the adapter (see src/index.ts), so the
+// polyfilled constructor exists by the time this module is evaluated.
+const HTMLImageElementPolyfill = (globalThis as any).HTMLImageElement;
+if (HTMLImageElementPolyfill && HTMLImageElementPolyfill !== ExpoImageElement) {
+  Object.setPrototypeOf(ExpoImageElement.prototype, HTMLImageElementPolyfill.prototype);
+}
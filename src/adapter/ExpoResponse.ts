@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Response and Blob implementations backed by in-memory bytes.
+ *
+ * React Native's fetch polyfill cannot build a Blob from binary data, and its
+ * Response decodes array buffers as Latin-1 text. These classes give PixiJS
+ * parsers a spec-shaped Response for bundled and local files.
+ *
+ * @module @penabt/pixi-expo/ExpoResponse
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { utf8Decode } from '../utils/encoding';
+
+// =============================================================================
+// EXPO BLOB
+// =============================================================================
+
+/**
+ * Blob-compatible wrapper around a byte array.
+ *
+ * Implements the read side of the Blob interface (size, type, arrayBuffer,
+ * bytes, text, slice), which is what PixiJS and application code use.
+ */
+export class ExpoBlob {
+  /** MIME type of the data */
+  public readonly type: string;
+
+  /** Underlying bytes */
+  private readonly _bytes: Uint8Array;
+
+  /**
+   * Create a new ExpoBlob.
+   *
+   * @param bytes - Blob contents
+   * @param type - MIME type (default: '')
+   */
+  constructor(bytes: Uint8Array, type = '') {
+    this._bytes = bytes;
+    this.type = type;
+  }
+
+  /** Size of the data in bytes */
+  get size(): number {
+    return this._bytes.byteLength;
+  }
+
+  /**
+   * Read the contents as an ArrayBuffer.
+   * @returns Promise resolving to a copy of the data
+   */
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    return this._bytes.slice().buffer as ArrayBuffer;
+  }
+
+  /**
+   * Read the contents as a byte array.
+   * @returns Promise resolving to a copy of the data
+   */
+  async bytes(): Promise<Uint8Array> {
+    return this._bytes.slice();
+  }
+
+  /**
+   * Read the contents as UTF-8 text.
+   * @returns Promise resolving to the decoded string
+   */
+  async text(): Promise<string> {
+    return utf8Decode(this._bytes);
+  }
+
+  /**
+   * Create a new blob from a byte range of this one.
+   *
+   * @param start - Start offset (default: 0)
+   * @param end - End offset, exclusive (default: size)
+   * @param contentType - MIME type of the new blob
+   * @returns New ExpoBlob
+   */
+  slice(start?: number, end?: number, contentType?: string): ExpoBlob {
+    return new ExpoBlob(this._bytes.slice(start, end), contentType ?? this.type);
+  }
+}
+
+// =============================================================================
+// EXPO RESPONSE
+// =============================================================================
+
+/** Options for creating an ExpoResponse */
+export interface ExpoResponseInit {
+  /** HTTP-like status code (default: 200) */
+  status?: number;
+  /** Status text (default: 'OK') */
+  statusText?: string;
+  /** Response URL */
+  url?: string;
+  /** Content type (default: 'application/octet-stream') */
+  contentType?: string;
+}
+
+/**
+ * Fetch Response for data read from the device.
+ *
+ * Supports text(), json(), arrayBuffer(), bytes() and blob(), each of which
+ * can be called once, like the browser implementation.
+ */
+export class ExpoResponse {
+  /** Status code */
+  public readonly status: number;
+
+  /** Status text */
+  public readonly statusText: string;
+
+  /** Response URL */
+  public readonly url: string;
+
+  /** Response headers */
+  public readonly headers: Headers;
+
+  /** Response type */
+  public readonly type: ResponseType = 'basic';
+
+  /** Whether the response was redirected (always false) */
+  public readonly redirected = false;
+
+  /** Response body bytes */
+  private readonly _bytes: Uint8Array;
+
+  /** Content type of the body */
+  private readonly _contentType: string;
+
+  /** Whether the body has been consumed */
+  private _bodyUsed = false;
+
+  /**
+   * Create a new ExpoResponse.
+   *
+   * @param bytes - Response body
+   * @param init - Status, URL and content type
+   */
+  constructor(bytes: Uint8Array, init: ExpoResponseInit = {}) {
+    this._bytes = bytes;
+    this._contentType = init.contentType ?? 'application/octet-stream';
+    this.status = init.status ?? 200;
+    this.statusText = init.statusText ?? 'OK';
+    this.url = init.url ?? '';
+    this.headers = new Headers({
+      'Content-Type': this._contentType,
+      'Content-Length': String(bytes.byteLength),
+    });
+  }
+
+  /** Whether the status is in the 200-299 range */
+  get ok(): boolean {
+    return this.status >= 200 && this.status < 300;
+  }
+
+  /** Whether the body has been read */
+  get bodyUsed(): boolean {
+    return this._bodyUsed;
+  }
+
+  /** Streaming bodies are not supported */
+  get body(): null {
+    return null;
+  }
+
+  /**
+   * Read the body as an ArrayBuffer.
+   * @returns Promise resolving to the body data
+   */
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    return this._consume().slice().buffer as ArrayBuffer;
+  }
+
+  /**
+   * Read the body as a byte array.
+   * @returns Promise resolving to the body data
+   */
+  async bytes(): Promise<Uint8Array> {
+    return this._consume().slice();
+  }
+
+  /**
+   * Read the body as UTF-8 text.
+   * @returns Promise resolving to the decoded string
+   */
+  async text(): Promise<string> {
+    return utf8Decode(this._consume());
+  }
+
+  /**
+   * Read the body as JSON.
+   * @returns Promise resolving to the parsed value
+   */
+  async json(): Promise<any> {
+    return JSON.parse(await this.text());
+  }
+
+  /**
+   * Read the body as a Blob.
+   * @returns Promise resolving to a Blob-compatible ExpoBlob
+   */
+  async blob(): Promise<ExpoBlob> {
+    return new ExpoBlob(this._consume().slice(), this._contentType);
+  }
+
+  /**
+   * Clone the response so the body can be read again.
+   *
+   * @returns New ExpoResponse with the same body
+   * @throws If the body has already been read
+   */
+  clone(): ExpoResponse {
+    if (this._bodyUsed) {
+      throw new TypeError('ExpoResponse: Cannot clone a response whose body was already read');
+    }
+
+    return new ExpoResponse(this._bytes, {
+      status: this.status,
+      statusText: this.statusText,
+      url: this.url,
+      contentType: this._contentType,
+    });
+  }
+
+  /**
+   * Mark the body as consumed and return it.
+   * @throws If the body has already been read
+   */
+  private _consume(): Uint8Array {
+    if (this._bodyUsed) {
+      throw new TypeError(`ExpoResponse: Body already read for ${this.url}`);
+    }
+    this._bodyUsed = true;
+    return this._bytes;
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Helpers for resolving bundled modules and reading device files.
+ *
+ * Bundled assets in React Native are referenced by numeric module IDs
+ * returned from require(). These helpers turn module IDs and asset URIs into
+ * local file URIs through expo-asset, and read files with expo-file-system.
+ *
+ * expo-file-system is an optional peer dependency, loaded the first time a
+ * file is read or written. Its File API needs expo-file-system 19 (Expo SDK
+ * 54) or later.
+ *
+ * @module @penabt/pixi-expo/expoFiles
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { Asset } from 'expo-asset';
+import type { File, Paths } from 'expo-file-system';
+
+// =============================================================================
+// MODULE IDS
+// =============================================================================
+
+/**
+ * Prefix for string keys that carry a require() module ID.
+ * PixiJS's Resolver converts numeric require() results to strings, so
+ * module IDs travel through PixiJS as `__expo_module_<id>`.
+ */
+export const MODULE_PREFIX = '__expo_module_';
+
+/**
+ * Build the string key for a require() module ID.
+ *
+ * @param moduleId - Module ID returned by require()
+ * @returns Key understood by the adapter and loaders
+ */
+export function toModuleKey(moduleId: number): string {
+  return `${MODULE_PREFIX}${moduleId}`;
+}
+
+/**
+ * Extract a require() module ID from a number, a numeric string or a
+ * `__expo_module_<id>` key.
+ *
+ * @param source - Value to inspect
+ * @returns The module ID, or null if the value is not one
+ */
+export function parseModuleId(source: unknown): number | null {
+  if (typeof source === 'number') {
+    return Number.isInteger(source) ? source : null;
+  }
+
+  if (typeof source !== 'string') return null;
+
+  const value = source.startsWith(MODULE_PREFIX) ? source.slice(MODULE_PREFIX.length) : source;
+
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+// =============================================================================
+// URI RESOLUTION
+// =============================================================================
+
+/**
+ * Download an expo-asset Asset and return its local URI.
+ */
+async function downloadAsset(asset: Asset, source: string | number): Promise<string> {
+  await asset.downloadAsync();
+
+  const localUri = asset.localUri || asset.uri;
+
+  if (!localUri) {
+    throw new Error(`Failed to get local URI for asset: ${source}`);
+  }
+
+  return localUri;
+}
+
+/**
+ * Resolve a require() module ID to a local file URI.
+ *
+ * @param moduleId - Module ID returned by require()
+ * @returns Promise resolving to the downloaded asset's local URI
+ */
+export function resolveModuleUri(moduleId: number): Promise<string> {
+  return downloadAsset(Asset.fromModule(moduleId), moduleId);
+}
+
+/**
+ * Resolve an `asset://` or remote URI to a local file URI.
+ *
+ * @param uri - Asset URI
+ * @returns Promise resolving to the downloaded asset's local URI
+ */
+export function resolveAssetUri(uri: string): Promise<string> {
+  return downloadAsset(Asset.fromURI(uri), uri);
+}
+
+// =============================================================================
+// FILE ACCESS
+// =============================================================================
+
+/** Exports of expo-file-system used to read and write files */
+interface FileSystemModule {
+  File: typeof File;
+  Paths: typeof Paths;
+}
+
+/** expo-file-system, once loaded; null if it isn't installed or too old */
+let fileSystemModule: FileSystemModule | null | undefined;
+
+/**
+ * Load expo-file-system.
+ *
+ * @returns The module's exports
+ * @throws If expo-file-system isn't installed or has no File API
+ */
+function loadFileSystem(): FileSystemModule {
+  if (fileSystemModule === undefined) {
+    try {
+      const fileSystem = require('expo-file-system') as Partial<FileSystemModule>;
+      fileSystemModule =
+        fileSystem.File && fileSystem.Paths ? (fileSystem as FileSystemModule) : null;
+    } catch {
+      fileSystemModule = null;
+    }
+  }
+
+  if (!fileSystemModule) {
+    throw new Error(
+      'Reading and writing files requires expo-file-system 19 (Expo SDK 54) or later. ' +
+        'Install it with `npx expo install expo-file-system`.',
+    );
+  }
+
+  return fileSystemModule;
+}
+
+/**
+ * Read a local file into memory.
+ *
+ * @param uri - `file://` URI of the file
+ * @returns Promise resolving to the file contents
+ * @throws If the file does not exist or cannot be read, or expo-file-system
+ *   isn't installed
+ */
+export async function readLocalFile(uri: string): Promise<Uint8Array> {
+  const { File } = loadFileSystem();
+  const file = new File(uri);
+
+  if (!file.exists) {
+    throw new Error(`File not found: ${uri}`);
+  }
+
+  try {
+    return await file.bytes();
+  } catch (error) {
+    throw new Error(`Failed to read file: ${uri} (${(error as Error).message ?? error})`);
+  }
+}
+
+/**
+ * Look up a file in the app's cache directory.
+ *
+ * @param fileName - Name of the file inside the cache directory
+ * @returns `file://` URI of the file, or null if it doesn't exist
+ * @throws If expo-file-system isn't installed
+ */
+export function findCacheFile(fileName: string): string | null {
+  const { File, Paths } = loadFileSystem();
+  const file = new File(Paths.cache, fileName);
+
+  return file.exists ? file.uri : null;
+}
+
+/**
+ * Write bytes to a file in the app's cache directory, replacing any
+ * existing file with the same name.
+ *
+ * @param fileName - Name of the file inside the cache directory
+ * @param bytes - File contents
+ * @returns `file://` URI of the written file
+ * @throws If expo-file-system isn't installed
+ */
+export function writeCacheFile(fileName: string, bytes: Uint8Array): string {
+  const { File, Paths } = loadFileSystem();
+  const file = new File(Paths.cache, fileName);
+
+  if (file.exists) {
+    file.delete();
+  }
+
+  file.create();
+  file.write(bytes);
+  return file.uri;
+}
+
+// =============================================================================
+// MIME TYPES
+// =============================================================================
+
+/** MIME types for file extensions PixiJS commonly loads */
+const MIME_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.xml': 'text/xml',
+  '.fnt': 'text/plain',
+  '.txt': 'text/plain',
+  '.atlas': 'text/plain',
+  '.glsl': 'text/plain',
+  '.vert': 'text/plain',
+  '.frag': 'text/plain',
+  '.wgsl': 'text/plain',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+};
+
+/**
+ * Guess a MIME type from a file URI's extension.
+ *
+ * @param uri - File URI or path
+ * @returns MIME type, or 'application/octet-stream' if unknown
+ */
+export function getMimeType(uri: string): string {
+  const cleanUri = uri.split('?')[0].split('#')[0];
+  const lastDot = cleanUri.lastIndexOf('.');
+
+  if (lastDot === -1) return 'application/octet-stream';
+
+  return MIME_TYPES[cleanUri.substring(lastDot).toLowerCase()] ?? 'application/octet-stream';
+}
@@ -0,0 +1,338 @@
+/**
+ * @fileoverview GPU capability report for expo-gl contexts.
+ *
+ * Queries limits, extensions, compressed texture support, float texture
+ * support and shader precision from a WebGL context, so apps can pick
+ * asset tiers (texture sizes, compression formats) per device.
+ *
+ * @module @penabt/pixi-expo/gpuCapabilities
+ * @author Pena Team
+ * @license MIT
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Precision of a shader float type, as reported by getShaderPrecisionFormat */
+export interface ShaderPrecision {
+  /** log2 of the minimum representable magnitude */
+  rangeMin: number;
+  /** log2 of the maximum representable magnitude */
+  rangeMax: number;
+  /** Bits of precision (0 if the type is not supported) */
+  precision: number;
+}
+
+/** Compressed texture families the context can upload */
+export interface CompressedTextureSupport {
+  /** DXT1/3/5 (desktop, some Android) */
+  s3tc: boolean;
+  /** DXT in sRGB */
+  s3tcSrgb: boolean;
+  /** ETC1 (most Android) */
+  etc1: boolean;
+  /** ETC2/EAC (OpenGL ES 3.0 devices) */
+  etc: boolean;
+  /** PVRTC (older iOS devices) */
+  pvrtc: boolean;
+  /** ASTC (modern iOS and Android) */
+  astc: boolean;
+  /** BC6H/BC7 */
+  bptc: boolean;
+  /** BC4/BC5 */
+  rgtc: boolean;
+}
+
+/** Capabilities of a device's GL context */
+export interface GPUCapabilities {
+  /** WebGL version exposed by the context */
+  webglVersion: 1 | 2;
+  /** RENDERER string */
+  renderer: string;
+  /** VENDOR string */
+  vendor: string;
+  /** Unmasked renderer (WEBGL_debug_renderer_info), if available */
+  unmaskedRenderer: string | null;
+  /** Unmasked vendor (WEBGL_debug_renderer_info), if available */
+  unmaskedVendor: string | null;
+  /** VERSION string */
+  version: string;
+  /** SHADING_LANGUAGE_VERSION string */
+  shadingLanguageVersion: string;
+  /** Largest texture width/height */
+  maxTextureSize: number;
+  /** Largest cube map face width/height */
+  maxCubeMapTextureSize: number;
+  /** Largest renderbuffer width/height */
+  maxRenderbufferSize: number;
+  /** Largest viewport [width, height] */
+  maxViewportDims: [number, number];
+  /** Texture units available to fragment shaders */
+  maxTextureUnits: number;
+  /** Texture units available to vertex shaders */
+  maxVertexTextureUnits: number;
+  /** Texture units available to all shader stages combined */
+  maxCombinedTextureUnits: number;
+  /** Vertex attributes */
+  maxVertexAttribs: number;
+  /** Vertex shader uniform vectors */
+  maxVertexUniformVectors: number;
+  /** Fragment shader uniform vectors */
+  maxFragmentUniformVectors: number;
+  /** Varying vectors */
+  maxVaryingVectors: number;
+  /** MSAA samples for renderbuffers (0 on WebGL 1) */
+  maxSamples: number;
+  /** Supported extension names */
+  extensions: string[];
+  /** Compressed texture families */
+  compressedTextures: CompressedTextureSupport;
+  /** Raw COMPRESSED_TEXTURE_FORMATS enums */
+  compressedTextureFormats: number[];
+  /** Float textures can be sampled */
+  floatTextures: boolean;
+  /** Float textures can be linearly filtered */
+  floatTexturesLinear: boolean;
+  /** Half-float textures can be sampled */
+  halfFloatTextures: boolean;
+  /** Half-float textures can be linearly filtered */
+  halfFloatTexturesLinear: boolean;
+  /** Float textures can be rendered to */
+  floatRenderTargets: boolean;
+  /** Half-float textures can be rendered to */
+  halfFloatRenderTargets: boolean;
+  /** Fragment shaders support highp floats */
+  fragmentHighp: boolean;
+  /** Fragment shader highp float precision */
+  fragmentHighpPrecision: ShaderPrecision;
+  /** Fragment shader mediump float precision */
+  fragmentMediumpPrecision: ShaderPrecision;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** WEBGL_debug_renderer_info enums */
+const UNMASKED_VENDOR_WEBGL = 0x9245;
+const UNMASKED_RENDERER_WEBGL = 0x9246;
+
+/** WebGL 2 MAX_SAMPLES */
+const MAX_SAMPLES = 0x8d57;
+
+/** Extension names per compressed family (WebGL and native GL ES names) */
+const COMPRESSED_EXTENSIONS: Record<keyof CompressedTextureSupport, string[]> = {
+  s3tc: ['WEBGL_compressed_texture_s3tc', 'EXT_texture_compression_s3tc'],
+  s3tcSrgb: ['WEBGL_compressed_texture_s3tc_srgb', 'EXT_texture_compression_s3tc_srgb'],
+  etc1: ['WEBGL_compressed_texture_etc1', 'OES_compressed_ETC1_RGB8_texture'],
+  etc: ['WEBGL_compressed_texture_etc'],
+  pvrtc: ['WEBGL_compressed_texture_pvrtc', 'IMG_texture_compression_pvrtc'],
+  astc: ['WEBGL_compressed_texture_astc', 'KHR_texture_compression_astc_ldr'],
+  bptc: ['EXT_texture_compression_bptc'],
+  rgtc: ['EXT_texture_compression_rgtc'],
+};
+
+/** Format enum ranges per compressed family ([first, last], inclusive) */
+const COMPRESSED_FORMAT_RANGES: Record<keyof CompressedTextureSupport, Array<[number, number]>> = {
+  s3tc: [[0x83f0, 0x83f3]],
+  s3tcSrgb: [[0x8c4c, 0x8c4f]],
+  etc1: [[0x8d64, 0x8d64]],
+  etc: [[0x9270, 0x9279]],
+  pvrtc: [[0x8c00, 0x8c03]],
+  astc: [
+    [0x93b0, 0x93bd],
+    [0x93d0, 0x93dd],
+  ],
+  bptc: [[0x8e8c, 0x8e8f]],
+  rgtc: [[0x8dbb, 0x8dbe]],
+};
+
+/** WebGL 2 methods PixiJS's WebGL 2 backend calls unconditionally */
+const WEBGL2_ENTRY_POINTS = [
+  'createVertexArray',
+  'bindVertexArray',
+  'drawArraysInstanced',
+  'drawElementsInstanced',
+  'drawBuffers',
+  'texImage3D',
+  'texStorage2D',
+  'blitFramebuffer',
+  'renderbufferStorageMultisample',
+];
+
+/** Precision reported when the query is unavailable */
+const UNKNOWN_PRECISION: ShaderPrecision = { rangeMin: 0, rangeMax: 0, precision: 0 };
+
+/** Reports already computed, per context */
+const reportCache = new WeakMap<object, GPUCapabilities>();
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Read a GL parameter, tolerating unsupported queries.
+ */
+function param<T>(gl: WebGLRenderingContext, name: number, fallback: T): T {
+  try {
+    const value = gl.getParameter(name);
+    return value === null || value === undefined ? fallback : (value as T);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Read a shader precision format, tolerating unsupported queries.
+ */
+function precision(gl: WebGLRenderingContext, shader: number, type: number): ShaderPrecision {
+  try {
+    const format = gl.getShaderPrecisionFormat(shader, type);
+    if (!format) return { ...UNKNOWN_PRECISION };
+    return { rangeMin: format.rangeMin, rangeMax: format.rangeMax, precision: format.precision };
+  } catch {
+    return { ...UNKNOWN_PRECISION };
+  }
+}
+
+/**
+ * Detect the WebGL version of a context.
+ *
+ * expo-gl flags the contexts it creates with `supportsWebGL2` (OpenGL ES 3
+ * or newer). Other contexts are identified by their VERSION string, falling
+ * back to the presence of WebGL 2 entry points.
+ *
+ * @param gl - WebGL context
+ * @returns 1 or 2
+ */
+export function detectWebGLVersion(gl: WebGLRenderingContext): 1 | 2 {
+  const flag = (gl as { supportsWebGL2?: unknown }).supportsWebGL2;
+  if (typeof flag === 'boolean') return flag ? 2 : 1;
+
+  const version = String(param(gl, gl.VERSION, ''));
+
+  if (/WebGL 2|OpenGL ES 3/i.test(version)) return 2;
+  if (/WebGL 1|OpenGL ES 2/i.test(version)) return 1;
+
+  return typeof (gl as unknown as WebGL2RenderingContext).texStorage2D === 'function' ? 2 : 1;
+}
+
+/**
+ * Check whether a context can be used as a WebGL 2 context.
+ *
+ * Besides the reported version, the WebGL 2 entry points PixiJS relies on
+ * (vertex arrays, instancing, multiple render targets, 3D textures) must be
+ * present.
+ *
+ * @param gl - WebGL context
+ * @returns True if PixiJS can use the WebGL 2 backend with this context
+ */
+export function supportsWebGL2(gl: WebGLRenderingContext): boolean {
+  if (detectWebGLVersion(gl) !== 2) return false;
+
+  return WEBGL2_ENTRY_POINTS.every(
+    (name) => typeof (gl as unknown as Record<string, unknown>)[name] === 'function',
+  );
+}
+
+// =============================================================================
+// CAPABILITY REPORT
+// =============================================================================
+
+/**
+ * Query the capabilities of a GL context.
+ *
+ * The report is computed once per context and cached.
+ *
+ * @param gl - WebGL context (e.g. from expo-gl's onContextCreate)
+ * @returns Capability report
+ *
+ * @example
+ * ```ts
+ * const caps = queryGPUCapabilities(gl);
+ * const atlas = caps.maxTextureSize >= 4096 ? 'atlas@4k.json' : 'atlas@2k.json';
+ * ```
+ */
+export function queryGPUCapabilities(gl: WebGLRenderingContext): GPUCapabilities {
+  const cached = reportCache.get(gl);
+  if (cached) return cached;
+
+  const webglVersion = detectWebGLVersion(gl);
+
+  let extensions: string[] = [];
+  try {
+    extensions = gl.getSupportedExtensions() ?? [];
+  } catch {
+    extensions = [];
+  }
+
+  // Native drivers report GL_-prefixed names
+  const extensionSet = new Set(extensions.map((name) => name.replace(/^(GL_|WEBKIT_)/, '')));
+  const hasExtension = (...names: string[]): boolean =>
+    names.some((name) => extensionSet.has(name));
+
+  const formats = Array.from(
+    param<ArrayLike<number>>(gl, gl.COMPRESSED_TEXTURE_FORMATS, []),
+  ) as number[];
+
+  const compressedTextures = {} as CompressedTextureSupport;
+  for (const family of Object.keys(COMPRESSED_EXTENSIONS) as Array<
+    keyof CompressedTextureSupport
+  >) {
+    compressedTextures[family] =
+      hasExtension(...COMPRESSED_EXTENSIONS[family]) ||
+      formats.some((format) =>
+        COMPRESSED_FORMAT_RANGES[family].some(([first, last]) => format >= first && format <= last),
+      );
+  }
+
+  let unmaskedRenderer: string | null = null;
+  let unmaskedVendor: string | null = null;
+  if (hasExtension('WEBGL_debug_renderer_info')) {
+    unmaskedRenderer = param<string | null>(gl, UNMASKED_RENDERER_WEBGL, null);
+    unmaskedVendor = param<string | null>(gl, UNMASKED_VENDOR_WEBGL, null);
+  }
+
+  const viewport = Array.from(param<ArrayLike<number>>(gl, gl.MAX_VIEWPORT_DIMS, [0, 0]));
+  const isWebGL2 = webglVersion === 2;
+  const fragmentHighpPrecision = precision(gl, gl.FRAGMENT_SHADER, gl.HIGH_FLOAT);
+
+  const report: GPUCapabilities = {
+    webglVersion,
+    renderer: String(param(gl, gl.RENDERER, '')),
+    vendor: String(param(gl, gl.VENDOR, '')),
+    unmaskedRenderer,
+    unmaskedVendor,
+    version: String(param(gl, gl.VERSION, '')),
+    shadingLanguageVersion: String(param(gl, gl.SHADING_LANGUAGE_VERSION, '')),
+    maxTextureSize: param(gl, gl.MAX_TEXTURE_SIZE, 0),
+    maxCubeMapTextureSize: param(gl, gl.MAX_CUBE_MAP_TEXTURE_SIZE, 0),
+    maxRenderbufferSize: param(gl, gl.MAX_RENDERBUFFER_SIZE, 0),
+    maxViewportDims: [viewport[0] ?? 0, viewport[1] ?? 0],
+    maxTextureUnits: param(gl, gl.MAX_TEXTURE_IMAGE_UNITS, 0),
+    maxVertexTextureUnits: param(gl, gl.MAX_VERTEX_TEXTURE_IMAGE_UNITS, 0),
+    maxCombinedTextureUnits: param(gl, gl.MAX_COMBINED_TEXTURE_IMAGE_UNITS, 0),
+    maxVertexAttribs: param(gl, gl.MAX_VERTEX_ATTRIBS, 0),
+    maxVertexUniformVectors: param(gl, gl.MAX_VERTEX_UNIFORM_VECTORS, 0),
+    maxFragmentUniformVectors: param(gl, gl.MAX_FRAGMENT_UNIFORM_VECTORS, 0),
+    maxVaryingVectors: param(gl, gl.MAX_VARYING_VECTORS, 0),
+    maxSamples: isWebGL2 ? param(gl, MAX_SAMPLES, 0) : 0,
+    extensions,
+    compressedTextures,
+    compressedTextureFormats: formats,
+    // WebGL 2 can always sample float and half-float textures
+    floatTextures: isWebGL2 || hasExtension('OES_texture_float'),
+    floatTexturesLinear: hasExtension('OES_texture_float_linear'),
+    halfFloatTextures: isWebGL2 || hasExtension('OES_texture_half_float'),
+    halfFloatTexturesLinear: isWebGL2 || hasExtension('OES_texture_half_float_linear'),
+    floatRenderTargets: hasExtension('EXT_color_buffer_float', 'WEBGL_color_buffer_float'),
+    halfFloatRenderTargets: hasExtension('EXT_color_buffer_half_float', 'EXT_color_buffer_float'),
+    fragmentHighp: fragmentHighpPrecision.precision > 0,
+    fragmentHighpPrecision,
+    fragmentMediumpPrecision: precision(gl, gl.FRAGMENT_SHADER, gl.MEDIUM_FLOAT),
+  };
+
+  reportCache.set(gl, report);
+  return report;
+}
@@ -18,13 +18,32 @@ export {
   ExpoAdapter,
   /** Activate GL context from expo-gl */
   setActiveGLContext,
+  /** Replace a view's lost GL context */
+  restoreGLContext,
   /** Get the currently active canvas */
   getActiveCanvas,
   /** Get the currently active GL context */
   getActiveGL,
   /** Clear active context on unmount */
   clearActiveContext,
+  /** Generate a unique view id for the context registry */
+  createViewId,
+  /** Make a registered view the active one */
+  activateViewContext,
+  /** Get the registered context of a view */
+  getViewContext,
+  /** Get the GPU capabilities of a view's GL context */
+  getGPUCapabilities,
 } from './ExpoAdapter';
+export type { ExpoViewContext } from './ExpoAdapter';
+
+// =============================================================================
+// GPU CAPABILITIES
+// Limits, extensions and texture format support of a GL context.
+// =============================================================================
+
+export { queryGPUCapabilities, detectWebGLVersion, supportsWebGL2 } from './gpuCapabilities';
+export type { GPUCapabilities, CompressedTextureSupport, ShaderPrecision } from './gpuCapabilities';
 
 // =============================================================================
 // EXPO CANVAS ELEMENT
@@ -33,12 +52,33 @@ export {
 
 export { ExpoCanvasElement } from './ExpoCanvasElement';
 
+// =============================================================================
+// EXPO IMAGE ELEMENT
+// HTMLImageElement implementation backed by expo-asset.
+// =============================================================================
+
+export { ExpoImageElement } from './ExpoImageElement';
+
+// =============================================================================
+// FETCH RESPONSE
+// Response/Blob implementations for local and bundled resources.
+// =============================================================================
+
+export { ExpoResponse, ExpoBlob } from './ExpoResponse';
+
+// =============================================================================
+// FILE READER
+// FileReader that reads ExpoBlob, installed as the global FileReader.
+// =============================================================================
+
+export { ExpoFileReader } from './ExpoFileReader';
+
 // =============================================================================
 // POLYFILL UTILITIES
 // Functions for dispatching events to polyfilled globals.
 // =============================================================================
 
-export { dispatchWindowEvent } from './polyfills';
+export { dispatchWindowEvent, scopeWindowListeners } from './polyfills';
 
 // =============================================================================
 // NOTES
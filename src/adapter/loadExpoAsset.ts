@@ -11,13 +11,12 @@
 import { Asset } from 'expo-asset';
 import { Image } from 'react-native';
 import { ExtensionType, Texture, ImageSource, LoaderParserPriority } from 'pixi.js';
+import { MODULE_PREFIX, toModuleKey } from './expoFiles';
 
 import type { LoaderParser, ResolvedAsset } from 'pixi.js';
 
 const validImageExtensions = ['.png', '.jpg', '.jpeg', '.webp', '.gif'];
 
-const MODULE_PREFIX = '__expo_module_';
-
 /**
  * Registry mapping stringified keys to original require() module IDs.
  * PixiJS's Resolver converts numeric require() results to strings,
@@ -69,7 +68,7 @@ export async function loadTexture(source: number | string): Promise<Texture> {
   const { Assets } = await import('pixi.js');
 
   if (typeof source === 'number') {
-    const key = `${MODULE_PREFIX}${source}`;
+    const key = toModuleKey(source);
     moduleIdRegistry.set(key, source);
     return Assets.load(key);
   }
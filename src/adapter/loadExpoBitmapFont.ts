@@ -0,0 +1,207 @@
+/**
+ * Expo BitmapFont Loader for PixiJS
+ *
+ * Loads BMFont descriptors (.fnt/.xml in text, XML or binary form) from
+ * require() modules, local files and URLs, then loads their page images and
+ * builds a BitmapFont. Loaded fonts are cached under their font family, so
+ * BitmapText picks them up through `style.fontFamily`.
+ *
+ * PixiJS's built-in loadBitmapFont resolves page images against the
+ * document base URL, which doesn't exist in React Native. This loader
+ * resolves pages next to the descriptor's bundled or downloaded location,
+ * or from an explicit `pages` map of require() modules.
+ */
+
+import { Asset } from 'expo-asset';
+import { BitmapFont, DOMAdapter, ExtensionType, LoaderParserPriority } from 'pixi.js';
+import { parseModuleId, toModuleKey } from './expoFiles';
+import { loadTexture } from './loadExpoAsset';
+import { parseBMFont } from '../text/parseBMFont';
+
+import type { LoaderParser, ResolvedAsset, Texture } from 'pixi.js';
+
+const validBitmapFontExtensions = ['.fnt', '.xml'];
+
+/**
+ * BitmapFont loading data interface
+ */
+export interface BitmapFontLoadData {
+  /**
+   * Page images by the file name used in the descriptor, as require()
+   * module IDs or URLs. Pages not listed here are resolved next to the
+   * descriptor.
+   */
+  pages?: Record<string, number | string>;
+}
+
+/**
+ * Texture sources loaded for each font, released when the font is unloaded
+ */
+const pageSources = new WeakMap<BitmapFont, Array<number | string>>();
+
+/**
+ * Get file extension from a URL or path
+ */
+function getExtension(url: string): string {
+  const cleanUrl = url.split('?')[0].split('#')[0];
+  const lastDot = cleanUrl.lastIndexOf('.');
+
+  if (lastDot === -1) return '';
+
+  return cleanUrl.substring(lastDot).toLowerCase();
+}
+
+/**
+ * Get the file name part of a path
+ */
+function getFileName(path: string): string {
+  return path.substring(Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')) + 1);
+}
+
+/**
+ * Resolve a file name against the directory of a URL, keeping its query.
+ */
+function resolveSibling(baseUrl: string, file: string): string {
+  const queryStart = baseUrl.search(/[?#]/);
+  const path = queryStart === -1 ? baseUrl : baseUrl.substring(0, queryStart);
+  let query = queryStart === -1 ? '' : baseUrl.substring(queryStart);
+
+  // The Metro asset server identifies assets by path; the hash belongs to the descriptor
+  query = query.replace(/([?&])hash=[^&#]*&?/, '$1').replace(/[?&]$/, '');
+
+  return `${path.substring(0, path.lastIndexOf('/') + 1)}${file}${query}`;
+}
+
+/**
+ * Get the URL that sibling page images are resolved against.
+ *
+ * Bundled modules use their packager or bundle URI rather than the
+ * downloaded copy, which lives in the cache under a hashed name.
+ */
+function getDescriptorBaseUrl(url: string): string {
+  const moduleId = parseModuleId(url);
+
+  if (moduleId === null) return url;
+
+  const { uri } = Asset.fromModule(moduleId);
+
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(uri)) {
+    throw new Error(
+      `Cannot resolve BitmapFont pages next to bundled module ${moduleId} (${uri}); ` +
+        'pass them as data.pages instead',
+    );
+  }
+
+  return uri;
+}
+
+/**
+ * Load a BitmapFont from a require() module ID or string URL.
+ *
+ * ```ts
+ * import { loadBitmapFont, BitmapText } from '@penabt/pixi-expo';
+ *
+ * await loadBitmapFont(require('./assets/fonts/desyrel.fnt'));
+ * const text = new BitmapText({ text: 'Hello', style: { fontFamily: 'Desyrel' } });
+ * ```
+ *
+ * @param source - require() module ID or URL of the .fnt/.xml descriptor
+ * @param data - Optional page image overrides
+ * @returns Promise resolving to the installed BitmapFont
+ */
+export async function loadBitmapFont(
+  source: number | string,
+  data?: BitmapFontLoadData,
+): Promise<BitmapFont> {
+  // Lazy import to avoid circular dependency issues with initialization order
+  const { Assets } = await import('pixi.js');
+
+  const src = typeof source === 'number' ? toModuleKey(source) : source;
+
+  return Assets.load<BitmapFont>({ src, parser: 'loadExpoBitmapFont', data });
+}
+
+/**
+ * Expo BitmapFont Loader
+ *
+ * Registered at High priority to run before PixiJS's built-in
+ * loadBitmapFont parser, which cannot resolve page images in React Native
+ * and does not read binary descriptors.
+ */
+export const loadExpoBitmapFont = {
+  extension: {
+    type: ExtensionType.LoadParser,
+    priority: LoaderParserPriority.High,
+    name: 'loadExpoBitmapFont',
+  },
+
+  name: 'loadExpoBitmapFont',
+
+  /**
+   * Test if this loader can handle the given URL.
+   * require() modules are routed here by loadBitmapFont.
+   */
+  test(url: string): boolean {
+    return validBitmapFontExtensions.includes(getExtension(url));
+  },
+
+  /**
+   * Load a descriptor, its page textures, and build the BitmapFont
+   */
+  async load(url: string, asset?: ResolvedAsset<BitmapFontLoadData>): Promise<BitmapFont> {
+    try {
+      const response = await DOMAdapter.get().fetch(url);
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      const fontData = parseBMFont(bytes);
+
+      const overrides = asset?.data?.pages ?? {};
+      let baseUrl: string | null = null;
+
+      const sources = fontData.pages.map((page) => {
+        const override = overrides[page.file] ?? overrides[getFileName(page.file)];
+        if (override !== undefined) return override;
+
+        baseUrl ??= getDescriptorBaseUrl(url);
+        return resolveSibling(baseUrl, page.file);
+      });
+
+      const loaded = await Promise.all(sources.map((source) => loadTexture(source)));
+
+      // BitmapFont looks pages up by id
+      const textures: Texture[] = [];
+      fontData.pages.forEach((page, index) => {
+        textures[page.id] = loaded[index];
+      });
+
+      if (fontData.distanceField && fontData.distanceField.type !== 'none') {
+        for (const texture of loaded) {
+          texture.source.scaleMode = 'linear';
+        }
+      }
+
+      const font = new BitmapFont({ data: fontData, textures }, url);
+      pageSources.set(font, sources);
+
+      return font;
+    } catch (error) {
+      console.error(`Failed to load bitmap font: ${url}`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Unload a BitmapFont and its page textures
+   */
+  async unload(font: BitmapFont): Promise<void> {
+    const { Assets } = await import('pixi.js');
+    const sources = pageSources.get(font) ?? [];
+
+    await Assets.unload(
+      sources.map((source) => (typeof source === 'number' ? toModuleKey(source) : source)),
+    );
+    font.destroy();
+  },
+} as LoaderParser<BitmapFont>;
+
+// Note: Registration is done in index.ts after DOMAdapter is set
+// extensions.add(loadExpoBitmapFont);
@@ -4,18 +4,32 @@
  * This extension uses expo-font to load fonts in React Native.
  * Fonts loaded with this extension can be used with PixiJS Text objects.
  *
- * Note: For best results with PixiJS, consider using BitmapFont instead
- * of dynamic text rendering, as expo-gl doesn't have 2D canvas context.
+ * TTF and OTF files are also parsed and registered for text measurement
+ * and glyph rendering, so PixiJS's CanvasTextMetrics lays out text with the
+ * font's real advances, kerning, ascent and descent, and the software 2D
+ * context can rasterize Text and BitmapText glyphs from the outlines.
+ *
+ * Set `data.bitmapFont` to also install a BitmapFont for the family up front;
+ * glyphs outside the installed character set are still generated on demand.
  */
 
 import * as Font from 'expo-font';
 import { Asset } from 'expo-asset';
-import { ExtensionType } from 'pixi.js';
+import { BitmapFont, CanvasTextMetrics, ExtensionType, TextStyle } from 'pixi.js';
+import { readLocalFile, resolveModuleUri } from './expoFiles';
+import { OpenTypeFont } from '../text/OpenTypeFont';
+import { registerFont } from '../text/fontMetrics';
 
-import type { LoaderParser, ResolvedAsset } from 'pixi.js';
+import type { BitmapFontInstallOptions, LoaderParser, ResolvedAsset } from 'pixi.js';
 
 const validFontExtensions = ['.ttf', '.otf', '.woff', '.woff2'];
 
+/**
+ * Options for the BitmapFont generated from a loaded font file.
+ * The font name and `style.fontFamily` are always the loaded family.
+ */
+export type ExpoBitmapFontOptions = Omit<BitmapFontInstallOptions, 'name'>;
+
 /**
  * Font loading data interface
  */
@@ -26,6 +40,8 @@ interface FontLoadData {
   weights?: string[];
   /** Font style (normal, italic) */
   style?: string;
+  /** Install a BitmapFont named after the family once the font is loaded */
+  bitmapFont?: boolean | ExpoBitmapFontOptions;
 }
 
 /**
@@ -69,6 +85,54 @@ function isModuleId(url: any): url is number {
   return typeof url === 'number';
 }
 
+/**
+ * Parse a loaded font file and register it for text measurement.
+ * Failures are logged: the font still renders, measurement falls back to estimates.
+ */
+async function registerFontMetrics(
+  familyName: string,
+  localUri: string,
+  data?: FontLoadData,
+): Promise<OpenTypeFont | null> {
+  try {
+    const font = OpenTypeFont.parse(await readLocalFile(localUri));
+    const weights = data?.weights?.length ? data.weights : [undefined];
+
+    for (const weight of weights) {
+      registerFont(familyName, font, { weight, style: data?.style });
+    }
+
+    // Drop font metrics measured before this font was available. Font
+    // strings name the size and weight too, so clear them all
+    CanvasTextMetrics.clearMetrics('');
+
+    return font;
+  } catch (error) {
+    console.warn(`Font metrics unavailable for ${familyName}: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Install a BitmapFont whose glyphs are rasterized from the registered outlines.
+ */
+function installBitmapFont(
+  familyName: string,
+  font: OpenTypeFont,
+  options: boolean | ExpoBitmapFontOptions,
+): void {
+  if (!font.hasOutlines) {
+    console.warn(`BitmapFont not generated for ${familyName}: the font has no readable outlines`);
+    return;
+  }
+
+  const { style, ...installOptions } = options === true ? {} : (options as ExpoBitmapFontOptions);
+  const textStyle = style instanceof TextStyle ? style.clone() : new TextStyle(style);
+  textStyle.fontFamily = familyName;
+
+  BitmapFont.install({ ...installOptions, name: familyName, style: textStyle });
+}
+
 /**
  * Expo Font Loader
  *
@@ -102,15 +166,18 @@ export const loadExpoFont = {
 
     try {
       let fontSource: any;
+      let localUri: string | null;
 
       if (isModuleId(url)) {
         // Handle require() module ID
         fontSource = url;
+        localUri = await resolveModuleUri(url);
       } else {
         // Handle URL - need to download first using expo-asset
         const expoAsset = Asset.fromURI(url as string);
         await expoAsset.downloadAsync();
         fontSource = expoAsset.localUri || url;
+        localUri = expoAsset.localUri;
       }
 
       // Load font using expo-font
@@ -118,6 +185,20 @@ export const loadExpoFont = {
         [familyName]: fontSource,
       });
 
+      // Register metrics and outlines (WOFF files are compressed)
+      let parsed: OpenTypeFont | null = null;
+      if (localUri?.startsWith('file://') && !getExtension(localUri).startsWith('.woff')) {
+        parsed = await registerFontMetrics(familyName, localUri, asset?.data);
+      }
+
+      if (asset?.data?.bitmapFont) {
+        if (parsed) {
+          installBitmapFont(familyName, parsed, asset.data.bitmapFont);
+        } else {
+          console.warn(`BitmapFont not generated for ${familyName}: the font file is not readable`);
+        }
+      }
+
       console.log(`Font loaded: ${familyName}`);
 
       // Return the font family name
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { dispatchWindowEvent, scopeWindowListeners } from './polyfills';
+import 'pixi.js/events';
+import { Container, EventSystem, Rectangle } from 'pixi.js';
+
+vi.mock('react-native', () => ({
+  Dimensions: {
+    get: () => ({ width: 400, height: 800, scale: 1, fontScale: 1 }),
+    addEventListener: () => ({ remove: () => {} }),
+  },
+  PixelRatio: { get: () => 1 },
+}));
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Views created by a test, destroyed after it */
+const views: EventSystem[] = [];
+
+/**
+ * Set up a view like PixiView does: an EventSystem on its own canvas, with
+ * its window listeners scoped to the view id, and a box at (0, 0, 100, 100).
+ */
+function createView(viewId: string) {
+  const canvasListeners: Record<string, (event: any) => void> = {};
+  const canvas = {
+    width: 100,
+    height: 100,
+    style: {},
+    isConnected: false,
+    addEventListener: (type: string, listener: (event: any) => void) => {
+      canvasListeners[type] = listener;
+    },
+    removeEventListener: () => {},
+  };
+
+  const stage = new Container();
+  const box = new Container();
+  box.eventMode = 'static';
+  box.hitArea = new Rectangle(0, 0, 100, 100);
+  stage.addChild(box);
+
+  const events = new EventSystem({ lastObjectRendered: stage } as any);
+  scopeWindowListeners(viewId, () => events.setTargetElement(canvas as any));
+  views.push(events);
+
+  const received: string[] = [];
+  for (const type of ['pointerdown', 'pointermove', 'pointerup', 'pointerupoutside']) {
+    box.on(type, () => received.push(type));
+  }
+
+  return { canvas, canvasListeners, received };
+}
+
+/**
+ * Create a pointer event the way PixiView forwards one.
+ */
+function pointerEvent(type: string, target: unknown) {
+  const PointerEventConstructor = (globalThis as any).PointerEvent;
+  return new PointerEventConstructor(type, { clientX: 50, clientY: 50, target });
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('scoped window listeners', () => {
+  afterEach(() => {
+    views.splice(0).forEach((events) => events.setTargetElement(null as any));
+  });
+
+  it('delivers window pointer events only to the view that dispatched them', () => {
+    const a = createView('view-a');
+    const b = createView('view-b');
+
+    a.canvasListeners.pointerdown(pointerEvent('pointerdown', a.canvas));
+    dispatchWindowEvent(pointerEvent('pointermove', a.canvas), 'view-a');
+    dispatchWindowEvent(pointerEvent('pointerup', a.canvas), 'view-a');
+
+    expect(a.received).toEqual(['pointerdown', 'pointermove', 'pointerup']);
+    expect(b.received).toEqual([]);
+  });
+
+  it('still delivers unscoped events to every listener', () => {
+    const a = createView('view-a');
+    const b = createView('view-b');
+
+    dispatchWindowEvent(pointerEvent('pointermove', a.canvas));
+
+    expect(a.received).toEqual(['pointermove']);
+    expect(b.received).toEqual(['pointermove']);
+  });
+
+  it('delivers scoped events to listeners added outside any scope', () => {
+    const listener = vi.fn();
+    (globalThis as any).window.addEventListener('resize', listener);
+
+    dispatchWindowEvent({ type: 'resize' }, 'view-a');
+    (globalThis as any).window.removeEventListener('resize', listener);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -13,24 +13,39 @@
  * - globalThis.addEventListener / removeEventListener / dispatchEvent
  * - globalThis.document (createElement, body, head, etc.)
  * - globalThis.window (navigator, location, devicePixelRatio, etc.)
+ * - window/screen metrics kept in sync with Dimensions and PixelRatio, with
+ *   'resize' and 'orientationchange' events
  * - Partial HTMLCanvasElement, HTMLImageElement support
+ * - globalThis.FileReader that can read ExpoBlob (canvas.toBlob, fetch)
  *
  * @remarks
  * These polyfills are intentionally minimal. They provide just enough
  * functionality for PixiJS to initialize and run, but not full browser
- * compatibility. Features like Canvas 2D context are not supported.
+ * compatibility. Canvas 2D is provided by the offscreen canvases from
+ * ExpoAdapter.createCanvas, not by document.createElement('canvas').
  */
 
+import { Dimensions, PixelRatio } from 'react-native';
+import { ExpoFileReader } from './ExpoFileReader';
+
 // =============================================================================
 // ANIMATION FRAME POLYFILLS
 // React Native usually provides these, but we ensure they exist.
 // =============================================================================
 
+/** Frame interval of the fallback requestAnimationFrame (60 Hz) */
+const FALLBACK_FRAME_INTERVAL = 1000 / 60;
+
 if (typeof globalThis.requestAnimationFrame === 'undefined') {
   globalThis.requestAnimationFrame = function requestAnimationFrame(
     callback: FrameRequestCallback,
   ): number {
-    return setTimeout(() => callback(Date.now()), 1000 / 60) as unknown as number;
+    // Fire on a fixed 60 Hz grid, so callbacks requested in the same frame
+    // run together, with performance.now() timestamps like the native rAF
+    const now = performance.now();
+    const delay = FALLBACK_FRAME_INTERVAL - (now % FALLBACK_FRAME_INTERVAL);
+
+    return setTimeout(() => callback(performance.now()), delay) as unknown as number;
   };
 }
 
@@ -131,7 +146,7 @@ const createMockElement = (tagName: string) => {
   const element: any = {
     tagName: tagName.toUpperCase(),
     style: createMockStyle(),
-    getContext: () => null, // Canvas 2D not supported - use WebGL via expo-gl
+    getContext: () => null, // Use DOMAdapter.get().createCanvas() for a 2D context
     width: 0,
     height: 0,
     addEventListener: () => {},
@@ -255,6 +270,12 @@ if (typeof globalThis.document === 'undefined') {
 // Window event listeners storage (separate from global)
 const windowListeners = new Map<string, Set<any>>();
 
+/** Scope of listeners added inside scopeWindowListeners, by listener */
+const listenerScopes = new WeakMap<object, string>();
+
+/** Scope given to listeners added right now, or null outside scopeWindowListeners */
+let registrationScope: string | null = null;
+
 /**
  * Add event listener to window.
  */
@@ -263,6 +284,9 @@ function windowAddEventListener(type: string, listener: any, _options?: any): vo
     windowListeners.set(type, new Set());
   }
   windowListeners.get(type)!.add(listener);
+  if (registrationScope !== null && listener) {
+    listenerScopes.set(listener, registrationScope);
+  }
   if (__DEV__) {
     console.log(`[Window] addEventListener: ${type}, total: ${windowListeners.get(type)!.size}`);
   }
@@ -282,11 +306,40 @@ function windowRemoveEventListener(type: string, listener?: any, _options?: any)
   }
 }
 
+/**
+ * Run a function that adds window listeners, tagging them with a scope.
+ *
+ * Every PixiView shares the one polyfilled window, and PixiJS's EventSystem
+ * listens there for pointermove and pointerup. PixiView adds those listeners
+ * under its view id, so events it dispatches with that id skip the listeners
+ * of other views.
+ *
+ * @param scope - Scope of the listeners, usually a view id
+ * @param register - Function that adds the listeners
+ * @returns The result of register
+ */
+export function scopeWindowListeners<T>(scope: string, register: () => T): T {
+  const previous = registrationScope;
+  registrationScope = scope;
+  try {
+    return register();
+  } finally {
+    registrationScope = previous;
+  }
+}
+
 /**
  * Dispatch an event to window listeners.
  * This is used by PixiView to forward touch events.
+ *
+ * @param event - Event to dispatch
+ * @param scope - Only call unscoped listeners and those added under this scope
+ * @returns Whether any listener was registered for the event type
  */
-export function dispatchWindowEvent(event: { type: string; [key: string]: any }): boolean {
+export function dispatchWindowEvent(
+  event: { type: string; [key: string]: any },
+  scope?: string,
+): boolean {
   const listeners = windowListeners.get(event.type);
 
   if (__DEV__) {
@@ -299,6 +352,10 @@ export function dispatchWindowEvent(event: { type: string; [key: string]: any })
 
   const listenersCopy = [...listeners];
   listenersCopy.forEach((listener) => {
+    const listenerScope = listener ? listenerScopes.get(listener) : undefined;
+    if (scope !== undefined && listenerScope !== undefined && listenerScope !== scope) {
+      return;
+    }
     try {
       if (typeof listener === 'function') {
         listener(event);
@@ -347,7 +404,7 @@ if (typeof globalThis.window === 'undefined') {
     requestAnimationFrame: globalThis.requestAnimationFrame,
     cancelAnimationFrame: globalThis.cancelAnimationFrame,
 
-    // Display properties
+    // Display properties (updated from Dimensions by syncWindowMetrics)
     devicePixelRatio: 1,
     innerWidth: 0,
     innerHeight: 0,
@@ -389,6 +446,77 @@ if (typeof globalThis.window === 'undefined') {
 (globalThis as any).removeEventListener = windowRemoveEventListener;
 (globalThis as any).dispatchEvent = dispatchWindowEvent;
 
+// =============================================================================
+// WINDOW METRICS
+// Keep window and screen sizes in sync with Dimensions and PixelRatio.
+// =============================================================================
+
+/** Orientation of the window, as reported by screen.orientation */
+type OrientationType = 'portrait-primary' | 'landscape-primary';
+
+/** Metrics last written to the window */
+let windowMetrics = { width: -1, height: -1, devicePixelRatio: -1, orientation: '' };
+
+/**
+ * Write the current Dimensions and PixelRatio to window and window.screen.
+ *
+ * React Native reports no rotation direction, so landscape is always
+ * 'landscape-primary' with window.orientation 90.
+ *
+ * @returns Which metrics changed since the last sync
+ */
+function syncWindowMetrics(): { resized: boolean; rotated: boolean } {
+  const win = (globalThis as any).window;
+  const { width, height } = Dimensions.get('window');
+  const screenSize = Dimensions.get('screen');
+  const devicePixelRatio = PixelRatio.get();
+  const orientation: OrientationType = width > height ? 'landscape-primary' : 'portrait-primary';
+  const angle = orientation === 'landscape-primary' ? 90 : 0;
+
+  const previous = windowMetrics;
+  windowMetrics = { width, height, devicePixelRatio, orientation };
+
+  win.devicePixelRatio = devicePixelRatio;
+  win.innerWidth = width;
+  win.innerHeight = height;
+  win.outerWidth = width;
+  win.outerHeight = height;
+  win.orientation = angle;
+  win.screen = {
+    ...win.screen,
+    width: screenSize.width,
+    height: screenSize.height,
+    availWidth: width,
+    availHeight: height,
+    colorDepth: 24,
+    pixelDepth: 24,
+    orientation: { ...win.screen?.orientation, type: orientation, angle },
+  };
+
+  return {
+    resized:
+      previous.width !== width ||
+      previous.height !== height ||
+      previous.devicePixelRatio !== devicePixelRatio,
+    rotated: previous.orientation !== '' && previous.orientation !== orientation,
+  };
+}
+
+syncWindowMetrics();
+
+// Dispatch like a browser: 'resize' for any size or density change,
+// 'orientationchange' when portrait and landscape swap
+Dimensions.addEventListener('change', () => {
+  const { resized, rotated } = syncWindowMetrics();
+
+  if (rotated) {
+    dispatchWindowEvent({ type: 'orientationchange', target: (globalThis as any).window });
+  }
+  if (resized) {
+    dispatchWindowEvent({ type: 'resize', target: (globalThis as any).window });
+  }
+});
+
 // =============================================================================
 // HTML ELEMENT CONSTRUCTOR POLYFILLS
 // PixiJS checks for these constructors to determine environment capabilities.
@@ -567,6 +695,14 @@ if (!('ontouchend' in globalThis)) {
   (globalThis as any).ontouchend = null;
 }
 
+// =============================================================================
+// FILE READER POLYFILL
+// React Native's FileReader can't read ExpoBlob; PixiJS extract.base64() needs it.
+// =============================================================================
+
+// Always override: ExpoFileReader hands non-ExpoBlob reads to the native reader
+(globalThis as any).FileReader = ExpoFileReader;
+
 // =============================================================================
 // LOGGING
 // Confirm polyfills are loaded (useful for debugging).
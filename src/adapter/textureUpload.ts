@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Texture upload bridge for software-rendered pixel sources.
+ *
+ * PixiJS uploads canvases with `texImage2D(target, level, format, format,
+ * type, canvas)`. expo-gl only understands typed arrays and objects with a
+ * `localUri`, so this bridge rewrites uploads of offscreen canvases and
+ * ImageData into the typed-array form.
+ *
+ * @module @penabt/pixi-expo/textureUpload
+ * @author Pena Team
+ * @license MIT
+ */
+
+import type { ExpoWebGLRenderingContext } from 'expo-gl';
+import type { PixelData } from '../canvas/paint';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** WebGL UNPACK_PREMULTIPLY_ALPHA_WEBGL (not handled by expo-gl natively) */
+const UNPACK_PREMULTIPLY_ALPHA_WEBGL = 0x9241;
+
+/** Marker set on contexts that already have the bridge installed */
+const BRIDGE_MARKER = '__pixiExpoUploadBridge';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Get the pixels of an upload source, if it is a software pixel source.
+ *
+ * @param source - texImage2D/texSubImage2D source argument
+ * @returns Pixel data, or null for sources expo-gl handles itself
+ */
+function getPixelSource(source: any): PixelData | null {
+  if (!source || typeof source !== 'object' || ArrayBuffer.isView(source)) return null;
+
+  if (typeof source.getPixelData === 'function') {
+    return source.getPixelData();
+  }
+
+  if (
+    (source.data instanceof Uint8ClampedArray || source.data instanceof Uint8Array) &&
+    source.data.length === source.width * source.height * 4
+  ) {
+    return source;
+  }
+
+  return null;
+}
+
+/**
+ * Convert pixels to the bytes expo-gl uploads.
+ *
+ * @param pixels - Straight-alpha RGBA pixels
+ * @param premultiply - Whether UNPACK_PREMULTIPLY_ALPHA_WEBGL is set
+ */
+function toUploadBytes(pixels: PixelData, premultiply: boolean): Uint8Array {
+  const { data } = pixels;
+
+  if (!premultiply) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  const bytes = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3];
+    bytes[i] = (data[i] * alpha + 127) / 255;
+    bytes[i + 1] = (data[i + 1] * alpha + 127) / 255;
+    bytes[i + 2] = (data[i + 2] * alpha + 127) / 255;
+    bytes[i + 3] = alpha;
+  }
+  return bytes;
+}
+
+// =============================================================================
+// BRIDGE INSTALLATION
+// =============================================================================
+
+/**
+ * Wrap texImage2D, texSubImage2D and pixelStorei of an expo-gl context so
+ * that offscreen canvases and ImageData can be uploaded as textures.
+ *
+ * Safe to call more than once per context.
+ *
+ * @param gl - expo-gl WebGL context
+ */
+export function installTextureUploadBridge(gl: ExpoWebGLRenderingContext): void {
+  const target = gl as any;
+  if (target[BRIDGE_MARKER]) return;
+  target[BRIDGE_MARKER] = true;
+
+  const texImage2D = target.texImage2D.bind(gl);
+  const texSubImage2D = target.texSubImage2D.bind(gl);
+  const pixelStorei = target.pixelStorei.bind(gl);
+  let premultiplyAlpha = false;
+
+  target.pixelStorei = (pname: number, param: number | boolean): void => {
+    // expo-gl logs an error for this parameter, so it is applied in JS instead
+    if (pname === UNPACK_PREMULTIPLY_ALPHA_WEBGL) {
+      premultiplyAlpha = Boolean(param);
+      return;
+    }
+    pixelStorei(pname, param);
+  };
+
+  target.texImage2D = (...args: any[]): void => {
+    // texImage2D(target, level, internalformat, format, type, source)
+    if (args.length === 6) {
+      const pixels = getPixelSource(args[5]);
+      if (pixels) {
+        const [glTarget, level, internalFormat, format, type] = args;
+        texImage2D(
+          glTarget,
+          level,
+          internalFormat,
+          pixels.width,
+          pixels.height,
+          0,
+          format,
+          type,
+          toUploadBytes(pixels, premultiplyAlpha),
+        );
+        return;
+      }
+    }
+
+    // texImage2D(target, level, internalformat, width, height, border, format, type, source)
+    if (args.length === 9) {
+      const pixels = getPixelSource(args[8]);
+      if (pixels) {
+        args[8] = toUploadBytes(pixels, premultiplyAlpha);
+      }
+    }
+
+    texImage2D(...args);
+  };
+
+  target.texSubImage2D = (...args: any[]): void => {
+    // texSubImage2D(target, level, xoffset, yoffset, format, type, source)
+    if (args.length === 7) {
+      const pixels = getPixelSource(args[6]);
+      if (pixels) {
+        const [glTarget, level, xOffset, yOffset, format, type] = args;
+        texSubImage2D(
+          glTarget,
+          level,
+          xOffset,
+          yOffset,
+          pixels.width,
+          pixels.height,
+          format,
+          type,
+          toUploadBytes(pixels, premultiplyAlpha),
+        );
+        return;
+      }
+    }
+
+    // texSubImage2D(target, level, xoffset, yoffset, width, height, format, type, source)
+    if (args.length === 9) {
+      const pixels = getPixelSource(args[8]);
+      if (pixels) {
+        args[8] = toUploadBytes(pixels, premultiplyAlpha);
+      }
+    }
+
+    texSubImage2D(...args);
+  };
+}
@@ -0,0 +1,1523 @@
+/**
+ * @fileoverview Software CanvasRenderingContext2D for offscreen canvases.
+ *
+ * expo-gl only provides WebGL, but PixiJS draws gradients, patterns, text
+ * and CanvasSource textures through a 2D context. This context rasterizes
+ * into a plain RGBA buffer in TypeScript; the buffer is then uploaded as a
+ * texture through expo-gl (see adapter/textureUpload).
+ *
+ * @module @penabt/pixi-expo/canvas/ExpoCanvasRenderingContext2D
+ * @author Pena Team
+ * @license MIT
+ *
+ * @description
+ * Supported:
+ * - Paths (lines, curves, arcs, ellipses, rects, round rects) and Path2D
+ * - fill / stroke / clip with nonzero and evenodd rules, anti-aliased
+ * - Line width, caps, joins, miter limit and dashes
+ * - Solid colors, linear/radial/conic gradients and patterns
+ * - Transforms, save/restore, globalAlpha and Porter-Duff composite modes
+ * - drawImage from canvases and ImageData-like sources
+ * - createImageData / getImageData / putImageData
+ * - fillText / strokeText with fonts registered in text/fontMetrics
+ *
+ * Not supported: shadows, filters and non-Porter-Duff blend modes. Text in
+ * unregistered fonts is measured with an estimate but not rendered.
+ */
+
+import { ExpoPath2D, type Subpath } from './ExpoPath2D';
+import { ExpoImageData } from './ExpoImageData';
+import { ExpoCanvasGradient, ExpoCanvasPattern, type PaintSampler, type PixelData } from './paint';
+import { parseColor } from './parseColor';
+import { rasterize, type FillRule } from './rasterizer';
+import { strokeSubpaths, type StrokeOptions } from './stroke';
+import { measureTextWithFont, parseFontString, resolveFont } from '../text/fontMetrics';
+import {
+  type Matrix2D,
+  identityMatrix,
+  invertMatrix,
+  isIdentityMatrix,
+  matrixScale,
+  multiplyMatrix,
+} from './matrix';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Canvas owning a context (an offscreen ExpoCanvasElement) */
+export interface Canvas2DOwner {
+  /** Width in pixels */
+  readonly width: number;
+  /** Height in pixels */
+  readonly height: number;
+}
+
+/** Fill or stroke paint */
+type Paint = string | ExpoCanvasGradient | ExpoCanvasPattern;
+
+/** Anything drawImage and createPattern can read pixels from */
+type ImageSourceLike =
+  | PixelData
+  | { getPixelData(): PixelData | null; width: number; height: number }
+  | { width: number; height: number };
+
+/** Drawing state saved and restored by save()/restore() */
+interface DrawingState {
+  transform: Matrix2D;
+  fillStyle: Paint;
+  strokeStyle: Paint;
+  globalAlpha: number;
+  globalCompositeOperation: GlobalCompositeOperation;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  miterLimit: number;
+  lineDash: number[];
+  lineDashOffset: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  direction: CanvasDirection;
+  letterSpacing: string;
+  imageSmoothingEnabled: boolean;
+  imageSmoothingQuality: ImageSmoothingQuality;
+  shadowBlur: number;
+  shadowColor: string;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  filter: string;
+  /** Clip coverage per pixel (0-1), or null when unclipped */
+  clip: Float32Array | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Porter-Duff operators, mapped to internal codes */
+const COMPOSITE_OPERATIONS: Record<string, number> = {
+  'source-over': 0,
+  'destination-over': 1,
+  'source-in': 2,
+  'destination-in': 3,
+  'source-out': 4,
+  'destination-out': 5,
+  'source-atop': 6,
+  'destination-atop': 7,
+  xor: 8,
+  copy: 9,
+  lighter: 10,
+};
+
+/** Average glyph advance relative to the font size, for unregistered fonts */
+const ESTIMATED_ADVANCE = 0.55;
+
+/** Ascent and descent relative to the font size, for unregistered fonts */
+const ESTIMATED_ASCENT = 0.8;
+const ESTIMATED_DESCENT = 0.2;
+
+/** Warnings already emitted (each is logged once) */
+const warned = new Set<string>();
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Log a warning only the first time it occurs.
+ */
+function warnOnce(message: string): void {
+  if (warned.has(message)) return;
+  warned.add(message);
+  console.warn(message);
+}
+
+/**
+ * Create the default drawing state.
+ */
+function createDefaultState(): DrawingState {
+  return {
+    transform: identityMatrix(),
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    globalAlpha: 1,
+    globalCompositeOperation: 'source-over',
+    lineWidth: 1,
+    lineCap: 'butt',
+    lineJoin: 'miter',
+    miterLimit: 10,
+    lineDash: [],
+    lineDashOffset: 0,
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    direction: 'inherit',
+    letterSpacing: '0px',
+    imageSmoothingEnabled: true,
+    imageSmoothingQuality: 'low',
+    shadowBlur: 0,
+    shadowColor: 'rgba(0, 0, 0, 0)',
+    shadowOffsetX: 0,
+    shadowOffsetY: 0,
+    filter: 'none',
+    clip: null,
+  };
+}
+
+/**
+ * Read the pixels of a drawImage/createPattern source.
+ *
+ * @returns Pixel data, or null if the source has no readable pixels
+ */
+function getSourcePixels(source: ImageSourceLike): PixelData | null {
+  if ('getPixelData' in source && typeof source.getPixelData === 'function') {
+    return source.getPixelData();
+  }
+
+  if ('data' in source && source.data && source.data.length === source.width * source.height * 4) {
+    return source;
+  }
+
+  return null;
+}
+
+/**
+ * Count the winding number of a set of polygons around a point.
+ */
+function windingAt(subpaths: Subpath[], x: number, y: number, fillRule: FillRule): boolean {
+  let winding = 0;
+
+  for (const { points } of subpaths) {
+    const count = points.length / 2;
+
+    for (let i = 0; i < count; i++) {
+      const j = (i + 1) % count;
+      const ax = points[i * 2];
+      const ay = points[i * 2 + 1];
+      const bx = points[j * 2];
+      const by = points[j * 2 + 1];
+
+      if (ay <= y && by > y) {
+        if ((bx - ax) * (y - ay) - (x - ax) * (by - ay) > 0) winding++;
+      } else if (ay > y && by <= y) {
+        if ((bx - ax) * (y - ay) - (x - ax) * (by - ay) < 0) winding--;
+      }
+    }
+  }
+
+  return fillRule === 'evenodd' ? (winding & 1) !== 0 : winding !== 0;
+}
+
+// =============================================================================
+// EXPO CANVAS RENDERING CONTEXT 2D
+// =============================================================================
+
+/**
+ * CanvasRenderingContext2D implemented in TypeScript.
+ *
+ * Created by `ExpoCanvasElement.getContext('2d')` for offscreen canvases.
+ * Pixels are kept as straight-alpha RGBA bytes, exactly like ImageData, and
+ * are exposed to the texture upload bridge through getPixelData().
+ *
+ * @example
+ * ```ts
+ * const canvas = DOMAdapter.get().createCanvas(128, 128);
+ * const ctx = canvas.getContext('2d');
+ *
+ * const gradient = ctx.createLinearGradient(0, 0, 128, 0);
+ * gradient.addColorStop(0, 'red');
+ * gradient.addColorStop(1, 'blue');
+ * ctx.fillStyle = gradient;
+ * ctx.fillRect(0, 0, 128, 128);
+ *
+ * const texture = Texture.from(canvas);
+ * ```
+ */
+export class ExpoCanvasRenderingContext2D {
+  // ===========================================================================
+  // PUBLIC PROPERTIES
+  // ===========================================================================
+
+  /** Canvas this context draws into */
+  public readonly canvas: Canvas2DOwner;
+
+  // ===========================================================================
+  // PRIVATE PROPERTIES
+  // ===========================================================================
+
+  /** RGBA pixel buffer (straight alpha) */
+  private _data: Uint8ClampedArray;
+
+  /** Buffer width in pixels */
+  private _width: number;
+
+  /** Buffer height in pixels */
+  private _height: number;
+
+  /** Current drawing state */
+  private _state: DrawingState = createDefaultState();
+
+  /** States pushed by save() */
+  private _stack: DrawingState[] = [];
+
+  /** Current path (points are stored in device space) */
+  private _path: ExpoPath2D = new ExpoPath2D();
+
+  /** Scratch color written by paint samplers */
+  private _color: number[] = [0, 0, 0, 0];
+
+  // ===========================================================================
+  // CONSTRUCTOR
+  // ===========================================================================
+
+  /**
+   * Create a context for a canvas.
+   *
+   * @param canvas - Owning canvas; its size determines the buffer size
+   * @internal Use `canvas.getContext('2d')`.
+   */
+  constructor(canvas: Canvas2DOwner) {
+    this.canvas = canvas;
+    this._width = Math.max(0, Math.floor(canvas.width));
+    this._height = Math.max(0, Math.floor(canvas.height));
+    this._data = new Uint8ClampedArray(this._width * this._height * 4);
+    this._path.setTransform(this._state.transform);
+  }
+
+  // ===========================================================================
+  // BUFFER ACCESS
+  // ===========================================================================
+
+  /**
+   * Reallocate the pixel buffer and reset the drawing state.
+   * Called when the canvas is resized, as setting width/height does in browsers.
+   *
+   * @param width - New width in pixels
+   * @param height - New height in pixels
+   * @internal
+   */
+  resetBuffer(width: number, height: number): void {
+    this._width = Math.max(0, Math.floor(width));
+    this._height = Math.max(0, Math.floor(height));
+    this._data = new Uint8ClampedArray(this._width * this._height * 4);
+    this.reset();
+  }
+
+  /**
+   * Get the live pixel buffer (not a copy).
+   *
+   * @returns Straight-alpha RGBA pixels
+   */
+  getPixelData(): PixelData {
+    return { data: this._data, width: this._width, height: this._height };
+  }
+
+  /**
+   * Get the context attributes.
+   */
+  getContextAttributes(): CanvasRenderingContext2DSettings {
+    return { alpha: true, colorSpace: 'srgb', desynchronized: false, willReadFrequently: true };
+  }
+
+  /**
+   * Whether the context is lost (never, for a software context).
+   */
+  isContextLost(): boolean {
+    return false;
+  }
+
+  // ===========================================================================
+  // STATE
+  // ===========================================================================
+
+  /** Push the drawing state */
+  save(): void {
+    this._stack.push({
+      ...this._state,
+      lineDash: [...this._state.lineDash],
+    });
+  }
+
+  /** Pop the drawing state */
+  restore(): void {
+    const state = this._stack.pop();
+    if (!state) return;
+
+    this._state = state;
+    this._path.setTransform(state.transform);
+  }
+
+  /** Reset the state, path and pixels */
+  reset(): void {
+    this._state = createDefaultState();
+    this._stack = [];
+    this._data.fill(0);
+    this.beginPath();
+  }
+
+  get fillStyle(): Paint {
+    return this._state.fillStyle;
+  }
+
+  set fillStyle(value: Paint) {
+    if (this._isValidPaint(value)) this._state.fillStyle = value;
+  }
+
+  get strokeStyle(): Paint {
+    return this._state.strokeStyle;
+  }
+
+  set strokeStyle(value: Paint) {
+    if (this._isValidPaint(value)) this._state.strokeStyle = value;
+  }
+
+  get globalAlpha(): number {
+    return this._state.globalAlpha;
+  }
+
+  set globalAlpha(value: number) {
+    if (Number.isFinite(value) && value >= 0 && value <= 1) this._state.globalAlpha = value;
+  }
+
+  get globalCompositeOperation(): GlobalCompositeOperation {
+    return this._state.globalCompositeOperation;
+  }
+
+  set globalCompositeOperation(value: GlobalCompositeOperation) {
+    if (value in COMPOSITE_OPERATIONS) {
+      this._state.globalCompositeOperation = value;
+    } else {
+      warnOnce(`ExpoCanvasRenderingContext2D: Composite operation "${value}" is not supported`);
+    }
+  }
+
+  get lineWidth(): number {
+    return this._state.lineWidth;
+  }
+
+  set lineWidth(value: number) {
+    if (Number.isFinite(value) && value > 0) this._state.lineWidth = value;
+  }
+
+  get lineCap(): CanvasLineCap {
+    return this._state.lineCap;
+  }
+
+  set lineCap(value: CanvasLineCap) {
+    if (value === 'butt' || value === 'round' || value === 'square') this._state.lineCap = value;
+  }
+
+  get lineJoin(): CanvasLineJoin {
+    return this._state.lineJoin;
+  }
+
+  set lineJoin(value: CanvasLineJoin) {
+    if (value === 'miter' || value === 'round' || value === 'bevel') this._state.lineJoin = value;
+  }
+
+  get miterLimit(): number {
+    return this._state.miterLimit;
+  }
+
+  set miterLimit(value: number) {
+    if (Number.isFinite(value) && value > 0) this._state.miterLimit = value;
+  }
+
+  get lineDashOffset(): number {
+    return this._state.lineDashOffset;
+  }
+
+  set lineDashOffset(value: number) {
+    if (Number.isFinite(value)) this._state.lineDashOffset = value;
+  }
+
+  /**
+   * Set the dash pattern. Odd-length lists are repeated, invalid lists ignored.
+   */
+  setLineDash(segments: number[]): void {
+    if (segments.some((value) => !Number.isFinite(value) || value < 0)) return;
+    this._state.lineDash = segments.length % 2 === 1 ? [...segments, ...segments] : [...segments];
+  }
+
+  /** Get the dash pattern */
+  getLineDash(): number[] {
+    return [...this._state.lineDash];
+  }
+
+  get font(): string {
+    return this._state.font;
+  }
+
+  set font(value: string) {
+    this._state.font = value;
+  }
+
+  get textAlign(): CanvasTextAlign {
+    return this._state.textAlign;
+  }
+
+  set textAlign(value: CanvasTextAlign) {
+    this._state.textAlign = value;
+  }
+
+  get textBaseline(): CanvasTextBaseline {
+    return this._state.textBaseline;
+  }
+
+  set textBaseline(value: CanvasTextBaseline) {
+    this._state.textBaseline = value;
+  }
+
+  get direction(): CanvasDirection {
+    return this._state.direction;
+  }
+
+  set direction(value: CanvasDirection) {
+    this._state.direction = value;
+  }
+
+  get letterSpacing(): string {
+    return this._state.letterSpacing;
+  }
+
+  set letterSpacing(value: string) {
+    this._state.letterSpacing = value;
+  }
+
+  get imageSmoothingEnabled(): boolean {
+    return this._state.imageSmoothingEnabled;
+  }
+
+  set imageSmoothingEnabled(value: boolean) {
+    this._state.imageSmoothingEnabled = Boolean(value);
+  }
+
+  get imageSmoothingQuality(): ImageSmoothingQuality {
+    return this._state.imageSmoothingQuality;
+  }
+
+  set imageSmoothingQuality(value: ImageSmoothingQuality) {
+    this._state.imageSmoothingQuality = value;
+  }
+
+  /** Shadow blur (stored, not rendered) */
+  get shadowBlur(): number {
+    return this._state.shadowBlur;
+  }
+
+  set shadowBlur(value: number) {
+    this._state.shadowBlur = value;
+  }
+
+  /** Shadow color (stored, not rendered) */
+  get shadowColor(): string {
+    return this._state.shadowColor;
+  }
+
+  set shadowColor(value: string) {
+    this._state.shadowColor = value;
+  }
+
+  /** Shadow X offset (stored, not rendered) */
+  get shadowOffsetX(): number {
+    return this._state.shadowOffsetX;
+  }
+
+  set shadowOffsetX(value: number) {
+    this._state.shadowOffsetX = value;
+  }
+
+  /** Shadow Y offset (stored, not rendered) */
+  get shadowOffsetY(): number {
+    return this._state.shadowOffsetY;
+  }
+
+  set shadowOffsetY(value: number) {
+    this._state.shadowOffsetY = value;
+  }
+
+  /** CSS filter (stored, not rendered) */
+  get filter(): string {
+    return this._state.filter;
+  }
+
+  set filter(value: string) {
+    this._state.filter = value;
+  }
+
+  // ===========================================================================
+  // TRANSFORMS
+  // ===========================================================================
+
+  /**
+   * Replace the current transform and keep the path in sync with it.
+   */
+  private _setMatrix(matrix: Matrix2D): void {
+    if (!matrix.every(Number.isFinite)) return;
+
+    this._state.transform = matrix;
+    this._path.setTransform(matrix);
+  }
+
+  /** Get the current transform */
+  getTransform(): DOMMatrix2DInit {
+    const [a, b, c, d, e, f] = this._state.transform;
+    return { a, b, c, d, e, f };
+  }
+
+  /** Set the current transform, from six values or a matrix object */
+  setTransform(
+    a?: number | DOMMatrix2DInit,
+    b?: number,
+    c?: number,
+    d?: number,
+    e?: number,
+    f?: number,
+  ): void {
+    if (typeof a === 'number') {
+      this._setMatrix([a, b ?? 0, c ?? 0, d ?? 1, e ?? 0, f ?? 0]);
+    } else if (a) {
+      this._setMatrix([
+        a.a ?? a.m11 ?? 1,
+        a.b ?? a.m12 ?? 0,
+        a.c ?? a.m21 ?? 0,
+        a.d ?? a.m22 ?? 1,
+        a.e ?? a.m41 ?? 0,
+        a.f ?? a.m42 ?? 0,
+      ]);
+    } else {
+      this._setMatrix(identityMatrix());
+    }
+  }
+
+  /** Reset the current transform to identity */
+  resetTransform(): void {
+    this._setMatrix(identityMatrix());
+  }
+
+  /** Multiply the current transform */
+  transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this._setMatrix(multiplyMatrix(this._state.transform, [a, b, c, d, e, f]));
+  }
+
+  /** Translate the current transform */
+  translate(x: number, y: number): void {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  /** Rotate the current transform (radians) */
+  rotate(angle: number): void {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.transform(cos, sin, -sin, cos, 0, 0);
+  }
+
+  /** Scale the current transform */
+  scale(x: number, y: number): void {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  // ===========================================================================
+  // PATH API
+  // ===========================================================================
+
+  /** Start a new path */
+  beginPath(): void {
+    this._path = new ExpoPath2D();
+    this._path.setTransform(this._state.transform);
+  }
+
+  /** Close the current subpath */
+  closePath(): void {
+    this._path.closePath();
+  }
+
+  /** Start a new subpath */
+  moveTo(x: number, y: number): void {
+    this._path.moveTo(x, y);
+  }
+
+  /** Add a straight line */
+  lineTo(x: number, y: number): void {
+    this._path.lineTo(x, y);
+  }
+
+  /** Add a quadratic Bézier curve */
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this._path.quadraticCurveTo(cpx, cpy, x, y);
+  }
+
+  /** Add a cubic Bézier curve */
+  bezierCurveTo(
+    cp1x: number,
+    cp1y: number,
+    cp2x: number,
+    cp2y: number,
+    x: number,
+    y: number,
+  ): void {
+    this._path.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x, y);
+  }
+
+  /** Add a circular arc */
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean,
+  ): void {
+    this._path.arc(x, y, radius, startAngle, endAngle, counterclockwise);
+  }
+
+  /** Add an arc tangent to two lines */
+  arcTo(x1: number, y1: number, x2: number, y2: number, radius: number): void {
+    this._path.arcTo(x1, y1, x2, y2, radius);
+  }
+
+  /** Add an elliptical arc */
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean,
+  ): void {
+    this._path.ellipse(x, y, radiusX, radiusY, rotation, startAngle, endAngle, counterclockwise);
+  }
+
+  /** Add a rectangle subpath */
+  rect(x: number, y: number, width: number, height: number): void {
+    this._path.rect(x, y, width, height);
+  }
+
+  /** Add a rounded rectangle subpath */
+  roundRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    radii?: number | DOMPointInit | (number | DOMPointInit)[],
+  ): void {
+    this._path.roundRect(x, y, width, height, radii);
+  }
+
+  // ===========================================================================
+  // DRAWING
+  // ===========================================================================
+
+  /**
+   * Fill the current path or a Path2D.
+   *
+   * @example
+   * ```ts
+   * ctx.fill();
+   * ctx.fill('evenodd');
+   * ctx.fill(path, 'nonzero');
+   * ```
+   */
+  fill(pathOrRule?: ExpoPath2D | FillRule, fillRule?: FillRule): void {
+    const { subpaths, rule } = this._resolvePath(pathOrRule, fillRule);
+    this._fillSubpaths(subpaths, rule, this._state.fillStyle);
+  }
+
+  /**
+   * Stroke the current path or a Path2D.
+   */
+  stroke(path?: ExpoPath2D): void {
+    const subpaths = path ? path.getSubpaths(this._state.transform) : this._path.getSubpaths();
+    this._fillSubpaths(this._strokeOutline(subpaths), 'nonzero', this._state.strokeStyle);
+  }
+
+  /**
+   * Intersect the clip region with the current path or a Path2D.
+   */
+  clip(pathOrRule?: ExpoPath2D | FillRule, fillRule?: FillRule): void {
+    const { subpaths, rule } = this._resolvePath(pathOrRule, fillRule);
+    const previous = this._state.clip;
+    const width = this._width;
+    const mask = new Float32Array(width * this._height);
+
+    rasterize(subpaths, width, this._height, rule, (y, x0, x1, coverage) => {
+      const row = y * width;
+      for (let x = x0; x < x1; x++) {
+        mask[row + x] = coverage[x];
+      }
+    });
+
+    if (previous) {
+      for (let i = 0; i < mask.length; i++) {
+        mask[i] *= previous[i];
+      }
+    }
+
+    // Masks are never mutated after creation, so saved states can share them
+    this._state.clip = mask;
+  }
+
+  /**
+   * Test whether a device-space point is inside the current path or a Path2D.
+   */
+  isPointInPath(
+    pathOrX: ExpoPath2D | number,
+    xOrY: number,
+    yOrRule?: number | FillRule,
+    fillRule?: FillRule,
+  ): boolean {
+    if (pathOrX instanceof ExpoPath2D) {
+      return windingAt(
+        pathOrX.getSubpaths(this._state.transform),
+        xOrY,
+        yOrRule as number,
+        fillRule ?? 'nonzero',
+      );
+    }
+
+    return windingAt(
+      this._path.getSubpaths(),
+      pathOrX,
+      xOrY,
+      (yOrRule as FillRule | undefined) ?? 'nonzero',
+    );
+  }
+
+  /**
+   * Test whether a device-space point is inside the stroke of the current path or a Path2D.
+   */
+  isPointInStroke(pathOrX: ExpoPath2D | number, xOrY: number, y?: number): boolean {
+    if (pathOrX instanceof ExpoPath2D) {
+      const outline = this._strokeOutline(pathOrX.getSubpaths(this._state.transform));
+      return windingAt(outline, xOrY, y as number, 'nonzero');
+    }
+
+    return windingAt(this._strokeOutline(this._path.getSubpaths()), pathOrX, xOrY, 'nonzero');
+  }
+
+  /** Fill a rectangle without touching the current path */
+  fillRect(x: number, y: number, width: number, height: number): void {
+    this._fillSubpaths(this._rectSubpaths(x, y, width, height), 'nonzero', this._state.fillStyle);
+  }
+
+  /** Stroke a rectangle without touching the current path */
+  strokeRect(x: number, y: number, width: number, height: number): void {
+    const outline = this._strokeOutline(this._rectSubpaths(x, y, width, height));
+    this._fillSubpaths(outline, 'nonzero', this._state.strokeStyle);
+  }
+
+  /** Clear a rectangle to transparent black */
+  clearRect(x: number, y: number, width: number, height: number): void {
+    const [a, b, c, d, e, f] = this._state.transform;
+
+    // Fast path for the common whole-pixel, axis-aligned case
+    if (b === 0 && c === 0 && !this._state.clip) {
+      const left = a * x + e;
+      const right = a * (x + width) + e;
+      const top = d * y + f;
+      const bottom = d * (y + height) + f;
+      const x0 = Math.max(0, Math.min(left, right));
+      const x1 = Math.min(this._width, Math.max(left, right));
+      const y0 = Math.max(0, Math.min(top, bottom));
+      const y1 = Math.min(this._height, Math.max(top, bottom));
+
+      if (
+        Number.isInteger(x0) &&
+        Number.isInteger(x1) &&
+        Number.isInteger(y0) &&
+        Number.isInteger(y1)
+      ) {
+        if (x1 <= x0 || y1 <= y0) return;
+
+        if (x0 === 0 && x1 === this._width) {
+          this._data.fill(0, y0 * this._width * 4, y1 * this._width * 4);
+        } else {
+          for (let row = y0; row < y1; row++) {
+            this._data.fill(0, (row * this._width + x0) * 4, (row * this._width + x1) * 4);
+          }
+        }
+        return;
+      }
+    }
+
+    const data = this._data;
+    const canvasWidth = this._width;
+    const clip = this._state.clip;
+
+    rasterize(
+      this._rectSubpaths(x, y, width, height),
+      canvasWidth,
+      this._height,
+      'nonzero',
+      (row, x0, x1, coverage) => {
+        for (let px = x0; px < x1; px++) {
+          const amount = coverage[px] * (clip ? clip[row * canvasWidth + px] : 1);
+          if (amount <= 0) continue;
+
+          const index = (row * canvasWidth + px) * 4;
+          const alpha = data[index + 3] * (1 - amount);
+          data[index + 3] = alpha;
+          if (data[index + 3] === 0) {
+            data[index] = data[index + 1] = data[index + 2] = 0;
+          }
+        }
+      },
+    );
+  }
+
+  // ===========================================================================
+  // TEXT
+  // ===========================================================================
+
+  /**
+   * Measure text.
+   *
+   * Fonts registered through loadExpoFont (or registerFont) are measured
+   * from their hmtx, cmap and kerning data. Other fonts fall back to an
+   * estimate based on the font size.
+   */
+  measureText(text: string): TextMetrics {
+    const letterSpacing = parseFloat(this._state.letterSpacing) || 0;
+    const measured = measureTextWithFont(text, this._state.font, letterSpacing);
+
+    let width: number;
+    let ascent: number;
+    let descent: number;
+
+    if (measured) {
+      ({ width, ascent, descent } = measured);
+    } else {
+      const fontSize = parseFontString(this._state.font).size;
+      const length = [...text].length;
+      width = length * fontSize * ESTIMATED_ADVANCE + length * letterSpacing;
+      ascent = fontSize * ESTIMATED_ASCENT;
+      descent = fontSize * ESTIMATED_DESCENT;
+    }
+
+    return {
+      width,
+      actualBoundingBoxLeft: 0,
+      actualBoundingBoxRight: width,
+      actualBoundingBoxAscent: ascent,
+      actualBoundingBoxDescent: descent,
+      fontBoundingBoxAscent: ascent,
+      fontBoundingBoxDescent: descent,
+      emHeightAscent: ascent,
+      emHeightDescent: descent,
+      alphabeticBaseline: 0,
+      hangingBaseline: ascent * 0.8,
+      ideographicBaseline: -descent,
+    };
+  }
+
+  /**
+   * Fill text using the outlines of a registered font.
+   */
+  fillText(text: string, x: number, y: number, maxWidth?: number): void {
+    const subpaths = this._textSubpaths(text, x, y, maxWidth);
+    if (subpaths) this._fillSubpaths(subpaths, 'nonzero', this._state.fillStyle);
+  }
+
+  /**
+   * Stroke text using the outlines of a registered font.
+   */
+  strokeText(text: string, x: number, y: number, maxWidth?: number): void {
+    const subpaths = this._textSubpaths(text, x, y, maxWidth);
+    if (subpaths) {
+      this._fillSubpaths(this._strokeOutline(subpaths), 'nonzero', this._state.strokeStyle);
+    }
+  }
+
+  // ===========================================================================
+  // PAINT FACTORIES
+  // ===========================================================================
+
+  /** Create a linear gradient */
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): ExpoCanvasGradient {
+    return new ExpoCanvasGradient({ type: 'linear', x0, y0, x1, y1 });
+  }
+
+  /**
+   * Create a radial gradient.
+   *
+   * @throws RangeError if a radius is negative
+   */
+  createRadialGradient(
+    x0: number,
+    y0: number,
+    r0: number,
+    x1: number,
+    y1: number,
+    r1: number,
+  ): ExpoCanvasGradient {
+    if (r0 < 0 || r1 < 0) {
+      throw new RangeError('ExpoCanvasRenderingContext2D: The radius provided is negative');
+    }
+    return new ExpoCanvasGradient({ type: 'radial', x0, y0, r0, x1, y1, r1 });
+  }
+
+  /** Create a conic gradient */
+  createConicGradient(startAngle: number, x: number, y: number): ExpoCanvasGradient {
+    return new ExpoCanvasGradient({ type: 'conic', angle: startAngle, x, y });
+  }
+
+  /**
+   * Create a pattern from a canvas or ImageData.
+   *
+   * @returns Pattern, or null if the source has no readable pixels
+   */
+  createPattern(image: ImageSourceLike, repetition: string | null): ExpoCanvasPattern | null {
+    const pixels = getSourcePixels(image);
+
+    if (!pixels) {
+      warnOnce('ExpoCanvasRenderingContext2D: createPattern needs a canvas or ImageData source');
+      return null;
+    }
+
+    const snapshot: PixelData = {
+      data: new Uint8ClampedArray(pixels.data),
+      width: pixels.width,
+      height: pixels.height,
+    };
+
+    return new ExpoCanvasPattern(snapshot, repetition || 'repeat');
+  }
+
+  // ===========================================================================
+  // IMAGES
+  // ===========================================================================
+
+  /**
+   * Draw an image, with the same 3, 5 and 9 argument forms as the browser.
+   *
+   * Sources are canvases (2D or anything exposing getPixelData) and
+   * ImageData. Image elements have no readable pixels in React Native and
+   * are skipped with a warning.
+   */
+  drawImage(image: ImageSourceLike, dx: number, dy: number): void;
+  drawImage(image: ImageSourceLike, dx: number, dy: number, dw: number, dh: number): void;
+  drawImage(
+    image: ImageSourceLike,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number,
+  ): void;
+  drawImage(image: ImageSourceLike, ...args: number[]): void {
+    let pixels = getSourcePixels(image);
+
+    if (!pixels) {
+      warnOnce('ExpoCanvasRenderingContext2D: drawImage needs a canvas or ImageData source');
+      return;
+    }
+
+    let sx = 0;
+    let sy = 0;
+    let sw = pixels.width;
+    let sh = pixels.height;
+    let dx: number;
+    let dy: number;
+    let dw: number;
+    let dh: number;
+
+    if (args.length >= 8) {
+      [sx, sy, sw, sh, dx, dy, dw, dh] = args;
+    } else if (args.length >= 4) {
+      [dx, dy, dw, dh] = args;
+    } else {
+      [dx, dy] = args;
+      dw = sw;
+      dh = sh;
+    }
+
+    if (sw === 0 || sh === 0 || dw === 0 || dh === 0 || pixels.width === 0) return;
+
+    // Drawing a canvas onto itself reads from a snapshot
+    if (pixels.data === this._data) {
+      pixels = {
+        data: new Uint8ClampedArray(this._data),
+        width: pixels.width,
+        height: pixels.height,
+      };
+    }
+
+    // Source-to-device mapping
+    const imageMatrix = multiplyMatrix(this._state.transform, [
+      dw / sw,
+      0,
+      0,
+      dh / sh,
+      dx - (sx * dw) / sw,
+      dy - (sy * dh) / sh,
+    ]);
+    const inverse = invertMatrix(imageMatrix);
+    if (!inverse) return;
+
+    const smooth =
+      this._state.imageSmoothingEnabled &&
+      !(isIdentityMatrix(this._state.transform) && dw === sw && dh === sh);
+
+    const sampler = this._createImageSampler(pixels, sx, sy, sw, sh, inverse, smooth);
+    this._fillSubpaths(this._rectSubpaths(dx, dy, dw, dh), 'nonzero', sampler);
+  }
+
+  /**
+   * Create blank image data.
+   */
+  createImageData(
+    widthOrImageData: number | ImageData | ExpoImageData,
+    height?: number,
+  ): ExpoImageData {
+    if (typeof widthOrImageData === 'number') {
+      return new ExpoImageData(Math.abs(widthOrImageData), Math.abs(height ?? 0));
+    }
+    return new ExpoImageData(widthOrImageData.width, widthOrImageData.height);
+  }
+
+  /**
+   * Copy a region of pixels. Areas outside the canvas are transparent black.
+   */
+  getImageData(sx: number, sy: number, sw: number, sh: number): ExpoImageData {
+    const x = Math.floor(sw < 0 ? sx + sw : sx);
+    const y = Math.floor(sh < 0 ? sy + sh : sy);
+    const width = Math.ceil(Math.abs(sw));
+    const height = Math.ceil(Math.abs(sh));
+    const imageData = new ExpoImageData(width, height);
+
+    const x0 = Math.max(0, x);
+    const x1 = Math.min(this._width, x + width);
+    if (x1 <= x0) return imageData;
+
+    for (let row = Math.max(0, y); row < Math.min(this._height, y + height); row++) {
+      const source = (row * this._width + x0) * 4;
+      imageData.data.set(
+        this._data.subarray(source, source + (x1 - x0) * 4),
+        ((row - y) * width + (x0 - x)) * 4,
+      );
+    }
+
+    return imageData;
+  }
+
+  /**
+   * Write pixels directly, ignoring transform, clip, alpha and compositing.
+   */
+  putImageData(
+    imageData: PixelData,
+    dx: number,
+    dy: number,
+    dirtyX = 0,
+    dirtyY = 0,
+    dirtyWidth = imageData.width,
+    dirtyHeight = imageData.height,
+  ): void {
+    // Normalize negative dirty sizes and clamp to the image
+    let left = dirtyWidth < 0 ? dirtyX + dirtyWidth : dirtyX;
+    let top = dirtyHeight < 0 ? dirtyY + dirtyHeight : dirtyY;
+    let right = left + Math.abs(dirtyWidth);
+    let bottom = top + Math.abs(dirtyHeight);
+
+    left = Math.max(0, left, -Math.floor(dx));
+    top = Math.max(0, top, -Math.floor(dy));
+    right = Math.min(imageData.width, right, this._width - Math.floor(dx));
+    bottom = Math.min(imageData.height, bottom, this._height - Math.floor(dy));
+
+    if (right <= left || bottom <= top) return;
+
+    const offsetX = Math.floor(dx);
+    const offsetY = Math.floor(dy);
+
+    for (let row = top; row < bottom; row++) {
+      const source = (row * imageData.width + left) * 4;
+      this._data.set(
+        imageData.data.subarray(source, source + (right - left) * 4),
+        ((row + offsetY) * this._width + left + offsetX) * 4,
+      );
+    }
+  }
+
+  // ===========================================================================
+  // INTERNALS
+  // ===========================================================================
+
+  /**
+   * Check whether a value can be used as fill or stroke style.
+   */
+  private _isValidPaint(value: Paint): boolean {
+    if (value instanceof ExpoCanvasGradient || value instanceof ExpoCanvasPattern) return true;
+    return typeof value === 'string' && parseColor(value) !== null;
+  }
+
+  /**
+   * Resolve the (path, fillRule) overloads of fill() and clip().
+   */
+  private _resolvePath(
+    pathOrRule: ExpoPath2D | FillRule | undefined,
+    fillRule: FillRule | undefined,
+  ): { subpaths: Subpath[]; rule: FillRule } {
+    if (pathOrRule instanceof ExpoPath2D) {
+      return {
+        subpaths: pathOrRule.getSubpaths(this._state.transform),
+        rule: fillRule ?? 'nonzero',
+      };
+    }
+    return { subpaths: this._path.getSubpaths(), rule: pathOrRule ?? 'nonzero' };
+  }
+
+  /**
+   * Build a device-space rectangle.
+   */
+  private _rectSubpaths(x: number, y: number, width: number, height: number): Subpath[] {
+    const path = new ExpoPath2D();
+    path.setTransform(this._state.transform);
+    path.rect(x, y, width, height);
+    return path.getSubpaths();
+  }
+
+  /**
+   * Lay out a line of text as device-space glyph outlines, applying
+   * kerning, letter spacing, textAlign, textBaseline and maxWidth.
+   *
+   * @returns Subpaths, or null if nothing should be drawn
+   */
+  private _textSubpaths(text: string, x: number, y: number, maxWidth?: number): Subpath[] | null {
+    if (maxWidth !== undefined && !(maxWidth > 0)) return null;
+
+    const state = this._state;
+    const resolved = resolveFont(state.font);
+
+    if (!resolved || !resolved.face.hasOutlines) {
+      warnOnce(
+        `ExpoCanvasRenderingContext2D: Cannot draw text in "${state.font}"; ` +
+          'load the font with loadExpoFont or registerFont first',
+      );
+      return null;
+    }
+
+    const { face, parsed } = resolved;
+    const unitScale = parsed.size / face.unitsPerEm;
+    const letterSpacing = (parseFloat(state.letterSpacing) || 0) / unitScale;
+
+    // Pen position of each glyph along the baseline, in font units
+    const glyphs: Array<{ glyph: number; penX: number }> = [];
+    let penX = 0;
+    let previous = -1;
+
+    // Canvas renders whitespace control characters as spaces
+    for (const char of text.replace(/[\t\n\f\r]/g, ' ')) {
+      const glyph = face.getGlyphIndex(char.codePointAt(0)!);
+      if (previous >= 0) penX += face.getKerning(previous, glyph);
+
+      glyphs.push({ glyph, penX });
+      penX += face.getAdvanceWidth(glyph) + letterSpacing;
+      previous = glyph;
+    }
+
+    const width = penX * unitScale;
+    const squeeze = maxWidth !== undefined && width > maxWidth ? maxWidth / width : 1;
+    const drawnWidth = width * squeeze;
+
+    let align = state.textAlign;
+    if (align === 'start') align = state.direction === 'rtl' ? 'right' : 'left';
+    if (align === 'end') align = state.direction === 'rtl' ? 'left' : 'right';
+
+    let offsetX = 0;
+    if (align === 'center') offsetX = -drawnWidth / 2;
+    else if (align === 'right') offsetX = -drawnWidth;
+
+    const ascent = face.ascender * unitScale;
+    const descent = -face.descender * unitScale;
+    let offsetY = 0;
+    switch (state.textBaseline) {
+      case 'top':
+        offsetY = ascent;
+        break;
+      case 'hanging':
+        offsetY = ascent * 0.8;
+        break;
+      case 'middle':
+        offsetY = (ascent - descent) / 2;
+        break;
+      case 'bottom':
+      case 'ideographic':
+        offsetY = -descent;
+        break;
+    }
+
+    // Font units (y up) to user space, then the current transform
+    const path = new ExpoPath2D();
+    path.setTransform(
+      multiplyMatrix(state.transform, [
+        unitScale * squeeze,
+        0,
+        0,
+        -unitScale,
+        x + offsetX,
+        y + offsetY,
+      ]),
+    );
+
+    for (const { glyph, penX: dx } of glyphs) {
+      for (const command of face.getGlyphPath(glyph)) {
+        switch (command.type) {
+          case 'M':
+            path.moveTo(dx + command.x, command.y);
+            break;
+          case 'L':
+            path.lineTo(dx + command.x, command.y);
+            break;
+          case 'Q':
+            path.quadraticCurveTo(dx + command.x1, command.y1, dx + command.x, command.y);
+            break;
+          case 'C':
+            path.bezierCurveTo(
+              dx + command.x1,
+              command.y1,
+              dx + command.x2,
+              command.y2,
+              dx + command.x,
+              command.y,
+            );
+            break;
+          case 'Z':
+            path.closePath();
+            break;
+        }
+      }
+    }
+
+    return path.getSubpaths();
+  }
+
+  /**
+   * Outline device-space subpaths with the current line style.
+   */
+  private _strokeOutline(subpaths: Subpath[]): Subpath[] {
+    const state = this._state;
+    const scale = matrixScale(state.transform);
+    const options: StrokeOptions = {
+      lineWidth: state.lineWidth * scale,
+      lineCap: state.lineCap,
+      lineJoin: state.lineJoin,
+      miterLimit: state.miterLimit,
+      lineDash: state.lineDash.map((value) => value * scale),
+      lineDashOffset: state.lineDashOffset * scale,
+    };
+
+    return strokeSubpaths(subpaths, options);
+  }
+
+  /**
+   * Create a sampler for a paint, or null if it paints nothing.
+   */
+  private _createSampler(paint: Paint | PaintSampler): PaintSampler | null {
+    if (typeof paint === 'function') return paint;
+
+    if (typeof paint === 'string') {
+      const color = parseColor(paint);
+      if (!color || color[3] === 0) return null;
+
+      const [r, g, b, a] = color;
+      return (_x, _y, out) => {
+        out[0] = r;
+        out[1] = g;
+        out[2] = b;
+        out[3] = a;
+      };
+    }
+
+    return paint.createSampler(this._state.transform);
+  }
+
+  /**
+   * Create a sampler reading from image pixels.
+   *
+   * @param inverse - Device-to-source mapping
+   */
+  private _createImageSampler(
+    pixels: PixelData,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    inverse: Matrix2D,
+    smooth: boolean,
+  ): PaintSampler {
+    const { data, width, height } = pixels;
+
+    // Source rectangle clamped to the image
+    const minX = Math.max(0, Math.floor(Math.min(sx, sx + sw)));
+    const minY = Math.max(0, Math.floor(Math.min(sy, sy + sh)));
+    const maxX = Math.min(width - 1, Math.ceil(Math.max(sx, sx + sw)) - 1);
+    const maxY = Math.min(height - 1, Math.ceil(Math.max(sy, sy + sh)) - 1);
+
+    const clampX = (x: number): number => (x < minX ? minX : x > maxX ? maxX : x);
+    const clampY = (y: number): number => (y < minY ? minY : y > maxY ? maxY : y);
+
+    if (!smooth) {
+      return (x, y, out) => {
+        const px = clampX(Math.floor(inverse[0] * x + inverse[2] * y + inverse[4]));
+        const py = clampY(Math.floor(inverse[1] * x + inverse[3] * y + inverse[5]));
+        const index = (py * width + px) * 4;
+        out[0] = data[index];
+        out[1] = data[index + 1];
+        out[2] = data[index + 2];
+        out[3] = data[index + 3] / 255;
+      };
+    }
+
+    // Bilinear filtering in premultiplied space
+    return (x, y, out) => {
+      const u = inverse[0] * x + inverse[2] * y + inverse[4] - 0.5;
+      const v = inverse[1] * x + inverse[3] * y + inverse[5] - 0.5;
+      const fx = Math.floor(u);
+      const fy = Math.floor(v);
+      const tx = u - fx;
+      const ty = v - fy;
+
+      const x0 = clampX(fx);
+      const x1 = clampX(fx + 1);
+      const y0 = clampY(fy);
+      const y1 = clampY(fy + 1);
+
+      const i00 = (y0 * width + x0) * 4;
+      const i10 = (y0 * width + x1) * 4;
+      const i01 = (y1 * width + x0) * 4;
+      const i11 = (y1 * width + x1) * 4;
+
+      const w00 = (1 - tx) * (1 - ty) * data[i00 + 3];
+      const w10 = tx * (1 - ty) * data[i10 + 3];
+      const w01 = (1 - tx) * ty * data[i01 + 3];
+      const w11 = tx * ty * data[i11 + 3];
+      const alpha = w00 + w10 + w01 + w11;
+
+      if (alpha <= 0) {
+        out[3] = 0;
+        return;
+      }
+
+      for (let channel = 0; channel < 3; channel++) {
+        out[channel] =
+          (data[i00 + channel] * w00 +
+            data[i10 + channel] * w10 +
+            data[i01 + channel] * w01 +
+            data[i11 + channel] * w11) /
+          alpha;
+      }
+      out[3] = alpha / 255;
+    };
+  }
+
+  /**
+   * Rasterize polygons and composite a paint into the buffer.
+   */
+  private _fillSubpaths(
+    subpaths: Subpath[],
+    fillRule: FillRule,
+    paint: Paint | PaintSampler,
+  ): void {
+    if (subpaths.length === 0 || this._width === 0 || this._height === 0) return;
+
+    const sampler = this._createSampler(paint);
+    if (!sampler) return;
+
+    const data = this._data;
+    const width = this._width;
+    const clip = this._state.clip;
+    const globalAlpha = this._state.globalAlpha;
+    const operation = COMPOSITE_OPERATIONS[this._state.globalCompositeOperation] ?? 0;
+    const color = this._color;
+
+    rasterize(subpaths, width, this._height, fillRule, (y, x0, x1, coverage) => {
+      const row = y * width;
+
+      for (let x = x0; x < x1; x++) {
+        const amount = coverage[x] * (clip ? clip[row + x] : 1);
+        if (amount <= 0) continue;
+
+        color[3] = 0;
+        sampler(x + 0.5, y + 0.5, color);
+
+        const sa = color[3] * globalAlpha;
+        if (sa <= 0 && operation === 0) continue;
+
+        const index = (row + x) * 4;
+        const da = data[index + 3] / 255;
+
+        // Porter-Duff factors for source (fa) and destination (fb)
+        let fa: number;
+        let fb: number;
+        switch (operation) {
+          case 1: // destination-over
+            fa = 1 - da;
+            fb = 1;
+            break;
+          case 2: // source-in
+            fa = da;
+            fb = 0;
+            break;
+          case 3: // destination-in
+            fa = 0;
+            fb = sa;
+            break;
+          case 4: // source-out
+            fa = 1 - da;
+            fb = 0;
+            break;
+          case 5: // destination-out
+            fa = 0;
+            fb = 1 - sa;
+            break;
+          case 6: // source-atop
+            fa = da;
+            fb = 1 - sa;
+            break;
+          case 7: // destination-atop
+            fa = 1 - da;
+            fb = sa;
+            break;
+          case 8: // xor
+            fa = 1 - da;
+            fb = 1 - sa;
+            break;
+          case 9: // copy
+            fa = 1;
+            fb = 0;
+            break;
+          case 10: // lighter
+            fa = 1;
+            fb = 1;
+            break;
+          default: // source-over
+            fa = 1;
+            fb = 1 - sa;
+        }
+
+        // Composite in premultiplied space, then blend by coverage
+        const keep = 1 - amount;
+        const resultAlpha = Math.min(1, sa * fa + da * fb);
+        const outAlpha = da * keep + resultAlpha * amount;
+
+        if (outAlpha <= 0) {
+          data[index] = data[index + 1] = data[index + 2] = data[index + 3] = 0;
+          continue;
+        }
+
+        const sourceWeight = sa * fa * amount;
+        const destWeight = da * (fb * amount + keep);
+
+        data[index] = (color[0] * sourceWeight + data[index] * destWeight) / outAlpha;
+        data[index + 1] = (color[1] * sourceWeight + data[index + 1] * destWeight) / outAlpha;
+        data[index + 2] = (color[2] * sourceWeight + data[index + 2] * destWeight) / outAlpha;
+        data[index + 3] = outAlpha * 255;
+      }
+    });
+  }
+}
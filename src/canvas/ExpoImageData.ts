@@ -0,0 +1,74 @@
+/**
+ * @fileoverview ImageData implementation for the software 2D context.
+ *
+ * @module @penabt/pixi-expo/canvas/ExpoImageData
+ * @author Pena Team
+ * @license MIT
+ */
+
+// =============================================================================
+// EXPO IMAGE DATA
+// =============================================================================
+
+/**
+ * ImageData-compatible RGBA pixel buffer (straight alpha, row-major).
+ *
+ * @example
+ * ```ts
+ * const blank = new ExpoImageData(64, 64);
+ * const wrapped = new ExpoImageData(new Uint8ClampedArray(64 * 64 * 4), 64);
+ * ```
+ */
+export class ExpoImageData {
+  /** RGBA bytes */
+  public readonly data: Uint8ClampedArray;
+
+  /** Width in pixels */
+  public readonly width: number;
+
+  /** Height in pixels */
+  public readonly height: number;
+
+  /** Color space (only sRGB is supported) */
+  public readonly colorSpace: PredefinedColorSpace = 'srgb';
+
+  /**
+   * Create image data, either blank or wrapping existing bytes.
+   *
+   * @param dataOrWidth - Existing RGBA bytes, or the width of a blank buffer
+   * @param widthOrHeight - Width when wrapping bytes, otherwise the height
+   * @param height - Height when wrapping bytes (derived from the length if omitted)
+   * @throws RangeError if the sizes don't match the data length
+   */
+  constructor(dataOrWidth: Uint8ClampedArray | number, widthOrHeight: number, height?: number) {
+    if (typeof dataOrWidth === 'number') {
+      const width = Math.floor(dataOrWidth);
+      const rows = Math.floor(widthOrHeight);
+
+      if (width <= 0 || rows <= 0) {
+        throw new RangeError('ExpoImageData: The source width and height must be positive');
+      }
+
+      this.width = width;
+      this.height = rows;
+      this.data = new Uint8ClampedArray(width * rows * 4);
+      return;
+    }
+
+    const width = Math.floor(widthOrHeight);
+    const rows = height !== undefined ? Math.floor(height) : dataOrWidth.length / 4 / width;
+
+    if (
+      width <= 0 ||
+      !Number.isInteger(rows) ||
+      rows <= 0 ||
+      dataOrWidth.length !== width * rows * 4
+    ) {
+      throw new RangeError('ExpoImageData: The data length does not match the given size');
+    }
+
+    this.width = width;
+    this.height = rows;
+    this.data = dataOrWidth;
+  }
+}
@@ -0,0 +1,468 @@
+/**
+ * @fileoverview Path2D implementation for the software 2D context.
+ *
+ * Paths are stored as flattened polylines (curves and arcs are converted
+ * to line segments when added), which is what the rasterizer consumes.
+ *
+ * @module @penabt/pixi-expo/canvas/ExpoPath2D
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { type Matrix2D, matrixScale } from './matrix';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** A flattened subpath: x/y pairs plus whether it was closed */
+export interface Subpath {
+  /** Flat list of coordinates [x0, y0, x1, y1, ...] */
+  points: number[];
+  /** Whether closePath() was called on this subpath */
+  closed: boolean;
+}
+
+/** Corner radii accepted by roundRect() */
+type RoundRectRadii = number | DOMPointInit | (number | DOMPointInit)[];
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Maximum distance (in device pixels) between a curve and its flattening */
+const CURVE_TOLERANCE = 0.25;
+
+/** Upper bound on segments per curve, to protect against huge radii */
+const MAX_CURVE_SEGMENTS = 512;
+
+// =============================================================================
+// EXPO PATH 2D
+// =============================================================================
+
+/**
+ * Path2D-compatible path of flattened subpaths.
+ *
+ * When a transform is set (as the 2D context does for its current path),
+ * points are transformed to device space as they are added, matching the
+ * browser rule that the transform at construction time applies.
+ */
+export class ExpoPath2D {
+  /** Flattened subpaths */
+  public subpaths: Subpath[] = [];
+
+  /** Transform applied to added points, or null for identity */
+  private _transform: Matrix2D | null = null;
+
+  /** Current point in user space */
+  private _currentX = 0;
+  private _currentY = 0;
+
+  /** Start of the current subpath in user space */
+  private _startX = 0;
+  private _startY = 0;
+
+  /**
+   * Create a new path, optionally copying another one.
+   *
+   * @param path - Path to copy (SVG path strings are not supported)
+   */
+  constructor(path?: ExpoPath2D | string) {
+    if (path instanceof ExpoPath2D) {
+      this.addPath(path);
+    } else if (typeof path === 'string') {
+      console.warn('ExpoPath2D: SVG path strings are not supported');
+    }
+  }
+
+  // ===========================================================================
+  // TRANSFORM
+  // ===========================================================================
+
+  /**
+   * Set the transform applied to subsequently added points.
+   * @internal Used by ExpoCanvasRenderingContext2D for its current path.
+   */
+  setTransform(transform: Matrix2D | null): void {
+    this._transform = transform;
+  }
+
+  /**
+   * Number of segments to use for a curve of the given user-space size.
+   */
+  private _segmentsFor(size: number): number {
+    const scale = this._transform ? matrixScale(this._transform) : 1;
+    const deviceSize = Math.abs(size) * scale;
+
+    if (deviceSize <= CURVE_TOLERANCE) return 1;
+
+    // Segment count for an arc of this radius to stay within tolerance
+    const angleStep = 2 * Math.acos(Math.max(-1, 1 - CURVE_TOLERANCE / deviceSize));
+    const segments = Math.ceil((2 * Math.PI) / Math.max(angleStep, 1e-3));
+
+    return Math.min(MAX_CURVE_SEGMENTS, Math.max(8, segments));
+  }
+
+  // ===========================================================================
+  // POINT HELPERS
+  // ===========================================================================
+
+  /**
+   * Append a user-space point to the current subpath.
+   */
+  private _push(x: number, y: number): void {
+    if (this.subpaths.length === 0) {
+      this._startSubpath(x, y);
+      return;
+    }
+
+    const t = this._transform;
+    const subpath = this.subpaths[this.subpaths.length - 1];
+
+    if (t) {
+      subpath.points.push(t[0] * x + t[2] * y + t[4], t[1] * x + t[3] * y + t[5]);
+    } else {
+      subpath.points.push(x, y);
+    }
+
+    this._currentX = x;
+    this._currentY = y;
+  }
+
+  /**
+   * Begin a new subpath at a user-space point.
+   */
+  private _startSubpath(x: number, y: number): void {
+    this.subpaths.push({ points: [], closed: false });
+    this._startX = x;
+    this._startY = y;
+    this._push(x, y);
+  }
+
+  /**
+   * Make sure a subpath exists (some commands implicitly start one).
+   */
+  private _ensureSubpath(x: number, y: number): void {
+    if (this.subpaths.length === 0) {
+      this._startSubpath(x, y);
+    }
+  }
+
+  // ===========================================================================
+  // PATH2D API
+  // ===========================================================================
+
+  /**
+   * Append another path, optionally transformed.
+   *
+   * @param path - Path to append
+   * @param transform - Optional transform for the appended path
+   */
+  addPath(path: ExpoPath2D, transform?: DOMMatrix2DInit): void {
+    const m: Matrix2D | null = transform
+      ? [
+          transform.a ?? transform.m11 ?? 1,
+          transform.b ?? transform.m12 ?? 0,
+          transform.c ?? transform.m21 ?? 0,
+          transform.d ?? transform.m22 ?? 1,
+          transform.e ?? transform.m41 ?? 0,
+          transform.f ?? transform.m42 ?? 0,
+        ]
+      : null;
+
+    for (const subpath of path.subpaths) {
+      this.subpaths.push({ points: [], closed: false });
+
+      for (let i = 0; i < subpath.points.length; i += 2) {
+        let x = subpath.points[i];
+        let y = subpath.points[i + 1];
+
+        if (m) {
+          const tx = m[0] * x + m[2] * y + m[4];
+          y = m[1] * x + m[3] * y + m[5];
+          x = tx;
+        }
+
+        this._push(x, y);
+      }
+
+      this.subpaths[this.subpaths.length - 1].closed = subpath.closed;
+    }
+  }
+
+  /** Start a new subpath at the given point */
+  moveTo(x: number, y: number): void {
+    this._startSubpath(x, y);
+  }
+
+  /** Add a straight line to the given point */
+  lineTo(x: number, y: number): void {
+    this._push(x, y);
+  }
+
+  /** Close the current subpath and start a new one at its start point */
+  closePath(): void {
+    if (this.subpaths.length === 0) return;
+
+    this.subpaths[this.subpaths.length - 1].closed = true;
+    const startX = this._startX;
+    const startY = this._startY;
+    this._startSubpath(startX, startY);
+  }
+
+  /** Add a quadratic Bézier curve */
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this._ensureSubpath(cpx, cpy);
+
+    const x0 = this._currentX;
+    const y0 = this._currentY;
+    const size = Math.hypot(cpx - x0, cpy - y0) + Math.hypot(x - cpx, y - cpy);
+    const segments = Math.max(1, Math.ceil(this._segmentsFor(size) / 4));
+
+    for (let i = 1; i <= segments; i++) {
+      const t = i / segments;
+      const mt = 1 - t;
+      this._push(
+        mt * mt * x0 + 2 * mt * t * cpx + t * t * x,
+        mt * mt * y0 + 2 * mt * t * cpy + t * t * y,
+      );
+    }
+  }
+
+  /** Add a cubic Bézier curve */
+  bezierCurveTo(
+    cp1x: number,
+    cp1y: number,
+    cp2x: number,
+    cp2y: number,
+    x: number,
+    y: number,
+  ): void {
+    this._ensureSubpath(cp1x, cp1y);
+
+    const x0 = this._currentX;
+    const y0 = this._currentY;
+    const size =
+      Math.hypot(cp1x - x0, cp1y - y0) +
+      Math.hypot(cp2x - cp1x, cp2y - cp1y) +
+      Math.hypot(x - cp2x, y - cp2y);
+    const segments = Math.max(1, Math.ceil(this._segmentsFor(size) / 4));
+
+    for (let i = 1; i <= segments; i++) {
+      const t = i / segments;
+      const mt = 1 - t;
+      const a = mt * mt * mt;
+      const b = 3 * mt * mt * t;
+      const c = 3 * mt * t * t;
+      const d = t * t * t;
+      this._push(a * x0 + b * cp1x + c * cp2x + d * x, a * y0 + b * cp1y + c * cp2y + d * y);
+    }
+  }
+
+  /** Add a circular arc */
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise = false,
+  ): void {
+    this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+  }
+
+  /** Add an elliptical arc */
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise = false,
+  ): void {
+    if (radiusX < 0 || radiusY < 0) {
+      throw new RangeError('ExpoPath2D: The radius provided is negative');
+    }
+
+    // Normalize the sweep like the canvas spec
+    let sweep = endAngle - startAngle;
+    const fullCircle = Math.PI * 2;
+
+    if (!counterclockwise) {
+      if (sweep >= fullCircle) {
+        sweep = fullCircle;
+      } else {
+        sweep = ((sweep % fullCircle) + fullCircle) % fullCircle;
+      }
+    } else if (sweep <= -fullCircle) {
+      sweep = -fullCircle;
+    } else {
+      sweep = -(((-sweep % fullCircle) + fullCircle) % fullCircle);
+    }
+
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const pointAt = (angle: number): [number, number] => {
+      const px = radiusX * Math.cos(angle);
+      const py = radiusY * Math.sin(angle);
+      return [x + px * cos - py * sin, y + px * sin + py * cos];
+    };
+
+    const segments = Math.max(
+      1,
+      Math.ceil((this._segmentsFor(Math.max(radiusX, radiusY)) * Math.abs(sweep)) / fullCircle),
+    );
+
+    const [startX, startY] = pointAt(startAngle);
+
+    if (this.subpaths.length === 0) {
+      this._startSubpath(startX, startY);
+    } else {
+      this._push(startX, startY);
+    }
+
+    for (let i = 1; i <= segments; i++) {
+      const [px, py] = pointAt(startAngle + (sweep * i) / segments);
+      this._push(px, py);
+    }
+  }
+
+  /** Add an arc tangent to two lines, connected to the current point */
+  arcTo(x1: number, y1: number, x2: number, y2: number, radius: number): void {
+    if (radius < 0) {
+      throw new RangeError('ExpoPath2D: The radius provided is negative');
+    }
+
+    this._ensureSubpath(x1, y1);
+
+    const x0 = this._currentX;
+    const y0 = this._currentY;
+
+    const dx0 = x0 - x1;
+    const dy0 = y0 - y1;
+    const dx2 = x2 - x1;
+    const dy2 = y2 - y1;
+    const len0 = Math.hypot(dx0, dy0);
+    const len2 = Math.hypot(dx2, dy2);
+
+    // Degenerate cases: straight line to (x1, y1)
+    const cross = dx0 * dy2 - dy0 * dx2;
+    if (radius === 0 || len0 === 0 || len2 === 0 || Math.abs(cross) < 1e-9) {
+      this._push(x1, y1);
+      return;
+    }
+
+    const cosAngle = (dx0 * dx2 + dy0 * dy2) / (len0 * len2);
+    const angle = Math.acos(Math.max(-1, Math.min(1, cosAngle)));
+    const tangentDistance = radius / Math.tan(angle / 2);
+
+    const t0x = x1 + (dx0 / len0) * tangentDistance;
+    const t0y = y1 + (dy0 / len0) * tangentDistance;
+    const t2x = x1 + (dx2 / len2) * tangentDistance;
+    const t2y = y1 + (dy2 / len2) * tangentDistance;
+
+    // Arc center lies along the bisector
+    const bisectorX = dx0 / len0 + dx2 / len2;
+    const bisectorY = dy0 / len0 + dy2 / len2;
+    const bisectorLength = Math.hypot(bisectorX, bisectorY);
+    const centerDistance = radius / Math.sin(angle / 2);
+    const cx = x1 + (bisectorX / bisectorLength) * centerDistance;
+    const cy = y1 + (bisectorY / bisectorLength) * centerDistance;
+
+    const startAngle = Math.atan2(t0y - cy, t0x - cx);
+    const endAngle = Math.atan2(t2y - cy, t2x - cx);
+
+    this._push(t0x, t0y);
+    this.arc(cx, cy, radius, startAngle, endAngle, cross > 0);
+  }
+
+  /** Add a closed rectangle subpath */
+  rect(x: number, y: number, width: number, height: number): void {
+    this._startSubpath(x, y);
+    this._push(x + width, y);
+    this._push(x + width, y + height);
+    this._push(x, y + height);
+    this.closePath();
+  }
+
+  /** Add a closed rounded rectangle subpath */
+  roundRect(x: number, y: number, width: number, height: number, radii: RoundRectRadii = 0): void {
+    const list = (Array.isArray(radii) ? radii : [radii]).map((radius) =>
+      typeof radius === 'number' ? radius : (radius.x ?? 0),
+    );
+
+    let [tl, tr, br, bl] = [0, 0, 0, 0];
+    switch (list.length) {
+      case 1:
+        tl = tr = br = bl = list[0];
+        break;
+      case 2:
+        tl = br = list[0];
+        tr = bl = list[1];
+        break;
+      case 3:
+        tl = list[0];
+        tr = bl = list[1];
+        br = list[2];
+        break;
+      default:
+        [tl, tr, br, bl] = list;
+    }
+
+    // Scale radii down if they overlap
+    const w = Math.abs(width);
+    const h = Math.abs(height);
+    const scale = Math.min(
+      1,
+      w / Math.max(tl + tr, 1e-9),
+      w / Math.max(bl + br, 1e-9),
+      h / Math.max(tl + bl, 1e-9),
+      h / Math.max(tr + br, 1e-9),
+    );
+    tl *= scale;
+    tr *= scale;
+    br *= scale;
+    bl *= scale;
+
+    const halfPi = Math.PI / 2;
+    this._startSubpath(x + tl, y);
+    this._push(x + width - tr, y);
+    if (tr > 0) this.arc(x + width - tr, y + tr, tr, -halfPi, 0);
+    this._push(x + width, y + height - br);
+    if (br > 0) this.arc(x + width - br, y + height - br, br, 0, halfPi);
+    this._push(x + bl, y + height);
+    if (bl > 0) this.arc(x + bl, y + height - bl, bl, halfPi, Math.PI);
+    this._push(x, y + tl);
+    if (tl > 0) this.arc(x + tl, y + tl, tl, Math.PI, Math.PI + halfPi);
+    this.closePath();
+  }
+
+  // ===========================================================================
+  // GEOMETRY ACCESS
+  // ===========================================================================
+
+  /**
+   * Get the subpaths with at least two points, optionally transformed.
+   *
+   * @param transform - Transform to apply to the points
+   * @returns Drawable subpaths
+   */
+  getSubpaths(transform?: Matrix2D): Subpath[] {
+    const drawable = this.subpaths.filter((subpath) => subpath.points.length >= 4);
+
+    if (!transform) return drawable;
+
+    return drawable.map((subpath) => {
+      const points = new Array<number>(subpath.points.length);
+      for (let i = 0; i < subpath.points.length; i += 2) {
+        const x = subpath.points[i];
+        const y = subpath.points[i + 1];
+        points[i] = transform[0] * x + transform[2] * y + transform[4];
+        points[i + 1] = transform[1] * x + transform[3] * y + transform[5];
+      }
+      return { points, closed: subpath.closed };
+    });
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Software 2D canvas exports.
+ *
+ * Pure-TypeScript implementation of the Canvas 2D API used by offscreen
+ * ExpoCanvasElements, whose pixels are uploaded as textures through expo-gl.
+ *
+ * @module @penabt/pixi-expo/canvas
+ */
+
+export { ExpoCanvasRenderingContext2D } from './ExpoCanvasRenderingContext2D';
+export { ExpoPath2D } from './ExpoPath2D';
+export { ExpoImageData } from './ExpoImageData';
+export { ExpoCanvasGradient, ExpoCanvasPattern } from './paint';
+export type { PixelData } from './paint';
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview 2D affine matrix helpers for the software 2D context.
+ *
+ * Matrices use the canvas layout [a, b, c, d, e, f]:
+ * x' = a * x + c * y + e, y' = b * x + d * y + f
+ *
+ * @module @penabt/pixi-expo/canvas/matrix
+ * @author Pena Team
+ * @license MIT
+ */
+
+/** Affine matrix in canvas layout [a, b, c, d, e, f] */
+export type Matrix2D = [a: number, b: number, c: number, d: number, e: number, f: number];
+
+/**
+ * Create an identity matrix.
+ */
+export function identityMatrix(): Matrix2D {
+  return [1, 0, 0, 1, 0, 0];
+}
+
+/**
+ * Multiply two matrices (apply `m2` first, then `m1`).
+ *
+ * @param m1 - Outer matrix
+ * @param m2 - Inner matrix
+ * @returns m1 * m2
+ */
+export function multiplyMatrix(m1: Matrix2D, m2: Matrix2D): Matrix2D {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+  ];
+}
+
+/**
+ * Invert a matrix.
+ *
+ * @param m - Matrix to invert
+ * @returns The inverse, or null if the matrix is singular
+ */
+export function invertMatrix(m: Matrix2D): Matrix2D | null {
+  const det = m[0] * m[3] - m[1] * m[2];
+
+  if (Math.abs(det) < 1e-12) return null;
+
+  const invDet = 1 / det;
+
+  return [
+    m[3] * invDet,
+    -m[1] * invDet,
+    -m[2] * invDet,
+    m[0] * invDet,
+    (m[2] * m[5] - m[3] * m[4]) * invDet,
+    (m[1] * m[4] - m[0] * m[5]) * invDet,
+  ];
+}
+
+/**
+ * Get the average scale factor of a matrix.
+ * Used to size stroke widths and curve tolerances in device space.
+ */
+export function matrixScale(m: Matrix2D): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+/**
+ * Check whether a matrix is the identity.
+ */
+export function isIdentityMatrix(m: Matrix2D): boolean {
+  return m[0] === 1 && m[1] === 0 && m[2] === 0 && m[3] === 1 && m[4] === 0 && m[5] === 0;
+}
@@ -0,0 +1,323 @@
+/**
+ * @fileoverview Gradients and patterns for the software 2D context.
+ *
+ * @module @penabt/pixi-expo/canvas/paint
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { parseColor } from './parseColor';
+import { type Matrix2D, identityMatrix, invertMatrix, multiplyMatrix } from './matrix';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * Samples a paint at a device pixel center.
+ * Writes straight (non-premultiplied) RGBA to `out`: 0-255 channels, 0-1 alpha.
+ */
+export type PaintSampler = (x: number, y: number, out: number[]) => void;
+
+/** Raw RGBA pixel data (ImageData-compatible) */
+export interface PixelData {
+  /** RGBA bytes, straight alpha */
+  data: Uint8ClampedArray | Uint8Array;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+}
+
+/** Kinds of gradient supported by ExpoCanvasGradient */
+type GradientKind =
+  | { type: 'linear'; x0: number; y0: number; x1: number; y1: number }
+  | { type: 'radial'; x0: number; y0: number; r0: number; x1: number; y1: number; r1: number }
+  | { type: 'conic'; angle: number; x: number; y: number };
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Number of entries in a gradient color lookup table */
+const GRADIENT_LUT_SIZE = 256;
+
+// =============================================================================
+// GRADIENT
+// =============================================================================
+
+/**
+ * CanvasGradient implementation.
+ * Created by createLinearGradient, createRadialGradient and createConicGradient.
+ */
+export class ExpoCanvasGradient {
+  /** Color stops sorted by offset */
+  private _stops: { offset: number; color: [number, number, number, number] }[] = [];
+
+  /** Cached lookup table (premultiplied interpolation, straight output) */
+  private _lut: Float32Array | null = null;
+
+  /** Gradient geometry */
+  private readonly _kind: GradientKind;
+
+  /**
+   * @param kind - Gradient geometry in user space
+   * @internal Use the context's create*Gradient methods.
+   */
+  constructor(kind: GradientKind) {
+    this._kind = kind;
+  }
+
+  /**
+   * Add a color stop.
+   *
+   * @param offset - Position between 0 and 1
+   * @param color - CSS color string
+   * @throws RangeError if offset is outside [0, 1]
+   * @throws SyntaxError if the color cannot be parsed
+   */
+  addColorStop(offset: number, color: string): void {
+    if (offset < 0 || offset > 1 || Number.isNaN(offset)) {
+      throw new RangeError(`ExpoCanvasGradient: Offset ${offset} is outside [0, 1]`);
+    }
+
+    const parsed = parseColor(String(color));
+    if (!parsed) {
+      throw new SyntaxError(`ExpoCanvasGradient: Invalid color ${color}`);
+    }
+
+    this._stops.push({ offset, color: [parsed[0], parsed[1], parsed[2], parsed[3]] });
+    // Stable sort keeps insertion order for equal offsets, as the spec requires
+    this._stops.sort((a, b) => a.offset - b.offset);
+    this._lut = null;
+  }
+
+  /**
+   * Build the color lookup table.
+   */
+  private _getLut(): Float32Array {
+    if (this._lut) return this._lut;
+
+    const lut = new Float32Array(GRADIENT_LUT_SIZE * 4);
+    const stops = this._stops;
+
+    for (let i = 0; i < GRADIENT_LUT_SIZE; i++) {
+      const t = i / (GRADIENT_LUT_SIZE - 1);
+      let color: [number, number, number, number];
+
+      if (t <= stops[0].offset) {
+        color = stops[0].color;
+      } else if (t >= stops[stops.length - 1].offset) {
+        color = stops[stops.length - 1].color;
+      } else {
+        let k = 0;
+        while (k < stops.length - 1 && stops[k + 1].offset < t) k++;
+
+        const a = stops[k];
+        const b = stops[k + 1];
+        const span = b.offset - a.offset;
+        const f = span > 0 ? (t - a.offset) / span : 1;
+
+        // Interpolate in premultiplied space, like browsers
+        const alpha = a.color[3] + (b.color[3] - a.color[3]) * f;
+        const mix = (channel: number): number => {
+          const value =
+            a.color[channel] * a.color[3] +
+            (b.color[channel] * b.color[3] - a.color[channel] * a.color[3]) * f;
+          return alpha > 0 ? value / alpha : 0;
+        };
+        color = [mix(0), mix(1), mix(2), alpha];
+      }
+
+      lut.set(color, i * 4);
+    }
+
+    this._lut = lut;
+    return lut;
+  }
+
+  /**
+   * Create a sampler for the current transform.
+   *
+   * @param transform - Transform in effect when filling
+   * @returns Sampler, or null if the gradient paints nothing
+   * @internal
+   */
+  createSampler(transform: Matrix2D): PaintSampler | null {
+    if (this._stops.length === 0) return null;
+
+    const inverse = invertMatrix(transform);
+    if (!inverse) return null;
+
+    const lut = this._getLut();
+    const kind = this._kind;
+    const lastIndex = GRADIENT_LUT_SIZE - 1;
+
+    const writeColor = (t: number, out: number[]): void => {
+      const index = Math.round(Math.min(1, Math.max(0, t)) * lastIndex) * 4;
+      out[0] = lut[index];
+      out[1] = lut[index + 1];
+      out[2] = lut[index + 2];
+      out[3] = lut[index + 3];
+    };
+
+    const toUser = (x: number, y: number): [number, number] => [
+      inverse[0] * x + inverse[2] * y + inverse[4],
+      inverse[1] * x + inverse[3] * y + inverse[5],
+    ];
+
+    if (kind.type === 'linear') {
+      const dx = kind.x1 - kind.x0;
+      const dy = kind.y1 - kind.y0;
+      const lengthSq = dx * dx + dy * dy;
+
+      if (lengthSq === 0) return null;
+
+      return (x, y, out) => {
+        const [ux, uy] = toUser(x, y);
+        writeColor(((ux - kind.x0) * dx + (uy - kind.y0) * dy) / lengthSq, out);
+      };
+    }
+
+    if (kind.type === 'conic') {
+      return (x, y, out) => {
+        const [ux, uy] = toUser(x, y);
+        const angle = Math.atan2(uy - kind.y, ux - kind.x) - kind.angle;
+        const turns = angle / (Math.PI * 2);
+        writeColor(turns - Math.floor(turns), out);
+      };
+    }
+
+    // Two-point conical (radial) gradient
+    const cdx = kind.x1 - kind.x0;
+    const cdy = kind.y1 - kind.y0;
+    const dr = kind.r1 - kind.r0;
+    const a = cdx * cdx + cdy * cdy - dr * dr;
+
+    return (x, y, out) => {
+      const [ux, uy] = toUser(x, y);
+      const pdx = ux - kind.x0;
+      const pdy = uy - kind.y0;
+      const b = pdx * cdx + pdy * cdy + kind.r0 * dr;
+      const c = pdx * pdx + pdy * pdy - kind.r0 * kind.r0;
+
+      let t: number;
+
+      if (Math.abs(a) < 1e-9) {
+        t = b !== 0 ? c / (2 * b) : Number.NaN;
+      } else {
+        const discriminant = b * b - a * c;
+
+        if (discriminant < 0) {
+          out[3] = 0;
+          return;
+        }
+
+        const root = Math.sqrt(discriminant);
+        const t1 = (b + root) / a;
+        const t2 = (b - root) / a;
+        t = Math.max(t1, t2);
+
+        if (kind.r0 + t * dr < 0) {
+          t = Math.min(t1, t2);
+        }
+      }
+
+      if (Number.isNaN(t) || kind.r0 + t * dr < 0) {
+        out[3] = 0;
+        return;
+      }
+
+      writeColor(t, out);
+    };
+  }
+}
+
+// =============================================================================
+// PATTERN
+// =============================================================================
+
+/**
+ * CanvasPattern implementation.
+ * Created by createPattern from canvases and ImageData.
+ */
+export class ExpoCanvasPattern {
+  /** Pattern transform (setTransform) */
+  private _matrix: Matrix2D = identityMatrix();
+
+  /** Snapshot of the source pixels */
+  private readonly _pixels: PixelData;
+
+  /** Repetition mode */
+  private readonly _repetition: string;
+
+  /**
+   * @param pixels - Snapshot of the source pixels
+   * @param repetition - 'repeat', 'repeat-x', 'repeat-y' or 'no-repeat'
+   * @internal Use the context's createPattern method.
+   */
+  constructor(pixels: PixelData, repetition: string) {
+    this._pixels = pixels;
+    this._repetition = repetition;
+  }
+
+  /**
+   * Set the pattern transform.
+   *
+   * @param transform - Matrix in DOMMatrix2DInit form
+   */
+  setTransform(transform?: DOMMatrix2DInit): void {
+    this._matrix = transform
+      ? [
+          transform.a ?? 1,
+          transform.b ?? 0,
+          transform.c ?? 0,
+          transform.d ?? 1,
+          transform.e ?? 0,
+          transform.f ?? 0,
+        ]
+      : identityMatrix();
+  }
+
+  /**
+   * Create a sampler for the current transform.
+   *
+   * @param transform - Transform in effect when filling
+   * @returns Sampler, or null if the pattern paints nothing
+   * @internal
+   */
+  createSampler(transform: Matrix2D): PaintSampler | null {
+    const inverse = invertMatrix(multiplyMatrix(transform, this._matrix));
+    const { data, width, height } = this._pixels;
+
+    if (!inverse || width === 0 || height === 0) return null;
+
+    const repeatX = this._repetition === 'repeat' || this._repetition === 'repeat-x';
+    const repeatY = this._repetition === 'repeat' || this._repetition === 'repeat-y';
+
+    return (x, y, out) => {
+      let px = Math.floor(inverse[0] * x + inverse[2] * y + inverse[4]);
+      let py = Math.floor(inverse[1] * x + inverse[3] * y + inverse[5]);
+
+      if (repeatX) {
+        px = ((px % width) + width) % width;
+      } else if (px < 0 || px >= width) {
+        out[3] = 0;
+        return;
+      }
+
+      if (repeatY) {
+        py = ((py % height) + height) % height;
+      } else if (py < 0 || py >= height) {
+        out[3] = 0;
+        return;
+      }
+
+      const index = (py * width + px) * 4;
+      out[0] = data[index];
+      out[1] = data[index + 1];
+      out[2] = data[index + 2];
+      out[3] = data[index + 3] / 255;
+    };
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * @fileoverview CSS color parsing for the software 2D context.
+ *
+ * @module @penabt/pixi-expo/canvas/parseColor
+ * @author Pena Team
+ * @license MIT
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** RGBA color with 0-255 channels and 0-1 alpha */
+export type RGBA = [r: number, g: number, b: number, a: number];
+
+// =============================================================================
+// NAMED COLORS
+// =============================================================================
+
+/** CSS named colors (hex values) */
+const NAMED_COLORS: Record<string, number> = {
+  black: 0x000000,
+  silver: 0xc0c0c0,
+  gray: 0x808080,
+  grey: 0x808080,
+  white: 0xffffff,
+  maroon: 0x800000,
+  red: 0xff0000,
+  purple: 0x800080,
+  fuchsia: 0xff00ff,
+  magenta: 0xff00ff,
+  green: 0x008000,
+  lime: 0x00ff00,
+  olive: 0x808000,
+  yellow: 0xffff00,
+  navy: 0x000080,
+  blue: 0x0000ff,
+  teal: 0x008080,
+  aqua: 0x00ffff,
+  cyan: 0x00ffff,
+  orange: 0xffa500,
+  pink: 0xffc0cb,
+  brown: 0xa52a2a,
+  gold: 0xffd700,
+  violet: 0xee82ee,
+  indigo: 0x4b0082,
+  coral: 0xff7f50,
+  salmon: 0xfa8072,
+  tomato: 0xff6347,
+  crimson: 0xdc143c,
+  khaki: 0xf0e68c,
+  beige: 0xf5f5dc,
+  ivory: 0xfffff0,
+  lavender: 0xe6e6fa,
+  turquoise: 0x40e0d0,
+  skyblue: 0x87ceeb,
+  steelblue: 0x4682b4,
+  royalblue: 0x4169e1,
+  darkblue: 0x00008b,
+  darkgreen: 0x006400,
+  darkred: 0x8b0000,
+  darkgray: 0xa9a9a9,
+  darkgrey: 0xa9a9a9,
+  lightgray: 0xd3d3d3,
+  lightgrey: 0xd3d3d3,
+  lightblue: 0xadd8e6,
+  lightgreen: 0x90ee90,
+  whitesmoke: 0xf5f5f5,
+};
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/** Cache of parsed color strings (PixiJS reuses a small set of styles) */
+const colorCache = new Map<string, RGBA | null>();
+
+/** Maximum number of cached color strings */
+const MAX_CACHED_COLORS = 256;
+
+/**
+ * Parse a numeric CSS component, handling percentages.
+ */
+function parseComponent(value: string, scale: number): number {
+  const trimmed = value.trim();
+
+  if (trimmed.endsWith('%')) {
+    return (parseFloat(trimmed) / 100) * scale;
+  }
+
+  return parseFloat(trimmed);
+}
+
+/**
+ * Parse an alpha component (number or percentage).
+ */
+function parseAlpha(value: string | undefined): number {
+  if (value === undefined) return 1;
+  const alpha = parseComponent(value, 1);
+  return Number.isNaN(alpha) ? 1 : Math.min(1, Math.max(0, alpha));
+}
+
+/**
+ * Convert HSL to RGB (0-255 channels).
+ */
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = (((h % 360) + 360) % 360) / 360;
+
+  if (s === 0) {
+    const gray = l * 255;
+    return [gray, gray, gray];
+  }
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+
+  const channel = (t: number): number => {
+    let tt = t;
+    if (tt < 0) tt += 1;
+    if (tt > 1) tt -= 1;
+    if (tt < 1 / 6) return p + (q - p) * 6 * tt;
+    if (tt < 1 / 2) return q;
+    if (tt < 2 / 3) return p + (q - p) * (2 / 3 - tt) * 6;
+    return p;
+  };
+
+  return [channel(hue + 1 / 3) * 255, channel(hue) * 255, channel(hue - 1 / 3) * 255];
+}
+
+/**
+ * Parse a hex color (#rgb, #rgba, #rrggbb, #rrggbbaa).
+ */
+function parseHex(hex: string): RGBA | null {
+  let value = hex.slice(1);
+
+  if (value.length === 3 || value.length === 4) {
+    value = value
+      .split('')
+      .map((char) => char + char)
+      .join('');
+  }
+
+  if ((value.length !== 6 && value.length !== 8) || /[^0-9a-f]/i.test(value)) {
+    return null;
+  }
+
+  const r = parseInt(value.substring(0, 2), 16);
+  const g = parseInt(value.substring(2, 4), 16);
+  const b = parseInt(value.substring(4, 6), 16);
+  const a = value.length === 8 ? parseInt(value.substring(6, 8), 16) / 255 : 1;
+
+  return [r, g, b, a];
+}
+
+/**
+ * Parse a CSS color string.
+ *
+ * Supports hex notation, rgb()/rgba(), hsl()/hsla() (comma or space
+ * separated), `transparent` and common named colors.
+ *
+ * @param color - CSS color string
+ * @returns Parsed color, or null if the string is not a valid color
+ */
+export function parseColor(color: string): RGBA | null {
+  const cached = colorCache.get(color);
+  if (cached !== undefined) return cached;
+
+  const value = color.trim().toLowerCase();
+  let result: RGBA | null = null;
+
+  if (value === 'transparent') {
+    result = [0, 0, 0, 0];
+  } else if (value.startsWith('#')) {
+    result = parseHex(value);
+  } else if (value in NAMED_COLORS) {
+    const hex = NAMED_COLORS[value];
+    result = [(hex >> 16) & 0xff, (hex >> 8) & 0xff, hex & 0xff, 1];
+  } else {
+    const match = /^(rgba?|hsla?)\(([^)]*)\)$/.exec(value);
+
+    if (match) {
+      const parts = match[2].split(/[\s,/]+/).filter((part) => part.length > 0);
+
+      if (parts.length >= 3) {
+        if (match[1].startsWith('rgb')) {
+          result = [
+            parseComponent(parts[0], 255),
+            parseComponent(parts[1], 255),
+            parseComponent(parts[2], 255),
+            parseAlpha(parts[3]),
+          ];
+        } else {
+          const [r, g, b] = hslToRgb(
+            parseFloat(parts[0]),
+            parseComponent(parts[1], 1),
+            parseComponent(parts[2], 1),
+          );
+          result = [r, g, b, parseAlpha(parts[3])];
+        }
+
+        if (result.some((component) => Number.isNaN(component))) {
+          result = null;
+        } else {
+          result[0] = Math.round(Math.min(255, Math.max(0, result[0])));
+          result[1] = Math.round(Math.min(255, Math.max(0, result[1])));
+          result[2] = Math.round(Math.min(255, Math.max(0, result[2])));
+        }
+      }
+    }
+  }
+
+  if (colorCache.size >= MAX_CACHED_COLORS) {
+    colorCache.clear();
+  }
+  colorCache.set(color, result);
+  return result;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { Subpath } from './ExpoPath2D';
+import { rasterize, type FillRule } from './rasterizer';
+
+/**
+ * Closed polygon from x/y pairs.
+ */
+function polygon(...points: number[]): Subpath {
+  return { points, closed: true };
+}
+
+/**
+ * Axis-aligned rectangle, clockwise or counter-clockwise.
+ */
+function rect(x: number, y: number, width: number, height: number, clockwise = true): Subpath {
+  return clockwise
+    ? polygon(x, y, x + width, y, x + width, y + height, x, y + height)
+    : polygon(x, y, x, y + height, x + width, y + height, x + width, y);
+}
+
+/**
+ * Rasterize into a coverage image, rounded to two decimals.
+ */
+function render(
+  subpaths: Subpath[],
+  width: number,
+  height: number,
+  fillRule: FillRule = 'nonzero',
+) {
+  const image = new Float32Array(width * height);
+  const rows: number[] = [];
+
+  rasterize(subpaths, width, height, fillRule, (y, x0, x1, coverage) => {
+    rows.push(y);
+    for (let x = x0; x < x1; x++) image[y * width + x] = coverage[x];
+  });
+
+  const at = (x: number, y: number) => Math.round(image[y * width + x] * 100) / 100;
+  const total = image.reduce((sum, value) => sum + value, 0);
+  return { at, rows, total };
+}
+
+describe('rasterize', () => {
+  it('fully covers the pixels of an aligned rectangle and nothing else', () => {
+    const { at, rows, total } = render([rect(2, 1, 4, 3)], 8, 6);
+
+    expect(rows).toEqual([1, 2, 3]);
+    expect(total).toBeCloseTo(12);
+    expect(at(2, 1)).toBe(1);
+    expect(at(5, 3)).toBe(1);
+    expect(at(1, 1)).toBe(0);
+    expect(at(6, 2)).toBe(0);
+  });
+
+  it('covers pixels partially at fractional edges', () => {
+    const { at, total } = render([rect(1.5, 0, 2, 2)], 5, 2);
+
+    expect(at(1, 0)).toBe(0.5);
+    expect(at(2, 0)).toBe(1);
+    expect(at(3, 0)).toBe(0.5);
+    expect(total).toBeCloseTo(4);
+  });
+
+  it('covers a triangle with its area', () => {
+    const { total } = render([polygon(0, 0, 40, 0, 0, 40)], 40, 40);
+
+    expect(total).toBeCloseTo(800, -1);
+  });
+
+  it('fills nested contours by the fill rule', () => {
+    const sameDirection = [rect(0, 0, 10, 10), rect(3, 3, 4, 4)];
+    const opposite = [rect(0, 0, 10, 10), rect(3, 3, 4, 4, false)];
+
+    expect(render(sameDirection, 10, 10, 'nonzero').at(5, 5)).toBe(1);
+    expect(render(sameDirection, 10, 10, 'evenodd').at(5, 5)).toBe(0);
+    expect(render(opposite, 10, 10, 'nonzero').at(5, 5)).toBe(0);
+    expect(render(opposite, 10, 10, 'evenodd').total).toBeCloseTo(84);
+  });
+
+  it('clips to the target', () => {
+    const { rows, total } = render([rect(-5, -5, 8, 20)], 4, 4);
+
+    expect(rows).toEqual([0, 1, 2, 3]);
+    expect(total).toBeCloseTo(12);
+  });
+
+  it('ignores empty and degenerate paths', () => {
+    expect(render([], 4, 4).rows).toEqual([]);
+    expect(render([polygon(0, 1, 4, 1)], 4, 4).rows).toEqual([]);
+    expect(render([rect(0, 0, 4, 4)], 0, 4).rows).toEqual([]);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * @fileoverview Stroke outlining for the software 2D context.
+ *
+ * Converts polylines into filled polygons (segment quads, joins and caps).
+ * All generated polygons share the same orientation, so filling them
+ * together with the nonzero rule yields their union.
+ *
+ * @module @penabt/pixi-expo/canvas/stroke
+ * @author Pena Team
+ * @license MIT
+ */
+
+import type { Subpath } from './ExpoPath2D';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Stroke parameters, in device pixels */
+export interface StrokeOptions {
+  /** Line width */
+  lineWidth: number;
+  /** Line cap style */
+  lineCap: CanvasLineCap;
+  /** Line join style */
+  lineJoin: CanvasLineJoin;
+  /** Miter length limit (ratio to half the line width) */
+  miterLimit: number;
+  /** Dash pattern (empty for solid lines) */
+  lineDash: number[];
+  /** Dash pattern offset */
+  lineDashOffset: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Add a polygon with positive orientation.
+ */
+function addPolygon(output: Subpath[], points: number[]): void {
+  let area = 0;
+  for (let i = 0; i < points.length; i += 2) {
+    const j = (i + 2) % points.length;
+    area += points[i] * points[j + 1] - points[j] * points[i + 1];
+  }
+
+  if (Math.abs(area) < 1e-9) return;
+
+  if (area < 0) {
+    const reversed: number[] = [];
+    for (let i = points.length - 2; i >= 0; i -= 2) {
+      reversed.push(points[i], points[i + 1]);
+    }
+    output.push({ points: reversed, closed: true });
+  } else {
+    output.push({ points, closed: true });
+  }
+}
+
+/**
+ * Add a circle polygon.
+ */
+function addCircle(output: Subpath[], cx: number, cy: number, radius: number): void {
+  const segments = Math.max(8, Math.min(128, Math.ceil(radius * 2)));
+  const points: number[] = [];
+
+  for (let i = 0; i < segments; i++) {
+    const angle = (i / segments) * Math.PI * 2;
+    points.push(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+  }
+
+  addPolygon(output, points);
+}
+
+/**
+ * Remove consecutive duplicate points from a polyline.
+ */
+function dedupe(points: number[], closed: boolean): number[] {
+  const result: number[] = [];
+
+  for (let i = 0; i < points.length; i += 2) {
+    const n = result.length;
+    if (n >= 2 && result[n - 2] === points[i] && result[n - 1] === points[i + 1]) continue;
+    result.push(points[i], points[i + 1]);
+  }
+
+  // Drop a closing point that duplicates the first one
+  const n = result.length;
+  if (closed && n >= 4 && result[0] === result[n - 2] && result[1] === result[n - 1]) {
+    result.length = n - 2;
+  }
+
+  return result;
+}
+
+/**
+ * Split polylines into dashes.
+ */
+function applyDash(subpaths: Subpath[], dash: number[], offset: number): Subpath[] {
+  const pattern = dash.length % 2 === 1 ? [...dash, ...dash] : dash;
+  const patternLength = pattern.reduce((sum, value) => sum + value, 0);
+
+  if (patternLength <= 0) return subpaths;
+
+  const result: Subpath[] = [];
+
+  for (const subpath of subpaths) {
+    const points = subpath.closed
+      ? [...subpath.points, subpath.points[0], subpath.points[1]]
+      : subpath.points;
+
+    // Find the starting dash for the offset
+    let dashIndex = 0;
+    let remaining = ((offset % patternLength) + patternLength) % patternLength;
+    while (remaining >= pattern[dashIndex]) {
+      remaining -= pattern[dashIndex];
+      dashIndex = (dashIndex + 1) % pattern.length;
+    }
+    let dashLeft = pattern[dashIndex] - remaining;
+    let current: number[] | null = dashIndex % 2 === 0 ? [points[0], points[1]] : null;
+
+    for (let i = 0; i < points.length - 2; i += 2) {
+      let x0 = points[i];
+      let y0 = points[i + 1];
+      const x1 = points[i + 2];
+      const y1 = points[i + 3];
+      let segmentLeft = Math.hypot(x1 - x0, y1 - y0);
+
+      while (segmentLeft > 0) {
+        const step = Math.min(dashLeft, segmentLeft);
+        const t = step / segmentLeft;
+        const nx = x0 + (x1 - x0) * t;
+        const ny = y0 + (y1 - y0) * t;
+
+        if (current) current.push(nx, ny);
+
+        x0 = nx;
+        y0 = ny;
+        segmentLeft -= step;
+        dashLeft -= step;
+
+        if (dashLeft <= 1e-9) {
+          if (current) {
+            result.push({ points: current, closed: false });
+            current = null;
+          } else {
+            current = [x0, y0];
+          }
+          dashIndex = (dashIndex + 1) % pattern.length;
+          dashLeft = pattern[dashIndex];
+        }
+      }
+    }
+
+    if (current && current.length >= 4) {
+      result.push({ points: current, closed: false });
+    }
+  }
+
+  return result;
+}
+
+// =============================================================================
+// STROKER
+// =============================================================================
+
+/**
+ * Outline polylines into polygons for filling with the nonzero rule.
+ *
+ * @param subpaths - Polylines in device space
+ * @param options - Stroke parameters in device pixels
+ * @returns Polygons covering the stroke
+ */
+export function strokeSubpaths(subpaths: Subpath[], options: StrokeOptions): Subpath[] {
+  const halfWidth = options.lineWidth / 2;
+  const output: Subpath[] = [];
+
+  if (halfWidth <= 0) return output;
+
+  const lines =
+    options.lineDash.length > 0
+      ? applyDash(subpaths, options.lineDash, options.lineDashOffset)
+      : subpaths;
+
+  for (const line of lines) {
+    const points = dedupe(line.points, line.closed);
+    const count = points.length / 2;
+
+    if (count < 2) continue;
+
+    const segmentCount = line.closed ? count : count - 1;
+
+    // Unit direction and normal of each segment
+    const dirs: number[] = [];
+    for (let i = 0; i < segmentCount; i++) {
+      const j = (i + 1) % count;
+      const dx = points[j * 2] - points[i * 2];
+      const dy = points[j * 2 + 1] - points[i * 2 + 1];
+      const length = Math.hypot(dx, dy);
+      dirs.push(dx / length, dy / length);
+    }
+
+    // Segment bodies
+    for (let i = 0; i < segmentCount; i++) {
+      const j = (i + 1) % count;
+      const nx = -dirs[i * 2 + 1] * halfWidth;
+      const ny = dirs[i * 2] * halfWidth;
+      const ax = points[i * 2];
+      const ay = points[i * 2 + 1];
+      const bx = points[j * 2];
+      const by = points[j * 2 + 1];
+
+      addPolygon(output, [ax + nx, ay + ny, bx + nx, by + ny, bx - nx, by - ny, ax - nx, ay - ny]);
+    }
+
+    // Joins between consecutive segments
+    const joinCount = line.closed ? segmentCount : segmentCount - 1;
+    for (let s = 0; s < joinCount; s++) {
+      const next = (s + 1) % segmentCount;
+      const vertex = (s + 1) % count;
+      const vx = points[vertex * 2];
+      const vy = points[vertex * 2 + 1];
+      const d1x = dirs[s * 2];
+      const d1y = dirs[s * 2 + 1];
+      const d2x = dirs[next * 2];
+      const d2y = dirs[next * 2 + 1];
+      const cross = d1x * d2y - d1y * d2x;
+
+      if (Math.abs(cross) < 1e-9 && d1x * d2x + d1y * d2y > 0) continue;
+
+      if (options.lineJoin === 'round') {
+        addCircle(output, vx, vy, halfWidth);
+        continue;
+      }
+
+      // Outer side of the turn
+      const side = cross > 0 ? -1 : 1;
+      const n1x = -d1y * halfWidth * side;
+      const n1y = d1x * halfWidth * side;
+      const n2x = -d2y * halfWidth * side;
+      const n2y = d2x * halfWidth * side;
+
+      const cosTheta = Math.max(-1, Math.min(1, d1x * d2x + d1y * d2y));
+      const miterRatio = 1 / Math.sqrt((1 + cosTheta) / 2);
+
+      if (options.lineJoin === 'miter' && miterRatio <= options.miterLimit) {
+        const mx = n1x + n2x;
+        const my = n1y + n2y;
+        const mLength = Math.hypot(mx, my);
+        const miterX = vx + (mx / mLength) * halfWidth * miterRatio;
+        const miterY = vy + (my / mLength) * halfWidth * miterRatio;
+        addPolygon(output, [vx, vy, vx + n1x, vy + n1y, miterX, miterY, vx + n2x, vy + n2y]);
+      } else {
+        addPolygon(output, [vx, vy, vx + n1x, vy + n1y, vx + n2x, vy + n2y]);
+      }
+    }
+
+    // Caps at the ends of open lines
+    if (!line.closed && options.lineCap !== 'butt') {
+      const ends: [number, number, number, number][] = [
+        [points[0], points[1], -dirs[0], -dirs[1]],
+        [
+          points[(count - 1) * 2],
+          points[(count - 1) * 2 + 1],
+          dirs[(segmentCount - 1) * 2],
+          dirs[(segmentCount - 1) * 2 + 1],
+        ],
+      ];
+
+      for (const [px, py, dx, dy] of ends) {
+        if (options.lineCap === 'round') {
+          addCircle(output, px, py, halfWidth);
+        } else {
+          const nx = -dy * halfWidth;
+          const ny = dx * halfWidth;
+          const ex = dx * halfWidth;
+          const ey = dy * halfWidth;
+          addPolygon(output, [
+            px + nx,
+            py + ny,
+            px + nx + ex,
+            py + ny + ey,
+            px - nx + ex,
+            py - ny + ey,
+            px - nx,
+            py - ny,
+          ]);
+        }
+      }
+    }
+  }
+
+  return output;
+}
@@ -28,42 +28,158 @@
  * }
  * ```
  *
+ * @example Declarative Scene
+ * ```tsx
+ * <PixiView backgroundColor={0x1099bb}>
+ *   <container position={{ x: 100, y: 100 }}>
+ *     <sprite texture={bunny} anchor={0.5} onPointerTap={() => setScore((s) => s + 1)} />
+ *     <bitmapText text={`Score: ${score}`} style={{ fontFamily: 'Desyrel', fontSize: 32 }} />
+ *   </container>
+ * </PixiView>
+ * ```
+ *
  * @example With Ref for Imperative Control
  * ```tsx
  * const pixiRef = useRef<PixiViewHandle>(null);
  *
  * const handleScreenshot = async () => {
- *   const data = await pixiRef.current?.takeSnapshot();
- *   console.log('Screenshot:', data);
+ *   const uri = await pixiRef.current?.takeSnapshot({ format: 'jpeg', result: 'file' });
+ *   console.log('Screenshot:', uri);
  * };
  *
  * <PixiView ref={pixiRef} onApplicationCreate={...} />
  * ```
  */
 
-import { useCallback, useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
+import {
+  useCallback,
+  useContext,
+  useMemo,
+  useRef,
+  useEffect,
+  useImperativeHandle,
+  useState,
+  forwardRef,
+} from 'react';
+import type { ReactNode } from 'react';
 import {
   View,
   StyleSheet,
   LayoutChangeEvent,
   GestureResponderEvent,
   PixelRatio,
+  AppState,
+  Dimensions,
 } from 'react-native';
-import type { ViewStyle } from 'react-native';
+import type { AppStateStatus, ViewStyle } from 'react-native';
 import { GLView } from 'expo-gl';
 import type { ExpoWebGLRenderingContext } from 'expo-gl';
-import { Application, Container } from 'pixi.js';
-import { setActiveGLContext, clearActiveContext, dispatchWindowEvent } from '../adapter';
+import { Application, Container, Point, UPDATE_PRIORITY } from 'pixi.js';
+import type { RenderGroup, RenderOptions, Ticker } from 'pixi.js';
+import {
+  setActiveGLContext,
+  restoreGLContext,
+  clearActiveContext,
+  activateViewContext,
+  createViewId,
+  getViewContext,
+  dispatchWindowEvent,
+  scopeWindowListeners,
+  queryGPUCapabilities,
+  type GPUCapabilities,
+} from '../adapter';
 import {
   convertTouchToPointerEvents,
+  convertGestureTouchToPointerEvents,
   clearTouchTracking,
+  type GestureTouchEventData,
   type NativePointerEvent,
 } from '../utils/touchEventBridge';
+import {
+  createTouchGesture,
+  loadGestureHandler,
+  type GestureTouchListener,
+  type PixiViewInputBackend,
+} from '../utils/inputBackend';
+import { takeSnapshot, type SnapshotOptions } from '../utils/snapshot';
+import { GestureRecognizer, type GestureOptions } from '../gestures';
+import { createPixiRoot, PixiAppContext, type PixiAppContextValue, type PixiRoot } from '../react';
+import { setTickerFrameRate } from '../utils/framePacer';
+import {
+  computeDesignScale,
+  viewToDesignPoint,
+  type DesignScale,
+  type DesignScaleMode,
+} from '../utils/designScale';
 
 // =============================================================================
 // TYPE DEFINITIONS
 // =============================================================================
 
+/**
+ * When PixiView renders:
+ * - 'continuous': every ticker frame
+ * - 'onDemand': only on frames where something changed
+ */
+export type PixiViewRenderMode = 'continuous' | 'onDemand';
+
+/**
+ * Navigation object that reports screen focus, such as the `navigation`
+ * prop or `useNavigation()` of React Navigation.
+ */
+export interface PixiViewFocusSource {
+  /** Whether the screen is focused */
+  isFocused(): boolean;
+
+  /**
+   * Subscribe to focus changes.
+   * @returns Function that removes the listener
+   */
+  addListener(type: 'focus' | 'blur', callback: () => void): () => void;
+}
+
+/**
+ * Distances from the edges of a rectangle, e.g. safe-area insets.
+ */
+export interface PixiViewInsets {
+  /** Distance from the top edge */
+  top: number;
+  /** Distance from the right edge */
+  right: number;
+  /** Distance from the bottom edge */
+  bottom: number;
+  /** Distance from the left edge */
+  left: number;
+}
+
+/**
+ * Part of a PixiView not covered by notches, status bars or home
+ * indicators, in stage coordinates (design units with a design size).
+ */
+export interface PixiViewSafeArea extends PixiViewInsets {
+  /** Safe rectangle: the visible stage area minus the insets */
+  rect: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Size of a PixiView, passed to onResize.
+ */
+export interface PixiViewSize {
+  /** Logical width in points (app.screen.width) */
+  width: number;
+  /** Logical height in points (app.screen.height) */
+  height: number;
+  /** Physical pixels per point of the drawing buffer */
+  resolution: number;
+  /**
+   * Mapping of the design size onto the view, including the visible
+   * design-space rectangle. null without designWidth and designHeight.
+   */
+  designScale: DesignScale | null;
+  /** Safe area of the view in stage coordinates */
+  safeArea: PixiViewSafeArea;
+}
+
 /**
  * Props for the PixiView component.
  */
@@ -78,7 +194,7 @@ export interface PixiViewProps {
 
   /**
    * Background color for the PixiJS application.
-   * Accepts a hex number (e.g., 0x1099bb).
+   * Accepts a hex number (e.g., 0x1099bb). Updates live.
    *
    * @default 0x000000 (black)
    */
@@ -86,7 +202,8 @@ export interface PixiViewProps {
 
   /**
    * Resolution / device pixel ratio.
-   * Higher values = sharper rendering but more GPU load.
+   * Higher values = sharper rendering but more GPU load. Updates live,
+   * resizing the renderer.
    *
    * @default 1
    */
@@ -94,12 +211,100 @@ export interface PixiViewProps {
 
   /**
    * Enable antialiasing for smoother edges.
-   * May impact performance on older devices.
+   * May impact performance on older devices. Also sets the GLView's
+   * multisampling (iOS). Changing it recreates the application on a new
+   * GL context, keeping the stage.
    *
    * @default true
    */
   antialias?: boolean;
 
+  /**
+   * WebGL version to ask the device for.
+   * With 2, PixiJS uses its WebGL 2 backend when the expo-gl context
+   * supports it and falls back to WebGL 1 otherwise. With 1, PixiJS sticks
+   * to the WebGL 1 API even on WebGL 2 devices. Changing it recreates the
+   * application on a new GL context, keeping the stage.
+   *
+   * @default 2
+   */
+  preferWebGLVersion?: 1 | 2;
+
+  /**
+   * Width of the design resolution. Together with designHeight, the stage
+   * is scaled and positioned so that content laid out for the design size
+   * fits the view according to scaleMode. Pointer events hit-test and
+   * report local positions in design units; the visible part of design
+   * space is passed to onResize and returned by getDesignScale().
+   *
+   * PixiView owns the stage's scale and position while this is set.
+   */
+  designWidth?: number;
+
+  /**
+   * Height of the design resolution. See designWidth.
+   */
+  designHeight?: number;
+
+  /**
+   * How the design size is fitted into the view:
+   * - 'fit': uniform scale to fit, centered with letterboxing
+   * - 'fill': uniform scale to cover, centered and cropped
+   * - 'stretch': each axis scaled to the view
+   * - 'expand': uniform scale to fit, anchored top-left, with design space
+   *   extending to the right or bottom instead of letterboxing
+   *
+   * @default 'fit'
+   */
+  scaleMode?: DesignScaleMode;
+
+  /**
+   * Safe-area insets of the window in points, e.g. from useSafeAreaInsets()
+   * of react-native-safe-area-context. PixiView intersects them with its
+   * position in the window and converts them to stage coordinates, so a
+   * view that doesn't reach the notch gets a zero top inset. Without this
+   * prop the safe area is the whole view.
+   *
+   * @example
+   * ```tsx
+   * const insets = useSafeAreaInsets();
+   * <PixiView safeAreaInsets={insets} onResize={(app, { safeArea }) => layoutHud(safeArea.rect)} />
+   * ```
+   */
+  safeAreaInsets?: PixiViewInsets;
+
+  /**
+   * When to render frames.
+   *
+   * In 'onDemand' mode the ticker keeps running, so ticker callbacks and
+   * tweens still update the scene, but a frame is only rendered and
+   * presented when the display tree changed (transforms, tints, visibility,
+   * textures, added or removed children), after a pointer event hits an
+   * object, after a resize, or after PixiViewHandle.invalidate(). Call
+   * invalidate() for changes PixiJS can't see, such as filter uniforms.
+   *
+   * @default 'continuous'
+   */
+  renderMode?: PixiViewRenderMode;
+
+  /**
+   * Highest frame rate, enforced in step with the display's refresh so that
+   * e.g. 60 on a 120 Hz display runs every other refresh. 0 runs at the
+   * display's refresh rate (up to 90/120 Hz where the device supports it).
+   * Applies to the ticker, which PixiViews share.
+   *
+   * @default 0
+   */
+  maxFPS?: number;
+
+  /**
+   * Lowest frame rate the ticker's delta is computed for. After a longer
+   * frame (e.g. a GC pause), deltaMS is clamped to 1000 / minFPS.
+   *
+   * @default 10
+   */
+  minFPS?: number;
+
   /**
    * Enable touch/pointer event handling for PixiJS interactivity.
    * When enabled, touch events are bridged to PixiJS EventSystem.
@@ -108,6 +313,49 @@ export interface PixiViewProps {
    */
   interactiveEvents?: boolean;
 
+  /**
+   * Where touches are read from:
+   * - 'responder': React Native's responder system
+   * - 'gesture-handler': a react-native-gesture-handler gesture that never
+   *   activates, so scrolling containers, bottom sheets and swipe navigators
+   *   can take the touches (the scene then gets pointercancel). Requires
+   *   react-native-gesture-handler and a GestureHandlerRootView.
+   * - a GestureTouchSource, such as a SimulatedTouchSource in tests
+   *
+   * All of them produce the same pointer and gesture events. Updates live.
+   *
+   * @default 'responder'
+   */
+  inputBackend?: PixiViewInputBackend;
+
+  /**
+   * Recognize gestures from touches and dispatch them to display objects
+   * as federated events: 'gesturetap', 'doubletap', 'longpress', 'swipe',
+   * and start/update/end events of pan, pinch and rotate, e.g.
+   * `sprite.on('pinch', (e) => e.scale)`. Pass options to change the
+   * recognizers' thresholds, or false to turn recognition off. Requires
+   * interactiveEvents. Updates live.
+   *
+   * @default true
+   */
+  gestures?: boolean | GestureOptions;
+
+  /**
+   * Scene elements rendered into the stage: `<container>`, `<sprite>`,
+   * `<graphics draw={fn}>` and `<bitmapText>`, with PixiJS properties as
+   * props, event props such as onPointerTap, and refs to the display
+   * objects. They are added after onApplicationCreate, above anything it
+   * added to the stage.
+   *
+   * The scene is a separate React tree: it gets the view's Application
+   * from usePixiApp() and useTick(), but not contexts provided around
+   * the PixiView, which have to be provided again inside it.
+   *
+   * Children need React 19.2 or later and the react-reconciler package,
+   * which is only loaded once a view is given children.
+   */
+  children?: ReactNode;
+
   /**
    * Callback fired when the PixiJS Application is ready.
    * Use this to add sprites, graphics, and set up your scene.
@@ -124,6 +372,27 @@ export interface PixiViewProps {
    */
   onApplicationCreate?: (app: Application) => void;
 
+  /**
+   * Callback fired when a changed antialias or preferWebGLVersion prop has
+   * replaced the Application. The stage, its children and the shared
+   * ticker's callbacks carry over; update any other references to the old
+   * Application. onApplicationCreate is not called again.
+   *
+   * @param app - The new PixiJS Application
+   */
+  onApplicationRecreate?: (app: Application) => void;
+
+  /**
+   * Callback fired after the view was resized, e.g. by a layout change or
+   * device rotation, or its design resolution or safe area changed. The
+   * renderer, the stage's transform and screen rectangle and the canvas are
+   * already updated. Called once per change.
+   *
+   * @param app - The PixiJS Application
+   * @param size - New logical size, resolution, design mapping and safe area
+   */
+  onResize?: (app: Application, size: PixiViewSize) => void;
+
   /**
    * Callback fired when the GL context is created.
    * Called before PixiJS initialization - useful for custom GL setup.
@@ -132,6 +401,78 @@ export interface PixiViewProps {
    */
   onContextCreate?: (gl: ExpoWebGLRenderingContext) => void;
 
+  /**
+   * Callback fired when the GL context is lost, e.g. when Android destroys
+   * the GLView's surface in the background or under memory pressure.
+   * Rendering is suspended until the context is restored.
+   */
+  onContextLost?: () => void;
+
+  /**
+   * Callback fired when a new GL context has replaced a lost one.
+   * PixiJS re-creates textures, buffers and shaders on the new context
+   * and rendering resumes.
+   *
+   * @param app - The PixiJS Application, now rendering to the new context
+   */
+  onContextRestored?: (app: Application) => void;
+
+  /**
+   * Pause the view: stop rendering it, and stop the ticker once every
+   * PixiView using it is paused. useTick callbacks are skipped while the
+   * view is paused, but callbacks added with app.ticker.add() keep running
+   * while another view keeps the shared ticker going; check
+   * PixiViewHandle.isPaused() in them if they must stop too.
+   *
+   * @default false
+   */
+  paused?: boolean;
+
+  /**
+   * Navigation object of the screen the view is on. The view pauses while
+   * the screen is not focused, e.g. in a background tab or under a pushed
+   * screen.
+   *
+   * @example
+   * ```tsx
+   * function GameScreen({ navigation }) {
+   *   return <PixiView navigation={navigation} />;
+   * }
+   * ```
+   */
+  navigation?: PixiViewFocusSource;
+
+  /**
+   * Pause the view while its layout is entirely outside the window, e.g.
+   * scrolled away in a pager or scroll view. The position is checked on
+   * layout and twice a second.
+   *
+   * @default false
+   */
+  pauseWhenOffscreen?: boolean;
+
+  /**
+   * Pause the view while the app is in the background or inactive
+   * (AppState is not 'active'). Set to false to keep ticking, e.g. for
+   * audio-driven visuals.
+   *
+   * @default true
+   */
+  pauseWhenInactive?: boolean;
+
+  /**
+   * Callback fired when the view pauses: rendering stops, useTick callbacks
+   * are skipped, and the ticker stops once every PixiView using it is
+   * paused. Until then, callbacks added with app.ticker.add() still run.
+   */
+  onPause?: () => void;
+
+  /**
+   * Callback fired when the view resumes. The first ticker delta after
+   * resuming covers a single frame, not the time spent paused.
+   */
+  onResume?: () => void;
+
   /**
    * Callback fired when an error occurs during initialization.
    *
@@ -164,10 +505,232 @@ export interface PixiViewHandle {
   render: () => void;
 
   /**
-   * Take a screenshot of the current canvas.
-   * @returns Promise resolving to base64-encoded image data
+   * Render on the next ticker frame.
+   * Only needed with renderMode="onDemand"; a no-op otherwise.
+   */
+  invalidate: () => void;
+
+  /**
+   * Whether the view is paused, for any reason (paused prop, app state,
+   * navigation focus or visibility).
+   */
+  isPaused: () => boolean;
+
+  /**
+   * Get how the design size maps onto the view.
+   * @returns Scale, offset and visible design rectangle, or null without
+   *   designWidth and designHeight
+   */
+  getDesignScale: () => DesignScale | null;
+
+  /**
+   * Get the safe area of the view in stage coordinates.
+   * @returns Insets from the visible stage edges and the safe rectangle
+   */
+  getSafeArea: () => PixiViewSafeArea;
+
+  /**
+   * Cap the frame rate at 30 FPS to save battery, or lift the cap again.
+   * The maxFPS prop applies on top, so the lower of the two wins.
+   *
+   * @param enabled - Whether low-power mode is on
+   */
+  setLowPowerMode: (enabled: boolean) => void;
+
+  /**
+   * Whether low-power mode is on.
+   */
+  isLowPowerMode: () => boolean;
+
+  /**
+   * Render the stage and encode it as a PNG or JPEG image.
+   *
+   * @param options - Format, quality, region, scale, background and result type
+   * @returns Promise resolving to base64 image data (default), a data URI or
+   *   a cache file URI
+   */
+  takeSnapshot: (options?: SnapshotOptions) => Promise<string>;
+
+  /**
+   * Get the GPU capabilities of this view's GL context.
+   * @returns Capability report, or null if the context is not created yet
    */
-  takeSnapshot: () => Promise<string>;
+  getCapabilities: () => GPUCapabilities | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Frame rate cap of low-power mode */
+const LOW_POWER_FPS = 30;
+
+/** How often an offscreen-pausing view checks its position, in milliseconds */
+const OFFSCREEN_CHECK_INTERVAL = 500;
+
+/** Insets of a view without safe-area insets */
+const NO_INSETS: PixiViewInsets = { top: 0, right: 0, bottom: 0, left: 0 };
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Present the frame drawn into an expo-gl context.
+ *
+ * expo-gl has no context loss events. Its native methods return null on a
+ * live context and undefined once the context has been destroyed, which is
+ * how a lost context is detected.
+ *
+ * @param gl - expo-gl WebGL context
+ * @returns false if the context has been destroyed
+ */
+function presentFrame(gl: ExpoWebGLRenderingContext): boolean {
+  return (gl.endFrameEXP() as unknown) !== undefined;
+}
+
+/** Why a view is paused */
+type PauseReason = 'prop' | 'inactive' | 'unfocused' | 'offscreen';
+
+/** Paused state of the views rendering from each ticker, by view id */
+const tickerViews = new Map<Ticker, Map<string, boolean>>();
+
+/**
+ * Record whether a view is paused, and stop its ticker once every view
+ * using it is paused (or start it again when one resumes).
+ *
+ * PixiViews share the PixiJS ticker, so one paused view must not stop
+ * the others.
+ *
+ * @param ticker - The view's ticker
+ * @param viewId - Registry key of the view
+ * @param paused - Whether the view is paused, or null when it unmounts
+ */
+function setTickerViewPaused(ticker: Ticker, viewId: string, paused: boolean | null): void {
+  let views = tickerViews.get(ticker);
+  if (!views) {
+    views = new Map();
+    tickerViews.set(ticker, views);
+  }
+
+  if (paused === null) {
+    views.delete(viewId);
+  } else {
+    views.set(viewId, paused);
+  }
+
+  if (views.size === 0) {
+    tickerViews.delete(ticker);
+    return;
+  }
+
+  const allPaused = Array.from(views.values()).every(Boolean);
+
+  if (allPaused && ticker.started) {
+    ticker.stop();
+  } else if (!allPaused && !ticker.started) {
+    ticker.start();
+    // Measure the first delta from now, not from when the ticker stopped
+    ticker.lastTime = performance.now();
+  }
+}
+
+/**
+ * Check whether a render group (or one nested in it) has changes that the
+ * next render would apply: updated transforms, tints or visibility, updated
+ * views, or added and removed children.
+ *
+ * @param renderGroup - Render group to check
+ * @returns true if the group needs to be rendered
+ */
+function hasRenderGroupChanges(renderGroup: RenderGroup): boolean {
+  if (renderGroup.structureDidChange || renderGroup.childrenRenderablesToUpdate.index > 0) {
+    return true;
+  }
+
+  for (const depth in renderGroup.childrenToUpdate) {
+    if (renderGroup.childrenToUpdate[depth].index > 0) return true;
+  }
+
+  return renderGroup.renderGroupChildren.some(hasRenderGroupChanges);
+}
+
+/**
+ * Compute the safe area of a view in stage coordinates.
+ *
+ * @param frame - View position in the window and size, in points
+ * @param insets - Safe-area insets of the window, in points
+ * @param designScale - Design mapping of the stage, if any
+ * @returns Insets and safe rectangle in stage coordinates
+ */
+function getSafeArea(
+  frame: { x: number; y: number; width: number; height: number },
+  insets: PixiViewInsets,
+  designScale: DesignScale | null,
+): PixiViewSafeArea {
+  const windowSize = Dimensions.get('window');
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+  // Only the parts of the window's unsafe edges that overlap the view count
+  const top = clamp(insets.top - frame.y, frame.height);
+  const left = clamp(insets.left - frame.x, frame.width);
+  const bottom = clamp(frame.y + frame.height - (windowSize.height - insets.bottom), frame.height);
+  const right = clamp(frame.x + frame.width - (windowSize.width - insets.right), frame.width);
+
+  const scaleX = designScale?.scaleX ?? 1;
+  const scaleY = designScale?.scaleY ?? 1;
+  const origin = designScale ? viewToDesignPoint(left, top, designScale) : { x: left, y: top };
+
+  return {
+    top: top / scaleY,
+    right: right / scaleX,
+    bottom: bottom / scaleY,
+    left: left / scaleX,
+    rect: {
+      x: origin.x,
+      y: origin.y,
+      width: Math.max(frame.width - left - right, 0) / scaleX,
+      height: Math.max(frame.height - top - bottom, 0) / scaleY,
+    },
+  };
+}
+
+/**
+ * Check whether two safe areas are identical.
+ *
+ * @param a - Previous safe area
+ * @param b - New safe area
+ * @returns true if the insets and rectangles match
+ */
+function isSameSafeArea(a: PixiViewSafeArea, b: PixiViewSafeArea): boolean {
+  return (
+    a.top === b.top &&
+    a.right === b.right &&
+    a.bottom === b.bottom &&
+    a.left === b.left &&
+    a.rect.x === b.rect.x &&
+    a.rect.y === b.rect.y &&
+    a.rect.width === b.rect.width &&
+    a.rect.height === b.rect.height
+  );
+}
+
+/**
+ * Check whether two design mappings place the stage identically.
+ *
+ * @param a - Previous mapping
+ * @param b - New mapping
+ * @returns true if both are null or have the same scale and offset
+ */
+function isSameDesignScale(a: DesignScale | null, b: DesignScale | null): boolean {
+  if (!a || !b) return a === b;
+
+  return (
+    a.scaleX === b.scaleX &&
+    a.scaleY === b.scaleY &&
+    a.offsetX === b.offsetX &&
+    a.offsetY === b.offsetY
+  );
 }
 
 // =============================================================================
@@ -198,9 +761,30 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
     backgroundColor = 0x000000,
     resolution,
     antialias = true,
+    preferWebGLVersion = 2,
+    designWidth,
+    designHeight,
+    scaleMode = 'fit',
+    safeAreaInsets,
+    renderMode = 'continuous',
+    maxFPS = 0,
+    minFPS = 10,
+    paused = false,
+    navigation,
+    pauseWhenOffscreen = false,
+    pauseWhenInactive = true,
+    onPause,
+    onResume,
     interactiveEvents = true,
+    inputBackend = 'responder',
+    gestures = true,
+    children,
     onApplicationCreate,
+    onApplicationRecreate,
     onContextCreate,
+    onResize,
+    onContextLost,
+    onContextRestored,
     onError,
   } = props;
 
@@ -223,9 +807,307 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
   /** Current layout dimensions */
   const layoutRef = useRef<{ width: number; height: number }>({ width: 0, height: 0 });
 
+  /** Position of the view in the window, for the safe area */
+  const windowPositionRef = useRef({ x: 0, y: 0 });
+
+  /** Size the renderer was last sized to */
+  const sizeRef = useRef<PixiViewSize>({
+    width: 0,
+    height: 0,
+    resolution: 0,
+    designScale: null,
+    safeArea: { ...NO_INSETS, rect: { x: 0, y: 0, width: 0, height: 0 } },
+  });
+
+  /** Latest resize callback */
+  const onResizeRef = useRef(onResize);
+  onResizeRef.current = onResize;
+
   /** Canvas element reference for touch event bridging */
   const canvasRef = useRef<any>(null);
 
+  /** Registry key of this view's GL context (stable for the component lifetime) */
+  const viewIdRef = useRef<string | null>(null);
+  if (viewIdRef.current === null) {
+    viewIdRef.current = createViewId();
+  }
+  const viewId = viewIdRef.current;
+
+  /** Latest render mode, read by the ticker callback */
+  const renderModeRef = useRef(renderMode);
+  renderModeRef.current = renderMode;
+
+  /** Whether a frame was requested in on-demand mode */
+  const frameRequestedRef = useRef(true);
+
+  /** Stage change counter at the last render (the root's changes aren't queued) */
+  const stageChangeTickRef = useRef(-1);
+
+  /** Latest frame rate props, applied to the ticker */
+  const frameRateRef = useRef({ maxFPS, minFPS });
+  frameRateRef.current = { maxFPS, minFPS };
+
+  /** Whether low-power mode is on */
+  const lowPowerModeRef = useRef(false);
+
+  /** Reasons the view is currently paused */
+  const pauseReasonsRef = useRef(new Set<PauseReason>());
+
+  /** Whether the view is paused */
+  const pausedRef = useRef(false);
+
+  /** Whether renderTick is on the ticker */
+  const renderTickAddedRef = useRef(false);
+
+  /** Latest pause callbacks */
+  const pauseCallbacksRef = useRef({ onPause, onResume });
+  pauseCallbacksRef.current = { onPause, onResume };
+
+  /** Context options the application was created with (changing them recreates it) */
+  const contextOptionsRef = useRef({ antialias, preferWebGLVersion });
+
+  /** Gesture recognizer fed with the touch bridge's pointer events */
+  const gestureRecognizerRef = useRef<GestureRecognizer | null>(null);
+
+  /** Latest gestures prop */
+  const gesturesRef = useRef(gestures);
+  gesturesRef.current = gestures;
+
+  /** Stage of a recreated application, moved onto its replacement */
+  const preservedStageRef = useRef<Container | null>(null);
+
+  /** React root rendering the children into the stage */
+  const pixiRootRef = useRef<PixiRoot | null>(null);
+
+  /** Latest children, rendered once the application exists */
+  const childrenRef = useRef<ReactNode>(children);
+  childrenRef.current = children;
+
+  /** Context value provided to the children */
+  const sceneContextRef = useRef<PixiAppContextValue>({ app: null });
+
+  /** Registration with an enclosing PixiProvider */
+  const { registerApp } = useContext(PixiAppContext);
+  const registerAppRef = useRef(registerApp);
+  registerAppRef.current = registerApp;
+  const unregisterAppRef = useRef<(() => void) | null>(null);
+
+  /** Latest context loss callbacks, for handlers registered with the renderer */
+  const contextCallbacksRef = useRef({ onContextLost, onContextRestored });
+  contextCallbacksRef.current = { onContextLost, onContextRestored };
+
+  // ===========================================================================
+  // STATE
+  // ===========================================================================
+
+  /** Key of the GLView, bumped to remount it for a new GL context */
+  const [glViewKey, setGLViewKey] = useState(0);
+
+  // ===========================================================================
+  // RENDER LOOP
+  // Ticker callback that renders every frame or only frames with changes.
+  // ===========================================================================
+
+  /**
+   * Request a render on the next ticker frame.
+   */
+  const invalidate = useCallback(() => {
+    frameRequestedRef.current = true;
+  }, []);
+
+  /**
+   * Render a frame from the ticker. Replaces Application.render in the
+   * ticker so that on-demand mode can skip frames without changes.
+   */
+  const renderTick = useCallback(() => {
+    const app = appRef.current;
+    if (!app) return;
+
+    const stageChangeTick = app.stage._didContainerChangeTick;
+
+    if (
+      renderModeRef.current === 'onDemand' &&
+      !frameRequestedRef.current &&
+      stageChangeTick === stageChangeTickRef.current &&
+      !hasRenderGroupChanges(app.stage.renderGroup)
+    ) {
+      return;
+    }
+
+    frameRequestedRef.current = false;
+    stageChangeTickRef.current = stageChangeTick;
+    app.render();
+  }, []);
+
+  /**
+   * Render from the ticker only while the view is running and its context
+   * is alive. Rendering is what presents the frame (endFrameEXP), so this
+   * also stops presenting.
+   */
+  const syncRenderTick = useCallback(() => {
+    const app = appRef.current;
+    if (!app) return;
+
+    const shouldRender = !pausedRef.current && !canvasRef.current?.contextLost;
+    if (shouldRender === renderTickAddedRef.current) return;
+
+    renderTickAddedRef.current = shouldRender;
+
+    if (shouldRender) {
+      invalidate();
+      app.ticker.add(renderTick, undefined, UPDATE_PRIORITY.LOW);
+    } else {
+      app.ticker.remove(renderTick);
+    }
+  }, [invalidate, renderTick]);
+
+  // ===========================================================================
+  // PAUSING
+  // Stop rendering and ticking while the view can't be seen.
+  // ===========================================================================
+
+  /**
+   * Whether the view is paused, for any reason.
+   */
+  const isViewPaused = useCallback(() => pausedRef.current, []);
+
+  /**
+   * Pause or resume the view to match its pause reasons.
+   */
+  const updatePaused = useCallback(() => {
+    const app = appRef.current;
+    const paused = pauseReasonsRef.current.size > 0;
+    if (!app || paused === pausedRef.current) return;
+
+    pausedRef.current = paused;
+    syncRenderTick();
+    setTickerViewPaused(app.ticker, viewId, paused);
+
+    if (__DEV__) {
+      console.log(`[PixiView] ${paused ? 'Paused' : 'Resumed'}`);
+    }
+
+    if (paused) {
+      pauseCallbacksRef.current.onPause?.();
+    } else {
+      pauseCallbacksRef.current.onResume?.();
+    }
+  }, [syncRenderTick]);
+
+  /**
+   * Add or remove a reason for the view to be paused.
+   *
+   * @param reason - Why the view is paused
+   * @param active - Whether the reason applies
+   */
+  const setPauseReason = useCallback(
+    (reason: PauseReason, active: boolean) => {
+      if (active) {
+        pauseReasonsRef.current.add(reason);
+      } else {
+        pauseReasonsRef.current.delete(reason);
+      }
+      updatePaused();
+    },
+    [updatePaused],
+  );
+
+  // Pause while the app is in the background or inactive
+  useEffect(() => {
+    if (!pauseWhenInactive) {
+      setPauseReason('inactive', false);
+      return;
+    }
+
+    const handleAppStateChange = (state: AppStateStatus) => {
+      setPauseReason('inactive', state === 'background' || state === 'inactive');
+    };
+
+    handleAppStateChange(AppState.currentState);
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+
+    return () => subscription.remove();
+  }, [pauseWhenInactive, setPauseReason]);
+
+  // Pause when asked to
+  useEffect(() => {
+    setPauseReason('prop', paused);
+  }, [paused, setPauseReason]);
+
+  // Pause while the navigation screen is not focused
+  useEffect(() => {
+    if (!navigation) return;
+
+    setPauseReason('unfocused', !navigation.isFocused());
+    const removeFocusListener = navigation.addListener('focus', () =>
+      setPauseReason('unfocused', false),
+    );
+    const removeBlurListener = navigation.addListener('blur', () =>
+      setPauseReason('unfocused', true),
+    );
+
+    return () => {
+      removeFocusListener();
+      removeBlurListener();
+      setPauseReason('unfocused', false);
+    };
+  }, [navigation, setPauseReason]);
+
+  /**
+   * Pause the view if its layout is entirely outside the window.
+   */
+  const checkOffscreen = useCallback(() => {
+    containerRef.current?.measureInWindow((x, y, width, height) => {
+      const windowSize = Dimensions.get('window');
+      const visible =
+        width > 0 &&
+        height > 0 &&
+        x < windowSize.width &&
+        y < windowSize.height &&
+        x + width > 0 &&
+        y + height > 0;
+
+      setPauseReason('offscreen', !visible);
+    });
+  }, [setPauseReason]);
+
+  // Pause while scrolled out of the window
+  useEffect(() => {
+    if (!pauseWhenOffscreen) return;
+
+    checkOffscreen();
+    const interval = setInterval(checkOffscreen, OFFSCREEN_CHECK_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      setPauseReason('offscreen', false);
+    };
+  }, [pauseWhenOffscreen, checkOffscreen, setPauseReason]);
+
+  // ===========================================================================
+  // FRAME RATE
+  // Cap the ticker from the maxFPS prop and low-power mode.
+  // ===========================================================================
+
+  /**
+   * Apply the frame rate props and low-power mode to the ticker.
+   */
+  const applyFrameRate = useCallback(() => {
+    const app = appRef.current;
+    if (!app) return;
+
+    const { maxFPS, minFPS } = frameRateRef.current;
+    const cap = lowPowerModeRef.current
+      ? Math.min(maxFPS > 0 ? maxFPS : LOW_POWER_FPS, LOW_POWER_FPS)
+      : maxFPS;
+
+    setTickerFrameRate(app.ticker, { maxFPS: cap, minFPS });
+  }, []);
+
+  useEffect(() => {
+    applyFrameRate();
+  }, [maxFPS, minFPS, applyFrameRate]);
+
   // ===========================================================================
   // IMPERATIVE HANDLE
   // Expose methods via ref for parent component control.
@@ -237,19 +1119,35 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
     getStage: () => appRef.current?.stage ?? null,
 
     render: () => {
-      if (appRef.current && glRef.current) {
+      if (appRef.current && glRef.current && !canvasRef.current?.contextLost) {
         appRef.current.render();
         glRef.current.endFrameEXP();
       }
     },
 
-    takeSnapshot: async () => {
-      if (!glRef.current) {
+    invalidate,
+
+    setLowPowerMode: (enabled: boolean) => {
+      lowPowerModeRef.current = enabled;
+      applyFrameRate();
+    },
+
+    isLowPowerMode: () => lowPowerModeRef.current,
+
+    isPaused: isViewPaused,
+
+    getDesignScale: () => sizeRef.current.designScale,
+
+    getSafeArea: () => sizeRef.current.safeArea,
+
+    takeSnapshot: async (options?: SnapshotOptions) => {
+      if (!appRef.current || !glRef.current || canvasRef.current?.contextLost) {
         throw new Error('GL context not available');
       }
-      // TODO: Implement using expo-gl's GLView.takeSnapshotAsync
-      return '';
+      return takeSnapshot(appRef.current, options);
     },
+
+    getCapabilities: () => (glRef.current ? queryGPUCapabilities(glRef.current) : null),
   }));
 
   // ===========================================================================
@@ -257,18 +1155,122 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
   // Resize renderer when component dimensions change.
   // ===========================================================================
 
+  const {
+    top: insetTop = 0,
+    right: insetRight = 0,
+    bottom: insetBottom = 0,
+    left: insetLeft = 0,
+  } = safeAreaInsets ?? NO_INSETS;
+
+  /**
+   * Resize the renderer to the current layout, fit the stage to the design
+   * size and update the safe area.
+   *
+   * renderer.resize takes the logical size; with autoDensity PixiJS then
+   * sets the canvas to the physical size and its style to the logical size.
+   */
+  const applySize = useCallback(() => {
+    const app = appRef.current;
+    const { width, height } = layoutRef.current;
+    if (!app || width <= 0 || height <= 0) return;
+
+    const res = resolution || PixelRatio.get();
+    const designScale =
+      designWidth && designHeight
+        ? computeDesignScale(width, height, designWidth, designHeight, scaleMode)
+        : null;
+    const safeArea = getSafeArea(
+      { ...windowPositionRef.current, width, height },
+      { top: insetTop, right: insetRight, bottom: insetBottom, left: insetLeft },
+      designScale,
+    );
+
+    const previous = sizeRef.current;
+    if (
+      previous.width === width &&
+      previous.height === height &&
+      previous.resolution === res &&
+      isSameDesignScale(previous.designScale, designScale) &&
+      isSameSafeArea(previous.safeArea, safeArea)
+    ) {
+      return;
+    }
+
+    const size = { width, height, resolution: res, designScale, safeArea };
+    sizeRef.current = size;
+    activateViewContext(viewId);
+
+    if (previous.width !== width || previous.height !== height || previous.resolution !== res) {
+      app.renderer.resize(width, height, res);
+    }
+
+    // Leave the stage alone unless a design size is or was set
+    if (designScale) {
+      app.stage.scale.set(designScale.scaleX, designScale.scaleY);
+      app.stage.position.set(designScale.offsetX, designScale.offsetY);
+    } else if (previous.designScale) {
+      app.stage.scale.set(1, 1);
+      app.stage.position.set(0, 0);
+    }
+
+    invalidate();
+
+    if (__DEV__) {
+      console.log(`[PixiView] Resize: ${width}x${height} @ ${res}x`);
+    }
+
+    onResizeRef.current?.(app, size);
+  }, [
+    resolution,
+    designWidth,
+    designHeight,
+    scaleMode,
+    insetTop,
+    insetRight,
+    insetBottom,
+    insetLeft,
+    invalidate,
+  ]);
+
+  // Refit when the resolution, design or safe-area props change
+  useEffect(() => {
+    applySize();
+  }, [applySize]);
+
+  /**
+   * Measure where the view is in the window, which decides how much of the
+   * window's safe-area insets it overlaps.
+   */
+  const measureWindowPosition = useCallback(() => {
+    containerRef.current?.measureInWindow((x, y) => {
+      windowPositionRef.current = { x, y };
+      applySize();
+    });
+  }, [applySize]);
+
+  // The view's window position changes on rotation without a layout change
+  useEffect(() => {
+    if (!safeAreaInsets) return;
+
+    const subscription = Dimensions.addEventListener('change', measureWindowPosition);
+    return () => subscription.remove();
+  }, [safeAreaInsets, measureWindowPosition]);
+
   const handleLayout = useCallback(
     (event: LayoutChangeEvent) => {
       const { width, height } = event.nativeEvent.layout;
       layoutRef.current = { width, height };
 
-      // Update PixiJS renderer if app exists
-      if (appRef.current) {
-        const res = resolution || PixelRatio.get();
-        appRef.current.renderer.resize(width * res, height * res);
+      if (pauseWhenOffscreen) {
+        checkOffscreen();
       }
+      if (safeAreaInsets) {
+        measureWindowPosition();
+      }
+
+      applySize();
     },
-    [resolution],
+    [applySize, pauseWhenOffscreen, checkOffscreen, safeAreaInsets, measureWindowPosition],
   );
 
   // ===========================================================================
@@ -276,6 +1278,18 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
   // Bridge React Native touch events to PixiJS EventSystem.
   // ===========================================================================
 
+  /**
+   * Check whether a pointer event lands on an object in the stage.
+   */
+  const hitsObject = useCallback((event: NativePointerEvent): boolean => {
+    const events = appRef.current?.renderer.events;
+    if (!events) return false;
+
+    const point = new Point();
+    events.mapPositionToPoint(point, event.clientX, event.clientY);
+    return events.rootBoundary.hitTest(point.x, point.y) !== null;
+  }, []);
+
   /**
    * Forward pointer events to PixiJS EventSystem.
    * Dispatches events through both canvas and window for proper PixiJS handling.
@@ -290,6 +1304,9 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
       const canvas = canvasRef.current;
       if (!canvas) return;
 
+      // Handlers may create offscreen canvases, which take the active view's GL
+      activateViewContext(viewId);
+
       events.forEach((event) => {
         const PointerEventConstructor = (globalThis as any).PointerEvent;
         const eventData = PointerEventConstructor
@@ -305,18 +1322,32 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
               view: (globalThis as any).window,
             };
 
-        // Ensure target is set
+        // Ensure target is set, and keep the design position for handlers
+        // reading event.nativeEvent
         if (eventData) {
           (eventData as any).target = canvas;
           (eventData as any).currentTarget = canvas;
+          (eventData as any).designX = event.designX;
+          (eventData as any).designY = event.designY;
         }
 
         // Dispatch to canvas
         canvas.dispatchEvent(eventData);
 
         // ALWAYS dispatch to window as well for global capture
-        // PixiJS often uses global handlers for PointerDown too in some configs
-        dispatchWindowEvent(eventData);
+        // PixiJS often uses global handlers for PointerDown too in some configs.
+        // The window is shared, so only this view's EventSystem receives it
+        dispatchWindowEvent(eventData, viewId);
+
+        // Recognize gestures once PixiJS handled the pointer event
+        if (gesturesRef.current !== false) {
+          gestureRecognizerRef.current?.handlePointerEvent(event, eventType);
+        }
+
+        // Handlers of a hit object may change what's drawn
+        if (renderModeRef.current === 'onDemand' && hitsObject(event)) {
+          invalidate();
+        }
 
         if (__DEV__ && eventType === 'pointerdown') {
           console.log(
@@ -325,7 +1356,7 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
         }
       });
     },
-    [],
+    [hitsObject, invalidate],
   );
 
   /**
@@ -338,6 +1369,8 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
       const pointerEvents = convertTouchToPointerEvents(event, 'pointerdown', {
         canvas: canvasRef.current,
         resolution: 1, // We use logical units now
+        tracker: getViewContext(viewId)?.touchTracker,
+        designScale: sizeRef.current.designScale,
       });
       forwardPointerEvent(pointerEvents, 'pointerdown');
     },
@@ -354,6 +1387,8 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
       const pointerEvents = convertTouchToPointerEvents(event, 'pointermove', {
         canvas: canvasRef.current,
         resolution: 1, // We use logical units now
+        tracker: getViewContext(viewId)?.touchTracker,
+        designScale: sizeRef.current.designScale,
       });
       forwardPointerEvent(pointerEvents, 'pointermove');
     },
@@ -370,6 +1405,8 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
       const pointerEvents = convertTouchToPointerEvents(event, 'pointerup', {
         canvas: canvasRef.current,
         resolution: 1, // We use logical units now
+        tracker: getViewContext(viewId)?.touchTracker,
+        designScale: sizeRef.current.designScale,
       });
       forwardPointerEvent(pointerEvents, 'pointerup');
     },
@@ -386,13 +1423,149 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
       const pointerEvents = convertTouchToPointerEvents(event, 'pointercancel', {
         canvas: canvasRef.current,
         resolution: 1, // We use logical units now
+        tracker: getViewContext(viewId)?.touchTracker,
+        designScale: sizeRef.current.designScale,
       });
       forwardPointerEvent(pointerEvents, 'pointercancel');
-      clearTouchTracking();
+      clearTouchTracking(getViewContext(viewId)?.touchTracker);
+    },
+    [interactiveEvents, forwardPointerEvent],
+  );
+
+  /**
+   * Handle touch events of the gesture-handler backend or a touch source.
+   */
+  const handleGestureTouches = useCallback<GestureTouchListener>(
+    (event: GestureTouchEventData, eventType) => {
+      if (!interactiveEvents || !canvasRef.current) return;
+
+      const tracker = getViewContext(viewId)?.touchTracker;
+      const pointerEvents = convertGestureTouchToPointerEvents(event, eventType, {
+        canvas: canvasRef.current,
+        resolution: 1, // We use logical units now
+        tracker,
+        designScale: sizeRef.current.designScale,
+      });
+      forwardPointerEvent(pointerEvents, eventType);
+
+      if (eventType === 'pointercancel') {
+        clearTouchTracking(tracker);
+      }
     },
     [interactiveEvents, forwardPointerEvent],
   );
 
+  /** Latest handler, for the gesture and touch source subscriptions */
+  const gestureTouchHandlerRef = useRef(handleGestureTouches);
+  gestureTouchHandlerRef.current = handleGestureTouches;
+
+  /** Gesture of the gesture-handler backend */
+  const touchGesture = useMemo(
+    () =>
+      inputBackend === 'gesture-handler'
+        ? createTouchGesture((event, eventType) => gestureTouchHandlerRef.current(event, eventType))
+        : null,
+    [inputBackend],
+  );
+
+  // Read touches from a touch source
+  useEffect(() => {
+    if (typeof inputBackend !== 'object') return;
+
+    return inputBackend.subscribe((event, eventType) =>
+      gestureTouchHandlerRef.current(event, eventType),
+    );
+  }, [inputBackend]);
+
+  // ===========================================================================
+  // CONTEXT LOSS HANDLING
+  // Suspend rendering on a destroyed context and restore onto a new one.
+  // ===========================================================================
+
+  /**
+   * Mark the context as lost and stop rendering into it.
+   *
+   * @returns false if the context was already marked as lost
+   */
+  const loseContext = useCallback((): boolean => {
+    const canvas = canvasRef.current;
+    if (!canvas || canvas.contextLost) return false;
+
+    // PixiJS's GlContextSystem handles the event
+    canvas.loseGLContext('expo-gl context destroyed');
+    syncRenderTick();
+
+    if (__DEV__) {
+      console.log('[PixiView] GL context lost');
+    }
+
+    contextCallbacksRef.current.onContextLost?.();
+    return true;
+  }, [syncRenderTick]);
+
+  /**
+   * Handle a context found destroyed while rendering: remount the GLView,
+   * whose new context is then restored in handleContextCreate.
+   */
+  const handleContextLost = useCallback(() => {
+    if (loseContext()) {
+      setGLViewKey((key) => key + 1);
+    }
+  }, [loseContext]);
+
+  /**
+   * Move the running application onto a new GL context.
+   *
+   * @param app - The running application
+   * @param gl - The new expo-gl context
+   */
+  const restoreContext = useCallback(
+    (app: Application, gl: ExpoWebGLRenderingContext) => {
+      // Android re-creates the context of a kept GLView without a loss signal
+      loseContext();
+
+      glRef.current = gl;
+
+      // PixiJS restores into the context it holds, so point it at the new one first
+      (app.renderer as unknown as { context: { gl: ExpoWebGLRenderingContext } }).context.gl = gl;
+      restoreGLContext(gl, viewId);
+      syncRenderTick();
+
+      if (__DEV__) {
+        console.log('[PixiView] GL context restored');
+      }
+
+      contextCallbacksRef.current.onContextRestored?.(app);
+    },
+    [loseContext, syncRenderTick],
+  );
+
+  // ===========================================================================
+  // SCENE
+  // ===========================================================================
+
+  /**
+   * Render children into the stage, providing the current application.
+   *
+   * @param sceneChildren - Children to render
+   */
+  const renderScene = useCallback((sceneChildren: ReactNode) => {
+    // Only load the reconciler once there is something to render
+    if (!pixiRootRef.current) {
+      const app = appRef.current;
+      if (!app || sceneChildren == null) return;
+
+      // The root stays with the stage when the application is recreated
+      pixiRootRef.current = createPixiRoot(app.stage);
+    }
+
+    pixiRootRef.current.render(
+      <PixiAppContext.Provider value={sceneContextRef.current}>
+        {sceneChildren}
+      </PixiAppContext.Provider>,
+    );
+  }, []);
+
   // ===========================================================================
   // GL CONTEXT HANDLING
   // Initialize PixiJS when expo-gl context is created.
@@ -400,6 +1573,12 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
 
   const handleContextCreate = useCallback(
     async (gl: ExpoWebGLRenderingContext) => {
+      // A new context for a running application replaces a lost one
+      if (appRef.current) {
+        restoreContext(appRef.current, gl);
+        return;
+      }
+
       glRef.current = gl;
 
       // PixiJS resolution handling for high-DPI (Retina) screens:
@@ -424,8 +1603,10 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
       }
 
       // Set up canvas wrapper with PHYSICAL dimensions
-      // This ensures ExpoCanvasElement reports the full backing store size
-      const canvas = setActiveGLContext(gl, physicalWidth, physicalHeight);
+      // This ensures ExpoCanvasElement reports the full backing store size.
+      // The context is registered under this view's id so that other
+      // PixiViews on screen keep their own canvas and GL state.
+      const canvas = setActiveGLContext(gl, physicalWidth, physicalHeight, viewId);
 
       // Set style to logical size (PixiJS autoDensity relies on this relation)
       canvas.style.width = `${logicalWidth}px`;
@@ -446,6 +1627,8 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
           backgroundColor,
           resolution: res,
           antialias,
+          preference: 'webgl',
+          preferWebGLVersion,
           canvas: canvas as any,
           autoStart: true,
           sharedTicker: true,
@@ -453,14 +1636,47 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
           hello: true,
         });
 
+        // Another view may have registered its context while this one initialized
+        activateViewContext(viewId);
+
         appRef.current = app;
+        contextOptionsRef.current = { antialias, preferWebGLVersion };
+
+        // Carry the scene over from the application this one replaces
+        const preservedStage = preservedStageRef.current;
+        if (preservedStage) {
+          preservedStageRef.current = null;
+          app.stage.destroy();
+          app.stage = preservedStage;
+        }
+
+        sizeRef.current = {
+          width: logicalWidth,
+          height: logicalHeight,
+          resolution: res,
+          designScale: null,
+          safeArea: sizeRef.current.safeArea,
+        };
+
+        // Render from our own ticker callback, which can skip clean frames
+        app.ticker.remove(app.render, app);
+        syncRenderTick();
+        applyFrameRate();
+
+        // Start paused if the app went inactive during initialization
+        setTickerViewPaused(app.ticker, viewId, pausedRef.current);
+        updatePaused();
+
+        // Catch up with layout changes made while initializing
+        applySize();
 
         // Ensure EventSystem is properly set up with our canvas
         if (app.renderer.events) {
           // Re-set target element to ensure event listeners are attached
           const eventSystem = app.renderer.events as any;
           if (eventSystem.setTargetElement) {
-            eventSystem.setTargetElement(canvas);
+            // Tag its window listeners with this view, see forwardPointerEvent
+            scopeWindowListeners(viewId, () => eventSystem.setTargetElement(canvas));
             if (__DEV__) {
               console.log('[PixiView] EventSystem target element set');
             }
@@ -475,28 +1691,172 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
               );
             }, 100);
           }
+
+          // Gesture handlers may change what's drawn
+          const recognizer = new GestureRecognizer(
+            app.renderer.events,
+            typeof gesturesRef.current === 'object' ? gesturesRef.current : {},
+          );
+          recognizer.onGesture = () => {
+            if (renderModeRef.current === 'onDemand') {
+              invalidate();
+            }
+          };
+          gestureRecognizerRef.current = recognizer;
         }
 
+        // Views share the ticker, so make this one active for offscreen
+        // canvases created while it renders (text, gradients)
+        app.renderer.runners.prerender.add({
+          prerender: () => {
+            activateViewContext(viewId);
+          },
+        });
+
         // Hook into PixiJS render cycle to call endFrameEXP
-        // This is more efficient than a separate render loop
+        // This is more efficient than a separate render loop.
+        // Renders into a texture (snapshots, extract, generateTexture) run the
+        // same runners but draw nothing on screen, so they don't present
         app.renderer.runners.postrender.add({
-          postrender: () => {
-            if (glRef.current) {
-              glRef.current.endFrameEXP();
+          postrender: ({ target }: RenderOptions) => {
+            if (target !== app.renderer.view.renderTarget) return;
+
+            if (glRef.current && !presentFrame(glRef.current)) {
+              handleContextLost();
             }
           },
         });
 
         // Notify application creation
-        onApplicationCreate?.(app);
+        unregisterAppRef.current = registerAppRef.current?.(app, isViewPaused) ?? null;
+        sceneContextRef.current = { app, isPaused: isViewPaused };
+
+        if (preservedStage) {
+          onApplicationRecreate?.(app);
+        } else {
+          onApplicationCreate?.(app);
+        }
+
+        renderScene(childrenRef.current);
       } catch (error) {
         console.error('PixiJS initialization error:', error);
         onError?.(error as Error);
       }
     },
-    [backgroundColor, resolution, antialias, onApplicationCreate, onContextCreate, onError],
+    [
+      backgroundColor,
+      resolution,
+      antialias,
+      preferWebGLVersion,
+      onApplicationCreate,
+      onApplicationRecreate,
+      onContextCreate,
+      onError,
+      restoreContext,
+      handleContextLost,
+      syncRenderTick,
+      applyFrameRate,
+      updatePaused,
+      isViewPaused,
+      applySize,
+      renderScene,
+      invalidate,
+    ],
   );
 
+  // ===========================================================================
+  // PROP UPDATES
+  // Hot props update the running application; cold props recreate it.
+  //   hot:  backgroundColor, resolution (see applySize), designWidth,
+  //         designHeight, scaleMode, safeAreaInsets, renderMode, maxFPS,
+  //         minFPS, paused, interactiveEvents, inputBackend, gestures and
+  //         the callbacks
+  //   cold: antialias, preferWebGLVersion
+  // ===========================================================================
+
+  /**
+   * Destroy the application, detaching it from the shared ticker.
+   *
+   * @param app - Application to destroy
+   * @param keepStage - Keep the stage and its children alive for a new application
+   */
+  const destroyApplication = useCallback(
+    (app: Application, keepStage: boolean) => {
+      activateViewContext(viewId);
+      gestureRecognizerRef.current?.destroy();
+      gestureRecognizerRef.current = null;
+
+      // The shared ticker outlives the application
+      app.ticker.remove(renderTick);
+      renderTickAddedRef.current = false;
+      setTickerViewPaused(app.ticker, viewId, null);
+
+      if (keepStage) {
+        app.stage = new Container();
+      }
+
+      try {
+        app.destroy(true, { children: true });
+      } catch (error) {
+        console.warn('Error destroying PixiJS application:', error);
+      }
+    },
+    [renderTick],
+  );
+
+  // Render the children into the stage
+  useEffect(() => {
+    renderScene(children);
+  }, [children, renderScene]);
+
+  // Follow background color changes
+  useEffect(() => {
+    const app = appRef.current;
+    if (!app || app.renderer.background.color.toNumber() === backgroundColor) return;
+
+    app.renderer.background.color = backgroundColor;
+    invalidate();
+  }, [backgroundColor, invalidate]);
+
+  // Follow gesture option changes, dropping gestures in progress when turned off
+  useEffect(() => {
+    const recognizer = gestureRecognizerRef.current;
+    if (!recognizer) return;
+
+    if (gestures === false) {
+      recognizer.cancel();
+    } else {
+      recognizer.setOptions(typeof gestures === 'object' ? gestures : {});
+    }
+  }, [gestures]);
+
+  // Recreate the application when a context option changes
+  useEffect(() => {
+    const app = appRef.current;
+    const created = contextOptionsRef.current;
+    if (
+      !app ||
+      (created.antialias === antialias && created.preferWebGLVersion === preferWebGLVersion)
+    ) {
+      return;
+    }
+
+    if (__DEV__) {
+      console.log('[PixiView] Context options changed, recreating the application');
+    }
+
+    // The new GLView's context is set up by handleContextCreate, which finds
+    // no application and initializes one around the preserved stage
+    preservedStageRef.current = app.stage;
+    unregisterAppRef.current?.();
+    unregisterAppRef.current = null;
+    destroyApplication(app, true);
+    appRef.current = null;
+    glRef.current = null;
+    canvasRef.current = null;
+    setGLViewKey((key) => key + 1);
+  }, [antialias, preferWebGLVersion, destroyApplication]);
+
   // ===========================================================================
   // CLEANUP
   // Properly destroy PixiJS resources on unmount.
@@ -510,46 +1870,55 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
         animationFrameRef.current = null;
       }
 
+      // Unmount the children while their stage is alive
+      pixiRootRef.current?.unmount();
+      pixiRootRef.current = null;
+      unregisterAppRef.current?.();
+      unregisterAppRef.current = null;
+
       // Destroy PixiJS application
       if (appRef.current) {
-        try {
-          appRef.current.destroy(true, { children: true });
-        } catch (error) {
-          console.warn('Error destroying PixiJS application:', error);
-        }
+        destroyApplication(appRef.current, false);
         appRef.current = null;
       }
 
+      // A stage waiting for a recreated application goes too
+      preservedStageRef.current?.destroy({ children: true });
+      preservedStageRef.current = null;
+
       // Clear GL reference
       glRef.current = null;
 
       // Clear canvas reference
       canvasRef.current = null;
 
-      // Clear touch tracking state
-      clearTouchTracking();
-
-      // Clear active context from adapter
-      clearActiveContext();
+      // Clear this view's context (and its touch tracking state) from the
+      // adapter, leaving other mounted PixiViews untouched
+      clearActiveContext(viewId);
     };
   }, []);
 
   // ===========================================================================
   // RENDER
-  // Touch responder props for interactive event handling.
+  // Touch responder props for interactive event handling, or an overlay
+  // carrying the gesture of the gesture-handler backend (a sibling of the
+  // GLView, so switching backends doesn't remount the GL context).
   // ===========================================================================
 
-  const touchResponderProps = interactiveEvents
-    ? {
-        onStartShouldSetResponder: () => true,
-        onMoveShouldSetResponder: () => true,
-        onResponderGrant: handleTouchStart,
-        onResponderMove: handleTouchMove,
-        onResponderRelease: handleTouchEnd,
-        onResponderTerminate: handleTouchCancel,
-        onResponderTerminationRequest: () => true,
-      }
-    : {};
+  const touchResponderProps =
+    interactiveEvents && inputBackend === 'responder'
+      ? {
+          onStartShouldSetResponder: () => true,
+          onMoveShouldSetResponder: () => true,
+          onResponderGrant: handleTouchStart,
+          onResponderMove: handleTouchMove,
+          onResponderRelease: handleTouchEnd,
+          onResponderTerminate: handleTouchCancel,
+          onResponderTerminationRequest: () => true,
+        }
+      : {};
+
+  const GestureDetector = touchGesture ? loadGestureHandler().GestureDetector : null;
 
   return (
     <View
@@ -558,7 +1927,17 @@ export const PixiView = forwardRef<PixiViewHandle, PixiViewProps>((props, ref) =
       onLayout={handleLayout}
       {...touchResponderProps}
     >
-      <GLView style={styles.glView} onContextCreate={handleContextCreate} />
+      <GLView
+        key={glViewKey}
+        style={styles.glView}
+        msaaSamples={antialias ? 4 : 0}
+        onContextCreate={handleContextCreate}
+      />
+      {GestureDetector && touchGesture && (
+        <GestureDetector gesture={touchGesture}>
+          <View style={StyleSheet.absoluteFill} collapsable={false} />
+        </GestureDetector>
+      )}
     </View>
   );
 });
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Federated event dispatched for recognized gestures.
+ *
+ * Gesture events travel through PixiJS's federated event system like
+ * pointer events: they are captured and bubble along the target's ancestors,
+ * reach listeners added with `on()` and `on<type>` handler properties, and
+ * only notify interactive objects (eventMode 'static' or 'dynamic').
+ *
+ * @module @penabt/pixi-expo/gestures/FederatedGestureEvent
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { FederatedEvent, Point } from 'pixi.js';
+import type { Container, PointData } from 'pixi.js';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Gesture recognized by a GestureRecognizer */
+export type GestureType = 'tap' | 'doubletap' | 'longpress' | 'pan' | 'swipe' | 'pinch' | 'rotate';
+
+/** Dominant direction of a swipe */
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Gesture event types. Continuous gestures (pan, pinch, rotate) have start,
+ * update and end events.
+ *
+ * Taps are 'gesturetap' because PixiJS already emits 'tap' on every touch
+ * release; 'gesturetap' fails when the touch became a long press or a pan,
+ * and waits for a double tap when one is listened for.
+ */
+export interface GestureEventMap {
+  gesturetap: FederatedGestureEvent;
+  doubletap: FederatedGestureEvent;
+  longpress: FederatedGestureEvent;
+  panstart: FederatedGestureEvent;
+  pan: FederatedGestureEvent;
+  panend: FederatedGestureEvent;
+  swipe: FederatedGestureEvent;
+  pinchstart: FederatedGestureEvent;
+  pinch: FederatedGestureEvent;
+  pinchend: FederatedGestureEvent;
+  rotatestart: FederatedGestureEvent;
+  rotate: FederatedGestureEvent;
+  rotateend: FederatedGestureEvent;
+}
+
+/** Gesture event type */
+export type GestureEventType = keyof GestureEventMap;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Event types of each gesture */
+export const GESTURE_EVENTS: Record<GestureType, GestureEventType[]> = {
+  tap: ['gesturetap'],
+  doubletap: ['doubletap'],
+  longpress: ['longpress'],
+  pan: ['panstart', 'pan', 'panend'],
+  swipe: ['swipe'],
+  pinch: ['pinchstart', 'pinch', 'pinchend'],
+  rotate: ['rotatestart', 'rotate', 'rotateend'],
+};
+
+// =============================================================================
+// EVENT
+// =============================================================================
+
+/**
+ * Event of a recognized gesture.
+ *
+ * Positions are global (stage-space before the stage's transform, like
+ * FederatedPointerEvent.global); use getLocalPosition() for an object's
+ * local space, which accounts for a design resolution.
+ *
+ * @example
+ * ```ts
+ * map.eventMode = 'static';
+ * map.on('pinchstart', () => (startScale = map.scale.x));
+ * map.on('pinch', (e) => map.scale.set(startScale * e.scale));
+ * map.on('pan', (e) => map.position.set(map.x + e.delta.x, map.y + e.delta.y));
+ * ```
+ */
+export class FederatedGestureEvent extends FederatedEvent {
+  /** Gesture the event belongs to */
+  public gesture: GestureType = 'tap';
+
+  /** Center of the gesture's pointers, or the position of a tap */
+  public global = new Point();
+
+  /** Pointers down in the gesture */
+  public pointerCount = 0;
+
+  /** Movement of the pointers' center since the first pointer went down */
+  public translation = new Point();
+
+  /** Movement of the pointers' center since the previous event */
+  public delta = new Point();
+
+  /** Velocity of the pointers' center, in units per second */
+  public velocity = new Point();
+
+  /** Pinch scale relative to the distance when the second pointer went down */
+  public scale = 1;
+
+  /** Pinch scale change since the previous event, as a factor */
+  public deltaScale = 1;
+
+  /** Rotation in radians since the second pointer went down, clockwise */
+  public rotation = 0;
+
+  /** Rotation change since the previous event, in radians */
+  public deltaRotation = 0;
+
+  /** Direction of a swipe, null for other gestures */
+  public direction: SwipeDirection | null = null;
+
+  /** Milliseconds since the first pointer went down */
+  public duration = 0;
+
+  /** Whether an end event was caused by a cancelled touch */
+  public cancelled = false;
+
+  /**
+   * Get the position of the gesture in a container's local space.
+   *
+   * @param container - Container whose space to map into
+   * @param point - Point to write the result into
+   * @param globalPos - Global position to map instead of the event's
+   * @returns Local position
+   */
+  public getLocalPosition<P extends PointData = Point>(
+    container: Container,
+    point?: P,
+    globalPos?: PointData,
+  ): P {
+    return container.worldTransform.applyInverse<P>(globalPos ?? this.global, point);
+  }
+}
+
+// =============================================================================
+// EVENT TYPES
+// =============================================================================
+
+/** Listener signatures of the gesture events, for Container.on() */
+type GestureEventEmitterTypes = {
+  [K in GestureEventType as K | `${K}capture`]: [event: FederatedGestureEvent];
+};
+
+declare global {
+  namespace PixiMixins {
+    interface ContainerEvents extends GestureEventEmitterTypes {}
+  }
+}
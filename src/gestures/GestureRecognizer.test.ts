@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import 'pixi.js/events';
+import { Container, EventBoundary, Rectangle } from 'pixi.js';
+import type { EventSystem } from 'pixi.js';
+import type { NativePointerEvent } from '../utils/touchEventBridge';
+import { GestureRecognizer } from './GestureRecognizer';
+import type { FederatedGestureEvent, GestureEventType } from './FederatedGestureEvent';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Feeds touches to a recognizer as pointer events, remembering where each
+ * touch is so it lifts where it was last moved to.
+ */
+class TouchDriver {
+  private _positions = new Map<number, [number, number]>();
+
+  constructor(private _recognizer: GestureRecognizer) {}
+
+  touchDown(id: number, x: number, y: number): void {
+    this._positions.set(id, [x, y]);
+    this._send('pointerdown', id);
+  }
+
+  touchMove(id: number, x: number, y: number): void {
+    this._positions.set(id, [x, y]);
+    this._send('pointermove', id);
+  }
+
+  touchUp(id: number): void {
+    this._send('pointerup', id);
+    this._positions.delete(id);
+  }
+
+  tap(x: number, y: number): void {
+    this.touchDown(0, x, y);
+    this.touchUp(0);
+  }
+
+  private _send(type: 'pointerdown' | 'pointermove' | 'pointerup', id: number): void {
+    const [clientX, clientY] = this._positions.get(id)!;
+    const event = { pointerId: id, clientX, clientY } as NativePointerEvent;
+    this._recognizer.handlePointerEvent(event, type);
+  }
+}
+
+/**
+ * Create an interactive square. The hit area carries the position, since
+ * world transforms are only updated by rendering.
+ */
+function createBox(x: number, y: number, size = 100): Container {
+  const box = new Container();
+  box.eventMode = 'static';
+  box.hitArea = new Rectangle(x, y, size, size);
+  return box;
+}
+
+/**
+ * Record the gesture events an object receives.
+ */
+function listen(object: Container, types: GestureEventType[]): FederatedGestureEvent[] {
+  const received: FederatedGestureEvent[] = [];
+  for (const type of types) {
+    object.on(type, (event) => received.push(event));
+  }
+  return received;
+}
+
+/**
+ * Set up a stage with two boxes and a recognizer fed by a touch driver.
+ */
+function createScene() {
+  const stage = new Container();
+  const left = createBox(0, 0);
+  const right = createBox(200, 0);
+  stage.addChild(left, right);
+
+  const events = {
+    rootBoundary: new EventBoundary(stage),
+    mapPositionToPoint: (point: { set(x: number, y: number): void }, x: number, y: number) =>
+      point.set(x, y),
+  } as unknown as EventSystem;
+
+  const recognizer = new GestureRecognizer(events);
+  const touches = new TouchDriver(recognizer);
+
+  return { left, right, recognizer, touches };
+}
+
+/**
+ * Move a touch in steps, advancing the clock between them.
+ */
+function drag(
+  touches: TouchDriver,
+  id: number,
+  from: [number, number],
+  to: [number, number],
+  steps: number,
+  stepTime: number,
+): void {
+  for (let i = 1; i <= steps; i++) {
+    vi.advanceTimersByTime(stepTime);
+    touches.touchMove(
+      id,
+      from[0] + ((to[0] - from[0]) * i) / steps,
+      from[1] + ((to[1] - from[1]) * i) / steps,
+    );
+  }
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('GestureRecognizer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fires a tap on the object under the pointer', () => {
+    const { left, right, touches } = createScene();
+    const leftEvents = listen(left, ['gesturetap']);
+    const rightEvents = listen(right, ['gesturetap']);
+
+    touches.tap(50, 50);
+
+    expect(leftEvents.map((event) => event.type)).toEqual(['gesturetap']);
+    expect(leftEvents[0].global).toMatchObject({ x: 50, y: 50 });
+    expect(rightEvents).toHaveLength(0);
+  });
+
+  it('holds a tap until the double-tap interval passes', () => {
+    const { left, touches } = createScene();
+    const received = listen(left, ['gesturetap', 'doubletap']);
+
+    touches.tap(50, 50);
+    expect(received).toHaveLength(0);
+
+    vi.advanceTimersByTime(300);
+    expect(received.map((event) => event.type)).toEqual(['gesturetap']);
+  });
+
+  it('turns two quick taps into a double tap', () => {
+    const { left, touches } = createScene();
+    const received = listen(left, ['gesturetap', 'doubletap']);
+
+    touches.tap(50, 50);
+    vi.advanceTimersByTime(100);
+    touches.tap(55, 52);
+    vi.advanceTimersByTime(1000);
+
+    expect(received.map((event) => event.type)).toEqual(['doubletap']);
+  });
+
+  it('fires a long press instead of a tap for a held pointer', () => {
+    const { left, touches } = createScene();
+    const received = listen(left, ['gesturetap', 'longpress']);
+
+    touches.touchDown(0, 50, 50);
+    vi.advanceTimersByTime(500);
+    touches.touchUp(0);
+
+    expect(received.map((event) => event.type)).toEqual(['longpress']);
+  });
+
+  it('pans and swipes with the translation and direction of the movement', () => {
+    const { left, touches } = createScene();
+    const received = listen(left, ['gesturetap', 'panstart', 'pan', 'panend', 'swipe']);
+
+    touches.touchDown(0, 10, 50);
+    drag(touches, 0, [10, 50], [90, 50], 4, 16);
+    touches.touchUp(0);
+
+    const types = received.map((event) => event.type);
+    expect(types[0]).toBe('panstart');
+    expect(types.slice(-2)).toEqual(['panend', 'swipe']);
+    expect(types).not.toContain('gesturetap');
+
+    const swipe = received[received.length - 1];
+    expect(swipe.direction).toBe('right');
+    expect(swipe.translation.x).toBeCloseTo(80);
+    expect(swipe.velocity.x).toBeGreaterThan(300);
+  });
+
+  it('pinches and rotates the object under both pointers', () => {
+    const { left, touches } = createScene();
+    const received = listen(left, ['pinchstart', 'pinch', 'pinchend', 'rotatestart', 'rotateend']);
+
+    touches.touchDown(0, 40, 50);
+    touches.touchDown(1, 60, 50);
+    drag(touches, 1, [60, 50], [40, 90], 4, 16);
+    touches.touchUp(1);
+    touches.touchUp(0);
+
+    const types = received.map((event) => event.type);
+    expect(types).toContain('pinchstart');
+    expect(types).toContain('rotatestart');
+    expect(types.slice(-2).sort()).toEqual(['pinchend', 'rotateend']);
+
+    // Distance 20 -> 40, angle 0 -> 90 degrees
+    const lastPinch = received.filter((event) => event.type !== 'rotateend').pop()!;
+    expect(lastPinch.scale).toBeCloseTo(2);
+    const rotateEnd = received.find((event) => event.type === 'rotateend')!;
+    expect(rotateEnd.rotation).toBeCloseTo(Math.PI / 2);
+  });
+
+  it('keeps pointers on different objects independent', () => {
+    const { left, right, touches } = createScene();
+    const leftEvents = listen(left, ['gesturetap', 'pinchstart']);
+    const rightEvents = listen(right, ['gesturetap', 'pinchstart']);
+
+    touches.touchDown(0, 50, 50);
+    touches.touchDown(1, 250, 50);
+    touches.touchUp(0);
+    touches.touchUp(1);
+
+    expect(leftEvents.map((event) => event.type)).toEqual(['gesturetap']);
+    expect(rightEvents.map((event) => event.type)).toEqual(['gesturetap']);
+  });
+
+  it('ends gestures in progress as cancelled', () => {
+    const { left, recognizer, touches } = createScene();
+    const received = listen(left, ['gesturetap', 'pan', 'panend']);
+
+    touches.touchDown(0, 10, 50);
+    drag(touches, 0, [10, 50], [60, 50], 2, 16);
+    recognizer.cancel();
+
+    const panEnd = received[received.length - 1];
+    expect(panEnd.type).toBe('panend');
+    expect(panEnd.cancelled).toBe(true);
+  });
+});
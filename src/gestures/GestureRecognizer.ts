@@ -0,0 +1,792 @@
+/**
+ * @fileoverview Gesture recognition on top of the touch event bridge.
+ *
+ * A GestureRecognizer receives the same pointer events PixiView feeds to
+ * PixiJS, groups pointers into sessions, recognizes tap, double-tap,
+ * long-press, pan, swipe, pinch and rotate, and dispatches them as
+ * FederatedGestureEvents to the objects under the pointers.
+ *
+ * Arbitration:
+ * - Only gestures listened for on the hit object or its ancestors are
+ *   recognized, and single-pointer gestures go to the object hit by the
+ *   first pointer, bubbling from there.
+ * - A pointer going down while others are down joins their session when an
+ *   object under all of them listens for pinch or rotate; that object gets
+ *   the pinch and rotate events. Otherwise it starts a separate session, so
+ *   fingers on different objects gesture independently.
+ * - Moving beyond tapSlop or adding a pointer fails tap, double-tap and
+ *   long-press. A long press fails the tap; a pan may follow it.
+ * - A tap on an object that listens for double-tap waits doubleTapInterval
+ *   before firing, and doesn't fire if the second tap arrives.
+ *
+ * @module @penabt/pixi-expo/gestures/GestureRecognizer
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { Point } from 'pixi.js';
+import type { Container, EventSystem, PointData } from 'pixi.js';
+import type { NativePointerEvent } from '../utils/touchEventBridge';
+import { FederatedGestureEvent, GESTURE_EVENTS } from './FederatedGestureEvent';
+import type { GestureEventType, GestureType, SwipeDirection } from './FederatedGestureEvent';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Thresholds of the gesture recognizers, in global units and milliseconds */
+export interface GestureOptions {
+  /**
+   * Distance a pointer may move before tap, double-tap and long-press fail.
+   * @default 10
+   */
+  tapSlop?: number;
+
+  /**
+   * Longest press that still counts as a tap.
+   * @default 500
+   */
+  tapMaxDuration?: number;
+
+  /**
+   * Longest time between the taps of a double tap.
+   * @default 300
+   */
+  doubleTapInterval?: number;
+
+  /**
+   * Largest distance between the taps of a double tap.
+   * @default 40
+   */
+  doubleTapSlop?: number;
+
+  /**
+   * Time a pointer is held still before a long press fires.
+   * @default 500
+   */
+  longPressDuration?: number;
+
+  /**
+   * Distance the pointers' center moves before a pan starts.
+   * @default 10
+   */
+  panThreshold?: number;
+
+  /**
+   * Shortest movement that counts as a swipe.
+   * @default 30
+   */
+  swipeMinDistance?: number;
+
+  /**
+   * Lowest release velocity that counts as a swipe, in units per second.
+   * @default 300
+   */
+  swipeMinVelocity?: number;
+
+  /**
+   * Scale change, as a fraction, before a pinch starts.
+   * @default 0.05
+   */
+  pinchThreshold?: number;
+
+  /**
+   * Rotation in radians before a rotate starts.
+   * @default 0.1
+   */
+  rotateThreshold?: number;
+}
+
+/** Pointer taking part in a session */
+interface GesturePointer {
+  /** Where it went down, in global coordinates */
+  start: Point;
+  /** Where it is now */
+  position: Point;
+}
+
+/** Pointers gesturing together, from the first pointer down to the last up */
+interface GestureSession {
+  /** Pointers down, in the order they went down */
+  pointers: Map<number, GesturePointer>;
+  /** Object hit by the first pointer, target of single-pointer gestures */
+  target: Container;
+  /** Propagation path of target, root first */
+  path: Container[];
+  /** Object under all pointers that listens for pinch or rotate */
+  multiTarget: Container | null;
+  /** When the first pointer went down */
+  startTime: number;
+  /** Most pointers down at once */
+  maxPointers: number;
+  /** A pointer moved further than tapSlop */
+  moved: boolean;
+  /** Pending long press */
+  longPressTimer: ReturnType<typeof setTimeout> | null;
+  /** The long press fired */
+  longPressed: boolean;
+  /** Center of the pointers at the last update */
+  center: Point;
+  /** Movement of the center since the first pointer went down */
+  translation: Point;
+  /** Recent translations, for the velocity */
+  samples: { time: number; x: number; y: number }[];
+  /** Pointers whose distance and angle drive pinch and rotate */
+  pair: [number, number] | null;
+  /** Distance between the pair at the last update */
+  pairDistance: number;
+  /** Angle between the pair at the last update */
+  pairAngle: number;
+  /** Scale since the pair formed */
+  scale: number;
+  /** Rotation since the pair formed */
+  rotation: number;
+  /** Whether pan, pinch and rotate have started */
+  panning: boolean;
+  pinching: boolean;
+  rotating: boolean;
+}
+
+/** A tap waiting to see whether a second one makes it a double tap */
+interface PendingTap {
+  session: GestureSession;
+  position: Point;
+  time: number;
+  /** Fires the single tap, if one is waiting */
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/** Event fields that differ from the session's current state */
+interface GestureDetails {
+  global?: PointData;
+  delta?: PointData;
+  deltaScale?: number;
+  deltaRotation?: number;
+  direction?: SwipeDirection;
+  cancelled?: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Default thresholds */
+export const DEFAULT_GESTURE_OPTIONS: Required<GestureOptions> = {
+  tapSlop: 10,
+  tapMaxDuration: 500,
+  doubleTapInterval: 300,
+  doubleTapSlop: 40,
+  longPressDuration: 500,
+  panThreshold: 10,
+  swipeMinDistance: 30,
+  swipeMinVelocity: 300,
+  pinchThreshold: 0.05,
+  rotateThreshold: 0.1,
+};
+
+/** Window of recent movement the velocity is measured over */
+const VELOCITY_WINDOW = 100;
+
+/** Gesture of each event type */
+const EVENT_GESTURES = Object.fromEntries(
+  Object.entries(GESTURE_EVENTS).flatMap(([gesture, types]) =>
+    types.map((type) => [type, gesture]),
+  ),
+) as Record<GestureEventType, GestureType>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Check whether an object listens for any of a gesture's events.
+ */
+function listensFor(object: Container, gesture: GestureType): boolean {
+  return GESTURE_EVENTS[gesture].some(
+    (type) =>
+      object.listenerCount(type) > 0 ||
+      object.listenerCount(`${type}capture`) > 0 ||
+      typeof (object as any)[`on${type}`] === 'function',
+  );
+}
+
+/**
+ * Check whether any object on a propagation path listens for a gesture.
+ */
+function pathListensFor(path: Container[], gesture: GestureType): boolean {
+  return path.some((object) => listensFor(object, gesture));
+}
+
+/**
+ * Get the center of a session's pointers.
+ */
+function getCenter(session: GestureSession, out: Point): Point {
+  out.set(0, 0);
+  for (const pointer of session.pointers.values()) {
+    out.x += pointer.position.x;
+    out.y += pointer.position.y;
+  }
+
+  const count = Math.max(session.pointers.size, 1);
+  return out.set(out.x / count, out.y / count);
+}
+
+/**
+ * Wrap an angle difference into [-π, π].
+ */
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+// =============================================================================
+// GESTURE RECOGNIZER
+// =============================================================================
+
+/**
+ * Recognizes gestures from pointer events and dispatches them through a
+ * renderer's event system. PixiView creates one per application; feed it
+ * yourself only when driving an EventSystem without PixiView.
+ *
+ * @example
+ * ```ts
+ * const recognizer = new GestureRecognizer(app.renderer.events, { longPressDuration: 400 });
+ * // For each event from convertTouchToPointerEvents:
+ * recognizer.handlePointerEvent(event, 'pointerdown');
+ * ```
+ */
+export class GestureRecognizer {
+  /** Called after each dispatched gesture event */
+  public onGesture: ((event: FederatedGestureEvent) => void) | null = null;
+
+  /** Event system the pointers are mapped and the events dispatched with */
+  private _events: EventSystem | null;
+
+  /** Current thresholds */
+  private _options: Required<GestureOptions>;
+
+  /** Session of each pointer that is down */
+  private _sessions = new Map<number, GestureSession>();
+
+  /** Last tap, for double taps */
+  private _pendingTap: PendingTap | null = null;
+
+  /** Scratch point for mapped positions */
+  private _point = new Point();
+
+  /**
+   * @param events - Event system of the renderer (app.renderer.events)
+   * @param options - Thresholds overriding DEFAULT_GESTURE_OPTIONS
+   */
+  constructor(events: EventSystem, options: GestureOptions = {}) {
+    this._events = events;
+    this._options = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  }
+
+  /**
+   * Replace the thresholds. Gestures in progress use the new values from
+   * their next event.
+   *
+   * @param options - Thresholds overriding DEFAULT_GESTURE_OPTIONS
+   */
+  public setOptions(options: GestureOptions): void {
+    this._options = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  }
+
+  /**
+   * Feed a pointer event from the touch bridge.
+   *
+   * @param event - Pointer event, with client coordinates as given to PixiJS
+   * @param eventType - Pointer event type
+   */
+  public handlePointerEvent(
+    event: NativePointerEvent,
+    eventType: 'pointerdown' | 'pointermove' | 'pointerup' | 'pointercancel',
+  ): void {
+    const events = this._events;
+    if (!events) return;
+
+    const point = this._point;
+    events.mapPositionToPoint(point, event.clientX, event.clientY);
+
+    switch (eventType) {
+      case 'pointerdown':
+        this._onPointerDown(event.pointerId, point);
+        break;
+      case 'pointermove':
+        this._onPointerMove(event.pointerId, point);
+        break;
+      case 'pointerup':
+        this._onPointerUp(event.pointerId, point, false);
+        break;
+      case 'pointercancel':
+        this._onPointerUp(event.pointerId, point, true);
+        break;
+    }
+  }
+
+  /**
+   * Cancel all gestures in progress: continuous gestures end with
+   * `cancelled` set, and taps waiting for a double tap are dropped.
+   */
+  public cancel(): void {
+    for (const [pointerId, session] of [...this._sessions]) {
+      const pointer = session.pointers.get(pointerId);
+      if (pointer) {
+        this._onPointerUp(pointerId, pointer.position, true);
+      }
+    }
+
+    if (this._pendingTap?.timer) {
+      clearTimeout(this._pendingTap.timer);
+    }
+    this._pendingTap = null;
+  }
+
+  /**
+   * Cancel all gestures and stop recognizing.
+   */
+  public destroy(): void {
+    this.cancel();
+    this._events = null;
+    this.onGesture = null;
+  }
+
+  // ===========================================================================
+  // POINTERS
+  // ===========================================================================
+
+  /**
+   * Start or join a session for a pointer going down.
+   */
+  private _onPointerDown(pointerId: number, point: Point): void {
+    // A pointer that never came up is replaced
+    if (this._sessions.has(pointerId)) {
+      this._onPointerUp(pointerId, point, true);
+    }
+
+    const boundary = this._events?.rootBoundary;
+    if (!boundary?.rootTarget) return;
+
+    const hit = boundary.hitTest(point.x, point.y);
+    if (!hit) return;
+
+    const path = boundary.propagationPath(hit);
+    const pointer: GesturePointer = { start: point.clone(), position: point.clone() };
+
+    for (const session of new Set(this._sessions.values())) {
+      const multiTarget = this._findMultiTarget(session, path);
+      if (!multiTarget) continue;
+
+      session.multiTarget = multiTarget;
+      session.pointers.set(pointerId, pointer);
+      session.maxPointers = Math.max(session.maxPointers, session.pointers.size);
+      this._sessions.set(pointerId, session);
+      this._cancelLongPress(session);
+      this._resetBaseline(session);
+      return;
+    }
+
+    const session: GestureSession = {
+      pointers: new Map([[pointerId, pointer]]),
+      target: hit,
+      path,
+      multiTarget: null,
+      startTime: performance.now(),
+      maxPointers: 1,
+      moved: false,
+      longPressTimer: null,
+      longPressed: false,
+      center: point.clone(),
+      translation: new Point(),
+      samples: [],
+      pair: null,
+      pairDistance: 0,
+      pairAngle: 0,
+      scale: 1,
+      rotation: 0,
+      panning: false,
+      pinching: false,
+      rotating: false,
+    };
+    this._sessions.set(pointerId, session);
+
+    if (pathListensFor(path, 'longpress')) {
+      session.longPressTimer = setTimeout(() => {
+        session.longPressTimer = null;
+        session.longPressed = true;
+        this._dispatch('longpress', session.target, session);
+      }, this._options.longPressDuration);
+    }
+  }
+
+  /**
+   * Track a moving pointer.
+   */
+  private _onPointerMove(pointerId: number, point: Point): void {
+    const session = this._sessions.get(pointerId);
+    const pointer = session?.pointers.get(pointerId);
+    if (!session || !pointer) return;
+
+    pointer.position.copyFrom(point);
+
+    const dx = point.x - pointer.start.x;
+    const dy = point.y - pointer.start.y;
+    if (!session.moved && Math.hypot(dx, dy) > this._options.tapSlop) {
+      session.moved = true;
+      this._cancelLongPress(session);
+    }
+
+    this._update(session);
+  }
+
+  /**
+   * Remove a pointer, ending its session's gestures when it was the last.
+   */
+  private _onPointerUp(pointerId: number, point: PointData, cancelled: boolean): void {
+    const session = this._sessions.get(pointerId);
+    const pointer = session?.pointers.get(pointerId);
+    if (!session || !pointer) return;
+
+    pointer.position.copyFrom(point);
+    if (!cancelled) {
+      this._update(session);
+    }
+
+    session.pointers.delete(pointerId);
+    this._sessions.delete(pointerId);
+
+    if (session.pointers.size < 2) {
+      this._endMultiGestures(session, cancelled);
+    }
+
+    if (session.pointers.size > 0) {
+      this._resetBaseline(session);
+      return;
+    }
+
+    this._cancelLongPress(session);
+
+    if (session.panning) {
+      this._dispatch('panend', session.target, session, { delta: { x: 0, y: 0 }, cancelled });
+    }
+
+    if (cancelled || session.maxPointers > 1) return;
+
+    this._recognizeSwipe(session);
+
+    const duration = performance.now() - session.startTime;
+    if (
+      !session.moved &&
+      !session.longPressed &&
+      !session.panning &&
+      duration <= this._options.tapMaxDuration
+    ) {
+      this._recognizeTap(session, pointer.position);
+    }
+  }
+
+  // ===========================================================================
+  // RECOGNIZERS
+  // ===========================================================================
+
+  /**
+   * Update the continuous gestures of a session after pointers moved.
+   */
+  private _update(session: GestureSession): void {
+    const options = this._options;
+
+    const previous = session.center;
+    const center = getCenter(session, new Point());
+    const delta = { x: center.x - previous.x, y: center.y - previous.y };
+    const hasMoved = delta.x !== 0 || delta.y !== 0;
+
+    session.center = center;
+    session.translation.x += delta.x;
+    session.translation.y += delta.y;
+
+    const now = performance.now();
+    session.samples.push({ time: now, x: session.translation.x, y: session.translation.y });
+    while (session.samples.length > 2 && now - session.samples[0].time > VELOCITY_WINDOW) {
+      session.samples.shift();
+    }
+
+    // Pan
+    if (session.panning) {
+      if (hasMoved) {
+        this._dispatch('pan', session.target, session, { delta });
+      }
+    } else if (
+      Math.hypot(session.translation.x, session.translation.y) >= options.panThreshold &&
+      pathListensFor(session.path, 'pan')
+    ) {
+      session.panning = true;
+      this._cancelLongPress(session);
+      this._dispatch('panstart', session.target, session, { delta: session.translation });
+    }
+
+    // Pinch and rotate
+    const multiTarget = session.multiTarget;
+    if (!multiTarget || !session.pair || multiTarget.destroyed) return;
+
+    const [first, second] = session.pair.map((id) => session.pointers.get(id)!);
+    const dx = second.position.x - first.position.x;
+    const dy = second.position.y - first.position.y;
+    const distance = Math.hypot(dx, dy);
+    const angle = Math.atan2(dy, dx);
+
+    const deltaScale = session.pairDistance > 0 ? distance / session.pairDistance : 1;
+    const deltaRotation = wrapAngle(angle - session.pairAngle);
+    session.pairDistance = distance;
+    session.pairAngle = angle;
+    session.scale *= deltaScale;
+    session.rotation += deltaRotation;
+
+    if (session.pinching) {
+      if (deltaScale !== 1) {
+        this._dispatch('pinch', multiTarget, session, { deltaScale });
+      }
+    } else if (
+      Math.abs(session.scale - 1) >= options.pinchThreshold &&
+      pathListensFor(this._pathOf(multiTarget), 'pinch')
+    ) {
+      session.pinching = true;
+      this._dispatch('pinchstart', multiTarget, session, { deltaScale: session.scale });
+    }
+
+    if (session.rotating) {
+      if (deltaRotation !== 0) {
+        this._dispatch('rotate', multiTarget, session, { deltaRotation });
+      }
+    } else if (
+      Math.abs(session.rotation) >= options.rotateThreshold &&
+      pathListensFor(this._pathOf(multiTarget), 'rotate')
+    ) {
+      session.rotating = true;
+      this._dispatch('rotatestart', multiTarget, session, { deltaRotation: session.rotation });
+    }
+  }
+
+  /**
+   * Dispatch a swipe for a fast single-pointer release.
+   */
+  private _recognizeSwipe(session: GestureSession): void {
+    const options = this._options;
+    const { translation } = session;
+    const velocity = this._getVelocity(session);
+
+    if (
+      Math.hypot(translation.x, translation.y) < options.swipeMinDistance ||
+      Math.hypot(velocity.x, velocity.y) < options.swipeMinVelocity ||
+      !pathListensFor(session.path, 'swipe')
+    ) {
+      return;
+    }
+
+    const direction: SwipeDirection =
+      Math.abs(translation.x) >= Math.abs(translation.y)
+        ? translation.x > 0
+          ? 'right'
+          : 'left'
+        : translation.y > 0
+          ? 'down'
+          : 'up';
+
+    this._dispatch('swipe', session.target, session, { direction });
+  }
+
+  /**
+   * Dispatch a tap or double tap, or hold the tap for a possible double tap.
+   */
+  private _recognizeTap(session: GestureSession, position: Point): void {
+    const options = this._options;
+    const now = performance.now();
+    const pending = this._pendingTap;
+
+    if (
+      pending &&
+      pending.session.target === session.target &&
+      now - pending.time <= options.doubleTapInterval &&
+      Math.hypot(position.x - pending.position.x, position.y - pending.position.y) <=
+        options.doubleTapSlop
+    ) {
+      if (pending.timer) {
+        clearTimeout(pending.timer);
+      }
+      this._pendingTap = null;
+      this._dispatch('doubletap', session.target, session, { global: position });
+      return;
+    }
+
+    // A tap held for a different object or position fires now
+    if (pending?.timer) {
+      clearTimeout(pending.timer);
+      this._dispatch('gesturetap', pending.session.target, pending.session, {
+        global: pending.position,
+      });
+    }
+    this._pendingTap = null;
+
+    const waitsForDoubleTap = pathListensFor(session.path, 'doubletap');
+    const listensForTap = pathListensFor(session.path, 'tap');
+
+    if (listensForTap && !waitsForDoubleTap) {
+      this._dispatch('gesturetap', session.target, session, { global: position });
+    }
+
+    if (!waitsForDoubleTap) return;
+
+    const tap: PendingTap = {
+      session,
+      position: position.clone(),
+      time: now,
+      timer: null,
+    };
+
+    tap.timer = setTimeout(() => {
+      if (this._pendingTap === tap) {
+        this._pendingTap = null;
+      }
+      if (listensForTap) {
+        this._dispatch('gesturetap', session.target, session, { global: tap.position });
+      }
+    }, options.doubleTapInterval);
+
+    this._pendingTap = tap;
+  }
+
+  /**
+   * End pinch and rotate when fewer than two pointers are left.
+   */
+  private _endMultiGestures(session: GestureSession, cancelled: boolean): void {
+    const multiTarget = session.multiTarget;
+
+    if (multiTarget && session.pinching) {
+      this._dispatch('pinchend', multiTarget, session, { deltaScale: 1, cancelled });
+    }
+    if (multiTarget && session.rotating) {
+      this._dispatch('rotateend', multiTarget, session, { deltaRotation: 0, cancelled });
+    }
+
+    session.pinching = false;
+    session.rotating = false;
+    session.scale = 1;
+    session.rotation = 0;
+    session.pair = null;
+  }
+
+  // ===========================================================================
+  // HELPERS
+  // ===========================================================================
+
+  /**
+   * Find the deepest object on a new pointer's path that is also under a
+   * session's pointers and listens for pinch or rotate.
+   */
+  private _findMultiTarget(session: GestureSession, path: Container[]): Container | null {
+    if (session.multiTarget) {
+      return path.includes(session.multiTarget) ? session.multiTarget : null;
+    }
+
+    for (let i = path.length - 1; i >= 0; i--) {
+      const object = path[i];
+      if (
+        session.path.includes(object) &&
+        (listensFor(object, 'pinch') || listensFor(object, 'rotate'))
+      ) {
+        return object;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Restart movement tracking after the set of pointers changed, so the
+   * center and the pair don't jump.
+   */
+  private _resetBaseline(session: GestureSession): void {
+    getCenter(session, session.center);
+
+    const ids = [...session.pointers.keys()];
+    if (ids.length < 2) return;
+
+    const first = session.pointers.get(ids[0])!.position;
+    const second = session.pointers.get(ids[1])!.position;
+    session.pair = [ids[0], ids[1]];
+    session.pairDistance = Math.hypot(second.x - first.x, second.y - first.y);
+    session.pairAngle = Math.atan2(second.y - first.y, second.x - first.x);
+  }
+
+  /**
+   * Cancel a session's pending long press.
+   */
+  private _cancelLongPress(session: GestureSession): void {
+    if (session.longPressTimer) {
+      clearTimeout(session.longPressTimer);
+      session.longPressTimer = null;
+    }
+  }
+
+  /**
+   * Get the velocity of a session's center over the recent movement.
+   */
+  private _getVelocity(session: GestureSession): PointData {
+    const { samples } = session;
+    if (samples.length < 2) return { x: 0, y: 0 };
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const seconds = (last.time - first.time) / 1000;
+    if (seconds <= 0) return { x: 0, y: 0 };
+
+    return { x: (last.x - first.x) / seconds, y: (last.y - first.y) / seconds };
+  }
+
+  /**
+   * Get the propagation path of an object.
+   */
+  private _pathOf(object: Container): Container[] {
+    return this._events?.rootBoundary.propagationPath(object) ?? [];
+  }
+
+  /**
+   * Create a gesture event from a session and dispatch it to a target.
+   *
+   * @param type - Event type
+   * @param target - Object the event is dispatched to
+   * @param session - Session the event belongs to
+   * @param details - Fields that differ from the session's state
+   */
+  private _dispatch(
+    type: GestureEventType,
+    target: Container,
+    session: GestureSession,
+    details: GestureDetails = {},
+  ): void {
+    const boundary = this._events?.rootBoundary;
+    if (!boundary || target.destroyed) return;
+
+    const event = new FederatedGestureEvent(boundary);
+    event.type = type;
+    event.gesture = EVENT_GESTURES[type];
+    event.target = target;
+    event.timeStamp = performance.now();
+
+    event.global.copyFrom(details.global ?? session.center);
+    event.pointerCount = session.pointers.size;
+    event.translation.copyFrom(session.translation);
+    event.velocity.copyFrom(this._getVelocity(session));
+    event.scale = session.scale;
+    event.rotation = session.rotation;
+    event.duration = event.timeStamp - session.startTime;
+
+    if (details.delta) event.delta.copyFrom(details.delta);
+    event.deltaScale = details.deltaScale ?? 1;
+    event.deltaRotation = details.deltaRotation ?? 0;
+    event.direction = details.direction ?? null;
+    event.cancelled = details.cancelled ?? false;
+
+    boundary.dispatchEvent(event, type);
+    this.onGesture?.(event);
+  }
+}
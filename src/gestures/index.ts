@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Gesture recognition exports.
+ *
+ * Tap, double-tap, long-press, pan, swipe, pinch and rotate recognized from
+ * the touch bridge's pointer events and dispatched as federated events.
+ *
+ * @module @penabt/pixi-expo/gestures
+ */
+
+export { FederatedGestureEvent, GESTURE_EVENTS } from './FederatedGestureEvent';
+export type {
+  GestureType,
+  GestureEventType,
+  GestureEventMap,
+  SwipeDirection,
+} from './FederatedGestureEvent';
+export { GestureRecognizer, DEFAULT_GESTURE_OPTIONS } from './GestureRecognizer';
+export type { GestureOptions } from './GestureRecognizer';
@@ -0,0 +1,58 @@
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { zlibDeflate } from './deflate';
+
+/**
+ * Deterministic pseudo-random bytes.
+ */
+function randomBytes(length: number, seed = 1): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1103515245 + 12345) >>> 0;
+    bytes[i] = state >>> 24;
+  }
+  return bytes;
+}
+
+/**
+ * Bytes with long repeats, like image rows.
+ */
+function repetitiveBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = (i % 7) * 13 + (Math.floor(i / 1000) % 3);
+  }
+  return bytes;
+}
+
+describe('zlibDeflate', () => {
+  const inputs: Record<string, Uint8Array> = {
+    empty: new Uint8Array(0),
+    'one byte': new Uint8Array([42]),
+    text: new TextEncoder().encode('the quick brown fox jumps over the lazy dog '.repeat(50)),
+    random: randomBytes(70_000),
+    repetitive: repetitiveBytes(100_000),
+  };
+
+  for (const [name, data] of Object.entries(inputs)) {
+    for (const level of [0, 1, 6, 9]) {
+      it(`round-trips ${name} data at level ${level}`, () => {
+        // Buffer comparison: toEqual is slow on arrays this size
+        const inflated = inflateSync(zlibDeflate(data, { level }));
+        expect(inflated.equals(Buffer.from(data))).toBe(true);
+      });
+    }
+  }
+
+  it('writes a valid zlib header', () => {
+    const compressed = zlibDeflate(new Uint8Array(10));
+    expect(compressed[0]).toBe(0x78);
+    expect((compressed[0] * 256 + compressed[1]) % 31).toBe(0);
+  });
+
+  it('compresses repetitive data', () => {
+    const data = repetitiveBytes(100_000);
+    expect(zlibDeflate(data).length).toBeLessThan(data.length / 20);
+  });
+});
@@ -0,0 +1,584 @@
+/**
+ * @fileoverview zlib (RFC 1950) stream compression with DEFLATE (RFC 1951).
+ *
+ * Used by the PNG encoder. Matches are found with hash chains and each block
+ * is written with dynamic Huffman codes, or stored when that is smaller.
+ *
+ * @module @penabt/pixi-expo/image/deflate
+ * @author Pena Team
+ * @license MIT
+ */
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** LZ77 window size */
+const WINDOW_SIZE = 32768;
+
+/** Shortest and longest match DEFLATE can encode */
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+
+/** Hash table size for 3-byte prefixes */
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+
+/** Number of symbols (matches and literals) per block */
+const BLOCK_SYMBOLS = 16384;
+
+/** Longest code lengths allowed by DEFLATE */
+const MAX_CODE_BITS = 15;
+const MAX_CODE_LENGTH_BITS = 7;
+
+/** End of block symbol */
+const END_OF_BLOCK = 256;
+
+/** Base lengths of length codes 257..285 */
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+  163, 195, 227, 258,
+];
+
+/** Extra bits of length codes 257..285 */
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+
+/** Base distances of distance codes 0..29 */
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+  3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+
+/** Extra bits of distance codes 0..29 */
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+
+/** Order in which code length code lengths are stored */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/** Length code (index into LENGTH_BASE) for each match length */
+const LENGTH_CODE = new Uint8Array(MAX_MATCH + 1);
+for (let code = 0; code < LENGTH_BASE.length; code++) {
+  const end = code + 1 < LENGTH_BASE.length ? LENGTH_BASE[code + 1] : MAX_MATCH + 1;
+  for (let length = LENGTH_BASE[code]; length < end; length++) LENGTH_CODE[length] = code;
+}
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Options for zlibDeflate */
+export interface DeflateOptions {
+  /**
+   * Effort from 0 (store only) to 9 (longest match search).
+   * @default 6
+   */
+  level?: number;
+}
+
+// =============================================================================
+// BIT WRITER
+// =============================================================================
+
+/**
+ * Growable little-endian bit stream.
+ */
+class BitWriter {
+  /** Output bytes */
+  private _bytes: Uint8Array;
+
+  /** Number of complete bytes written */
+  private _length = 0;
+
+  /** Pending bits, least significant first */
+  private _bits = 0;
+
+  /** Number of pending bits */
+  private _bitCount = 0;
+
+  constructor(capacity: number) {
+    this._bytes = new Uint8Array(Math.max(capacity, 64));
+  }
+
+  /** Write the low `count` bits of `value`, least significant first. */
+  writeBits(value: number, count: number): void {
+    this._bits |= value << this._bitCount;
+    this._bitCount += count;
+
+    while (this._bitCount >= 8) {
+      this.pushByte(this._bits & 0xff);
+      this._bits >>>= 8;
+      this._bitCount -= 8;
+    }
+  }
+
+  /** Write a Huffman code, which is stored most significant bit first. */
+  writeCode(code: number, length: number): void {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1);
+    }
+    this.writeBits(reversed, length);
+  }
+
+  /** Pad to a byte boundary with zero bits. */
+  alignToByte(): void {
+    if (this._bitCount > 0) this.writeBits(0, 8 - this._bitCount);
+  }
+
+  /** Write whole bytes (the stream must be byte aligned). */
+  writeBytes(bytes: Uint8Array): void {
+    this.ensureCapacity(bytes.length);
+    this._bytes.set(bytes, this._length);
+    this._length += bytes.length;
+  }
+
+  /** Get the written bytes (the stream must be byte aligned). */
+  finish(): Uint8Array {
+    return this._bytes.subarray(0, this._length);
+  }
+
+  private pushByte(byte: number): void {
+    this.ensureCapacity(1);
+    this._bytes[this._length++] = byte;
+  }
+
+  private ensureCapacity(extra: number): void {
+    if (this._length + extra <= this._bytes.length) return;
+
+    const grown = new Uint8Array(Math.max(this._bytes.length * 2, this._length + extra));
+    grown.set(this._bytes.subarray(0, this._length));
+    this._bytes = grown;
+  }
+}
+
+// =============================================================================
+// HUFFMAN CODES
+// =============================================================================
+
+/**
+ * Build length-limited Huffman code lengths for symbol frequencies.
+ *
+ * Codes longer than the limit are avoided by flattening the frequencies
+ * and rebuilding, which costs little compression in practice.
+ */
+function buildCodeLengths(frequencies: Uint32Array, maxBits: number): Uint8Array {
+  const count = frequencies.length;
+  const lengths = new Uint8Array(count);
+  let weights = Array.from(frequencies);
+
+  for (;;) {
+    const symbols = [];
+    for (let i = 0; i < count; i++) {
+      if (weights[i] > 0) symbols.push(i);
+    }
+
+    lengths.fill(0);
+    if (symbols.length === 0) return lengths;
+    if (symbols.length === 1) {
+      lengths[symbols[0]] = 1;
+      return lengths;
+    }
+
+    // Nodes: leaves first, then internal nodes; parent links give the depths
+    const nodeWeights = symbols.map((symbol) => weights[symbol]);
+    const parents: number[] = new Array(symbols.length).fill(-1);
+    const queue = symbols.map((_, index) => index).sort((a, b) => nodeWeights[a] - nodeWeights[b]);
+
+    // Two-queue Huffman construction: sorted leaves and in-order internal nodes
+    const internal: number[] = [];
+    let leafIndex = 0;
+    let internalIndex = 0;
+    const takeSmallest = (): number => {
+      if (
+        internalIndex >= internal.length ||
+        (leafIndex < queue.length &&
+          nodeWeights[queue[leafIndex]] <= nodeWeights[internal[internalIndex]])
+      ) {
+        return queue[leafIndex++];
+      }
+      return internal[internalIndex++];
+    };
+
+    for (let merges = symbols.length - 1; merges > 0; merges--) {
+      const a = takeSmallest();
+      const b = takeSmallest();
+      const node = nodeWeights.length;
+      nodeWeights.push(nodeWeights[a] + nodeWeights[b]);
+      parents.push(-1);
+      parents[a] = node;
+      parents[b] = node;
+      internal.push(node);
+    }
+
+    // Depth of each node; parents always come after their children
+    const depths = new Array(nodeWeights.length).fill(0);
+    let longest = 0;
+    for (let node = nodeWeights.length - 2; node >= 0; node--) {
+      depths[node] = depths[parents[node]] + 1;
+    }
+    symbols.forEach((symbol, index) => {
+      lengths[symbol] = depths[index];
+      longest = Math.max(longest, depths[index]);
+    });
+
+    if (longest <= maxBits) return lengths;
+
+    weights = weights.map((weight) => (weight > 0 ? (weight >> 1) | 1 : 0));
+  }
+}
+
+/**
+ * Assign canonical codes to code lengths (RFC 1951 section 3.2.2).
+ */
+function buildCodes(lengths: Uint8Array): Uint16Array {
+  const lengthCounts = new Uint16Array(MAX_CODE_BITS + 1);
+  for (const length of lengths) lengthCounts[length]++;
+  lengthCounts[0] = 0;
+
+  const nextCode = new Uint16Array(MAX_CODE_BITS + 1);
+  let code = 0;
+  for (let bits = 1; bits <= MAX_CODE_BITS; bits++) {
+    code = (code + lengthCounts[bits - 1]) << 1;
+    nextCode[bits] = code;
+  }
+
+  const codes = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) codes[symbol] = nextCode[lengths[symbol]]++;
+  }
+
+  return codes;
+}
+
+/**
+ * Run-length encode code lengths with the code length alphabet (16, 17, 18).
+ *
+ * @returns Pairs of [symbol, extra bits value]
+ */
+function encodeCodeLengths(lengths: Uint8Array): Array<[number, number]> {
+  const runs: Array<[number, number]> = [];
+
+  for (let i = 0; i < lengths.length; ) {
+    const length = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === length) run++;
+
+    if (length === 0 && run >= 3) {
+      const repeat = Math.min(run, 138);
+      runs.push(repeat >= 11 ? [18, repeat - 11] : [17, repeat - 3]);
+      i += repeat;
+    } else if (length !== 0 && run >= 4) {
+      runs.push([length, 0]);
+      const repeat = Math.min(run - 1, 6);
+      runs.push([16, repeat - 3]);
+      i += 1 + repeat;
+    } else {
+      runs.push([length, 0]);
+      i++;
+    }
+  }
+
+  return runs;
+}
+
+// =============================================================================
+// BLOCK WRITERS
+// =============================================================================
+
+/**
+ * Write one block of LZ77 symbols with dynamic Huffman codes, or stored if
+ * that is smaller.
+ *
+ * Symbols are literals (< 256) or matches encoded as
+ * `length << 16 | distance` with length >= 3.
+ */
+function writeBlock(
+  writer: BitWriter,
+  symbols: Uint32Array,
+  symbolCount: number,
+  data: Uint8Array,
+  start: number,
+  end: number,
+  final: boolean,
+): void {
+  const literalFrequencies = new Uint32Array(286);
+  const distanceFrequencies = new Uint32Array(30);
+
+  for (let i = 0; i < symbolCount; i++) {
+    const symbol = symbols[i];
+    if (symbol < 256) {
+      literalFrequencies[symbol]++;
+    } else {
+      literalFrequencies[257 + LENGTH_CODE[symbol >>> 16]]++;
+      distanceFrequencies[distanceCode(symbol & 0xffff)]++;
+    }
+  }
+  literalFrequencies[END_OF_BLOCK] = 1;
+
+  // At least one distance code must be described, even if unused
+  if (distanceFrequencies.every((frequency) => frequency === 0)) distanceFrequencies[0] = 1;
+
+  const literalLengths = buildCodeLengths(literalFrequencies, MAX_CODE_BITS);
+  const distanceLengths = buildCodeLengths(distanceFrequencies, MAX_CODE_BITS);
+
+  let literalCount = 286;
+  while (literalCount > 257 && literalLengths[literalCount - 1] === 0) literalCount--;
+  let distanceCount = 30;
+  while (distanceCount > 1 && distanceLengths[distanceCount - 1] === 0) distanceCount--;
+
+  const allLengths = new Uint8Array(literalCount + distanceCount);
+  allLengths.set(literalLengths.subarray(0, literalCount));
+  allLengths.set(distanceLengths.subarray(0, distanceCount), literalCount);
+
+  const runs = encodeCodeLengths(allLengths);
+  const codeLengthFrequencies = new Uint32Array(19);
+  for (const [symbol] of runs) codeLengthFrequencies[symbol]++;
+  const codeLengthLengths = buildCodeLengths(codeLengthFrequencies, MAX_CODE_LENGTH_BITS);
+
+  let codeLengthCount = 19;
+  while (codeLengthCount > 4 && codeLengthLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]] === 0) {
+    codeLengthCount--;
+  }
+
+  // Compare against a stored block before committing to Huffman codes
+  let huffmanBits = 17 + codeLengthCount * 3;
+  for (const [symbol] of runs) {
+    huffmanBits += codeLengthLengths[symbol] + (symbol === 16 ? 2 : symbol === 17 ? 3 : 0);
+    if (symbol === 18) huffmanBits += 7;
+  }
+  for (let symbol = 0; symbol < 286; symbol++) {
+    huffmanBits += literalFrequencies[symbol] * literalLengths[symbol];
+    if (symbol > END_OF_BLOCK) {
+      huffmanBits += literalFrequencies[symbol] * LENGTH_EXTRA[symbol - 257];
+    }
+  }
+  for (let code = 0; code < 30; code++) {
+    huffmanBits += distanceFrequencies[code] * (distanceLengths[code] + DISTANCE_EXTRA[code]);
+  }
+
+  if (huffmanBits > (end - start + 5) * 8) {
+    writeStoredBlocks(writer, data, start, end, final);
+    return;
+  }
+
+  const literalCodes = buildCodes(literalLengths);
+  const distanceCodes = buildCodes(distanceLengths);
+  const codeLengthCodes = buildCodes(codeLengthLengths);
+
+  writer.writeBits(final ? 1 : 0, 1);
+  writer.writeBits(2, 2); // Dynamic Huffman codes
+  writer.writeBits(literalCount - 257, 5);
+  writer.writeBits(distanceCount - 1, 5);
+  writer.writeBits(codeLengthCount - 4, 4);
+  for (let i = 0; i < codeLengthCount; i++) {
+    writer.writeBits(codeLengthLengths[CODE_LENGTH_ORDER[i]], 3);
+  }
+
+  for (const [symbol, extra] of runs) {
+    writer.writeCode(codeLengthCodes[symbol], codeLengthLengths[symbol]);
+    if (symbol === 16) writer.writeBits(extra, 2);
+    else if (symbol === 17) writer.writeBits(extra, 3);
+    else if (symbol === 18) writer.writeBits(extra, 7);
+  }
+
+  for (let i = 0; i < symbolCount; i++) {
+    const symbol = symbols[i];
+    if (symbol < 256) {
+      writer.writeCode(literalCodes[symbol], literalLengths[symbol]);
+      continue;
+    }
+
+    const length = symbol >>> 16;
+    const distance = symbol & 0xffff;
+    const lengthCode = LENGTH_CODE[length];
+    writer.writeCode(literalCodes[257 + lengthCode], literalLengths[257 + lengthCode]);
+    writer.writeBits(length - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+
+    const code = distanceCode(distance);
+    writer.writeCode(distanceCodes[code], distanceLengths[code]);
+    writer.writeBits(distance - DISTANCE_BASE[code], DISTANCE_EXTRA[code]);
+  }
+
+  writer.writeCode(literalCodes[END_OF_BLOCK], literalLengths[END_OF_BLOCK]);
+}
+
+/**
+ * Write data as stored (uncompressed) blocks of up to 65535 bytes.
+ */
+function writeStoredBlocks(
+  writer: BitWriter,
+  data: Uint8Array,
+  start: number,
+  end: number,
+  final: boolean,
+): void {
+  do {
+    const length = Math.min(end - start, 0xffff);
+    const last = final && start + length >= end;
+
+    writer.writeBits(last ? 1 : 0, 1);
+    writer.writeBits(0, 2);
+    writer.alignToByte();
+    writer.writeBits(length, 16);
+    writer.writeBits(~length & 0xffff, 16);
+    writer.writeBytes(data.subarray(start, start + length));
+
+    start += length;
+  } while (start < end);
+}
+
+/**
+ * Get the distance code (0..29) of a match distance.
+ */
+function distanceCode(distance: number): number {
+  let code = 0;
+  while (code < 29 && DISTANCE_BASE[code + 1] <= distance) code++;
+  return code;
+}
+
+// =============================================================================
+// CHECKSUMS
+// =============================================================================
+
+/**
+ * Compute the Adler-32 checksum of the uncompressed data.
+ */
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+
+  for (let i = 0; i < data.length; ) {
+    // 5552 is the most bytes that can be summed before the sums overflow
+    const end = Math.min(i + 5552, data.length);
+    for (; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+
+  return ((b << 16) | a) >>> 0;
+}
+
+// =============================================================================
+// COMPRESSION
+// =============================================================================
+
+/**
+ * Compress data into a zlib stream.
+ *
+ * @param data - Bytes to compress
+ * @param options - Compression effort
+ * @returns zlib stream (header, DEFLATE blocks, Adler-32)
+ *
+ * @example
+ * ```ts
+ * const idat = zlibDeflate(filteredScanlines, { level: 6 });
+ * ```
+ */
+export function zlibDeflate(data: Uint8Array, options: DeflateOptions = {}): Uint8Array {
+  const level = Math.max(0, Math.min(9, Math.round(options.level ?? 6)));
+  const writer = new BitWriter(data.length / 2 + 64);
+
+  // CMF: deflate with a 32K window; FLG: check bits so that CMF*256+FLG is a multiple of 31
+  const cmf = 0x78;
+  const flevel = level === 0 ? 0 : level < 6 ? 1 : level === 6 ? 2 : 3;
+  let flg = flevel << 6;
+  flg |= 31 - ((cmf * 256 + flg) % 31);
+  writer.writeBits(cmf, 8);
+  writer.writeBits(flg, 8);
+
+  if (level === 0 || data.length === 0) {
+    writeStoredBlocks(writer, data, 0, data.length, true);
+  } else {
+    compressBlocks(writer, data, level);
+  }
+
+  writer.alignToByte();
+  const checksum = adler32(data);
+  writer.writeBits(checksum >>> 24, 8);
+  writer.writeBits((checksum >>> 16) & 0xff, 8);
+  writer.writeBits((checksum >>> 8) & 0xff, 8);
+  writer.writeBits(checksum & 0xff, 8);
+
+  return writer.finish();
+}
+
+/**
+ * Find LZ77 matches with hash chains and write them as DEFLATE blocks.
+ */
+function compressBlocks(writer: BitWriter, data: Uint8Array, level: number): void {
+  const maxChain = [0, 4, 8, 16, 32, 64, 128, 256, 1024, 4096][level];
+  const niceLength = level >= 8 ? MAX_MATCH : [0, 8, 16, 32, 64, 128, 128, 258][level];
+
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const previous = new Int32Array(WINDOW_SIZE);
+  const symbols = new Uint32Array(BLOCK_SYMBOLS);
+
+  const hash = (position: number): number =>
+    ((data[position] << 10) ^ (data[position + 1] << 5) ^ data[position + 2]) & (HASH_SIZE - 1);
+
+  const insert = (position: number): void => {
+    if (position + MIN_MATCH > data.length) return;
+    const key = hash(position);
+    previous[position & (WINDOW_SIZE - 1)] = head[key];
+    head[key] = position;
+  };
+
+  let symbolCount = 0;
+  let blockStart = 0;
+  let position = 0;
+
+  while (position < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (position + MIN_MATCH <= data.length) {
+      const limit = Math.min(MAX_MATCH, data.length - position);
+      let candidate = head[hash(position)];
+
+      for (let chain = maxChain; candidate >= 0 && chain > 0; chain--) {
+        const distance = position - candidate;
+        if (distance > WINDOW_SIZE - 1) break;
+
+        if (data[candidate + bestLength] === data[position + bestLength]) {
+          let length = 0;
+          while (length < limit && data[candidate + length] === data[position + length]) length++;
+
+          if (length > bestLength) {
+            bestLength = length;
+            bestDistance = distance;
+            if (length >= niceLength) break;
+          }
+        }
+
+        candidate = previous[candidate & (WINDOW_SIZE - 1)];
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      symbols[symbolCount++] = (bestLength << 16) | bestDistance;
+      for (let i = 0; i < bestLength; i++) insert(position + i);
+      position += bestLength;
+    } else {
+      symbols[symbolCount++] = data[position];
+      insert(position);
+      position++;
+    }
+
+    if (symbolCount === BLOCK_SYMBOLS) {
+      writeBlock(writer, symbols, symbolCount, data, blockStart, position, position >= data.length);
+      symbolCount = 0;
+      blockStart = position;
+    }
+  }
+
+  if (symbolCount > 0 || blockStart === 0) {
+    writeBlock(writer, symbols, symbolCount, data, blockStart, position, true);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Image encoding entry points and pixel preparation.
+ *
+ * Picks the encoder for a MIME type the way canvas.toDataURL does, and
+ * converts framebuffer pixels (bottom row first, premultiplied alpha) into
+ * the straight-alpha, top-down rows the encoders expect.
+ *
+ * @module @penabt/pixi-expo/image/encodeImage
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { encodeJPEG } from './encodeJPEG';
+import { encodePNG } from './encodePNG';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** MIME types the encoders produce */
+export type EncodedImageType = 'image/png' | 'image/jpeg';
+
+/** Options for encodeImage */
+export interface EncodeImageOptions {
+  /**
+   * Requested MIME type. Unsupported types fall back to PNG, as in browsers.
+   * @default 'image/png'
+   */
+  type?: string;
+
+  /**
+   * JPEG quality from 0 to 1. Ignored for PNG.
+   * @default 0.92
+   */
+  quality?: number;
+
+  /**
+   * Color (0xRRGGBB) that transparent pixels are composited onto in JPEG
+   * output. Ignored for PNG.
+   * @default 0x000000
+   */
+  background?: number;
+}
+
+/** Result of encodeImage */
+export interface EncodedImage {
+  /** Encoded file bytes */
+  bytes: Uint8Array;
+  /** MIME type that was actually produced */
+  type: EncodedImageType;
+}
+
+// =============================================================================
+// PIXEL PREPARATION
+// =============================================================================
+
+/**
+ * Reverse the row order of RGBA pixels in place.
+ * readPixels returns the bottom row first; image files store the top first.
+ *
+ * @param pixels - RGBA pixels
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @returns The same array
+ */
+export function flipPixelRows<T extends Uint8Array | Uint8ClampedArray>(
+  pixels: T,
+  width: number,
+  height: number,
+): T {
+  const stride = width * 4;
+  const row = new Uint8Array(stride);
+
+  for (let top = 0, bottom = height - 1; top < bottom; top++, bottom--) {
+    const topStart = top * stride;
+    const bottomStart = bottom * stride;
+    row.set(pixels.subarray(topStart, topStart + stride));
+    pixels.copyWithin(topStart, bottomStart, bottomStart + stride);
+    pixels.set(row, bottomStart);
+  }
+
+  return pixels;
+}
+
+/**
+ * Convert premultiplied RGBA pixels to straight alpha in place.
+ *
+ * @param pixels - Premultiplied RGBA pixels
+ * @returns The same array
+ */
+export function unpremultiplyPixels<T extends Uint8Array | Uint8ClampedArray>(pixels: T): T {
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = pixels[i + 3];
+    if (alpha === 0 || alpha === 255) continue;
+
+    const scale = 255 / alpha;
+    pixels[i] = Math.min(255, Math.round(pixels[i] * scale));
+    pixels[i + 1] = Math.min(255, Math.round(pixels[i + 1] * scale));
+    pixels[i + 2] = Math.min(255, Math.round(pixels[i + 2] * scale));
+  }
+
+  return pixels;
+}
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+/**
+ * Get the MIME type an image will be encoded as.
+ *
+ * @param type - Requested MIME type
+ * @returns 'image/jpeg' for JPEG requests, 'image/png' otherwise
+ */
+export function getEncodedImageType(type?: string): EncodedImageType {
+  const normalized = type?.toLowerCase();
+  return normalized === 'image/jpeg' || normalized === 'image/jpg' ? 'image/jpeg' : 'image/png';
+}
+
+/**
+ * Encode RGBA pixels as a PNG or JPEG file.
+ *
+ * @param pixels - Straight (non-premultiplied) RGBA pixels, top row first
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @param options - MIME type, JPEG quality and background
+ * @returns Encoded bytes and the MIME type produced
+ *
+ * @example
+ * ```ts
+ * const { bytes, type } = encodeImage(pixels, width, height, { type: 'image/jpeg', quality: 0.8 });
+ * ```
+ */
+export function encodeImage(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: EncodeImageOptions = {},
+): EncodedImage {
+  const type = getEncodedImageType(options.type);
+
+  const bytes =
+    type === 'image/jpeg'
+      ? encodeJPEG(pixels, width, height, {
+          quality: options.quality,
+          background: options.background,
+        })
+      : encodePNG(pixels, width, height);
+
+  return { bytes, type };
+}
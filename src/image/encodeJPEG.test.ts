@@ -0,0 +1,83 @@
+import jpeg from 'jpeg-js';
+import { describe, expect, it } from 'vitest';
+import { encodeJPEG } from './encodeJPEG';
+
+/**
+ * Smooth opaque RGBA gradient.
+ */
+function createPixels(width: number, height: number, alpha = 255): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      pixels[i] = (x * 255) / Math.max(width - 1, 1);
+      pixels[i + 1] = (y * 255) / Math.max(height - 1, 1);
+      pixels[i + 2] = 128;
+      pixels[i + 3] = alpha;
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Mean absolute difference of the color channels.
+ */
+function meanError(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let total = 0;
+  let count = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      total += Math.abs(a[i + c] - b[i + c]);
+      count++;
+    }
+  }
+  return total / count;
+}
+
+describe('encodeJPEG', () => {
+  for (const [width, height] of [
+    [1, 1],
+    [8, 8],
+    [17, 9],
+    [100, 75],
+  ]) {
+    it(`round-trips a ${width}x${height} image`, () => {
+      const pixels = createPixels(width, height);
+      const decoded = jpeg.decode(encodeJPEG(pixels, width, height), { useTArray: true });
+
+      expect(decoded.width).toBe(width);
+      expect(decoded.height).toBe(height);
+      expect(meanError(decoded.data, pixels)).toBeLessThan(3);
+    });
+  }
+
+  it('loses more detail at lower quality', () => {
+    const pixels = createPixels(64, 64);
+    const errorAt = (quality: number) =>
+      meanError(
+        jpeg.decode(encodeJPEG(pixels, 64, 64, { quality }), { useTArray: true }).data,
+        pixels,
+      );
+
+    const high = encodeJPEG(pixels, 64, 64, { quality: 0.95 });
+    const low = encodeJPEG(pixels, 64, 64, { quality: 0.1 });
+
+    expect(low.length).toBeLessThan(high.length);
+    expect(errorAt(0.1)).toBeGreaterThan(errorAt(0.95));
+  });
+
+  it('composites transparent pixels onto the background', () => {
+    const pixels = createPixels(8, 8, 0);
+    const decoded = jpeg.decode(encodeJPEG(pixels, 8, 8, { background: 0xffffff }), {
+      useTArray: true,
+    });
+
+    for (let i = 0; i < decoded.data.length; i += 4) {
+      expect(decoded.data[i]).toBeGreaterThan(250);
+    }
+  });
+
+  it('rejects empty images', () => {
+    expect(() => encodeJPEG(new Uint8Array(0), 0, 10)).toThrow('Invalid image size');
+  });
+});
@@ -0,0 +1,532 @@
+/**
+ * @fileoverview Baseline JPEG encoder for RGBA pixels.
+ *
+ * Writes JFIF files with 4:4:4 YCbCr, the example quantization tables of
+ * the JPEG specification scaled by quality (as libjpeg does) and its
+ * standard Huffman tables. JPEG has no alpha channel, so pixels are
+ * composited onto a background color, black by default like browsers.
+ *
+ * @module @penabt/pixi-expo/image/encodeJPEG
+ * @author Pena Team
+ * @license MIT
+ */
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Natural (row-major) index of each coefficient in zigzag order */
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20,
+  13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52,
+  45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+/** Luminance quantization table at quality 50, row-major (ITU T.81 Annex K.1) */
+const LUMINANCE_QUANTIZATION = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113,
+  92, 49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+/** Chrominance quantization table at quality 50, row-major (ITU T.81 Annex K.1) */
+const CHROMINANCE_QUANTIZATION = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+/** Scale factors of the AAN DCT, per row/column */
+const AAN_SCALE = [
+  1.0, 1.387039845, 1.306562965, 1.175875602, 1.0, 0.785694958, 0.5411961, 0.275899379,
+];
+
+/** Standard Huffman tables (ITU T.81 Annex K.3) */
+const DC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const DC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const AC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  symbols: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+    0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+    0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+    0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+    0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+    0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+const AC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  symbols: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+    0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+    0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+    0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+    0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+    0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+    0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+/** End of block and zero run length AC symbols */
+const EOB = 0x00;
+const ZRL = 0xf0;
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Options for encodeJPEG */
+export interface JPEGEncodeOptions {
+  /**
+   * Quality from 0 to 1, as in canvas.toDataURL('image/jpeg', quality).
+   * @default 0.92
+   */
+  quality?: number;
+
+  /**
+   * Color (0xRRGGBB) that transparent pixels are composited onto.
+   * @default 0x000000
+   */
+  background?: number;
+}
+
+/** Huffman table specification: code counts per length 1..16, then symbols */
+interface HuffmanSpec {
+  counts: number[];
+  symbols: number[];
+}
+
+/** Huffman code table: code and length per symbol */
+interface HuffmanTable {
+  codes: Uint16Array;
+  lengths: Uint8Array;
+}
+
+// =============================================================================
+// TABLES
+// =============================================================================
+
+/**
+ * Scale a quality-50 quantization table to a quality of 1-100 (libjpeg's
+ * scaling).
+ */
+function scaleQuantization(table: number[], quality: number): Uint8Array {
+  const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+  return Uint8Array.from(table, (value) =>
+    Math.max(1, Math.min(255, Math.floor((value * scale + 50) / 100))),
+  );
+}
+
+/**
+ * Fold the AAN DCT output scaling into divisors for a quantization table.
+ */
+function createDivisors(quantization: Uint8Array): Float32Array {
+  const divisors = new Float32Array(64);
+  for (let row = 0; row < 8; row++) {
+    for (let column = 0; column < 8; column++) {
+      const index = row * 8 + column;
+      divisors[index] = 1 / (quantization[index] * AAN_SCALE[row] * AAN_SCALE[column] * 8);
+    }
+  }
+  return divisors;
+}
+
+/**
+ * Build code words for a Huffman table specification (ITU T.81 Annex C).
+ */
+function buildHuffmanTable(spec: HuffmanSpec): HuffmanTable {
+  const codes = new Uint16Array(256);
+  const lengths = new Uint8Array(256);
+
+  let code = 0;
+  let symbolIndex = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]; i++) {
+      const symbol = spec.symbols[symbolIndex++];
+      codes[symbol] = code++;
+      lengths[symbol] = length;
+    }
+    code <<= 1;
+  }
+
+  return { codes, lengths };
+}
+
+// =============================================================================
+// BYTE AND BIT OUTPUT
+// =============================================================================
+
+/**
+ * Growable byte buffer with a most-significant-first bit writer for
+ * entropy-coded data.
+ */
+class JPEGWriter {
+  /** Output bytes */
+  private _bytes: Uint8Array;
+
+  /** Number of bytes written */
+  private _length = 0;
+
+  /** Pending bits, most significant first */
+  private _bits = 0;
+
+  /** Number of pending bits */
+  private _bitCount = 0;
+
+  constructor(capacity: number) {
+    this._bytes = new Uint8Array(Math.max(capacity, 1024));
+  }
+
+  /** Write one byte. */
+  writeByte(value: number): void {
+    if (this._length === this._bytes.length) {
+      const grown = new Uint8Array(this._bytes.length * 2);
+      grown.set(this._bytes);
+      this._bytes = grown;
+    }
+    this._bytes[this._length++] = value;
+  }
+
+  /** Write a big-endian 16-bit value. */
+  writeWord(value: number): void {
+    this.writeByte((value >> 8) & 0xff);
+    this.writeByte(value & 0xff);
+  }
+
+  /** Write bytes. */
+  writeBytes(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) this.writeByte(values[i]);
+  }
+
+  /** Write bits of entropy-coded data, stuffing a zero byte after 0xFF. */
+  writeBits(value: number, count: number): void {
+    this._bits = (this._bits << count) | (value & ((1 << count) - 1));
+    this._bitCount += count;
+
+    while (this._bitCount >= 8) {
+      const byte = (this._bits >> (this._bitCount - 8)) & 0xff;
+      this.writeByte(byte);
+      if (byte === 0xff) this.writeByte(0);
+      this._bitCount -= 8;
+    }
+    this._bits &= (1 << this._bitCount) - 1;
+  }
+
+  /** Pad the entropy-coded data to a byte boundary with one bits. */
+  flushBits(): void {
+    if (this._bitCount > 0) this.writeBits(0x7f, 8 - this._bitCount);
+  }
+
+  /** Get the written bytes. */
+  finish(): Uint8Array {
+    return this._bytes.slice(0, this._length);
+  }
+}
+
+// =============================================================================
+// DCT AND ENTROPY CODING
+// =============================================================================
+
+/**
+ * Forward DCT (Arai-Agui-Nakajima) of one 8x8 block in place, followed by
+ * quantization into `out` (row-major).
+ */
+function forwardDCT(block: Float32Array, divisors: Float32Array, out: Int32Array): void {
+  for (let pass = 0; pass < 2; pass++) {
+    // Rows first, then columns
+    const step = pass === 0 ? 1 : 8;
+    const lineStep = pass === 0 ? 8 : 1;
+
+    for (let line = 0; line < 8; line++) {
+      const o = line * lineStep;
+      const d0 = block[o];
+      const d1 = block[o + step];
+      const d2 = block[o + step * 2];
+      const d3 = block[o + step * 3];
+      const d4 = block[o + step * 4];
+      const d5 = block[o + step * 5];
+      const d6 = block[o + step * 6];
+      const d7 = block[o + step * 7];
+
+      const tmp0 = d0 + d7;
+      const tmp7 = d0 - d7;
+      const tmp1 = d1 + d6;
+      const tmp6 = d1 - d6;
+      const tmp2 = d2 + d5;
+      const tmp5 = d2 - d5;
+      const tmp3 = d3 + d4;
+      const tmp4 = d3 - d4;
+
+      // Even part
+      let tmp10 = tmp0 + tmp3;
+      const tmp13 = tmp0 - tmp3;
+      let tmp11 = tmp1 + tmp2;
+      let tmp12 = tmp1 - tmp2;
+
+      block[o] = tmp10 + tmp11;
+      block[o + step * 4] = tmp10 - tmp11;
+
+      const z1 = (tmp12 + tmp13) * 0.707106781;
+      block[o + step * 2] = tmp13 + z1;
+      block[o + step * 6] = tmp13 - z1;
+
+      // Odd part
+      tmp10 = tmp4 + tmp5;
+      tmp11 = tmp5 + tmp6;
+      tmp12 = tmp6 + tmp7;
+
+      const z5 = (tmp10 - tmp12) * 0.382683433;
+      const z2 = 0.5411961 * tmp10 + z5;
+      const z4 = 1.306562965 * tmp12 + z5;
+      const z3 = tmp11 * 0.707106781;
+
+      const z11 = tmp7 + z3;
+      const z13 = tmp7 - z3;
+
+      block[o + step * 5] = z13 + z2;
+      block[o + step * 3] = z13 - z2;
+      block[o + step] = z11 + z4;
+      block[o + step * 7] = z11 - z4;
+    }
+  }
+
+  for (let i = 0; i < 64; i++) {
+    out[i] = Math.round(block[i] * divisors[i]);
+  }
+}
+
+/**
+ * Get the magnitude category (bit length) of a coefficient.
+ */
+function category(value: number): number {
+  let magnitude = value < 0 ? -value : value;
+  let bits = 0;
+  while (magnitude > 0) {
+    bits++;
+    magnitude >>= 1;
+  }
+  return bits;
+}
+
+/**
+ * Write a coefficient's magnitude bits (one's complement for negatives).
+ */
+function writeMagnitude(writer: JPEGWriter, value: number, bits: number): void {
+  if (bits > 0) writer.writeBits(value < 0 ? value + (1 << bits) - 1 : value, bits);
+}
+
+/**
+ * Entropy-code one quantized block.
+ *
+ * @returns The block's DC coefficient, the predictor for the next block
+ */
+function encodeBlock(
+  writer: JPEGWriter,
+  coefficients: Int32Array,
+  previousDC: number,
+  dc: HuffmanTable,
+  ac: HuffmanTable,
+): number {
+  const dcValue = coefficients[0];
+  const difference = dcValue - previousDC;
+  const dcBits = category(difference);
+  writer.writeBits(dc.codes[dcBits], dc.lengths[dcBits]);
+  writeMagnitude(writer, difference, dcBits);
+
+  let lastNonZero = 63;
+  while (lastNonZero > 0 && coefficients[ZIGZAG[lastNonZero]] === 0) lastNonZero--;
+
+  let run = 0;
+  for (let i = 1; i <= lastNonZero; i++) {
+    const value = coefficients[ZIGZAG[i]];
+    if (value === 0) {
+      run++;
+      continue;
+    }
+
+    while (run >= 16) {
+      writer.writeBits(ac.codes[ZRL], ac.lengths[ZRL]);
+      run -= 16;
+    }
+
+    const bits = category(value);
+    const symbol = (run << 4) | bits;
+    writer.writeBits(ac.codes[symbol], ac.lengths[symbol]);
+    writeMagnitude(writer, value, bits);
+    run = 0;
+  }
+
+  if (lastNonZero < 63) {
+    writer.writeBits(ac.codes[EOB], ac.lengths[EOB]);
+  }
+
+  return dcValue;
+}
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+/**
+ * Write a DHT segment entry for one table.
+ */
+function writeHuffmanSpec(writer: JPEGWriter, tableClassAndId: number, spec: HuffmanSpec): void {
+  writer.writeByte(tableClassAndId);
+  writer.writeBytes(spec.counts);
+  writer.writeBytes(spec.symbols);
+}
+
+/**
+ * Encode RGBA pixels as a baseline JPEG file.
+ *
+ * @param pixels - Straight (non-premultiplied) RGBA pixels, top row first
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param options - Quality and background color
+ * @returns JPEG file bytes
+ *
+ * @example
+ * ```ts
+ * const jpeg = encodeJPEG(imageData.data, imageData.width, imageData.height, { quality: 0.8 });
+ * ```
+ */
+export function encodeJPEG(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: JPEGEncodeOptions = {},
+): Uint8Array {
+  if (width <= 0 || height <= 0 || width > 0xffff || height > 0xffff) {
+    throw new Error(`encodeJPEG: Invalid image size ${width}x${height}`);
+  }
+
+  const requested = options.quality ?? 0.92;
+  const quality = Math.max(
+    1,
+    Math.min(100, Math.round((Number.isFinite(requested) ? requested : 0.92) * 100)),
+  );
+  const background = options.background ?? 0x000000;
+  const backgroundR = (background >> 16) & 0xff;
+  const backgroundG = (background >> 8) & 0xff;
+  const backgroundB = background & 0xff;
+
+  const luminanceTable = scaleQuantization(LUMINANCE_QUANTIZATION, quality);
+  const chrominanceTable = scaleQuantization(CHROMINANCE_QUANTIZATION, quality);
+  const luminanceDivisors = createDivisors(luminanceTable);
+  const chrominanceDivisors = createDivisors(chrominanceTable);
+
+  const dcLuminance = buildHuffmanTable(DC_LUMINANCE);
+  const acLuminance = buildHuffmanTable(AC_LUMINANCE);
+  const dcChrominance = buildHuffmanTable(DC_CHROMINANCE);
+  const acChrominance = buildHuffmanTable(AC_CHROMINANCE);
+
+  const writer = new JPEGWriter(width * height);
+
+  // SOI and JFIF APP0
+  writer.writeWord(0xffd8);
+  writer.writeWord(0xffe0);
+  writer.writeWord(16);
+  writer.writeBytes([0x4a, 0x46, 0x49, 0x46, 0x00]); // 'JFIF\0'
+  writer.writeBytes([1, 1, 0]); // Version 1.1, no density units
+  writer.writeWord(1);
+  writer.writeWord(1);
+  writer.writeBytes([0, 0]); // No thumbnail
+
+  // DQT: quantization tables in zigzag order
+  writer.writeWord(0xffdb);
+  writer.writeWord(2 + 65 * 2);
+  writer.writeByte(0);
+  for (let i = 0; i < 64; i++) writer.writeByte(luminanceTable[ZIGZAG[i]]);
+  writer.writeByte(1);
+  for (let i = 0; i < 64; i++) writer.writeByte(chrominanceTable[ZIGZAG[i]]);
+
+  // SOF0: baseline, 8-bit, three components without subsampling
+  writer.writeWord(0xffc0);
+  writer.writeWord(17);
+  writer.writeByte(8);
+  writer.writeWord(height);
+  writer.writeWord(width);
+  writer.writeByte(3);
+  writer.writeBytes([1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1]);
+
+  // DHT
+  const huffmanSpecs = [DC_LUMINANCE, AC_LUMINANCE, DC_CHROMINANCE, AC_CHROMINANCE];
+  writer.writeWord(0xffc4);
+  writer.writeWord(2 + huffmanSpecs.reduce((total, spec) => total + 17 + spec.symbols.length, 0));
+  writeHuffmanSpec(writer, 0x00, DC_LUMINANCE);
+  writeHuffmanSpec(writer, 0x10, AC_LUMINANCE);
+  writeHuffmanSpec(writer, 0x01, DC_CHROMINANCE);
+  writeHuffmanSpec(writer, 0x11, AC_CHROMINANCE);
+
+  // SOS
+  writer.writeWord(0xffda);
+  writer.writeWord(12);
+  writer.writeByte(3);
+  writer.writeBytes([1, 0x00, 2, 0x11, 3, 0x11]);
+  writer.writeBytes([0, 63, 0]); // Full spectral range, no successive approximation
+
+  // Entropy-coded blocks
+  const yBlock = new Float32Array(64);
+  const cbBlock = new Float32Array(64);
+  const crBlock = new Float32Array(64);
+  const coefficients = new Int32Array(64);
+  let previousY = 0;
+  let previousCb = 0;
+  let previousCr = 0;
+
+  for (let blockY = 0; blockY < height; blockY += 8) {
+    for (let blockX = 0; blockX < width; blockX += 8) {
+      for (let row = 0; row < 8; row++) {
+        // Edge blocks repeat the last row and column
+        const y = Math.min(blockY + row, height - 1);
+
+        for (let column = 0; column < 8; column++) {
+          const x = Math.min(blockX + column, width - 1);
+          const offset = (y * width + x) * 4;
+          const alpha = pixels[offset + 3] / 255;
+          const r = pixels[offset] * alpha + backgroundR * (1 - alpha);
+          const g = pixels[offset + 1] * alpha + backgroundG * (1 - alpha);
+          const b = pixels[offset + 2] * alpha + backgroundB * (1 - alpha);
+
+          const index = row * 8 + column;
+          yBlock[index] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+          cbBlock[index] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+          crBlock[index] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+        }
+      }
+
+      forwardDCT(yBlock, luminanceDivisors, coefficients);
+      previousY = encodeBlock(writer, coefficients, previousY, dcLuminance, acLuminance);
+      forwardDCT(cbBlock, chrominanceDivisors, coefficients);
+      previousCb = encodeBlock(writer, coefficients, previousCb, dcChrominance, acChrominance);
+      forwardDCT(crBlock, chrominanceDivisors, coefficients);
+      previousCr = encodeBlock(writer, coefficients, previousCr, dcChrominance, acChrominance);
+    }
+  }
+
+  writer.flushBits();
+
+  // EOI
+  writer.writeWord(0xffd9);
+
+  return writer.finish();
+}
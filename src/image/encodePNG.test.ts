@@ -0,0 +1,51 @@
+import { PNG } from 'pngjs';
+import { describe, expect, it } from 'vitest';
+import { encodePNG } from './encodePNG';
+
+/**
+ * RGBA gradient with varying alpha.
+ */
+function createPixels(width: number, height: number): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      pixels[i] = (x * 255) / Math.max(width - 1, 1);
+      pixels[i + 1] = (y * 255) / Math.max(height - 1, 1);
+      pixels[i + 2] = (x * y) % 256;
+      pixels[i + 3] = 255 - ((x + y) % 128);
+    }
+  }
+  return pixels;
+}
+
+describe('encodePNG', () => {
+  for (const [width, height] of [
+    [1, 1],
+    [3, 2],
+    [64, 48],
+    [257, 31],
+  ]) {
+    it(`round-trips a ${width}x${height} image`, () => {
+      const pixels = createPixels(width, height);
+      const decoded = PNG.sync.read(Buffer.from(encodePNG(pixels, width, height)));
+
+      expect(decoded.width).toBe(width);
+      expect(decoded.height).toBe(height);
+      expect(new Uint8ClampedArray(decoded.data)).toEqual(pixels);
+    });
+  }
+
+  it('round-trips at every compression level', () => {
+    const pixels = createPixels(40, 40);
+
+    for (let level = 0; level <= 9; level++) {
+      const png = encodePNG(pixels, 40, 40, { compressionLevel: level });
+      expect(new Uint8ClampedArray(PNG.sync.read(Buffer.from(png)).data)).toEqual(pixels);
+    }
+  });
+
+  it('rejects empty images', () => {
+    expect(() => encodePNG(new Uint8Array(0), 0, 10)).toThrow('Invalid image size');
+  });
+});
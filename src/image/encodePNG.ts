@@ -0,0 +1,232 @@
+/**
+ * @fileoverview PNG encoder for RGBA pixels.
+ *
+ * Writes 8-bit truecolor-with-alpha images with per-row adaptive filtering
+ * and zlib compression.
+ *
+ * @module @penabt/pixi-expo/image/encodePNG
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { zlibDeflate } from './deflate';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** PNG file signature */
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Bytes per pixel (RGBA) */
+const BYTES_PER_PIXEL = 4;
+
+/** Row filter types */
+const FILTER_NONE = 0;
+const FILTER_SUB = 1;
+const FILTER_UP = 2;
+const FILTER_AVERAGE = 3;
+const FILTER_PAETH = 4;
+
+/** CRC-32 lookup table */
+const CRC_TABLE = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  CRC_TABLE[n] = c >>> 0;
+}
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Options for encodePNG */
+export interface PNGEncodeOptions {
+  /**
+   * zlib effort from 0 (fastest, largest) to 9 (slowest, smallest).
+   * @default 6
+   */
+  compressionLevel?: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Compute the CRC-32 of a byte range.
+ */
+function crc32(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Paeth predictor (PNG specification section 9.4).
+ */
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  if (distanceUp <= distanceUpLeft) return up;
+  return upLeft;
+}
+
+/**
+ * Filter one row with the given filter type.
+ */
+function filterRow(
+  type: number,
+  row: Uint8Array,
+  previous: Uint8Array | null,
+  out: Uint8Array,
+): void {
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= BYTES_PER_PIXEL ? row[i - BYTES_PER_PIXEL] : 0;
+    const up = previous ? previous[i] : 0;
+    const upLeft = previous && i >= BYTES_PER_PIXEL ? previous[i - BYTES_PER_PIXEL] : 0;
+
+    let predicted = 0;
+    switch (type) {
+      case FILTER_SUB:
+        predicted = left;
+        break;
+      case FILTER_UP:
+        predicted = up;
+        break;
+      case FILTER_AVERAGE:
+        predicted = (left + up) >> 1;
+        break;
+      case FILTER_PAETH:
+        predicted = paeth(left, up, upLeft);
+        break;
+    }
+
+    out[i] = (row[i] - predicted) & 0xff;
+  }
+}
+
+/**
+ * Filter all rows, picking per row the filter with the smallest sum of
+ * absolute (signed) differences.
+ */
+function filterImage(pixels: Uint8Array, width: number, height: number): Uint8Array {
+  const stride = width * BYTES_PER_PIXEL;
+  const filtered = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const row = pixels.subarray(y * stride, (y + 1) * stride);
+    const previous = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : null;
+    const target = (stride + 1) * y;
+
+    let bestScore = Infinity;
+
+    for (let type = FILTER_NONE; type <= FILTER_PAETH; type++) {
+      filterRow(type, row, previous, candidate);
+
+      let score = 0;
+      for (let i = 0; i < stride && score < bestScore; i++) {
+        score += candidate[i] < 128 ? candidate[i] : 256 - candidate[i];
+      }
+
+      if (score < bestScore) {
+        bestScore = score;
+        filtered[target] = type;
+        filtered.set(candidate, target + 1);
+      }
+    }
+  }
+
+  return filtered;
+}
+
+/**
+ * Build a PNG chunk (length, type, data, CRC).
+ */
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk, 4, 8 + data.length));
+
+  return chunk;
+}
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+/**
+ * Encode RGBA pixels as a PNG file.
+ *
+ * @param pixels - Straight (non-premultiplied) RGBA pixels, top row first
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param options - Compression options
+ * @returns PNG file bytes
+ *
+ * @example
+ * ```ts
+ * const png = encodePNG(imageData.data, imageData.width, imageData.height);
+ * ```
+ */
+export function encodePNG(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: PNGEncodeOptions = {},
+): Uint8Array {
+  if (width <= 0 || height <= 0) {
+    throw new Error(`encodePNG: Invalid image size ${width}x${height}`);
+  }
+
+  const bytes =
+    pixels instanceof Uint8Array
+      ? pixels
+      : new Uint8Array(pixels.buffer, pixels.byteOffset, pixels.byteLength);
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // Truecolor with alpha
+  header[10] = 0; // Deflate compression
+  header[11] = 0; // Adaptive filtering
+  header[12] = 0; // No interlace
+
+  const data = zlibDeflate(filterImage(bytes, width, height), {
+    level: options.compressionLevel ?? 6,
+  });
+
+  const chunks = [
+    createChunk('IHDR', header),
+    createChunk('IDAT', data),
+    createChunk('IEND', new Uint8Array(0)),
+  ];
+
+  const file = new Uint8Array(
+    SIGNATURE.length + chunks.reduce((total, chunk) => total + chunk.length, 0),
+  );
+  file.set(SIGNATURE, 0);
+
+  let offset = SIGNATURE.length;
+  for (const chunk of chunks) {
+    file.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return file;
+}
@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Image encoding exports.
+ *
+ * Pure-TypeScript PNG and JPEG encoders used by canvas.toDataURL/toBlob,
+ * since React Native has no native canvas to encode with.
+ *
+ * @module @penabt/pixi-expo/image
+ */
+
+export {
+  encodeImage,
+  getEncodedImageType,
+  flipPixelRows,
+  unpremultiplyPixels,
+} from './encodeImage';
+export type { EncodeImageOptions, EncodedImage, EncodedImageType } from './encodeImage';
+export { encodePNG } from './encodePNG';
+export type { PNGEncodeOptions } from './encodePNG';
+export { encodeJPEG } from './encodeJPEG';
+export type { JPEGEncodeOptions } from './encodeJPEG';
+export { zlibDeflate } from './deflate';
+export type { DeflateOptions } from './deflate';
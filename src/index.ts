@@ -64,11 +64,24 @@ import './adapter/polyfills';
 import {
   ExpoAdapter,
   setActiveGLContext,
+  restoreGLContext,
   getActiveCanvas,
   getActiveGL,
   clearActiveContext,
+  createViewId,
+  activateViewContext,
+  getViewContext,
+  getGPUCapabilities,
+  queryGPUCapabilities,
+  supportsWebGL2,
+} from './adapter';
+import {
+  ExpoCanvasElement,
+  ExpoImageElement,
+  ExpoResponse,
+  ExpoBlob,
+  ExpoFileReader,
 } from './adapter';
-import { ExpoCanvasElement } from './adapter';
 
 // =============================================================================
 // PHASE 3: PIXIJS CONFIGURATION
@@ -89,9 +102,11 @@ DOMAdapter.set(ExpoAdapter as any);
 
 import { loadExpoAsset, loadTexture } from './adapter/loadExpoAsset';
 import { loadExpoFont } from './adapter/loadExpoFont';
+import { loadExpoBitmapFont, loadBitmapFont } from './adapter/loadExpoBitmapFont';
 
 extensions.add(loadExpoAsset);
 extensions.add(loadExpoFont);
+extensions.add(loadExpoBitmapFont);
 
 // =============================================================================
 // EXPORTS: ADAPTER UTILITIES
@@ -103,15 +118,133 @@ export {
   ExpoAdapter,
   /** Canvas element wrapper for expo-gl WebGL context */
   ExpoCanvasElement,
-  /** Activate a GL context for PixiJS rendering */
+  /** HTMLImageElement implementation returned by ExpoAdapter.createImage */
+  ExpoImageElement,
+  /** Response returned by ExpoAdapter.fetch for local and bundled files */
+  ExpoResponse,
+  /** Blob-compatible byte container */
+  ExpoBlob,
+  /** FileReader that can read ExpoBlob (installed as the global FileReader) */
+  ExpoFileReader,
+  /** Register and activate a view's GL context for PixiJS rendering */
   setActiveGLContext,
-  /** Get the currently active canvas element */
+  /** Replace a view's lost GL context, keeping its canvas and renderer */
+  restoreGLContext,
+  /** Get the canvas element of a view (default: the active view) */
   getActiveCanvas,
-  /** Get the currently active WebGL context */
+  /** Get the WebGL context of a view (default: the active view) */
   getActiveGL,
-  /** Clear the active context (called on unmount) */
+  /** Clear a view's context (called on unmount) */
   clearActiveContext,
+  /** Generate a unique view id for the context registry */
+  createViewId,
+  /** Make a registered view the active one */
+  activateViewContext,
+  /** Get the registered context (canvas, GL, touch state) of a view */
+  getViewContext,
+  /** Get the GPU capabilities of a view's GL context (default: the active view) */
+  getGPUCapabilities,
+  /** Query the GPU capabilities of any WebGL context */
+  queryGPUCapabilities,
+  /** Check whether a WebGL context can be used with PixiJS's WebGL 2 backend */
+  supportsWebGL2,
 };
+export type {
+  ExpoViewContext,
+  GPUCapabilities,
+  CompressedTextureSupport,
+  ShaderPrecision,
+} from './adapter';
+
+// =============================================================================
+// EXPORTS: SOFTWARE 2D CANVAS
+// Canvas 2D API backing offscreen canvases (gradients, patterns, CanvasSource).
+// =============================================================================
+
+export {
+  /** Software CanvasRenderingContext2D of offscreen canvases */
+  ExpoCanvasRenderingContext2D,
+  /** Path2D implementation accepted by the software context */
+  ExpoPath2D,
+  /** ImageData implementation returned by getImageData/createImageData */
+  ExpoImageData,
+  /** CanvasGradient implementation */
+  ExpoCanvasGradient,
+  /** CanvasPattern implementation */
+  ExpoCanvasPattern,
+} from './canvas';
+export type { PixelData } from './canvas';
+
+// =============================================================================
+// EXPORTS: IMAGE ENCODING
+// PNG/JPEG encoders behind canvas.toDataURL/toBlob and renderer.extract.
+// =============================================================================
+
+export {
+  /** Encode RGBA pixels as PNG or JPEG by MIME type */
+  encodeImage,
+  /** Encode RGBA pixels as PNG */
+  encodePNG,
+  /** Encode RGBA pixels as baseline JPEG */
+  encodeJPEG,
+  /** Compress bytes into a zlib stream */
+  zlibDeflate,
+  /** Flip RGBA rows in place (bottom-up framebuffer to top-down image) */
+  flipPixelRows,
+  /** Convert premultiplied RGBA to straight alpha in place */
+  unpremultiplyPixels,
+  /** Resolve the MIME type an image will be encoded as */
+  getEncodedImageType,
+} from './image';
+export type {
+  EncodeImageOptions,
+  EncodedImage,
+  EncodedImageType,
+  PNGEncodeOptions,
+  JPEGEncodeOptions,
+  DeflateOptions,
+} from './image';
+
+// =============================================================================
+// EXPORTS: TEXT MEASUREMENT
+// Font parsing, metrics and glyph outlines used by the 2D context's
+// measureText() and fillText(), and BMFont descriptor parsing.
+// =============================================================================
+
+export {
+  /** Parsed TTF/OTF font (advances, cmap, kerning, outlines) */
+  OpenTypeFont,
+  /** Register a font file for text measurement */
+  registerFont,
+  /** Remove a family's registered faces */
+  unregisterFont,
+  /** Check whether a family has registered faces */
+  hasRegisteredFont,
+  /** Find the registered face matching a family, weight and style */
+  findFont,
+  /** Parse a CSS font shorthand string */
+  parseFontString,
+  /** Get ascent, descent and line height of a font string */
+  getFontLineMetrics,
+  /** Measure a line of text with a registered font */
+  measureTextWithFont,
+  /** Resolve the registered face of a font string */
+  resolveFont,
+  /** Parse a BMFont descriptor (text, XML or binary) */
+  parseBMFont,
+  /** Detect the variant of a BMFont descriptor */
+  detectBMFontFormat,
+} from './text';
+export type {
+  FontFaceOptions,
+  ParsedFontString,
+  FontLineMetrics,
+  TextMeasurement,
+  ResolvedFont,
+  GlyphCommand,
+  BMFontFormat,
+} from './text';
+export type { ExpoBitmapFontOptions } from './adapter/loadExpoFont';
 
 // =============================================================================
 // EXPORTS: ASSET LOADERS
@@ -125,7 +258,12 @@ export {
   loadTexture,
   /** Load fonts using expo-font */
   loadExpoFont,
+  /** Load BMFont descriptors (text, XML, binary) and their page images */
+  loadExpoBitmapFont,
+  /** Load a BitmapFont from require() module ID or URL */
+  loadBitmapFont,
 };
+export type { BitmapFontLoadData } from './adapter/loadExpoBitmapFont';
 
 // =============================================================================
 // EXPORTS: REACT COMPONENTS
@@ -133,7 +271,130 @@ export {
 // =============================================================================
 
 export { PixiView } from './components/PixiView';
-export type { PixiViewProps, PixiViewHandle } from './components/PixiView';
+export type {
+  PixiViewProps,
+  PixiViewHandle,
+  PixiViewRenderMode,
+  PixiViewFocusSource,
+  PixiViewSize,
+  PixiViewInsets,
+  PixiViewSafeArea,
+} from './components/PixiView';
+
+// =============================================================================
+// EXPORTS: REACT RENDERER
+// Declarative <container>, <sprite>, <graphics> and <bitmapText> elements
+// (PixiView children). Importing the package adds them to React's JSX types.
+// =============================================================================
+
+export {
+  /** Create a React root rendering elements into a PixiJS container */
+  createPixiRoot,
+  /** PixiJS class created by each intrinsic element */
+  PIXI_ELEMENTS,
+  /** Event props and the federated events they listen to */
+  PIXI_EVENT_PROPS,
+} from './react';
+export type {
+  PixiRoot,
+  PixiElementType,
+  PixiEventMap,
+  PixiElementProps,
+  PixiEventProps,
+  GraphicsElementProps,
+  BitmapTextElementProps,
+  PixiIntrinsicElements,
+} from './react';
+
+// =============================================================================
+// EXPORTS: REACT HOOKS
+// The Application, ticker and textures from scene elements, or from components
+// next to a PixiView inside a PixiProvider.
+// =============================================================================
+
+export {
+  /** Share a PixiView's Application with the components around it */
+  PixiProvider,
+  /** Context holding the nearest PixiView's Application */
+  PixiAppContext,
+  /** Get the nearest PixiView's Application */
+  usePixiApp,
+  /** Run a callback on every tick while mounted */
+  useTick,
+  /** Load a texture with loading state or Suspense */
+  useAsset,
+  /** Load several textures with loading state or Suspense */
+  useAssets,
+} from './react';
+export type {
+  PixiAppContextValue,
+  PixiProviderProps,
+  AssetSource,
+  AssetState,
+  UseAssetOptions,
+} from './react';
+
+// =============================================================================
+// EXPORTS: EXTRACT
+// Read display objects and textures as pixels, base64 or cache files.
+// =============================================================================
+
+export {
+  /** Read a Container or Texture as straight-alpha RGBA pixels */
+  extractPixels,
+  /** Extract a Container or Texture as a base64 data URI */
+  extractBase64,
+  /** Extract a Container or Texture into a cache file */
+  extractToFile,
+} from './utils/extract';
+export type {
+  ExtractOptions,
+  ExtractImageOptions,
+  ExtractImageFormat,
+  ExtractFrame,
+  ExtractedPixels,
+} from './utils/extract';
+
+// =============================================================================
+// EXPORTS: FRAME RATE
+// Display-aligned frame rate caps for tickers.
+// =============================================================================
+
+export {
+  /** Set a ticker's frame rate cap and delta clamp */
+  setTickerFrameRate,
+  /** Get the display refresh rate measured by a ticker's pacer */
+  getTickerRefreshRate,
+  /** Decides which animation frames run under a frame rate cap */
+  FramePacer,
+} from './utils/framePacer';
+export type { FrameRateOptions } from './utils/framePacer';
+
+// =============================================================================
+// EXPORTS: DESIGN RESOLUTION
+// Fit a fixed design size to any view (used by PixiView's designWidth).
+// =============================================================================
+
+export {
+  /** Compute how a design size maps onto a view */
+  computeDesignScale,
+  /** Convert view points to design coordinates */
+  viewToDesignPoint,
+} from './utils/designScale';
+export type { DesignScale, DesignScaleMode, DesignRect } from './utils/designScale';
+
+// =============================================================================
+// EXPORTS: SNAPSHOTS
+// Encode the stage as an image (used by PixiViewHandle.takeSnapshot).
+// =============================================================================
+
+export { takeSnapshot } from './utils/snapshot';
+export type {
+  SnapshotOptions,
+  SnapshotFormat,
+  SnapshotResult,
+  SnapshotRegion,
+} from './utils/snapshot';
 
 // =============================================================================
 // EXPORTS: TOUCH EVENT BRIDGE
@@ -147,14 +408,65 @@ export {
   clearTouchTracking,
   /** Get number of active touches */
   getActiveTouchCount,
+  /** Create per-view touch tracking state */
+  createTouchTracker,
+  /** Convert react-native-gesture-handler touch events to PixiJS pointer events */
+  convertGestureTouchToPointerEvents,
 } from './utils/touchEventBridge';
 export type {
   /** PointerEvent-like object for PixiJS */
   NativePointerEvent,
   /** Options for touch event bridge */
   TouchEventBridgeOptions,
+  /** Per-view touch tracking state */
+  TouchTracker,
+  /** Touch of a react-native-gesture-handler touch event */
+  GestureTouchData,
+  /** react-native-gesture-handler touch event */
+  GestureTouchEventData,
 } from './utils/touchEventBridge';
 
+// =============================================================================
+// EXPORTS: INPUT BACKENDS
+// Touch sources for PixiView's inputBackend prop.
+// =============================================================================
+
+export {
+  /** Touch source driven by code, for tests and scripted input */
+  SimulatedTouchSource,
+  /** Create the gesture of the 'gesture-handler' backend */
+  createTouchGesture,
+} from './utils/inputBackend';
+export type {
+  PixiViewInputBackend,
+  GestureTouchSource,
+  GestureTouchListener,
+} from './utils/inputBackend';
+
+// =============================================================================
+// EXPORTS: GESTURES
+// Tap, double-tap, long-press, pan, swipe, pinch and rotate as federated
+// events on display objects (PixiView's gestures prop).
+// =============================================================================
+
+export {
+  /** Event dispatched for a recognized gesture */
+  FederatedGestureEvent,
+  /** Event types of each gesture */
+  GESTURE_EVENTS,
+  /** Recognize gestures from touch bridge pointer events */
+  GestureRecognizer,
+  /** Default recognizer thresholds */
+  DEFAULT_GESTURE_OPTIONS,
+} from './gestures';
+export type {
+  GestureType,
+  GestureEventType,
+  GestureEventMap,
+  GestureOptions,
+  SwipeDirection,
+} from './gestures';
+
 // =============================================================================
 // EXPORTS: PIXIJS RE-EXPORTS
 // Convenience re-exports from pixi.js for single-import usage.
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview React context carrying a PixiView's Application.
+ *
+ * PixiView provides its Application to the elements it renders into the
+ * stage. Components next to a PixiView, such as a HUD or a toolbar, get it
+ * by wrapping both in a PixiProvider, which the view registers with.
+ *
+ * @module @penabt/pixi-expo/react/context
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { createContext, createElement, useCallback, useContext, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { Application } from 'pixi.js';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Value of PixiAppContext */
+export interface PixiAppContextValue {
+  /** Application of the nearest PixiView, or null before it's created */
+  app: Application | null;
+
+  /**
+   * Whether the view that created the Application is paused. PixiViews
+   * share one ticker, which keeps running while any of them is active.
+   */
+  isPaused?: () => boolean;
+
+  /**
+   * Report the Application of a PixiView inside a PixiProvider.
+   * Only set by PixiProvider.
+   * @param app - The view's Application
+   * @param isPaused - Whether the view is paused
+   * @returns Function that withdraws the Application again
+   */
+  registerApp?: (app: Application, isPaused?: () => boolean) => () => void;
+}
+
+/** Application registered with a PixiProvider */
+interface RegisteredApp {
+  app: Application;
+  isPaused?: () => boolean;
+}
+
+/** Props for PixiProvider */
+export interface PixiProviderProps {
+  /** Tree containing a PixiView and the components that use its Application */
+  children?: ReactNode;
+}
+
+// =============================================================================
+// CONTEXT
+// =============================================================================
+
+/**
+ * Context holding the Application of the nearest PixiView.
+ * Read it with usePixiApp().
+ */
+export const PixiAppContext = createContext<PixiAppContextValue>({ app: null });
+
+/**
+ * Make the Application of a PixiView inside it available to every
+ * component inside it, including ones outside the view.
+ *
+ * With several views inside, the Application created last is provided.
+ * A view that goes away only clears the provider if its Application is
+ * still the provided one.
+ *
+ * @example
+ * ```tsx
+ * <PixiProvider>
+ *   <PixiView onApplicationCreate={setupScene} />
+ *   <ScoreBar /> // usePixiApp() returns the view's Application
+ * </PixiProvider>
+ * ```
+ */
+export function PixiProvider({ children }: PixiProviderProps) {
+  const [registered, setRegistered] = useState<RegisteredApp | null>(null);
+
+  const registerApp = useCallback((app: Application, isPaused?: () => boolean) => {
+    const entry = { app, isPaused };
+    setRegistered(entry);
+    return () => setRegistered((current) => (current === entry ? null : current));
+  }, []);
+
+  const value = useMemo(
+    () => ({ app: registered?.app ?? null, isPaused: registered?.isPaused, registerApp }),
+    [registered, registerApp],
+  );
+
+  return createElement(PixiAppContext.Provider, { value }, children);
+}
+
+/**
+ * Get the Application of the nearest PixiView: the one rendering the
+ * calling element, or the one inside the enclosing PixiProvider.
+ *
+ * @returns The Application, or null until the view has created it
+ *
+ * @example
+ * ```tsx
+ * function Player() {
+ *   const app = usePixiApp();
+ *   return <sprite texture={texture} x={app ? app.screen.width / 2 : 0} />;
+ * }
+ * ```
+ */
+export function usePixiApp(): Application | null {
+  return useContext(PixiAppContext).app;
+}
@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Element catalog and prop application for the React renderer.
+ *
+ * Maps the intrinsic element names (`<container>`, `<sprite>`, ...) to the
+ * PixiJS classes they create, and applies React props to those objects:
+ * plain properties are assigned, point properties accept a number or a
+ * point, event props become federated event listeners and `draw` redraws
+ * a Graphics.
+ *
+ * @module @penabt/pixi-expo/react/elements
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { BitmapText, Container, Graphics, Sprite } from 'pixi.js';
+import type { AllFederatedEventMap, ObservablePoint, PointData } from 'pixi.js';
+import type { GestureEventMap } from '../gestures';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** PixiJS class created by each intrinsic element */
+export const PIXI_ELEMENTS = {
+  container: Container,
+  sprite: Sprite,
+  graphics: Graphics,
+  bitmapText: BitmapText,
+} as const;
+
+/** Event props and the federated events they listen to */
+export const PIXI_EVENT_PROPS = {
+  onClick: 'click',
+  onMouseDown: 'mousedown',
+  onMouseEnter: 'mouseenter',
+  onMouseLeave: 'mouseleave',
+  onMouseMove: 'mousemove',
+  onMouseOut: 'mouseout',
+  onMouseOver: 'mouseover',
+  onMouseUp: 'mouseup',
+  onMouseUpOutside: 'mouseupoutside',
+  onPointerCancel: 'pointercancel',
+  onPointerDown: 'pointerdown',
+  onPointerEnter: 'pointerenter',
+  onPointerLeave: 'pointerleave',
+  onPointerMove: 'pointermove',
+  onPointerOut: 'pointerout',
+  onPointerOver: 'pointerover',
+  onPointerTap: 'pointertap',
+  onPointerUp: 'pointerup',
+  onPointerUpOutside: 'pointerupoutside',
+  onRightClick: 'rightclick',
+  onRightDown: 'rightdown',
+  onRightUp: 'rightup',
+  onRightUpOutside: 'rightupoutside',
+  onTap: 'tap',
+  onTouchCancel: 'touchcancel',
+  onTouchEnd: 'touchend',
+  onTouchEndOutside: 'touchendoutside',
+  onTouchMove: 'touchmove',
+  onTouchStart: 'touchstart',
+  onWheel: 'wheel',
+  onGlobalMouseMove: 'globalmousemove',
+  onGlobalPointerMove: 'globalpointermove',
+  onGlobalTouchMove: 'globaltouchmove',
+  onGestureTap: 'gesturetap',
+  onDoubleTap: 'doubletap',
+  onLongPress: 'longpress',
+  onPanStart: 'panstart',
+  onPan: 'pan',
+  onPanEnd: 'panend',
+  onSwipe: 'swipe',
+  onPinchStart: 'pinchstart',
+  onPinch: 'pinch',
+  onPinchEnd: 'pinchend',
+  onRotateStart: 'rotatestart',
+  onRotate: 'rotate',
+  onRotateEnd: 'rotateend',
+} as const satisfies Record<string, keyof PixiEventMap>;
+
+/** Properties held in an ObservablePoint, settable from a number or a point */
+const POINT_PROPS = new Set(['position', 'scale', 'pivot', 'skew', 'anchor', 'origin']);
+
+/** Props handled by React or the renderer instead of being assigned */
+const RESERVED_PROPS = new Set(['children', 'key', 'ref', 'draw']);
+
+/** Unmodified instance of each element, for the values of removed props */
+const defaultInstances = new Map<string, Container>();
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Intrinsic element name */
+export type PixiElementType = keyof typeof PIXI_ELEMENTS;
+
+/** Events an element can listen to: federated pointer events and gestures */
+export type PixiEventMap = AllFederatedEventMap & GestureEventMap;
+
+/** Event prop name */
+export type PixiEventPropName = keyof typeof PIXI_EVENT_PROPS;
+
+/** Props as received from React */
+export type PixiInstanceProps = Record<string, any>;
+
+// =============================================================================
+// INSTANCES
+// =============================================================================
+
+/**
+ * Create the PixiJS object for an element and apply its props.
+ *
+ * @param type - Intrinsic element name
+ * @param props - Element props
+ * @returns New display object
+ * @throws If the element name is unknown
+ */
+export function createPixiInstance(type: string, props: PixiInstanceProps): Container {
+  const ElementClass = PIXI_ELEMENTS[type as PixiElementType];
+
+  if (!ElementClass) {
+    throw new Error(
+      `createPixiInstance: Unknown element <${type}>. ` +
+        `Supported elements: ${Object.keys(PIXI_ELEMENTS).join(', ')}`,
+    );
+  }
+
+  const instance = new ElementClass();
+  applyPixiProps(instance, type, {}, props);
+  return instance;
+}
+
+/**
+ * Get the value a prop has on an untouched instance of an element.
+ */
+function getDefaultValue(type: string, key: string): unknown {
+  let instance = defaultInstances.get(type);
+  if (!instance) {
+    instance = new PIXI_ELEMENTS[type as PixiElementType]();
+    defaultInstances.set(type, instance);
+  }
+
+  return (instance as any)[key];
+}
+
+// =============================================================================
+// PROPS
+// =============================================================================
+
+/**
+ * Assign a prop to a display object.
+ */
+function setProp(instance: Container, key: string, value: unknown): void {
+  if (POINT_PROPS.has(key) && key in instance) {
+    const point = (instance as any)[key] as ObservablePoint;
+
+    if (typeof value === 'number') {
+      point.set(value, value);
+    } else {
+      point.set((value as PointData).x, (value as PointData).y);
+    }
+    return;
+  }
+
+  (instance as any)[key] = value;
+}
+
+/**
+ * Apply the difference between two sets of props to a display object.
+ *
+ * Removed props go back to the element's default value. Event props swap
+ * listeners and make the object interactive (eventMode 'static') unless an
+ * eventMode prop is given. A new `draw` function clears a Graphics and
+ * draws it again.
+ *
+ * @param instance - Display object to update
+ * @param type - Intrinsic element name
+ * @param prevProps - Props applied so far ({} on creation)
+ * @param nextProps - Props to apply
+ */
+export function applyPixiProps(
+  instance: Container,
+  type: string,
+  prevProps: PixiInstanceProps,
+  nextProps: PixiInstanceProps,
+): void {
+  let hadEvents = false;
+  let hasEvents = false;
+
+  for (const key in prevProps) {
+    if (RESERVED_PROPS.has(key)) continue;
+
+    const eventName = PIXI_EVENT_PROPS[key as PixiEventPropName];
+    if (eventName) {
+      hadEvents ||= Boolean(prevProps[key]);
+      if (prevProps[key] && prevProps[key] !== nextProps[key]) {
+        instance.off(eventName, prevProps[key]);
+      }
+    } else if (!(key in nextProps)) {
+      setProp(instance, key, getDefaultValue(type, key));
+    }
+  }
+
+  for (const key in nextProps) {
+    if (RESERVED_PROPS.has(key)) continue;
+
+    const value = nextProps[key];
+    const eventName = PIXI_EVENT_PROPS[key as PixiEventPropName];
+
+    if (eventName) {
+      hasEvents ||= Boolean(value);
+      if (value && value !== prevProps[key]) {
+        instance.on(eventName, value);
+      }
+    } else if (!(key in prevProps) || value !== prevProps[key]) {
+      setProp(instance, key, value);
+    }
+  }
+
+  // Event props alone make an object hit-testable
+  if (nextProps.eventMode === undefined) {
+    if (hasEvents) {
+      instance.eventMode = 'static';
+    } else if (hadEvents) {
+      instance.eventMode = getDefaultValue(type, 'eventMode') as Container['eventMode'];
+    }
+  }
+
+  if (instance instanceof Graphics && nextProps.draw !== prevProps.draw) {
+    instance.clear();
+    nextProps.draw?.(instance);
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createElement } from 'react';
+import { Container, Ticker } from 'pixi.js';
+import type { Application } from 'pixi.js';
+import { PixiAppContext } from './context';
+import { useTick } from './hooks';
+import { createPixiRoot } from './reconciler';
+
+vi.mock('expo-asset', () => ({ Asset: {} }));
+vi.mock('react-native', () => ({ Image: {}, PixelRatio: { get: () => 1 } }));
+
+describe('useTick', () => {
+  it('skips ticks while its view is paused', async () => {
+    const ticker = new Ticker();
+    const app = { ticker } as Application;
+    let paused = false;
+    const callback = vi.fn();
+
+    function Ticking() {
+      useTick(callback);
+      return null;
+    }
+
+    const root = createPixiRoot(new Container());
+    root.render(
+      createElement(
+        PixiAppContext.Provider,
+        { value: { app, isPaused: () => paused } },
+        createElement(Ticking),
+      ),
+    );
+    // Wait for the effect to add the callback
+    await vi.waitFor(() => expect(ticker.count).toBe(1));
+
+    ticker.update(performance.now() + 16);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    paused = true;
+    ticker.update(performance.now() + 32);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    paused = false;
+    ticker.update(performance.now() + 48);
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    root.unmount();
+    ticker.update(performance.now() + 64);
+    expect(callback).toHaveBeenCalledTimes(2);
+    ticker.destroy();
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * @fileoverview React hooks for the ticker and asset loading.
+ *
+ * useTick runs a callback on the Application's ticker while a component is
+ * mounted. useAsset and useAssets load textures with loadTexture and either
+ * return loading and error state or suspend until the textures are ready.
+ *
+ * @module @penabt/pixi-expo/react/hooks
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { use, useContext, useEffect, useRef, useState } from 'react';
+import type { Texture, Ticker } from 'pixi.js';
+import { loadTexture } from '../adapter/loadExpoAsset';
+import { PixiAppContext } from './context';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Texture source: a require() module ID or a URL */
+export type AssetSource = number | string;
+
+/** Options for useAsset and useAssets */
+export interface UseAssetOptions {
+  /**
+   * Suspend while loading and throw load errors, for a Suspense boundary
+   * and an error boundary to handle. The hook then returns the loaded value.
+   * @default false
+   */
+  suspense?: boolean;
+}
+
+/** Loading state returned by useAsset and useAssets */
+export interface AssetState<T> {
+  /** Loaded value, undefined while loading or after an error */
+  data: T | undefined;
+  /** Whether the load is in progress */
+  loading: boolean;
+  /** Load error, or null */
+  error: Error | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Loads in progress or done, by cache key, so every render sees the same promise */
+const loads = new Map<string, Promise<Texture | Texture[]>>();
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Get the cache key of a list of sources.
+ */
+function getLoadKey(sources: AssetSource[]): string {
+  return sources
+    .map((source) => (typeof source === 'number' ? `module:${source}` : source))
+    .join('\n');
+}
+
+/**
+ * Load textures once per key. Failed loads are dropped from the cache so a
+ * later mount retries them, and so are loads whose textures get destroyed
+ * (e.g. by Assets.unload), so a later mount loads them again.
+ */
+function loadCached<T extends Texture | Texture[]>(
+  key: string,
+  load: () => Promise<T>,
+): Promise<T> {
+  const cached = loads.get(key) as Promise<T> | undefined;
+  if (cached) return cached;
+
+  const promise = load();
+  const evict = () => {
+    if (loads.get(key) === promise) loads.delete(key);
+  };
+
+  promise.then((result) => {
+    for (const texture of Array.isArray(result) ? result : [result]) {
+      texture.once('destroy', evict);
+    }
+  }, evict);
+  loads.set(key, promise);
+
+  return promise;
+}
+
+/**
+ * Suspend until a cached load settles, then return its value.
+ */
+function suspendOn<T>(promise: Promise<T>): T {
+  // use() arrived in React 19; the rest of the hooks work on React 18
+  if (typeof use !== 'function') {
+    throw new Error('useAsset: { suspense: true } needs React 19 or later');
+  }
+
+  return use(promise);
+}
+
+/**
+ * Track a cached load as component state.
+ */
+function useLoadState<T extends Texture | Texture[]>(
+  key: string,
+  load: () => Promise<T>,
+  enabled: boolean,
+): AssetState<T> {
+  const [state, setState] = useState<AssetState<T> & { key: string }>({
+    key,
+    data: undefined,
+    loading: true,
+    error: null,
+  });
+
+  const loadRef = useRef(load);
+  loadRef.current = load;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let active = true;
+    setState((previous) =>
+      previous.key === key && !previous.error
+        ? previous
+        : { key, data: undefined, loading: true, error: null },
+    );
+
+    loadCached(key, loadRef.current).then(
+      (data) => active && setState({ key, data, loading: false, error: null }),
+      (error: Error) => active && setState({ key, data: undefined, loading: false, error }),
+    );
+
+    return () => {
+      active = false;
+    };
+  }, [key, enabled]);
+
+  // A new key shows as loading before the effect runs
+  if (state.key !== key) {
+    return { data: undefined, loading: true, error: null };
+  }
+
+  return { data: state.data, loading: state.loading, error: state.error };
+}
+
+// =============================================================================
+// TICKER
+// =============================================================================
+
+/**
+ * Run a callback on every tick of the nearest PixiView's ticker.
+ *
+ * The callback is removed when the component unmounts or `enabled` turns
+ * false. The latest callback is always called, so it can read props and
+ * state without being memoized. It is skipped while the view is paused:
+ * PixiViews share one ticker, which keeps ticking while another view runs.
+ *
+ * @param callback - Called with the ticker every frame
+ * @param enabled - Whether the callback runs (default: true)
+ *
+ * @example
+ * ```tsx
+ * function Spinner({ texture }: { texture: Texture }) {
+ *   const ref = useRef<Sprite>(null);
+ *   useTick((ticker) => {
+ *     ref.current!.rotation += 0.05 * ticker.deltaTime;
+ *   });
+ *   return <sprite ref={ref} texture={texture} anchor={0.5} />;
+ * }
+ * ```
+ */
+export function useTick(callback: (ticker: Ticker) => void, enabled = true): void {
+  const { app, isPaused } = useContext(PixiAppContext);
+
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    if (!app || !enabled) return;
+
+    const ticker = app.ticker;
+    const tick = (currentTicker: Ticker) => {
+      if (isPaused?.()) return;
+      callbackRef.current(currentTicker);
+    };
+
+    ticker.add(tick);
+    return () => {
+      ticker.remove(tick);
+    };
+  }, [app, isPaused, enabled]);
+}
+
+// =============================================================================
+// ASSETS
+// =============================================================================
+
+/**
+ * Load a texture with loadTexture.
+ *
+ * @param source - require() module ID or URL
+ * @param options - Pass `{ suspense: true }` to suspend while loading
+ * @returns The texture with suspense, otherwise its loading state
+ *
+ * @example
+ * ```tsx
+ * const { data: bunny, loading, error } = useAsset(require('./assets/bunny.png'));
+ * if (!bunny) return null;
+ * return <sprite texture={bunny} />;
+ * ```
+ *
+ * @example With Suspense
+ * ```tsx
+ * function Bunny() {
+ *   const bunny = useAsset(require('./assets/bunny.png'), { suspense: true });
+ *   return <sprite texture={bunny} />;
+ * }
+ *
+ * <Suspense fallback={<bitmapText text="Loading..." />}>
+ *   <Bunny />
+ * </Suspense>;
+ * ```
+ */
+export function useAsset(source: AssetSource, options: { suspense: true }): Texture;
+export function useAsset(source: AssetSource, options?: UseAssetOptions): AssetState<Texture>;
+export function useAsset(
+  source: AssetSource,
+  options: UseAssetOptions = {},
+): Texture | AssetState<Texture> {
+  const key = getLoadKey([source]);
+  const load = () => loadTexture(source);
+  const state = useLoadState(key, load, !options.suspense);
+
+  return options.suspense ? suspendOn(loadCached(key, load)) : state;
+}
+
+/**
+ * Load several textures with loadTexture. The result is ready when all of
+ * them are, and fails if any of them fails.
+ *
+ * @param sources - require() module IDs or URLs
+ * @param options - Pass `{ suspense: true }` to suspend while loading
+ * @returns The textures in source order with suspense, otherwise their
+ *   loading state
+ *
+ * @example
+ * ```tsx
+ * const { data: frames } = useAssets([require('./walk1.png'), require('./walk2.png')]);
+ * ```
+ */
+export function useAssets(sources: AssetSource[], options: { suspense: true }): Texture[];
+export function useAssets(sources: AssetSource[], options?: UseAssetOptions): AssetState<Texture[]>;
+export function useAssets(
+  sources: AssetSource[],
+  options: UseAssetOptions = {},
+): Texture[] | AssetState<Texture[]> {
+  const key = getLoadKey(sources);
+  const load = () => Promise.all(sources.map((source) => loadTexture(source)));
+  const state = useLoadState(key, load, !options.suspense);
+
+  return options.suspense ? suspendOn(loadCached(key, load)) : state;
+}
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview React renderer exports.
+ *
+ * Declarative `<container>`, `<sprite>`, `<graphics>` and `<bitmapText>`
+ * elements rendered into a PixiJS container, as used by PixiView children,
+ * and the hooks those elements and their neighbours use.
+ *
+ * @module @penabt/pixi-expo/react
+ */
+
+export { PixiAppContext, PixiProvider, usePixiApp } from './context';
+export type { PixiAppContextValue, PixiProviderProps } from './context';
+export { useAsset, useAssets, useTick } from './hooks';
+export type { AssetSource, AssetState, UseAssetOptions } from './hooks';
+export { createPixiRoot } from './reconciler';
+export type { PixiRoot } from './reconciler';
+export { PIXI_ELEMENTS, PIXI_EVENT_PROPS, applyPixiProps, createPixiInstance } from './elements';
+export type {
+  PixiElementType,
+  PixiEventMap,
+  PixiEventPropName,
+  PixiInstanceProps,
+} from './elements';
+export type {
+  PixiElementProps,
+  PixiEventProps,
+  GraphicsElementProps,
+  BitmapTextElementProps,
+  PixiIntrinsicElements,
+} from './types';
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createElement } from 'react';
+import { Container, Sprite } from 'pixi.js';
+import { createPixiRoot } from './reconciler';
+
+/**
+ * Let React's scheduler run the pending render.
+ */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe('createPixiRoot', () => {
+  it('renders, updates and unmounts elements in a container', async () => {
+    const stage = new Container();
+    const root = createPixiRoot(stage);
+
+    root.render(createElement('container', { x: 10 }, createElement('sprite', { anchor: 0.5 })));
+    await flush();
+
+    const container = stage.children[0];
+    expect(container.x).toBe(10);
+    expect(container.children[0]).toBeInstanceOf(Sprite);
+    expect((container.children[0] as Sprite).anchor.x).toBe(0.5);
+
+    root.render(createElement('container', { x: 20 }));
+    await flush();
+
+    expect(stage.children[0]).toBe(container);
+    expect(container.x).toBe(20);
+    expect(container.children).toHaveLength(0);
+
+    root.unmount();
+    expect(stage.children).toHaveLength(0);
+    expect(container.destroyed).toBe(true);
+  });
+});
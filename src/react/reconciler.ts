@@ -0,0 +1,359 @@
+/**
+ * @fileoverview React renderer for PixiJS display objects.
+ *
+ * A react-reconciler host config in mutation mode: host instances are the
+ * PixiJS objects themselves, so refs point at them and React's child list
+ * operations become addChild/addChildAt/removeChild. PixiView renders its
+ * children into its stage with createPixiRoot.
+ *
+ * react-reconciler is an optional peer dependency, loaded by the first
+ * createPixiRoot, i.e. once a PixiView is given children. It needs React
+ * 19.2 or later; apps without children work on older React versions.
+ *
+ * @module @penabt/pixi-expo/react/reconciler
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { createContext, version as reactVersion } from 'react';
+import type { ReactNode } from 'react';
+import type createReconciler from 'react-reconciler';
+import type { HostConfig, Reconciler } from 'react-reconciler';
+import type { Container } from 'pixi.js';
+import { applyPixiProps, createPixiInstance } from './elements';
+import type { PixiInstanceProps } from './elements';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** React root rendering into a PixiJS container */
+export interface PixiRoot {
+  /**
+   * Render elements into the container, replacing what was rendered before.
+   * @param children - Elements such as `<sprite>` and `<container>`
+   */
+  render(children: ReactNode): void;
+
+  /**
+   * Unmount the rendered elements synchronously, removing and destroying
+   * their display objects. The root can't be used afterwards.
+   */
+  unmount(): void;
+}
+
+/** Context passed down the tree (display objects need none) */
+type HostContext = Record<string, never>;
+
+/** Host config of the PixiJS renderer */
+type PixiHostConfig = HostConfig<
+  string, // Type
+  PixiInstanceProps, // Props
+  Container, // Container
+  Container, // Instance
+  never, // TextInstance
+  never, // ActivityInstance
+  never, // SuspenseInstance
+  never, // HydratableInstance
+  never, // FormInstance
+  Container, // PublicInstance
+  HostContext, // HostContext
+  never, // ChildSet
+  ReturnType<typeof setTimeout>, // TimeoutHandle
+  -1, // NoTimeout
+  null, // TransitionStatus
+  null, // SuspendedState
+  null, // RendererInspectionConfig
+  never, // FormStateMarkerInstance
+  never, // HoistableRoot
+  never // Resource
+>;
+
+/** Exports of react-reconciler/constants used by the renderer */
+type ReconcilerConstants = typeof import('react-reconciler/constants');
+
+/** Reconciler created from the host config */
+type PixiReconciler = Reconciler<Container, Container, never, never, never, Container>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Host context of every element; React requires a non-null value */
+const NO_CONTEXT: HostContext = {};
+
+/** react-reconciler/constants, loaded with the reconciler */
+let constants: ReconcilerConstants;
+
+/** Priority of the update being scheduled */
+let currentUpdatePriority = 0;
+
+/**
+ * Insert a child before a sibling, moving it if it's already in the parent.
+ */
+function insertChildBefore(parent: Container, child: Container, beforeChild: Container): void {
+  if (child.parent === parent) {
+    parent.removeChild(child);
+  }
+
+  parent.addChildAt(child, parent.getChildIndex(beforeChild));
+}
+
+/**
+ * Remove a child and destroy it with its subtree. Textures are kept, since
+ * they usually come from the asset cache.
+ */
+function removeAndDestroy(parent: Container, child: Container): void {
+  parent.removeChild(child);
+  child.destroy({ children: true });
+}
+
+// =============================================================================
+// HOST CONFIG
+// =============================================================================
+
+const hostConfig: PixiHostConfig = {
+  supportsMutation: true,
+  supportsPersistence: false,
+  supportsHydration: false,
+  isPrimaryRenderer: false,
+  noTimeout: -1,
+
+  rendererVersion: '1.0.0',
+  rendererPackageName: '@penabt/pixi-expo',
+  extraDevToolsConfig: null,
+
+  // Instances
+
+  createInstance: (type, props) => createPixiInstance(type, props),
+
+  createTextInstance: (text) => {
+    throw new Error(
+      `PixiJS renderer: Text "${text}" must be passed as the text prop of <bitmapText>`,
+    );
+  },
+
+  appendInitialChild: (parent, child) => {
+    parent.addChild(child);
+  },
+
+  finalizeInitialChildren: () => false,
+
+  shouldSetTextContent: () => false,
+
+  getRootHostContext: () => NO_CONTEXT,
+
+  getChildHostContext: (parentHostContext) => parentHostContext,
+
+  getPublicInstance: (instance) => instance,
+
+  // Commits
+
+  prepareForCommit: () => null,
+
+  resetAfterCommit: () => {},
+
+  preparePortalMount: () => {},
+
+  commitUpdate: (instance, type, prevProps, nextProps) => {
+    applyPixiProps(instance, type, prevProps, nextProps);
+  },
+
+  // Child lists
+
+  appendChild: (parent, child) => {
+    parent.addChild(child);
+  },
+
+  appendChildToContainer: (container, child) => {
+    container.addChild(child);
+  },
+
+  insertBefore: insertChildBefore,
+
+  insertInContainerBefore: insertChildBefore,
+
+  removeChild: removeAndDestroy,
+
+  removeChildFromContainer: removeAndDestroy,
+
+  // Children added imperatively (e.g. in onApplicationCreate) stay
+  clearContainer: () => {},
+
+  detachDeletedInstance: () => {},
+
+  // Suspense hides content instead of unmounting it
+
+  hideInstance: (instance) => {
+    instance.visible = false;
+  },
+
+  unhideInstance: (instance, props) => {
+    instance.visible = props.visible ?? true;
+  },
+
+  // Scheduling
+
+  scheduleTimeout: setTimeout,
+
+  cancelTimeout: clearTimeout,
+
+  supportsMicrotasks: true,
+
+  scheduleMicrotask: queueMicrotask,
+
+  setCurrentUpdatePriority: (priority) => {
+    currentUpdatePriority = priority;
+  },
+
+  getCurrentUpdatePriority: () => currentUpdatePriority,
+
+  resolveUpdatePriority: () =>
+    currentUpdatePriority !== constants.NoEventPriority
+      ? currentUpdatePriority
+      : constants.DefaultEventPriority,
+
+  resolveEventType: () => null,
+
+  resolveEventTimeStamp: () => performance.now(),
+
+  trackSchedulerEvent: () => {},
+
+  shouldAttemptEagerTransition: () => false,
+
+  requestPostPaintCallback: () => {},
+
+  // Transitions and forms (not used by display objects)
+
+  NotPendingTransition: null,
+
+  // React's context objects carry the internal fields the reconciler's type lists
+  HostTransitionContext: createContext<null>(
+    null,
+  ) as unknown as PixiHostConfig['HostTransitionContext'],
+
+  resetFormInstance: () => {},
+
+  // Suspended commits (display objects never delay a commit)
+
+  maySuspendCommit: () => false,
+
+  maySuspendCommitOnUpdate: () => false,
+
+  maySuspendCommitInSyncRender: () => false,
+
+  preloadInstance: () => true,
+
+  startSuspendingCommit: () => null,
+
+  suspendInstance: () => {},
+
+  suspendOnActiveViewTransition: () => {},
+
+  waitForCommitToBeReady: () => null,
+
+  getSuspendedCommitReason: () => null,
+
+  // Dev tools and focus (no DOM)
+
+  bindToConsole: (methodName, args) =>
+    (console as any)[methodName].bind(console, ...args) as () => any,
+
+  getInstanceFromNode: () => null,
+
+  beforeActiveInstanceBlur: () => {},
+
+  afterActiveInstanceBlur: () => {},
+
+  prepareScopeUpdate: () => {},
+
+  getInstanceFromScope: () => null,
+};
+
+/** Reconciler shared by all roots, created by the first createPixiRoot */
+let reconciler: PixiReconciler | null = null;
+
+/**
+ * Load react-reconciler and create the reconciler.
+ *
+ * @returns The reconciler
+ * @throws If React is older than 19.2 or react-reconciler isn't installed
+ */
+function loadReconciler(): PixiReconciler {
+  if (reconciler) return reconciler;
+
+  const [major, minor] = reactVersion.split('.').map(Number);
+  if (major < 19 || (major === 19 && minor < 2)) {
+    throw new Error(
+      `PixiView children need React 19.2 or later, found ${reactVersion}. ` +
+        'Set up the scene in onApplicationCreate instead.',
+    );
+  }
+
+  let create: typeof createReconciler;
+  try {
+    create = require('react-reconciler') as typeof createReconciler;
+    constants = require('react-reconciler/constants') as ReconcilerConstants;
+  } catch {
+    throw new Error(
+      'PixiView children need react-reconciler. ' +
+        'Install it with `npm install react-reconciler@^0.33.0`.',
+    );
+  }
+
+  currentUpdatePriority = constants.NoEventPriority;
+  reconciler = create(hostConfig);
+
+  if (__DEV__) {
+    reconciler.injectIntoDevTools();
+  }
+
+  return reconciler;
+}
+
+// =============================================================================
+// ROOTS
+// =============================================================================
+
+/**
+ * Create a React root that renders elements into a PixiJS container.
+ *
+ * @param container - Container the elements are added to, e.g. app.stage
+ * @returns Root with render and unmount
+ * @throws If React is older than 19.2 or react-reconciler isn't installed
+ *
+ * @example
+ * ```tsx
+ * const root = createPixiRoot(app.stage);
+ * root.render(<sprite texture={texture} anchor={0.5} position={{ x: 100, y: 100 }} />);
+ * ```
+ */
+export function createPixiRoot(container: Container): PixiRoot {
+  const reconciler = loadReconciler();
+  const logError = (error: unknown) => console.error('[PixiRoot]', error);
+
+  const root = reconciler.createContainer(
+    container,
+    constants.ConcurrentRoot,
+    null,
+    false,
+    null,
+    '',
+    logError,
+    logError,
+    logError,
+    () => {},
+    null,
+  );
+
+  return {
+    render(children) {
+      reconciler.updateContainer(children, root, null, null);
+    },
+
+    unmount() {
+      reconciler.updateContainerSync(null, root, null, null);
+      reconciler.flushSyncWork();
+    },
+  };
+}
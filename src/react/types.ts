@@ -0,0 +1,99 @@
+/**
+ * @fileoverview JSX types of the React renderer's intrinsic elements.
+ *
+ * Element props are derived from the PixiJS classes, so every writable
+ * property of a Sprite is a prop of `<sprite>`. Importing the package adds
+ * the elements to React's JSX namespace.
+ *
+ * @module @penabt/pixi-expo/react/types
+ * @author Pena Team
+ * @license MIT
+ */
+
+import type { Key, ReactNode, Ref } from 'react';
+import type {
+  BitmapText,
+  Container,
+  Graphics,
+  PointData,
+  Sprite,
+  TextStyle,
+  TextStyleOptions,
+} from 'pixi.js';
+import type { PIXI_EVENT_PROPS, PixiEventMap, PixiEventPropName } from './elements';
+
+// =============================================================================
+// HELPER TYPES
+// =============================================================================
+
+/** Properties held in an ObservablePoint */
+type PointPropName = 'position' | 'scale' | 'pivot' | 'skew' | 'anchor' | 'origin';
+
+/** Keys of T that hold data (not methods, not private fields) */
+type DataKeys<T> = {
+  [K in keyof T]: T[K] extends (...args: any[]) => any
+    ? never
+    : K extends `_${string}` | 'children' | 'parent'
+      ? never
+      : K;
+}[keyof T];
+
+// =============================================================================
+// ELEMENT PROPS
+// =============================================================================
+
+/** Event props of every element, e.g. onPointerTap or onPinch */
+export type PixiEventProps = {
+  [K in PixiEventPropName]?: (event: PixiEventMap[(typeof PIXI_EVENT_PROPS)[K]]) => void;
+};
+
+/**
+ * Props of an element creating a T: its data properties, point properties
+ * as a number or a point, event props, children and a ref to the object.
+ */
+export type PixiElementProps<T extends Container> = {
+  [K in Exclude<DataKeys<T>, PointPropName>]?: T[K];
+} & {
+  [K in Extract<keyof T, PointPropName>]?: PointData | number;
+} & PixiEventProps & {
+    children?: ReactNode;
+    ref?: Ref<T>;
+    key?: Key;
+  };
+
+/** Props of `<graphics>` */
+export type GraphicsElementProps = PixiElementProps<Graphics> & {
+  /**
+   * Draw the graphics. Called after clear() on mount and whenever a new
+   * function is passed, so wrap it in useCallback with the values it uses.
+   */
+  draw?: (graphics: Graphics) => void;
+};
+
+/** Props of `<bitmapText>` */
+export type BitmapTextElementProps = Omit<PixiElementProps<BitmapText>, 'style'> & {
+  /** Text style or style options */
+  style?: TextStyle | TextStyleOptions;
+};
+
+/** Intrinsic elements of the React renderer */
+export interface PixiIntrinsicElements {
+  /** Container */
+  container: PixiElementProps<Container>;
+  /** Sprite */
+  sprite: PixiElementProps<Sprite>;
+  /** Graphics, drawn by its draw prop */
+  graphics: GraphicsElementProps;
+  /** BitmapText */
+  bitmapText: BitmapTextElementProps;
+}
+
+// =============================================================================
+// JSX
+// =============================================================================
+
+declare module 'react' {
+  namespace JSX {
+    interface IntrinsicElements extends PixiIntrinsicElements {}
+  }
+}
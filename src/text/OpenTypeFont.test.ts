@@ -0,0 +1,352 @@
+import { describe, expect, it } from 'vitest';
+import { OpenTypeFont } from './OpenTypeFont';
+
+// =============================================================================
+// FONT BUILDER
+// Writes small sfnt files with just the tables the parser reads.
+// =============================================================================
+
+/**
+ * Big-endian byte writer.
+ */
+class Writer {
+  bytes: number[] = [];
+
+  u8(...values: number[]): this {
+    for (const value of values) this.bytes.push(value & 0xff);
+    return this;
+  }
+
+  u16(...values: number[]): this {
+    for (const value of values) this.u8(value >> 8, value);
+    return this;
+  }
+
+  u32(...values: number[]): this {
+    for (const value of values) this.u16(value >>> 16, value);
+    return this;
+  }
+
+  pad(length: number): this {
+    while (this.bytes.length < length) this.bytes.push(0);
+    return this;
+  }
+
+  append(bytes: number[]): this {
+    this.bytes.push(...bytes);
+    return this;
+  }
+}
+
+/**
+ * Assemble tables into an sfnt file.
+ */
+function buildFont(version: number, tables: Record<string, number[]>): Uint8Array {
+  const tags = Object.keys(tables).sort();
+  const out = new Writer().u32(version).u16(tags.length, 0, 0, 0);
+
+  let offset = 12 + tags.length * 16;
+  const layout: { offset: number; bytes: number[] }[] = [];
+  for (const tag of tags) {
+    const bytes = tables[tag];
+    out.u8(...[...tag].map((char) => char.charCodeAt(0))).u32(0, offset, bytes.length);
+    layout.push({ offset, bytes });
+    offset += (bytes.length + 3) & ~3;
+  }
+
+  for (const table of layout) {
+    out.pad(table.offset).append(table.bytes);
+  }
+
+  return new Uint8Array(out.bytes);
+}
+
+/** Glyphs of the test fonts: .notdef, 'A', 'V' */
+const NUM_GLYPHS = 3;
+
+/**
+ * Tables shared by the TrueType and CFF test fonts.
+ */
+function createCommonTables(): Record<string, number[]> {
+  // Italic macStyle, short loca offsets
+  const head = new Writer().u32(0x00010000).pad(18).u16(1000).pad(44).u16(0x0002).pad(54);
+
+  const hhea = new Writer()
+    .u32(0x00010000)
+    .u16(800, -200 & 0xffff, 90)
+    .pad(34)
+    .u16(2);
+
+  const maxp = new Writer().u32(0x00005000).u16(NUM_GLYPHS);
+
+  // Two full metrics; 'V' shares the last advance
+  const hmtx = new Writer().u16(500, 0, 600, 10, 20);
+
+  // Format 4: 'A'..'B' -> glyphs 1..2 (so 'B' maps to 'V'), end segment 0xFFFF
+  const cmap = new Writer().u16(0, 1).u16(3, 1).u32(12);
+  cmap.u16(4, 32, 0, 4, 4, 1, 0);
+  cmap.u16(0x42, 0xffff, 0, 0x41, 0xffff);
+  cmap.u16((1 - 0x41) & 0xffff, 1, 0, 0);
+
+  // Kerning of 'A' 'V' and 'V' 'A'
+  const kern = new Writer().u16(0, 1).u16(0, 26, 0x0001, 2, 12, 1, 0);
+  kern.u16(1, 2, -80 & 0xffff, 2, 1, -40 & 0xffff);
+
+  // OS/2 with USE_TYPO_METRICS and bold weight
+  const os2 = new Writer().u16(4, 500, 700).pad(62).u16(0x0080).pad(68);
+  os2.u16(750, -250 & 0xffff, 100).pad(96);
+
+  return {
+    head: head.bytes,
+    hhea: hhea.bytes,
+    maxp: maxp.bytes,
+    hmtx: hmtx.bytes,
+    cmap: cmap.bytes,
+    kern: kern.bytes,
+    'OS/2': os2.bytes,
+  };
+}
+
+/**
+ * Write a simple TrueType glyph with 16-bit coordinate deltas.
+ */
+function simpleGlyph(contours: [number, number, boolean][][]): number[] {
+  const points = contours.flat();
+  const out = new Writer().u16(contours.length).pad(10);
+
+  let end = -1;
+  for (const contour of contours) {
+    end += contour.length;
+    out.u16(end);
+  }
+
+  out.u16(0);
+  out.u8(...points.map(([, , onCurve]) => (onCurve ? 0x01 : 0x00)));
+
+  let previous = 0;
+  for (const [x] of points) {
+    out.u16((x - previous) & 0xffff);
+    previous = x;
+  }
+  previous = 0;
+  for (const [, y] of points) {
+    out.u16((y - previous) & 0xffff);
+    previous = y;
+  }
+
+  return out.bytes;
+}
+
+/**
+ * Create a TrueType font: 'A' is a triangle, 'V' a copy of 'A' shifted by
+ * (100, 50) through a composite glyph.
+ */
+function createTrueTypeFont(): Uint8Array {
+  const glyphs = [
+    [],
+    simpleGlyph([
+      [
+        [0, 0, true],
+        [250, 700, false],
+        [500, 0, true],
+      ],
+    ]),
+    new Writer().u16(0xffff).pad(10).u16(0x0003, 1, 100, 50).bytes,
+  ];
+
+  const glyf: number[] = [];
+  const loca = new Writer();
+  for (const glyph of glyphs) {
+    loca.u16(glyf.length / 2);
+    glyf.push(...glyph);
+    if (glyf.length % 2) glyf.push(0);
+  }
+  loca.u16(glyf.length / 2);
+
+  return buildFont(0x00010000, { ...createCommonTables(), glyf, loca: loca.bytes });
+}
+
+/**
+ * Encode a charstring or DICT operand as a 16-bit integer.
+ */
+function int16(value: number): number[] {
+  return [28, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Encode a DICT operand as a 32-bit integer.
+ */
+function int32(value: number): number[] {
+  return [29, (value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Write a CFF INDEX with 2-byte offsets.
+ */
+function cffIndex(entries: number[][]): number[] {
+  if (entries.length === 0) return [0, 0];
+
+  const out = new Writer().u16(entries.length).u8(2);
+  let offset = 1;
+  out.u16(offset);
+  for (const entry of entries) {
+    offset += entry.length;
+    out.u16(offset);
+  }
+  for (const entry of entries) out.append(entry);
+  return out.bytes;
+}
+
+/**
+ * Create a CFF font: 'A' is a square with an advance width in its
+ * charstring, 'V' a curve drawn by a local subroutine.
+ */
+function createCffFont(): Uint8Array {
+  // 500 is the advance width, then a square drawn with rmoveto, hlineto and vlineto
+  const glyphA = [
+    ...int16(500),
+    ...int16(100),
+    ...int16(0),
+    21,
+    ...int16(300),
+    6,
+    ...int16(400),
+    7,
+    ...int16(-300),
+    6,
+    14,
+  ];
+  const glyphV = [...int16(0), ...int16(0), 21, ...int16(-107), 10, 14];
+  const subr = [...int16(100), ...int16(0), ...int16(100), ...int16(100), ...int16(0)];
+  subr.push(...int16(100), 8, 11);
+
+  const header = [1, 0, 4, 2];
+  const names = cffIndex([[...'Test'].map((char) => char.charCodeAt(0))]);
+  const strings = cffIndex([]);
+  const globalSubrs = cffIndex([]);
+
+  // Top DICT operands have a fixed size, so its length is known up front
+  const topDictLength = 5 + 1 + 5 + 5 + 1;
+  const topDictIndexLength = cffIndex([new Array(topDictLength).fill(0)]).length;
+
+  const charStringsOffset =
+    header.length + names.length + topDictIndexLength + strings.length + globalSubrs.length;
+  const charStringsIndex = cffIndex([[14], glyphA, glyphV]);
+  const privateOffset = charStringsOffset + charStringsIndex.length;
+
+  // Private DICT: Subrs right after it, at an offset of its own length
+  const privateDict = [...int32(6), 19];
+  const localSubrs = cffIndex([subr]);
+
+  const topDict = [
+    ...int32(charStringsOffset),
+    17,
+    ...int32(privateDict.length),
+    ...int32(privateOffset),
+    18,
+  ];
+
+  const cff = [
+    ...header,
+    ...names,
+    ...cffIndex([topDict]),
+    ...strings,
+    ...globalSubrs,
+    ...charStringsIndex,
+    ...privateDict,
+    ...localSubrs,
+  ];
+
+  return buildFont(0x4f54544f, { ...createCommonTables(), 'CFF ': cff });
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('OpenTypeFont', () => {
+  it('reads metrics from head, hhea and OS/2', () => {
+    const font = OpenTypeFont.parse(createTrueTypeFont());
+
+    expect(font.unitsPerEm).toBe(1000);
+    expect(font.numGlyphs).toBe(NUM_GLYPHS);
+    expect(font.weight).toBe(700);
+    expect(font.italic).toBe(true);
+
+    // USE_TYPO_METRICS selects the OS/2 values over hhea
+    expect(font.ascender).toBe(750);
+    expect(font.descender).toBe(-250);
+    expect(font.lineGap).toBe(100);
+  });
+
+  it('maps characters through cmap format 4', () => {
+    const font = OpenTypeFont.parse(createTrueTypeFont());
+
+    expect(font.getGlyphIndex(0x41)).toBe(1);
+    expect(font.getGlyphIndex(0x42)).toBe(2);
+    expect(font.getGlyphIndex(0x43)).toBe(0);
+    expect(font.getGlyphIndex(0x1f600)).toBe(0);
+  });
+
+  it('reads advances, sharing the last one past numberOfHMetrics', () => {
+    const font = OpenTypeFont.parse(createTrueTypeFont());
+
+    expect(font.getAdvanceWidth(0)).toBe(500);
+    expect(font.getAdvanceWidth(1)).toBe(600);
+    expect(font.getAdvanceWidth(2)).toBe(600);
+  });
+
+  it('reads kerning pairs from the kern table', () => {
+    const font = OpenTypeFont.parse(createTrueTypeFont());
+
+    expect(font.getKerning(1, 2)).toBe(-80);
+    expect(font.getKerning(2, 1)).toBe(-40);
+    expect(font.getKerning(1, 1)).toBe(0);
+  });
+
+  it('reads TrueType outlines with implied on-curve points and composites', () => {
+    const font = OpenTypeFont.parse(createTrueTypeFont());
+
+    expect(font.hasOutlines).toBe(true);
+    expect(font.getGlyphPath(0)).toEqual([]);
+    expect(font.getGlyphPath(1)).toEqual([
+      { type: 'M', x: 0, y: 0 },
+      { type: 'Q', x1: 250, y1: 700, x: 500, y: 0 },
+      { type: 'Z' },
+    ]);
+    expect(font.getGlyphPath(2)).toEqual([
+      { type: 'M', x: 100, y: 50 },
+      { type: 'Q', x1: 350, y1: 750, x: 600, y: 50 },
+      { type: 'Z' },
+    ]);
+  });
+
+  it('reads CFF outlines, skipping the advance width and calling subroutines', () => {
+    const font = OpenTypeFont.parse(createCffFont());
+
+    expect(font.hasTable('CFF ')).toBe(true);
+    expect(font.getGlyphPath(1)).toEqual([
+      { type: 'M', x: 100, y: 0 },
+      { type: 'L', x: 400, y: 0 },
+      { type: 'L', x: 400, y: 400 },
+      { type: 'L', x: 100, y: 400 },
+      { type: 'Z' },
+    ]);
+    expect(font.getGlyphPath(2)).toEqual([
+      { type: 'M', x: 0, y: 0 },
+      { type: 'C', x1: 100, y1: 0, x2: 200, y2: 100, x: 200, y: 200 },
+      { type: 'Z' },
+    ]);
+  });
+
+  it('rejects data that is not a supported font', () => {
+    expect(() => OpenTypeFont.parse(new Uint8Array(4))).toThrow('too small');
+    expect(() => OpenTypeFont.parse(new TextEncoder().encode('wOFF' + ' '.repeat(20)))).toThrow(
+      'WOFF',
+    );
+    expect(() => OpenTypeFont.parse(new Uint8Array(16))).toThrow('Unrecognized');
+    expect(() => OpenTypeFont.parse(buildFont(0x00010000, { head: [] }))).toThrow(
+      "Missing required table 'hhea'",
+    );
+  });
+});
@@ -0,0 +1,735 @@
+/**
+ * @fileoverview Minimal OpenType/TrueType font parser for text metrics and outlines.
+ *
+ * Reads just the tables needed to lay out a line of text: head, hhea,
+ * OS/2, maxp, hmtx, cmap, and horizontal kerning from either the legacy
+ * kern table or GPOS pair adjustments. Glyph outlines come from glyf/loca
+ * (TrueType) or CFF (OpenType) and are parsed lazily.
+ *
+ * @module @penabt/pixi-expo/text/OpenTypeFont
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { createCffOutlineReader } from './cffOutlines';
+import type { GlyphCommand, OutlineReader } from './glyphOutline';
+import { createTrueTypeOutlineReader } from './trueTypeOutlines';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Location of a table inside the font file */
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+/** Character-to-glyph lookup for one cmap subtable */
+type GlyphLookup = (codePoint: number) => number;
+
+/** Pair kerning lookup for one GPOS subtable (returns undefined if not covered) */
+type PairLookup = (left: number, right: number) => number | undefined;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** sfnt version tags */
+const TAG_TRUETYPE = 0x00010000;
+const TAG_OPENTYPE = 0x4f54544f; // 'OTTO'
+const TAG_APPLE_TRUE = 0x74727565; // 'true'
+const TAG_COLLECTION = 0x74746366; // 'ttcf'
+const TAG_WOFF = 0x774f4646; // 'wOFF'
+const TAG_WOFF2 = 0x774f4632; // 'wOF2'
+
+/** GPOS lookup types */
+const GPOS_PAIR_ADJUSTMENT = 2;
+const GPOS_EXTENSION = 9;
+
+/** ValueRecord format bit for XAdvance */
+const VALUE_X_ADVANCE = 0x0004;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Count the set bits of a 16-bit value.
+ */
+function bitCount(value: number): number {
+  let count = 0;
+  for (let bits = value; bits; bits &= bits - 1) count++;
+  return count;
+}
+
+// =============================================================================
+// OPENTYPE FONT
+// =============================================================================
+
+/**
+ * Parsed OpenType (CFF) or TrueType font.
+ *
+ * All metrics are in font units; divide by `unitsPerEm` and multiply by the
+ * font size to get pixels.
+ *
+ * @example
+ * ```ts
+ * const font = OpenTypeFont.parse(bytes);
+ * const glyph = font.getGlyphIndex('A'.codePointAt(0)!);
+ * const advance = (font.getAdvanceWidth(glyph) / font.unitsPerEm) * 24;
+ * ```
+ */
+export class OpenTypeFont {
+  // ===========================================================================
+  // PUBLIC PROPERTIES
+  // ===========================================================================
+
+  /** Font design units per em */
+  public readonly unitsPerEm: number;
+
+  /** Typographic ascender (positive, above the baseline) */
+  public readonly ascender: number;
+
+  /** Typographic descender (negative, below the baseline) */
+  public readonly descender: number;
+
+  /** Extra spacing between lines */
+  public readonly lineGap: number;
+
+  /** Weight class (100-900) from the OS/2 table */
+  public readonly weight: number;
+
+  /** Whether the font is italic or oblique */
+  public readonly italic: boolean;
+
+  /** Number of glyphs in the font */
+  public readonly numGlyphs: number;
+
+  // ===========================================================================
+  // PRIVATE PROPERTIES
+  // ===========================================================================
+
+  /** View over the font file */
+  private readonly _view: DataView;
+
+  /** Table directory */
+  private readonly _tables: Map<string, TableRecord>;
+
+  /** Number of full entries in hmtx */
+  private readonly _numberOfHMetrics: number;
+
+  /** Character-to-glyph lookup */
+  private readonly _cmap: GlyphLookup | null;
+
+  /** Cache of code point to glyph index */
+  private readonly _glyphCache = new Map<number, number>();
+
+  /** Legacy kern table pairs, keyed by (left << 16) | right */
+  private readonly _kernPairs: Map<number, number>;
+
+  /** GPOS pair adjustment subtables from 'kern' features */
+  private readonly _pairLookups: PairLookup[];
+
+  /** Cache of kerning values, keyed by (left << 16) | right */
+  private readonly _kerningCache = new Map<number, number>();
+
+  /** Outline reader (undefined until first use, null if the font has no outlines) */
+  private _outlines: OutlineReader | null | undefined;
+
+  /** Cache of glyph outlines */
+  private readonly _pathCache = new Map<number, GlyphCommand[]>();
+
+  // ===========================================================================
+  // CONSTRUCTION
+  // ===========================================================================
+
+  /**
+   * Parse a font file.
+   *
+   * @param data - Font file bytes (TTF, OTF, or the first font of a TTC)
+   * @returns Parsed font
+   * @throws Error if the data is not a supported font
+   */
+  static parse(data: ArrayBuffer | Uint8Array): OpenTypeFont {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    if (view.byteLength < 12) {
+      throw new Error('OpenTypeFont: File is too small to be a font');
+    }
+
+    let offset = 0;
+    const tag = view.getUint32(0);
+
+    if (tag === TAG_WOFF || tag === TAG_WOFF2) {
+      throw new Error('OpenTypeFont: WOFF fonts are compressed and not supported; use TTF or OTF');
+    }
+
+    if (tag === TAG_COLLECTION) {
+      offset = view.getUint32(12);
+    }
+
+    const version = view.getUint32(offset);
+    if (version !== TAG_TRUETYPE && version !== TAG_OPENTYPE && version !== TAG_APPLE_TRUE) {
+      throw new Error('OpenTypeFont: Unrecognized font format');
+    }
+
+    const tables = new Map<string, TableRecord>();
+    const numTables = view.getUint16(offset + 4);
+
+    for (let i = 0; i < numTables; i++) {
+      const record = offset + 12 + i * 16;
+      const name = String.fromCharCode(
+        view.getUint8(record),
+        view.getUint8(record + 1),
+        view.getUint8(record + 2),
+        view.getUint8(record + 3),
+      );
+      tables.set(name, { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) });
+    }
+
+    for (const required of ['head', 'hhea', 'hmtx', 'maxp']) {
+      if (!tables.has(required)) {
+        throw new Error(`OpenTypeFont: Missing required table '${required}'`);
+      }
+    }
+
+    return new OpenTypeFont(view, tables);
+  }
+
+  /**
+   * @param view - View over the font file
+   * @param tables - Table directory
+   * @internal Use OpenTypeFont.parse.
+   */
+  private constructor(view: DataView, tables: Map<string, TableRecord>) {
+    this._view = view;
+    this._tables = tables;
+
+    const head = tables.get('head')!.offset;
+    const hhea = tables.get('hhea')!.offset;
+    const maxp = tables.get('maxp')!.offset;
+
+    this.unitsPerEm = view.getUint16(head + 18) || 1000;
+    this.numGlyphs = view.getUint16(maxp + 4);
+    this._numberOfHMetrics = view.getUint16(hhea + 34);
+
+    let ascender = view.getInt16(hhea + 4);
+    let descender = view.getInt16(hhea + 6);
+    let lineGap = view.getInt16(hhea + 8);
+    let weight = 400;
+    let italic = (view.getUint16(head + 44) & 0x0002) !== 0;
+
+    const os2 = tables.get('OS/2');
+    if (os2 && os2.length >= 78) {
+      weight = view.getUint16(os2.offset + 4) || 400;
+      const fsSelection = view.getUint16(os2.offset + 62);
+      italic = italic || (fsSelection & 0x0201) !== 0;
+
+      // USE_TYPO_METRICS: the typo metrics are authoritative
+      if (fsSelection & 0x0080) {
+        ascender = view.getInt16(os2.offset + 68);
+        descender = view.getInt16(os2.offset + 70);
+        lineGap = view.getInt16(os2.offset + 72);
+      }
+    }
+
+    this.ascender = ascender;
+    this.descender = descender;
+    this.lineGap = lineGap;
+    this.weight = weight;
+    this.italic = italic;
+
+    this._cmap = this._parseCmap();
+    this._kernPairs = this._parseKern();
+    this._pairLookups = this._parseGposKerning();
+  }
+
+  // ===========================================================================
+  // PUBLIC API
+  // ===========================================================================
+
+  /**
+   * Get the glyph index for a Unicode code point.
+   *
+   * @param codePoint - Unicode code point
+   * @returns Glyph index, 0 (.notdef) if the font has no glyph
+   */
+  getGlyphIndex(codePoint: number): number {
+    const cached = this._glyphCache.get(codePoint);
+    if (cached !== undefined) return cached;
+
+    const glyph = this._cmap ? this._cmap(codePoint) : 0;
+    const result = glyph < this.numGlyphs ? glyph : 0;
+    this._glyphCache.set(codePoint, result);
+    return result;
+  }
+
+  /**
+   * Get the advance width of a glyph.
+   *
+   * @param glyph - Glyph index
+   * @returns Advance width in font units
+   */
+  getAdvanceWidth(glyph: number): number {
+    const hmtx = this._tables.get('hmtx')!.offset;
+    const count = this._numberOfHMetrics;
+
+    if (count === 0) return 0;
+
+    // Glyphs past numberOfHMetrics share the last advance
+    const index = glyph < count ? glyph : count - 1;
+    return this._view.getUint16(hmtx + index * 4);
+  }
+
+  /**
+   * Get the horizontal kerning between two glyphs.
+   * GPOS pair adjustments take precedence over the legacy kern table.
+   *
+   * @param left - Left glyph index
+   * @param right - Right glyph index
+   * @returns Advance adjustment in font units
+   */
+  getKerning(left: number, right: number): number {
+    const key = left * 0x10000 + right;
+    const cached = this._kerningCache.get(key);
+    if (cached !== undefined) return cached;
+
+    let value: number | undefined;
+    for (const lookup of this._pairLookups) {
+      value = lookup(left, right);
+      if (value !== undefined) break;
+    }
+
+    const result = value ?? this._kernPairs.get(key) ?? 0;
+    this._kerningCache.set(key, result);
+    return result;
+  }
+
+  /**
+   * Get the outline of a glyph.
+   *
+   * @param glyph - Glyph index
+   * @returns Drawing commands in font units with y pointing up
+   *   (empty for blank glyphs or fonts without outlines)
+   */
+  getGlyphPath(glyph: number): GlyphCommand[] {
+    const cached = this._pathCache.get(glyph);
+    if (cached) return cached;
+
+    const reader = this._getOutlineReader();
+    let commands: GlyphCommand[] = [];
+
+    if (reader && glyph < this.numGlyphs) {
+      try {
+        commands = reader(glyph);
+      } catch {
+        // Malformed glyph data renders as blank rather than breaking the text
+        commands = [];
+      }
+    }
+
+    this._pathCache.set(glyph, commands);
+    return commands;
+  }
+
+  /**
+   * Whether the font has glyph outlines this parser can read
+   * (glyf/loca or CFF; CFF2 and bitmap-only fonts are not supported).
+   */
+  get hasOutlines(): boolean {
+    return this._getOutlineReader() !== null;
+  }
+
+  /**
+   * Check whether a table is present.
+   *
+   * @param tag - Four-character table tag
+   */
+  hasTable(tag: string): boolean {
+    return this._tables.has(tag);
+  }
+
+  // ===========================================================================
+  // OUTLINES
+  // ===========================================================================
+
+  /**
+   * Create the outline reader on first use.
+   */
+  private _getOutlineReader(): OutlineReader | null {
+    if (this._outlines !== undefined) return this._outlines;
+
+    const glyf = this._tables.get('glyf');
+    const loca = this._tables.get('loca');
+    const cff = this._tables.get('CFF ');
+    let reader: OutlineReader | null = null;
+
+    try {
+      if (glyf && loca) {
+        const head = this._tables.get('head')!.offset;
+        const longOffsets = this._view.getInt16(head + 50) === 1;
+        reader = createTrueTypeOutlineReader(
+          this._view,
+          glyf.offset,
+          loca.offset,
+          longOffsets,
+          this.numGlyphs,
+        );
+      } else if (cff) {
+        reader = createCffOutlineReader(this._view, cff.offset);
+      }
+    } catch {
+      reader = null;
+    }
+
+    this._outlines = reader;
+    return reader;
+  }
+
+  // ===========================================================================
+  // CMAP
+  // ===========================================================================
+
+  /**
+   * Pick the best Unicode cmap subtable and build a lookup for it.
+   */
+  private _parseCmap(): GlyphLookup | null {
+    const table = this._tables.get('cmap');
+    if (!table) return null;
+
+    const view = this._view;
+    const numSubtables = view.getUint16(table.offset + 2);
+    let best: { offset: number; score: number } | null = null;
+
+    for (let i = 0; i < numSubtables; i++) {
+      const record = table.offset + 4 + i * 8;
+      const platform = view.getUint16(record);
+      const encoding = view.getUint16(record + 2);
+      const offset = table.offset + view.getUint32(record + 4);
+      const format = view.getUint16(offset);
+
+      // Prefer full-Unicode format 12 tables, then BMP format 4 tables
+      let score = 0;
+      if (format === 12 && (platform === 0 || (platform === 3 && encoding === 10))) score = 3;
+      else if (format === 4 && (platform === 0 || (platform === 3 && encoding === 1))) score = 2;
+      else if (format === 4 && platform === 3 && encoding === 0) score = 1;
+
+      if (score > 0 && (!best || score > best.score)) {
+        best = { offset, score };
+      }
+    }
+
+    if (!best) return null;
+
+    return view.getUint16(best.offset) === 12
+      ? this._cmapFormat12(best.offset)
+      : this._cmapFormat4(best.offset);
+  }
+
+  /**
+   * Segment mapping to delta values (BMP).
+   */
+  private _cmapFormat4(offset: number): GlyphLookup {
+    const view = this._view;
+    const segCount = view.getUint16(offset + 6) / 2;
+    const endCodes = offset + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+
+    return (codePoint) => {
+      if (codePoint > 0xffff) return 0;
+
+      // Binary search for the first segment whose end code is >= codePoint
+      let low = 0;
+      let high = segCount - 1;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (view.getUint16(endCodes + mid * 2) < codePoint) low = mid + 1;
+        else high = mid;
+      }
+
+      const start = view.getUint16(startCodes + low * 2);
+      if (codePoint < start || codePoint > view.getUint16(endCodes + low * 2)) return 0;
+
+      const delta = view.getUint16(idDeltas + low * 2);
+      const rangeOffset = view.getUint16(idRangeOffsets + low * 2);
+
+      if (rangeOffset === 0) {
+        return (codePoint + delta) & 0xffff;
+      }
+
+      const glyphAddress = idRangeOffsets + low * 2 + rangeOffset + (codePoint - start) * 2;
+      const glyph = view.getUint16(glyphAddress);
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+    };
+  }
+
+  /**
+   * Segmented coverage (full Unicode).
+   */
+  private _cmapFormat12(offset: number): GlyphLookup {
+    const view = this._view;
+    const numGroups = view.getUint32(offset + 12);
+    const groups = offset + 16;
+
+    return (codePoint) => {
+      let low = 0;
+      let high = numGroups - 1;
+
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        const group = groups + mid * 12;
+        const start = view.getUint32(group);
+        const end = view.getUint32(group + 4);
+
+        if (codePoint < start) high = mid - 1;
+        else if (codePoint > end) low = mid + 1;
+        else return view.getUint32(group + 8) + (codePoint - start);
+      }
+
+      return 0;
+    };
+  }
+
+  // ===========================================================================
+  // KERNING
+  // ===========================================================================
+
+  /**
+   * Read format 0 subtables of a Microsoft-style kern table.
+   */
+  private _parseKern(): Map<number, number> {
+    const pairs = new Map<number, number>();
+    const table = this._tables.get('kern');
+    if (!table) return pairs;
+
+    const view = this._view;
+
+    // Apple kern tables (version 1.0, 32-bit header) are not supported
+    if (view.getUint16(table.offset) !== 0) return pairs;
+
+    const nTables = view.getUint16(table.offset + 2);
+    let subtable = table.offset + 4;
+
+    for (let i = 0; i < nTables; i++) {
+      const length = view.getUint16(subtable + 2);
+      const coverage = view.getUint16(subtable + 4);
+      const format = coverage >> 8;
+      const horizontal = (coverage & 0x0001) !== 0;
+      const minimum = (coverage & 0x0002) !== 0;
+      const crossStream = (coverage & 0x0004) !== 0;
+
+      if (format === 0 && horizontal && !minimum && !crossStream) {
+        const nPairs = view.getUint16(subtable + 6);
+        for (let p = 0; p < nPairs; p++) {
+          const pair = subtable + 14 + p * 6;
+          const key = view.getUint16(pair) * 0x10000 + view.getUint16(pair + 2);
+          pairs.set(key, (pairs.get(key) ?? 0) + view.getInt16(pair + 4));
+        }
+      }
+
+      subtable += length;
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Collect pair adjustment subtables of the GPOS 'kern' feature.
+   */
+  private _parseGposKerning(): PairLookup[] {
+    const table = this._tables.get('GPOS');
+    if (!table) return [];
+
+    const view = this._view;
+    const gpos = table.offset;
+    const featureList = gpos + view.getUint16(gpos + 6);
+    const lookupList = gpos + view.getUint16(gpos + 8);
+
+    // Lookup indices referenced by any 'kern' feature
+    const lookupIndices = new Set<number>();
+    const featureCount = view.getUint16(featureList);
+    for (let i = 0; i < featureCount; i++) {
+      const record = featureList + 2 + i * 6;
+      const tag = String.fromCharCode(
+        view.getUint8(record),
+        view.getUint8(record + 1),
+        view.getUint8(record + 2),
+        view.getUint8(record + 3),
+      );
+      if (tag !== 'kern') continue;
+
+      const feature = featureList + view.getUint16(record + 4);
+      const count = view.getUint16(feature + 2);
+      for (let j = 0; j < count; j++) {
+        lookupIndices.add(view.getUint16(feature + 4 + j * 2));
+      }
+    }
+
+    const lookups: PairLookup[] = [];
+    const lookupCount = view.getUint16(lookupList);
+
+    for (const index of [...lookupIndices].sort((a, b) => a - b)) {
+      if (index >= lookupCount) continue;
+
+      const lookup = lookupList + view.getUint16(lookupList + 2 + index * 2);
+      const type = view.getUint16(lookup);
+      const subtableCount = view.getUint16(lookup + 4);
+
+      for (let s = 0; s < subtableCount; s++) {
+        let subtable = lookup + view.getUint16(lookup + 6 + s * 2);
+        let subtableType = type;
+
+        if (type === GPOS_EXTENSION) {
+          subtableType = view.getUint16(subtable + 2);
+          subtable += view.getUint32(subtable + 4);
+        }
+
+        if (subtableType === GPOS_PAIR_ADJUSTMENT) {
+          const pairLookup = this._pairAdjustment(subtable);
+          if (pairLookup) lookups.push(pairLookup);
+        }
+      }
+    }
+
+    return lookups;
+  }
+
+  /**
+   * Build a lookup for a PairPos subtable (formats 1 and 2).
+   */
+  private _pairAdjustment(subtable: number): PairLookup | null {
+    const view = this._view;
+    const format = view.getUint16(subtable);
+    const coverage = subtable + view.getUint16(subtable + 2);
+    const valueFormat1 = view.getUint16(subtable + 4);
+    const valueFormat2 = view.getUint16(subtable + 6);
+
+    // Only the first glyph's XAdvance affects the advance
+    if (!(valueFormat1 & VALUE_X_ADVANCE)) return null;
+
+    const xAdvanceOffset = bitCount(valueFormat1 & (VALUE_X_ADVANCE - 1)) * 2;
+    const value1Size = bitCount(valueFormat1) * 2;
+    const value2Size = bitCount(valueFormat2) * 2;
+
+    if (format === 1) {
+      const pairSetOffsets = subtable + 10;
+
+      return (left, right) => {
+        const coverageIndex = this._coverageIndex(coverage, left);
+        if (coverageIndex < 0) return undefined;
+
+        const pairSet = subtable + view.getUint16(pairSetOffsets + coverageIndex * 2);
+        const pairCount = view.getUint16(pairSet);
+        const recordSize = 2 + value1Size + value2Size;
+
+        // PairValueRecords are sorted by second glyph
+        let low = 0;
+        let high = pairCount - 1;
+        while (low <= high) {
+          const mid = (low + high) >> 1;
+          const record = pairSet + 2 + mid * recordSize;
+          const secondGlyph = view.getUint16(record);
+
+          if (secondGlyph < right) low = mid + 1;
+          else if (secondGlyph > right) high = mid - 1;
+          else return view.getInt16(record + 2 + xAdvanceOffset);
+        }
+
+        return undefined;
+      };
+    }
+
+    if (format === 2) {
+      const classDef1 = subtable + view.getUint16(subtable + 8);
+      const classDef2 = subtable + view.getUint16(subtable + 10);
+      const class2Count = view.getUint16(subtable + 14);
+      const class1Records = subtable + 16;
+      const class2RecordSize = value1Size + value2Size;
+
+      return (left, right) => {
+        if (this._coverageIndex(coverage, left) < 0) return undefined;
+
+        const class1 = this._glyphClass(classDef1, left);
+        const class2 = this._glyphClass(classDef2, right);
+        const record =
+          class1Records + (class1 * class2Count + class2) * class2RecordSize + xAdvanceOffset;
+
+        return view.getInt16(record);
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find a glyph in a Coverage table.
+   *
+   * @returns Coverage index, or -1 if the glyph is not covered
+   */
+  private _coverageIndex(coverage: number, glyph: number): number {
+    const view = this._view;
+    const format = view.getUint16(coverage);
+    const count = view.getUint16(coverage + 2);
+
+    let low = 0;
+    let high = count - 1;
+
+    if (format === 1) {
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        const value = view.getUint16(coverage + 4 + mid * 2);
+        if (value < glyph) low = mid + 1;
+        else if (value > glyph) high = mid - 1;
+        else return mid;
+      }
+    } else if (format === 2) {
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        const range = coverage + 4 + mid * 6;
+        const start = view.getUint16(range);
+        const end = view.getUint16(range + 2);
+        if (glyph < start) high = mid - 1;
+        else if (glyph > end) low = mid + 1;
+        else return view.getUint16(range + 4) + glyph - start;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Get the class of a glyph from a ClassDef table (0 if unassigned).
+   */
+  private _glyphClass(classDef: number, glyph: number): number {
+    const view = this._view;
+    const format = view.getUint16(classDef);
+
+    if (format === 1) {
+      const startGlyph = view.getUint16(classDef + 2);
+      const count = view.getUint16(classDef + 4);
+      const index = glyph - startGlyph;
+      return index >= 0 && index < count ? view.getUint16(classDef + 6 + index * 2) : 0;
+    }
+
+    if (format === 2) {
+      const count = view.getUint16(classDef + 2);
+      let low = 0;
+      let high = count - 1;
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        const range = classDef + 4 + mid * 6;
+        const start = view.getUint16(range);
+        const end = view.getUint16(range + 2);
+        if (glyph < start) high = mid - 1;
+        else if (glyph > end) low = mid + 1;
+        else return view.getUint16(range + 4);
+      }
+    }
+
+    return 0;
+  }
+}
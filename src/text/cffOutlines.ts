@@ -0,0 +1,575 @@
+/**
+ * @fileoverview Glyph outlines from CFF (OpenType/PostScript) fonts.
+ *
+ * Parses the CFF table's INDEX and DICT structures and interprets Type 2
+ * charstrings into cubic outlines. Hints are skipped; CID-keyed fonts are
+ * supported through FDArray/FDSelect.
+ *
+ * @module @penabt/pixi-expo/text/cffOutlines
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { type GlyphCommand, type OutlineReader, OutlineBuilder } from './glyphOutline';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Byte ranges of the entries of a CFF INDEX */
+interface CffIndex {
+  /** [start, end) offsets of each entry */
+  entries: Array<[number, number]>;
+  /** Offset just past the INDEX */
+  end: number;
+}
+
+/** Operator to operands map of a CFF DICT */
+type CffDict = Map<number, number[]>;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Top DICT operators (escaped operators are 1200 + second byte) */
+const OP_CHARSTRINGS = 17;
+const OP_PRIVATE = 18;
+const OP_FD_ARRAY = 1236;
+const OP_FD_SELECT = 1237;
+
+/** Private DICT operators */
+const OP_SUBRS = 19;
+
+/** Maximum subroutine nesting allowed by the Type 2 spec */
+const MAX_SUBR_DEPTH = 10;
+
+// =============================================================================
+// STRUCTURE PARSING
+// =============================================================================
+
+/**
+ * Read an INDEX structure.
+ */
+function readIndex(view: DataView, offset: number): CffIndex {
+  const count = view.getUint16(offset);
+  if (count === 0) return { entries: [], end: offset + 2 };
+
+  const offSize = view.getUint8(offset + 2);
+  const readOffset = (i: number): number => {
+    let value = 0;
+    for (let b = 0; b < offSize; b++) {
+      value = value * 256 + view.getUint8(offset + 3 + i * offSize + b);
+    }
+    return value;
+  };
+
+  // Offsets are 1-based, relative to the byte before the data
+  const dataStart = offset + 3 + (count + 1) * offSize - 1;
+  const entries: Array<[number, number]> = [];
+  for (let i = 0; i < count; i++) {
+    entries.push([dataStart + readOffset(i), dataStart + readOffset(i + 1)]);
+  }
+
+  return { entries, end: dataStart + readOffset(count) };
+}
+
+/**
+ * Read a real number operand (packed BCD nibbles).
+ */
+function readReal(view: DataView, offset: number): { value: number; end: number } {
+  const symbols = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '.', 'E', 'E-', '', '-'];
+  let text = '';
+  let cursor = offset;
+
+  for (;;) {
+    const byte = view.getUint8(cursor++);
+    const high = byte >> 4;
+    const low = byte & 0x0f;
+    if (high === 0x0f) break;
+    text += symbols[high] ?? '';
+    if (low === 0x0f) break;
+    text += symbols[low] ?? '';
+  }
+
+  return { value: parseFloat(text) || 0, end: cursor };
+}
+
+/**
+ * Read a DICT structure.
+ */
+function readDict(view: DataView, start: number, end: number): CffDict {
+  const dict: CffDict = new Map();
+  let operands: number[] = [];
+  let cursor = start;
+
+  while (cursor < end) {
+    const b0 = view.getUint8(cursor++);
+
+    if (b0 <= 21) {
+      const operator = b0 === 12 ? 1200 + view.getUint8(cursor++) : b0;
+      dict.set(operator, operands);
+      operands = [];
+    } else if (b0 === 28) {
+      operands.push(view.getInt16(cursor));
+      cursor += 2;
+    } else if (b0 === 29) {
+      operands.push(view.getInt32(cursor));
+      cursor += 4;
+    } else if (b0 === 30) {
+      const real = readReal(view, cursor);
+      operands.push(real.value);
+      cursor = real.end;
+    } else if (b0 >= 32 && b0 <= 246) {
+      operands.push(b0 - 139);
+    } else if (b0 >= 247 && b0 <= 250) {
+      operands.push((b0 - 247) * 256 + view.getUint8(cursor++) + 108);
+    } else if (b0 >= 251 && b0 <= 254) {
+      operands.push(-(b0 - 251) * 256 - view.getUint8(cursor++) - 108);
+    }
+  }
+
+  return dict;
+}
+
+/**
+ * Read the local subroutines referenced by a Private DICT.
+ */
+function readPrivateSubrs(view: DataView, cff: number, privateOperands?: number[]): CffIndex {
+  const empty: CffIndex = { entries: [], end: 0 };
+  if (!privateOperands || privateOperands.length < 2) return empty;
+
+  const [size, offset] = privateOperands;
+  const privateStart = cff + offset;
+  const subrs = readDict(view, privateStart, privateStart + size).get(OP_SUBRS);
+
+  return subrs ? readIndex(view, privateStart + subrs[0]) : empty;
+}
+
+/**
+ * Build the glyph-to-font-dict lookup of a CID-keyed font.
+ */
+function readFdSelect(
+  view: DataView,
+  offset: number,
+  numGlyphs: number,
+): (glyph: number) => number {
+  const format = view.getUint8(offset);
+
+  if (format === 0) {
+    return (glyph) => (glyph < numGlyphs ? view.getUint8(offset + 1 + glyph) : 0);
+  }
+
+  if (format === 3) {
+    const ranges = view.getUint16(offset + 1);
+    return (glyph) => {
+      for (let i = 0; i < ranges; i++) {
+        const record = offset + 3 + i * 3;
+        const next = view.getUint16(record + 3);
+        if (glyph >= view.getUint16(record) && glyph < next) {
+          return view.getUint8(record + 2);
+        }
+      }
+      return 0;
+    };
+  }
+
+  return () => 0;
+}
+
+/**
+ * Subroutine index bias, which depends on the number of subroutines.
+ */
+function subrBias(subrs: CffIndex): number {
+  const count = subrs.entries.length;
+  if (count < 1240) return 107;
+  if (count < 33900) return 1131;
+  return 32768;
+}
+
+// =============================================================================
+// CHARSTRING INTERPRETER
+// =============================================================================
+
+/**
+ * Interpret a Type 2 charstring into outline commands.
+ */
+function interpretCharString(
+  view: DataView,
+  range: [number, number],
+  globalSubrs: CffIndex,
+  localSubrs: CffIndex,
+): GlyphCommand[] {
+  const builder = new OutlineBuilder();
+  const globalBias = subrBias(globalSubrs);
+  const localBias = subrBias(localSubrs);
+
+  let stack: number[] = [];
+  let stemCount = 0;
+  let haveWidth = false;
+  let x = 0;
+  let y = 0;
+  let done = false;
+
+  // The first stack-clearing operator may carry the advance width first
+  const takeWidth = (evenArgs: boolean): void => {
+    if (!haveWidth && stack.length % 2 !== (evenArgs ? 0 : 1)) {
+      stack.shift();
+    }
+    haveWidth = true;
+  };
+
+  const countStems = (): void => {
+    takeWidth(true);
+    stemCount += stack.length >> 1;
+    stack = [];
+  };
+
+  const curve = (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number): void => {
+    builder.curveTo(x1, y1, x2, y2, x3, y3);
+    x = x3;
+    y = y3;
+  };
+
+  const run = (start: number, end: number, depth: number): void => {
+    let cursor = start;
+
+    while (cursor < end && !done) {
+      const b0 = view.getUint8(cursor++);
+
+      // Operands
+      if (b0 === 28) {
+        stack.push(view.getInt16(cursor));
+        cursor += 2;
+        continue;
+      }
+      if (b0 >= 32) {
+        if (b0 <= 246) {
+          stack.push(b0 - 139);
+        } else if (b0 <= 250) {
+          stack.push((b0 - 247) * 256 + view.getUint8(cursor++) + 108);
+        } else if (b0 <= 254) {
+          stack.push(-(b0 - 251) * 256 - view.getUint8(cursor++) - 108);
+        } else {
+          stack.push(view.getInt32(cursor) / 65536);
+          cursor += 4;
+        }
+        continue;
+      }
+
+      // Operators
+      switch (b0) {
+        case 1: // hstem
+        case 3: // vstem
+        case 18: // hstemhm
+        case 23: // vstemhm
+          countStems();
+          break;
+
+        case 19: // hintmask
+        case 20: // cntrmask
+          // Pending operands are implicit vstem hints
+          countStems();
+          cursor += (stemCount + 7) >> 3;
+          break;
+
+        case 21: // rmoveto
+          takeWidth(true);
+          x += stack[0] ?? 0;
+          y += stack[1] ?? 0;
+          builder.moveTo(x, y);
+          stack = [];
+          break;
+
+        case 22: // hmoveto
+          takeWidth(false);
+          x += stack[0] ?? 0;
+          builder.moveTo(x, y);
+          stack = [];
+          break;
+
+        case 4: // vmoveto
+          takeWidth(false);
+          y += stack[0] ?? 0;
+          builder.moveTo(x, y);
+          stack = [];
+          break;
+
+        case 5: // rlineto
+          for (let i = 0; i + 1 < stack.length; i += 2) {
+            x += stack[i];
+            y += stack[i + 1];
+            builder.lineTo(x, y);
+          }
+          stack = [];
+          break;
+
+        case 6: // hlineto
+        case 7: {
+          // vlineto
+          let horizontal = b0 === 6;
+          for (const delta of stack) {
+            if (horizontal) x += delta;
+            else y += delta;
+            builder.lineTo(x, y);
+            horizontal = !horizontal;
+          }
+          stack = [];
+          break;
+        }
+
+        case 8: // rrcurveto
+        case 24: {
+          // rcurveline
+          let i = 0;
+          while (stack.length - i >= 6) {
+            const x1 = x + stack[i];
+            const y1 = y + stack[i + 1];
+            const x2 = x1 + stack[i + 2];
+            const y2 = y1 + stack[i + 3];
+            curve(x1, y1, x2, y2, x2 + stack[i + 4], y2 + stack[i + 5]);
+            i += 6;
+          }
+          if (b0 === 24 && stack.length - i >= 2) {
+            x += stack[i];
+            y += stack[i + 1];
+            builder.lineTo(x, y);
+          }
+          stack = [];
+          break;
+        }
+
+        case 25: {
+          // rlinecurve
+          let i = 0;
+          while (stack.length - i > 6) {
+            x += stack[i];
+            y += stack[i + 1];
+            builder.lineTo(x, y);
+            i += 2;
+          }
+          if (stack.length - i >= 6) {
+            const x1 = x + stack[i];
+            const y1 = y + stack[i + 1];
+            const x2 = x1 + stack[i + 2];
+            const y2 = y1 + stack[i + 3];
+            curve(x1, y1, x2, y2, x2 + stack[i + 4], y2 + stack[i + 5]);
+          }
+          stack = [];
+          break;
+        }
+
+        case 26: {
+          // vvcurveto
+          let i = 0;
+          let dx1 = stack.length % 2 === 1 ? stack[i++] : 0;
+          while (stack.length - i >= 4) {
+            const x1 = x + dx1;
+            const y1 = y + stack[i];
+            const x2 = x1 + stack[i + 1];
+            const y2 = y1 + stack[i + 2];
+            curve(x1, y1, x2, y2, x2, y2 + stack[i + 3]);
+            dx1 = 0;
+            i += 4;
+          }
+          stack = [];
+          break;
+        }
+
+        case 27: {
+          // hhcurveto
+          let i = 0;
+          let dy1 = stack.length % 2 === 1 ? stack[i++] : 0;
+          while (stack.length - i >= 4) {
+            const x1 = x + stack[i];
+            const y1 = y + dy1;
+            const x2 = x1 + stack[i + 1];
+            const y2 = y1 + stack[i + 2];
+            curve(x1, y1, x2, y2, x2 + stack[i + 3], y2);
+            dy1 = 0;
+            i += 4;
+          }
+          stack = [];
+          break;
+        }
+
+        case 30: // vhcurveto
+        case 31: {
+          // hvcurveto
+          let horizontal = b0 === 31;
+          let i = 0;
+          while (stack.length - i >= 4) {
+            const last = stack.length - i === 5 ? stack[i + 4] : 0;
+            if (horizontal) {
+              const x1 = x + stack[i];
+              const x2 = x1 + stack[i + 1];
+              const y2 = y + stack[i + 2];
+              curve(x1, y, x2, y2, x2 + last, y2 + stack[i + 3]);
+            } else {
+              const y1 = y + stack[i];
+              const x2 = x + stack[i + 1];
+              const y2 = y1 + stack[i + 2];
+              curve(x, y1, x2, y2, x2 + stack[i + 3], y2 + last);
+            }
+            horizontal = !horizontal;
+            i += 4;
+          }
+          stack = [];
+          break;
+        }
+
+        case 10: // callsubr
+        case 29: {
+          // callgsubr
+          const subrs = b0 === 10 ? localSubrs : globalSubrs;
+          const index = (stack.pop() ?? 0) + (b0 === 10 ? localBias : globalBias);
+          const subr = subrs.entries[index];
+          if (subr && depth < MAX_SUBR_DEPTH) run(subr[0], subr[1], depth + 1);
+          break;
+        }
+
+        case 11: // return
+          return;
+
+        case 14: // endchar
+          if (!haveWidth && (stack.length === 1 || stack.length === 5)) stack.shift();
+          haveWidth = true;
+          builder.close();
+          done = true;
+          break;
+
+        case 12: {
+          const b1 = view.getUint8(cursor++);
+          const s = stack;
+
+          if (b1 === 35 && s.length >= 13) {
+            // flex
+            const x1 = x + s[0];
+            const y1 = y + s[1];
+            const x2 = x1 + s[2];
+            const y2 = y1 + s[3];
+            const x3 = x2 + s[4];
+            const y3 = y2 + s[5];
+            curve(x1, y1, x2, y2, x3, y3);
+            const x4 = x3 + s[6];
+            const y4 = y3 + s[7];
+            const x5 = x4 + s[8];
+            const y5 = y4 + s[9];
+            curve(x4, y4, x5, y5, x5 + s[10], y5 + s[11]);
+          } else if (b1 === 34 && s.length >= 7) {
+            // hflex
+            const startY = y;
+            const x1 = x + s[0];
+            const x2 = x1 + s[1];
+            const y2 = y + s[2];
+            const x3 = x2 + s[3];
+            curve(x1, y, x2, y2, x3, y2);
+            const x4 = x3 + s[4];
+            const x5 = x4 + s[5];
+            curve(x4, y2, x5, startY, x5 + s[6], startY);
+          } else if (b1 === 36 && s.length >= 9) {
+            // hflex1
+            const startY = y;
+            const x1 = x + s[0];
+            const y1 = y + s[1];
+            const x2 = x1 + s[2];
+            const y2 = y1 + s[3];
+            const x3 = x2 + s[4];
+            curve(x1, y1, x2, y2, x3, y2);
+            const x4 = x3 + s[5];
+            const x5 = x4 + s[6];
+            const y5 = y2 + s[7];
+            curve(x4, y2, x5, y5, x5 + s[8], startY);
+          } else if (b1 === 37 && s.length >= 11) {
+            // flex1
+            const startX = x;
+            const startY = y;
+            const x1 = x + s[0];
+            const y1 = y + s[1];
+            const x2 = x1 + s[2];
+            const y2 = y1 + s[3];
+            const x3 = x2 + s[4];
+            const y3 = y2 + s[5];
+            curve(x1, y1, x2, y2, x3, y3);
+            const x4 = x3 + s[6];
+            const y4 = y3 + s[7];
+            const x5 = x4 + s[8];
+            const y5 = y4 + s[9];
+            const horizontal = Math.abs(x5 - startX) > Math.abs(y5 - startY);
+            curve(
+              x4,
+              y4,
+              x5,
+              y5,
+              horizontal ? x5 + s[10] : startX,
+              horizontal ? startY : y5 + s[10],
+            );
+          }
+
+          // Arithmetic and storage operators are not used by real fonts
+          stack = [];
+          break;
+        }
+
+        default:
+          stack = [];
+          break;
+      }
+    }
+  };
+
+  run(range[0], range[1], 0);
+  builder.close();
+  return builder.commands;
+}
+
+// =============================================================================
+// READER FACTORY
+// =============================================================================
+
+/**
+ * Create an outline reader for a CFF table.
+ *
+ * @param view - View over the font file
+ * @param cff - Offset of the 'CFF ' table
+ * @returns Outline reader, or null if the table has no charstrings
+ */
+export function createCffOutlineReader(view: DataView, cff: number): OutlineReader | null {
+  const headerSize = view.getUint8(cff + 2);
+  const names = readIndex(view, cff + headerSize);
+  const topDicts = readIndex(view, names.end);
+  const strings = readIndex(view, topDicts.end);
+  const globalSubrs = readIndex(view, strings.end);
+
+  const topRange = topDicts.entries[0];
+  if (!topRange) return null;
+
+  const top = readDict(view, topRange[0], topRange[1]);
+  const charStringsOffset = top.get(OP_CHARSTRINGS)?.[0];
+  if (charStringsOffset === undefined) return null;
+
+  const charStrings = readIndex(view, cff + charStringsOffset);
+  let localSubrsFor: (glyph: number) => CffIndex;
+
+  const fdArrayOffset = top.get(OP_FD_ARRAY)?.[0];
+  const fdSelectOffset = top.get(OP_FD_SELECT)?.[0];
+
+  if (fdArrayOffset !== undefined && fdSelectOffset !== undefined) {
+    // CID-keyed: each font dict has its own Private DICT
+    const fdArray = readIndex(view, cff + fdArrayOffset);
+    const fdSubrs = fdArray.entries.map(([start, end]) =>
+      readPrivateSubrs(view, cff, readDict(view, start, end).get(OP_PRIVATE)),
+    );
+    const fdSelect = readFdSelect(view, cff + fdSelectOffset, charStrings.entries.length);
+    const empty: CffIndex = { entries: [], end: 0 };
+    localSubrsFor = (glyph) => fdSubrs[fdSelect(glyph)] ?? empty;
+  } else {
+    const subrs = readPrivateSubrs(view, cff, top.get(OP_PRIVATE));
+    localSubrsFor = () => subrs;
+  }
+
+  return (glyph: number): GlyphCommand[] => {
+    const range = charStrings.entries[glyph];
+    if (!range) return [];
+    return interpretCharString(view, range, globalSubrs, localSubrsFor(glyph));
+  };
+}
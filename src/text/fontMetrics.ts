@@ -0,0 +1,361 @@
+/**
+ * @fileoverview Font registry and text measurement from parsed font files.
+ *
+ * React Native has no 2D canvas to measure text with, so fonts loaded by
+ * loadExpoFont are parsed and registered here. The software 2D context's
+ * measureText() consults this registry, which is how PixiJS's
+ * CanvasTextMetrics (Text layout, word wrap, BitmapText font metrics) gets
+ * real advances, kerning, ascent and descent.
+ *
+ * @module @penabt/pixi-expo/text/fontMetrics
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { OpenTypeFont } from './OpenTypeFont';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Font face descriptors used when registering a font */
+export interface FontFaceOptions {
+  /** CSS font weight (default: the font's OS/2 weight class) */
+  weight?: number | string;
+  /** CSS font style (default: from the font's italic flags) */
+  style?: 'normal' | 'italic' | 'oblique' | string;
+}
+
+/** Components of a CSS font shorthand string */
+export interface ParsedFontString {
+  /** Font style ('normal', 'italic', 'oblique') */
+  style: string;
+  /** Numeric font weight */
+  weight: number;
+  /** Font size in pixels */
+  size: number;
+  /** Font families, unquoted, in priority order */
+  families: string[];
+}
+
+/** Vertical metrics of a font at a given size, in pixels */
+export interface FontLineMetrics {
+  /** Distance from the baseline to the top of the line box */
+  ascent: number;
+  /** Distance from the baseline to the bottom of the line box (positive) */
+  descent: number;
+  /** Extra gap between lines */
+  lineGap: number;
+  /** Recommended distance between baselines */
+  lineHeight: number;
+  /** Font size in pixels */
+  fontSize: number;
+}
+
+/** Measurement of a line of text, in pixels */
+export interface TextMeasurement extends FontLineMetrics {
+  /** Advance width of the text, including kerning and letter spacing */
+  width: number;
+}
+
+/** A registered font matched from a font string */
+export interface ResolvedFont {
+  /** Matching registered face */
+  face: OpenTypeFont;
+  /** Components of the font string */
+  parsed: ParsedFontString;
+}
+
+/** A registered face of a family */
+interface RegisteredFace {
+  font: OpenTypeFont;
+  weight: number;
+  italic: boolean;
+}
+
+// =============================================================================
+// MODULE STATE
+// =============================================================================
+
+/** Registered faces, keyed by lower-case family name */
+const families = new Map<string, RegisteredFace[]>();
+
+/** Cache of parsed font strings */
+const fontStringCache = new Map<string, ParsedFontString>();
+
+/** Maximum number of cached font strings */
+const MAX_CACHED_FONT_STRINGS = 128;
+
+/** Keyword font weights */
+const WEIGHT_KEYWORDS: Record<string, number> = {
+  normal: 400,
+  bold: 700,
+  lighter: 100,
+  bolder: 900,
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Convert a CSS weight value to a number.
+ */
+function toWeight(weight: number | string | undefined, fallback: number): number {
+  if (weight === undefined) return fallback;
+  if (typeof weight === 'number') return weight;
+
+  const keyword = WEIGHT_KEYWORDS[weight.trim().toLowerCase()];
+  if (keyword !== undefined) return keyword;
+
+  const numeric = parseInt(weight, 10);
+  return Number.isNaN(numeric) ? fallback : numeric;
+}
+
+/**
+ * Convert a CSS size token to pixels.
+ */
+function toPixels(value: number, unit: string): number {
+  switch (unit) {
+    case 'pt':
+      return (value * 4) / 3;
+    case 'em':
+    case 'rem':
+      return value * 16;
+    case '%':
+      return (value / 100) * 16;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Pick the face closest to the requested weight and style, following the
+ * CSS font matching order for weights.
+ */
+function matchFace(faces: RegisteredFace[], weight: number, italic: boolean): RegisteredFace {
+  const styled = faces.filter((face) => face.italic === italic);
+  const candidates = styled.length > 0 ? styled : faces;
+
+  const exact = candidates.find((face) => face.weight === weight);
+  if (exact) return exact;
+
+  // Light requests look lighter first, bold requests look bolder first
+  const preferLighter = weight <= 500;
+  const score = (face: RegisteredFace): number => {
+    const distance = Math.abs(face.weight - weight);
+    const wrongDirection = preferLighter ? face.weight > weight : face.weight < weight;
+    return distance + (wrongDirection ? 1000 : 0);
+  };
+
+  return candidates.reduce((best, face) => (score(face) < score(best) ? face : best));
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+/**
+ * Register a font file for text measurement.
+ *
+ * Called by loadExpoFont. Call it directly for fonts loaded another way
+ * (e.g. `useFonts` from expo-font) so PixiJS can measure them.
+ *
+ * @param family - Font family name used in TextStyle.fontFamily
+ * @param data - Font file bytes or an already parsed font
+ * @param options - Weight and style of this face
+ * @returns The parsed font
+ * @throws Error if the data is not a supported font
+ *
+ * @example
+ * ```ts
+ * const bytes = await (await DOMAdapter.get().fetch(require('./Inter-Bold.ttf'))).arrayBuffer();
+ * registerFont('Inter', bytes, { weight: 'bold' });
+ * ```
+ */
+export function registerFont(
+  family: string,
+  data: OpenTypeFont | ArrayBuffer | Uint8Array,
+  options: FontFaceOptions = {},
+): OpenTypeFont {
+  const font = data instanceof OpenTypeFont ? data : OpenTypeFont.parse(data);
+  const weight = toWeight(options.weight, font.weight);
+  const italic = options.style ? options.style !== 'normal' : font.italic;
+  const key = family.trim().toLowerCase();
+
+  // Replace an existing face with the same descriptors
+  const faces = (families.get(key) ?? []).filter(
+    (face) => face.weight !== weight || face.italic !== italic,
+  );
+  faces.push({ font, weight, italic });
+  families.set(key, faces);
+
+  return font;
+}
+
+/**
+ * Remove all registered faces of a family.
+ *
+ * @param family - Font family name
+ */
+export function unregisterFont(family: string): void {
+  families.delete(family.trim().toLowerCase());
+}
+
+/**
+ * Check whether a family has registered faces.
+ *
+ * @param family - Font family name
+ */
+export function hasRegisteredFont(family: string): boolean {
+  return families.has(family.trim().toLowerCase());
+}
+
+/**
+ * Find the registered face that best matches a family, weight and style.
+ *
+ * @param family - Font family name
+ * @param weight - CSS font weight (default: 400)
+ * @param style - CSS font style (default: 'normal')
+ * @returns Matching font, or null if the family is not registered
+ */
+export function findFont(
+  family: string,
+  weight: number | string = 400,
+  style = 'normal',
+): OpenTypeFont | null {
+  const faces = families.get(family.trim().toLowerCase());
+  if (!faces || faces.length === 0) return null;
+
+  return matchFace(faces, toWeight(weight, 400), style !== 'normal').font;
+}
+
+// =============================================================================
+// MEASUREMENT
+// =============================================================================
+
+/**
+ * Parse a CSS font shorthand such as PixiJS's
+ * `normal normal 700 26px "Inter", sans-serif`.
+ *
+ * @param font - CSS font string
+ * @returns Parsed components (size defaults to 10px, like canvas)
+ */
+export function parseFontString(font: string): ParsedFontString {
+  const cached = fontStringCache.get(font);
+  if (cached) return cached;
+
+  const result: ParsedFontString = { style: 'normal', weight: 400, size: 10, families: [] };
+  const sizeMatch = /(?:^|\s)(\d*\.?\d+)(px|pt|em|rem|%)(?:\s*\/\s*\S+)?\s+(.+)$/.exec(font.trim());
+
+  if (sizeMatch) {
+    result.size = toPixels(parseFloat(sizeMatch[1]), sizeMatch[2]);
+    result.families = sizeMatch[3]
+      .split(',')
+      .map((family) => family.trim().replace(/^["']|["']$/g, ''))
+      .filter((family) => family.length > 0);
+
+    const prefix = font.trim().slice(0, sizeMatch.index).toLowerCase().split(/\s+/);
+    for (const token of prefix) {
+      if (token === 'italic' || token === 'oblique') {
+        result.style = token;
+      } else if (token in WEIGHT_KEYWORDS || /^\d{3}$/.test(token)) {
+        result.weight = toWeight(token, result.weight);
+      }
+    }
+  }
+
+  if (fontStringCache.size >= MAX_CACHED_FONT_STRINGS) {
+    fontStringCache.clear();
+  }
+  fontStringCache.set(font, result);
+  return result;
+}
+
+/**
+ * Resolve the first registered family of a font string.
+ *
+ * @param font - CSS font string
+ * @returns Matching face and parsed font string, or null if no family is registered
+ */
+export function resolveFont(font: string): ResolvedFont | null {
+  const parsed = parseFontString(font);
+
+  for (const family of parsed.families) {
+    const face = findFont(family, parsed.weight, parsed.style);
+    if (face) return { face, parsed };
+  }
+
+  return null;
+}
+
+/**
+ * Get the vertical metrics of a font string.
+ *
+ * @param font - CSS font string
+ * @returns Metrics in pixels, or null if no family in the string is registered
+ */
+export function getFontLineMetrics(font: string): FontLineMetrics | null {
+  const resolved = resolveFont(font);
+  if (!resolved) return null;
+
+  const { face, parsed } = resolved;
+  const scale = parsed.size / face.unitsPerEm;
+  const ascent = face.ascender * scale;
+  const descent = -face.descender * scale;
+  const lineGap = Math.max(0, face.lineGap * scale);
+
+  return {
+    ascent,
+    descent,
+    lineGap,
+    lineHeight: ascent + descent + lineGap,
+    fontSize: parsed.size,
+  };
+}
+
+/**
+ * Measure a line of text with a registered font.
+ *
+ * @param text - Text to measure (a single line)
+ * @param font - CSS font string
+ * @param letterSpacing - Extra spacing after each character, in pixels
+ * @returns Measurement in pixels, or null if no family in the string is registered
+ *
+ * @example
+ * ```ts
+ * const measurement = measureTextWithFont('Hello', 'normal normal 400 24px "Inter"');
+ * ```
+ */
+export function measureTextWithFont(
+  text: string,
+  font: string,
+  letterSpacing = 0,
+): TextMeasurement | null {
+  const resolved = resolveFont(font);
+  if (!resolved) return null;
+
+  const { face, parsed } = resolved;
+  let units = 0;
+  let count = 0;
+  let previous = -1;
+
+  for (const char of text) {
+    const glyph = face.getGlyphIndex(char.codePointAt(0)!);
+
+    if (previous >= 0) {
+      units += face.getKerning(previous, glyph);
+    }
+
+    units += face.getAdvanceWidth(glyph);
+    previous = glyph;
+    count++;
+  }
+
+  const lineMetrics = getFontLineMetrics(font)!;
+
+  return {
+    ...lineMetrics,
+    width: (units * parsed.size) / face.unitsPerEm + count * letterSpacing,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Glyph outline representation shared by the outline parsers.
+ *
+ * @module @penabt/pixi-expo/text/glyphOutline
+ * @author Pena Team
+ * @license MIT
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * One drawing command of a glyph outline, in font units with y pointing up.
+ */
+export type GlyphCommand =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+/** Reads the outline of a glyph index */
+export type OutlineReader = (glyph: number) => GlyphCommand[];
+
+// =============================================================================
+// OUTLINE BUILDER
+// =============================================================================
+
+/**
+ * Collects glyph commands, closing contours automatically.
+ */
+export class OutlineBuilder {
+  /** Collected commands */
+  public readonly commands: GlyphCommand[] = [];
+
+  /** Whether a contour is open */
+  private _open = false;
+
+  /** Start a new contour */
+  moveTo(x: number, y: number): void {
+    this.close();
+    this.commands.push({ type: 'M', x, y });
+    this._open = true;
+  }
+
+  /** Add a line */
+  lineTo(x: number, y: number): void {
+    this.commands.push({ type: 'L', x, y });
+  }
+
+  /** Add a quadratic curve */
+  quadTo(x1: number, y1: number, x: number, y: number): void {
+    this.commands.push({ type: 'Q', x1, y1, x, y });
+  }
+
+  /** Add a cubic curve */
+  curveTo(x1: number, y1: number, x2: number, y2: number, x: number, y: number): void {
+    this.commands.push({ type: 'C', x1, y1, x2, y2, x, y });
+  }
+
+  /** Close the open contour, if any */
+  close(): void {
+    if (!this._open) return;
+    this.commands.push({ type: 'Z' });
+    this._open = false;
+  }
+}
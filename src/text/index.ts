@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Text support exports.
+ *
+ * Font parsing, text measurement, glyph outlines and BMFont descriptors used
+ * in place of a browser 2D canvas.
+ *
+ * @module @penabt/pixi-expo/text
+ */
+
+export { OpenTypeFont } from './OpenTypeFont';
+export {
+  registerFont,
+  unregisterFont,
+  hasRegisteredFont,
+  findFont,
+  parseFontString,
+  getFontLineMetrics,
+  measureTextWithFont,
+  resolveFont,
+} from './fontMetrics';
+export type {
+  FontFaceOptions,
+  ParsedFontString,
+  FontLineMetrics,
+  TextMeasurement,
+  ResolvedFont,
+} from './fontMetrics';
+export type { GlyphCommand } from './glyphOutline';
+export { parseBMFont, detectBMFontFormat } from './parseBMFont';
+export type { BMFontFormat } from './parseBMFont';
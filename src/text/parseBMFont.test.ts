@@ -0,0 +1,134 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { DOMAdapter } from 'pixi.js';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { detectBMFontFormat, parseBMFont } from './parseBMFont';
+
+// =============================================================================
+// DESCRIPTORS
+// The same two-character font in every variant.
+// =============================================================================
+
+const TEXT_DESCRIPTOR = [
+  'info face="Test Font" size=-32 bold=0 italic=0',
+  'common lineHeight=36 base=29 scaleW=256 scaleH=256 pages=1',
+  'page id=0 file="test_0.png"',
+  'chars count=2',
+  'char id=65 x=0 y=0 width=20 height=24 xoffset=1 yoffset=5 xadvance=22 page=0',
+  'char id=32 x=30 y=0 width=0 height=0 xoffset=0 yoffset=0 xadvance=8 page=0',
+  'kernings count=2',
+  'kerning first=32 second=65 amount=-2',
+  'kerning first=65 second=66 amount=-3',
+].join('\n');
+
+const XML_DESCRIPTOR = `<?xml version="1.0"?>
+<font>
+  <info face="Test Font" size="32" />
+  <common lineHeight="36" base="29" />
+  <pages><page id="0" file="test_0.png" /></pages>
+  <distanceField fieldType="msdf" distanceRange="4" />
+  <chars count="2">
+    <char id="65" x="0" y="0" width="20" height="24" xoffset="1" yoffset="5" xadvance="22" page="0" />
+    <char id="32" x="30" y="0" width="0" height="0" xoffset="0" yoffset="0" xadvance="8" page="0" />
+  </chars>
+  <kernings count="1"><kerning first="32" second="65" amount="-2" /></kernings>
+</font>`;
+
+/**
+ * Write a binary (version 3) descriptor.
+ */
+function createBinaryDescriptor(): Uint8Array {
+  const bytes: number[] = [0x42, 0x4d, 0x46, 3];
+  const block = (type: number, body: number[]) => {
+    bytes.push(type, ...u32(body.length), ...body);
+  };
+  const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+  const u32 = (value: number) => [...u16(value & 0xffff), ...u16(value >>> 16)];
+  const text = (value: string) => [...new TextEncoder().encode(value), 0];
+
+  block(1, [...u16(-32 & 0xffff), ...new Array(12).fill(0), ...text('Test Font')]);
+  block(2, [...u16(36), ...u16(29), ...new Array(11).fill(0)]);
+  block(3, text('test_0.png'));
+
+  const char = (id: number, x: number, width: number, height: number, xoffset: number) => [
+    ...u32(id),
+    ...u16(x),
+    ...u16(0),
+    ...u16(width),
+    ...u16(height),
+    ...u16(xoffset),
+    ...u16(height ? 5 : 0),
+    ...u16(id === 65 ? 22 : 8),
+    0,
+    15,
+  ];
+  block(4, [...char(65, 0, 20, 24, 1), ...char(32, 30, 0, 0, 0)]);
+  block(5, [...u32(32), ...u32(65), ...u16(-2 & 0xffff)]);
+
+  return new Uint8Array(bytes);
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('parseBMFont', () => {
+  beforeAll(() => {
+    // PixiJS's browser adapter parses XML with the DOM, which Node doesn't have
+    vi.spyOn(DOMAdapter, 'get').mockReturnValue({
+      parseXML: (xml: string) => new DOMParser().parseFromString(xml, 'text/xml'),
+    } as unknown as ReturnType<typeof DOMAdapter.get>);
+  });
+
+  it('detects each descriptor variant', () => {
+    expect(detectBMFontFormat(TEXT_DESCRIPTOR)).toBe('text');
+    expect(detectBMFontFormat(new TextEncoder().encode('\uFEFF' + TEXT_DESCRIPTOR))).toBe('text');
+    expect(detectBMFontFormat(XML_DESCRIPTOR)).toBe('xml');
+    expect(detectBMFontFormat(createBinaryDescriptor())).toBe('binary');
+    expect(detectBMFontFormat('{"pages": []}')).toBeNull();
+  });
+
+  for (const [variant, data] of [
+    ['text', TEXT_DESCRIPTOR],
+    ['XML', XML_DESCRIPTOR],
+    ['binary', createBinaryDescriptor()],
+  ] as const) {
+    it(`parses a ${variant} descriptor`, () => {
+      const font = parseBMFont(data);
+
+      expect(font.fontFamily).toBe('Test Font');
+      expect(font.fontSize).toBe(32);
+      expect(font.lineHeight).toBe(36);
+      expect(font.baseLineOffset).toBe(7);
+      expect(font.pages).toEqual([{ id: 0, file: 'test_0.png' }]);
+
+      expect(font.chars.A).toMatchObject({
+        id: 65,
+        x: 0,
+        y: 0,
+        width: 20,
+        height: 24,
+        xOffset: 1,
+        yOffset: 5,
+        xAdvance: 22,
+        page: 0,
+      });
+      expect(font.chars[' ']).toMatchObject({ id: 32, x: 30, xAdvance: 8 });
+
+      // Kerning is stored on the second character, keyed by the first;
+      // pairs with characters missing from the font are dropped
+      expect(font.chars.A.kerning).toEqual({ ' ': -2 });
+    });
+  }
+
+  it('reads the distance field of an XML descriptor', () => {
+    expect(parseBMFont(XML_DESCRIPTOR).distanceField).toEqual({ range: 4, type: 'msdf' });
+  });
+
+  it('rejects other data', () => {
+    expect(() => parseBMFont('not a font')).toThrow('not a BMFont descriptor');
+
+    const version2 = createBinaryDescriptor();
+    version2[3] = 2;
+    expect(() => parseBMFont(version2)).toThrow('Unsupported binary BMFont version 2');
+  });
+});
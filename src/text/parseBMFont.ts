@@ -0,0 +1,350 @@
+/**
+ * @fileoverview BMFont descriptor parser (text, XML and binary variants).
+ *
+ * PixiJS's own BMFont parsers only understand the text and XML variants,
+ * and its XML parser relies on getAttribute() returning null for missing
+ * attributes, which @xmldom/xmldom does not do. This parser reads all three
+ * formats into PixiJS's BitmapFontData.
+ *
+ * @module @penabt/pixi-expo/text/parseBMFont
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { DOMAdapter } from 'pixi.js';
+import { utf8Decode } from '../utils/encoding';
+
+import type { BitmapFontData, RawCharData } from 'pixi.js';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Attributes of one BMFont tag, e.g. `char id=65 x=0 ...` */
+type BMFontTag = Record<string, string>;
+
+/** All tags of a BMFont descriptor, grouped by name */
+interface BMFontTags {
+  info: BMFontTag;
+  common: BMFontTag;
+  pages: BMFontTag[];
+  chars: BMFontTag[];
+  kernings: BMFontTag[];
+  distanceField: BMFontTag | null;
+}
+
+/** BMFont descriptor variant */
+export type BMFontFormat = 'text' | 'xml' | 'binary';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Binary block types */
+const BLOCK_INFO = 1;
+const BLOCK_COMMON = 2;
+const BLOCK_PAGES = 3;
+const BLOCK_CHARS = 4;
+const BLOCK_KERNINGS = 5;
+
+/** Size of one binary char record */
+const BINARY_CHAR_SIZE = 20;
+
+/** Size of one binary kerning record */
+const BINARY_KERNING_SIZE = 10;
+
+// =============================================================================
+// FORMAT DETECTION
+// =============================================================================
+
+/**
+ * Detect the variant of a BMFont descriptor.
+ *
+ * @param data - Descriptor bytes or text
+ * @returns The format, or null if the data is not a BMFont descriptor
+ */
+export function detectBMFontFormat(data: Uint8Array | string): BMFontFormat | null {
+  if (typeof data !== 'string') {
+    // 'BMF' followed by the format version
+    if (data.length >= 4 && data[0] === 0x42 && data[1] === 0x4d && data[2] === 0x46) {
+      return 'binary';
+    }
+    data = utf8Decode(data.subarray(0, 256));
+  }
+
+  const head = data.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('info ')) return 'text';
+  if (head.startsWith('<') && /<font[\s>]/.test(data)) return 'xml';
+
+  return null;
+}
+
+// =============================================================================
+// TAG READERS
+// =============================================================================
+
+/**
+ * Read the tags of a text descriptor.
+ */
+function readTextTags(text: string): BMFontTags {
+  const tags = createTags();
+
+  for (const line of text.split(/\r?\n/)) {
+    const nameMatch = /^\s*([a-zA-Z]+)\s/.exec(line);
+    if (!nameMatch) continue;
+
+    const tag: BMFontTag = {};
+    const attribute = /([a-zA-Z]+)=(?:"([^"]*)"|(\S+))/g;
+    for (let match = attribute.exec(line); match; match = attribute.exec(line)) {
+      tag[match[1]] = match[2] ?? match[3];
+    }
+
+    addTag(tags, nameMatch[1], tag);
+  }
+
+  return tags;
+}
+
+/**
+ * Read the tags of an XML descriptor.
+ */
+function readXmlTags(text: string): BMFontTags {
+  const tags = createTags();
+  const document = DOMAdapter.get().parseXML(text);
+
+  for (const name of ['info', 'common', 'page', 'char', 'kerning', 'distanceField']) {
+    const elements = document.getElementsByTagName(name);
+
+    for (let i = 0; i < elements.length; i++) {
+      const element = elements[i];
+      const tag: BMFontTag = {};
+
+      // Only attributes that are present: xmldom returns '' for missing ones
+      for (let a = 0; a < element.attributes.length; a++) {
+        const attribute = element.attributes[a];
+        tag[attribute.name] = attribute.value;
+      }
+
+      addTag(tags, name, tag);
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Read the tags of a binary (version 3) descriptor.
+ */
+function readBinaryTags(bytes: Uint8Array): BMFontTags {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(3);
+
+  if (version !== 3) {
+    throw new Error(`parseBMFont: Unsupported binary BMFont version ${version}`);
+  }
+
+  const tags = createTags();
+  const readString = (start: number, end: number): string => {
+    let stop = start;
+    while (stop < end && bytes[stop] !== 0) stop++;
+    return utf8Decode(bytes.subarray(start, stop));
+  };
+
+  let cursor = 4;
+  while (cursor + 5 <= bytes.length) {
+    const type = view.getUint8(cursor);
+    const size = view.getUint32(cursor + 1, true);
+    const start = cursor + 5;
+    const end = Math.min(start + size, bytes.length);
+
+    switch (type) {
+      case BLOCK_INFO:
+        tags.info = {
+          size: String(view.getInt16(start, true)),
+          face: readString(start + 14, end),
+        };
+        break;
+
+      case BLOCK_COMMON:
+        tags.common = {
+          lineHeight: String(view.getUint16(start, true)),
+          base: String(view.getUint16(start + 2, true)),
+        };
+        break;
+
+      case BLOCK_PAGES: {
+        // Page names are null-terminated and all the same length
+        let nameEnd = start;
+        while (nameEnd < end && bytes[nameEnd] !== 0) nameEnd++;
+        const stride = nameEnd - start + 1;
+
+        for (let offset = start, id = 0; offset + stride <= end; offset += stride, id++) {
+          tags.pages.push({ id: String(id), file: readString(offset, end) });
+        }
+        break;
+      }
+
+      case BLOCK_CHARS:
+        for (let offset = start; offset + BINARY_CHAR_SIZE <= end; offset += BINARY_CHAR_SIZE) {
+          tags.chars.push({
+            id: String(view.getUint32(offset, true)),
+            x: String(view.getUint16(offset + 4, true)),
+            y: String(view.getUint16(offset + 6, true)),
+            width: String(view.getUint16(offset + 8, true)),
+            height: String(view.getUint16(offset + 10, true)),
+            xoffset: String(view.getInt16(offset + 12, true)),
+            yoffset: String(view.getInt16(offset + 14, true)),
+            xadvance: String(view.getInt16(offset + 16, true)),
+            page: String(view.getUint8(offset + 18)),
+          });
+        }
+        break;
+
+      case BLOCK_KERNINGS:
+        for (
+          let offset = start;
+          offset + BINARY_KERNING_SIZE <= end;
+          offset += BINARY_KERNING_SIZE
+        ) {
+          tags.kernings.push({
+            first: String(view.getUint32(offset, true)),
+            second: String(view.getUint32(offset + 4, true)),
+            amount: String(view.getInt16(offset + 8, true)),
+          });
+        }
+        break;
+    }
+
+    cursor = start + size;
+  }
+
+  return tags;
+}
+
+/**
+ * Create an empty tag collection.
+ */
+function createTags(): BMFontTags {
+  return { info: {}, common: {}, pages: [], chars: [], kernings: [], distanceField: null };
+}
+
+/**
+ * Add a tag to a collection by name.
+ */
+function addTag(tags: BMFontTags, name: string, tag: BMFontTag): void {
+  switch (name) {
+    case 'info':
+      tags.info = tag;
+      break;
+    case 'common':
+      tags.common = tag;
+      break;
+    case 'page':
+      tags.pages.push(tag);
+      break;
+    case 'char':
+      tags.chars.push(tag);
+      break;
+    case 'kerning':
+      tags.kernings.push(tag);
+      break;
+    case 'distanceField':
+      tags.distanceField = tag;
+      break;
+  }
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Read an integer attribute.
+ */
+function int(tag: BMFontTag, name: string, fallback = 0): number {
+  const value = parseInt(tag[name], 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Parse a BMFont descriptor into PixiJS bitmap font data.
+ *
+ * @param data - Descriptor bytes (any variant) or text (text or XML variant)
+ * @returns Font data for `new BitmapFont({ data, textures })`
+ * @throws Error if the data is not a supported BMFont descriptor
+ *
+ * @example
+ * ```ts
+ * const bytes = new Uint8Array(await (await DOMAdapter.get().fetch(url)).arrayBuffer());
+ * const data = parseBMFont(bytes);
+ * ```
+ */
+export function parseBMFont(data: Uint8Array | string): BitmapFontData {
+  const format = detectBMFontFormat(data);
+
+  if (!format) {
+    throw new Error('parseBMFont: Data is not a BMFont descriptor');
+  }
+
+  let tags: BMFontTags;
+  if (format === 'binary') {
+    tags = readBinaryTags(data as Uint8Array);
+  } else {
+    const text = typeof data === 'string' ? data : utf8Decode(data);
+    tags = format === 'text' ? readTextTags(text) : readXmlTags(text);
+  }
+
+  const lineHeight = int(tags.common, 'lineHeight');
+  const font: BitmapFontData = {
+    chars: {},
+    pages: tags.pages.map((page) => ({ id: int(page, 'id'), file: page.file ?? '' })),
+    lineHeight,
+    // Negative sizes mean "match char height"
+    fontSize: Math.abs(int(tags.info, 'size')),
+    fontFamily: tags.info.face ?? '',
+    baseLineOffset: lineHeight - int(tags.common, 'base', lineHeight),
+  };
+
+  if (tags.distanceField) {
+    font.distanceField = {
+      range: int(tags.distanceField, 'distanceRange'),
+      type: (tags.distanceField.fieldType ?? 'none') as 'sdf' | 'msdf' | 'none',
+    };
+  }
+
+  // Letters by char id, for resolving kerning pairs
+  const letters = new Map<number, string>();
+
+  for (const tag of tags.chars) {
+    const id = int(tag, 'id');
+    let letter = tag.letter ?? tag.char ?? String.fromCodePoint(id);
+    if (letter === 'space') letter = ' ';
+
+    letters.set(id, letter);
+    font.chars[letter] = {
+      id,
+      letter,
+      page: int(tag, 'page'),
+      x: int(tag, 'x'),
+      y: int(tag, 'y'),
+      width: int(tag, 'width'),
+      height: int(tag, 'height'),
+      xOffset: int(tag, 'xoffset'),
+      yOffset: int(tag, 'yoffset'),
+      xAdvance: int(tag, 'xadvance'),
+      kerning: {},
+    } as RawCharData;
+  }
+
+  for (const tag of tags.kernings) {
+    const first = letters.get(int(tag, 'first'));
+    const second = letters.get(int(tag, 'second'));
+
+    // Pairs referencing characters missing from the font are ignored
+    if (first !== undefined && second !== undefined) {
+      font.chars[second].kerning[first] = int(tag, 'amount');
+    }
+  }
+
+  return font;
+}
@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Glyph outlines from TrueType glyf/loca tables.
+ *
+ * @module @penabt/pixi-expo/text/trueTypeOutlines
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { type GlyphCommand, type OutlineReader, OutlineBuilder } from './glyphOutline';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Simple glyph flags */
+const ON_CURVE = 0x01;
+const X_SHORT = 0x02;
+const Y_SHORT = 0x04;
+const REPEAT = 0x08;
+const X_SAME_OR_POSITIVE = 0x10;
+const Y_SAME_OR_POSITIVE = 0x20;
+
+/** Composite glyph flags */
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const ARGS_ARE_XY_VALUES = 0x0002;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+/** Maximum nesting of composite glyphs */
+const MAX_COMPONENT_DEPTH = 8;
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Contour point */
+interface Point {
+  x: number;
+  y: number;
+  onCurve: boolean;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Read the contours of a simple glyph.
+ */
+function readSimpleGlyph(view: DataView, offset: number, contourCount: number): Point[][] {
+  const endPoints: number[] = [];
+  for (let i = 0; i < contourCount; i++) {
+    endPoints.push(view.getUint16(offset + 10 + i * 2));
+  }
+
+  const pointCount = contourCount > 0 ? endPoints[contourCount - 1] + 1 : 0;
+  const instructionLength = view.getUint16(offset + 10 + contourCount * 2);
+  let cursor = offset + 12 + contourCount * 2 + instructionLength;
+
+  // Flags, with run-length repeats
+  const flags: number[] = [];
+  while (flags.length < pointCount) {
+    const flag = view.getUint8(cursor++);
+    flags.push(flag);
+
+    if (flag & REPEAT) {
+      let repeat = view.getUint8(cursor++);
+      while (repeat-- > 0 && flags.length < pointCount) flags.push(flag);
+    }
+  }
+
+  // Coordinates are stored as deltas
+  const xs: number[] = [];
+  let x = 0;
+  for (const flag of flags) {
+    if (flag & X_SHORT) {
+      const delta = view.getUint8(cursor++);
+      x += flag & X_SAME_OR_POSITIVE ? delta : -delta;
+    } else if (!(flag & X_SAME_OR_POSITIVE)) {
+      x += view.getInt16(cursor);
+      cursor += 2;
+    }
+    xs.push(x);
+  }
+
+  const ys: number[] = [];
+  let y = 0;
+  for (const flag of flags) {
+    if (flag & Y_SHORT) {
+      const delta = view.getUint8(cursor++);
+      y += flag & Y_SAME_OR_POSITIVE ? delta : -delta;
+    } else if (!(flag & Y_SAME_OR_POSITIVE)) {
+      y += view.getInt16(cursor);
+      cursor += 2;
+    }
+    ys.push(y);
+  }
+
+  const contours: Point[][] = [];
+  let start = 0;
+  for (const end of endPoints) {
+    const contour: Point[] = [];
+    for (let i = start; i <= end; i++) {
+      contour.push({ x: xs[i], y: ys[i], onCurve: (flags[i] & ON_CURVE) !== 0 });
+    }
+    contours.push(contour);
+    start = end + 1;
+  }
+
+  return contours;
+}
+
+/**
+ * Convert quadratic contours (with implied on-curve points) to commands.
+ */
+function contoursToCommands(contours: Point[][], builder: OutlineBuilder): void {
+  for (const contour of contours) {
+    if (contour.length === 0) continue;
+
+    // Start on an on-curve point, or the midpoint of two off-curve points
+    const firstOn = contour.findIndex((point) => point.onCurve);
+    let start: Point;
+    let ordered: Point[];
+
+    if (firstOn >= 0) {
+      start = contour[firstOn];
+      ordered = [...contour.slice(firstOn + 1), ...contour.slice(0, firstOn)];
+    } else {
+      const a = contour[contour.length - 1];
+      const b = contour[0];
+      start = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, onCurve: true };
+      ordered = contour;
+    }
+
+    builder.moveTo(start.x, start.y);
+
+    let control: Point | null = null;
+    for (const point of ordered) {
+      if (point.onCurve) {
+        if (control) builder.quadTo(control.x, control.y, point.x, point.y);
+        else builder.lineTo(point.x, point.y);
+        control = null;
+      } else {
+        if (control) {
+          const midX = (control.x + point.x) / 2;
+          const midY = (control.y + point.y) / 2;
+          builder.quadTo(control.x, control.y, midX, midY);
+        }
+        control = point;
+      }
+    }
+
+    // Close back to the start point
+    if (control) builder.quadTo(control.x, control.y, start.x, start.y);
+    builder.close();
+  }
+}
+
+/**
+ * Create an outline reader for a TrueType font.
+ *
+ * @param view - View over the font file
+ * @param glyfOffset - Offset of the glyf table
+ * @param locaOffset - Offset of the loca table
+ * @param longOffsets - Whether loca uses 32-bit offsets (head.indexToLocFormat)
+ * @param numGlyphs - Number of glyphs in the font
+ * @returns Outline reader
+ */
+export function createTrueTypeOutlineReader(
+  view: DataView,
+  glyfOffset: number,
+  locaOffset: number,
+  longOffsets: boolean,
+  numGlyphs: number,
+): OutlineReader {
+  const glyphRange = (glyph: number): [number, number] => {
+    if (longOffsets) {
+      return [view.getUint32(locaOffset + glyph * 4), view.getUint32(locaOffset + glyph * 4 + 4)];
+    }
+    return [
+      view.getUint16(locaOffset + glyph * 2) * 2,
+      view.getUint16(locaOffset + glyph * 2 + 2) * 2,
+    ];
+  };
+
+  const readContours = (glyph: number, depth: number): Point[][] => {
+    if (glyph >= numGlyphs || depth > MAX_COMPONENT_DEPTH) return [];
+
+    const [start, end] = glyphRange(glyph);
+    if (end <= start) return []; // Empty glyph (e.g. space)
+
+    const offset = glyfOffset + start;
+    const contourCount = view.getInt16(offset);
+
+    if (contourCount >= 0) {
+      return readSimpleGlyph(view, offset, contourCount);
+    }
+
+    // Composite glyph: transformed copies of other glyphs
+    const contours: Point[][] = [];
+    let cursor = offset + 10;
+    let flags: number;
+
+    do {
+      flags = view.getUint16(cursor);
+      const component = view.getUint16(cursor + 2);
+      cursor += 4;
+
+      let dx = 0;
+      let dy = 0;
+      if (flags & ARG_1_AND_2_ARE_WORDS) {
+        dx = view.getInt16(cursor);
+        dy = view.getInt16(cursor + 2);
+        cursor += 4;
+      } else {
+        dx = view.getInt8(cursor);
+        dy = view.getInt8(cursor + 1);
+        cursor += 2;
+      }
+
+      // Point-matched placement is not supported; such components are unshifted
+      if (!(flags & ARGS_ARE_XY_VALUES)) {
+        dx = 0;
+        dy = 0;
+      }
+
+      let a = 1;
+      let b = 0;
+      let c = 0;
+      let d = 1;
+      if (flags & WE_HAVE_A_SCALE) {
+        a = d = view.getInt16(cursor) / 16384;
+        cursor += 2;
+      } else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) {
+        a = view.getInt16(cursor) / 16384;
+        d = view.getInt16(cursor + 2) / 16384;
+        cursor += 4;
+      } else if (flags & WE_HAVE_A_TWO_BY_TWO) {
+        a = view.getInt16(cursor) / 16384;
+        b = view.getInt16(cursor + 2) / 16384;
+        c = view.getInt16(cursor + 4) / 16384;
+        d = view.getInt16(cursor + 6) / 16384;
+        cursor += 8;
+      }
+
+      for (const contour of readContours(component, depth + 1)) {
+        contours.push(
+          contour.map((point) => ({
+            x: a * point.x + c * point.y + dx,
+            y: b * point.x + d * point.y + dy,
+            onCurve: point.onCurve,
+          })),
+        );
+      }
+    } while (flags & MORE_COMPONENTS);
+
+    return contours;
+  };
+
+  return (glyph: number): GlyphCommand[] => {
+    const builder = new OutlineBuilder();
+    contoursToCommands(readContours(glyph, 0), builder);
+    return builder.commands;
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { computeDesignScale, viewToDesignPoint, type DesignScale } from './designScale';
+
+/**
+ * Compute a design scale with -0 (from negating a zero offset) turned into 0.
+ */
+function scaleFor(...args: Parameters<typeof computeDesignScale>): DesignScale {
+  const { visibleRect, ...scale } = computeDesignScale(...args);
+  return {
+    ...scale,
+    visibleRect: {
+      x: visibleRect.x + 0,
+      y: visibleRect.y + 0,
+      width: visibleRect.width,
+      height: visibleRect.height,
+    },
+  };
+}
+
+// A 100x200 design on a 400x400 view: 4x fits the width, 2x the height
+
+describe('computeDesignScale', () => {
+  it('fits uniformly and centers with letterboxing', () => {
+    expect(scaleFor(400, 400, 100, 200, 'fit')).toEqual({
+      scaleX: 2,
+      scaleY: 2,
+      offsetX: 100,
+      offsetY: 0,
+      visibleRect: { x: -50, y: 0, width: 200, height: 200 },
+    });
+  });
+
+  it('fits by default', () => {
+    expect(computeDesignScale(400, 400, 100, 200)).toEqual(
+      computeDesignScale(400, 400, 100, 200, 'fit'),
+    );
+  });
+
+  it('fills uniformly and centers with cropping', () => {
+    expect(scaleFor(400, 400, 100, 200, 'fill')).toEqual({
+      scaleX: 4,
+      scaleY: 4,
+      offsetX: 0,
+      offsetY: -200,
+      visibleRect: { x: 0, y: 50, width: 100, height: 100 },
+    });
+  });
+
+  it('stretches each axis to the view', () => {
+    expect(scaleFor(400, 400, 100, 200, 'stretch')).toEqual({
+      scaleX: 4,
+      scaleY: 2,
+      offsetX: 0,
+      offsetY: 0,
+      visibleRect: { x: 0, y: 0, width: 100, height: 200 },
+    });
+  });
+
+  it('expands the design area to the right or bottom from the top-left', () => {
+    expect(scaleFor(400, 400, 100, 200, 'expand')).toEqual({
+      scaleX: 2,
+      scaleY: 2,
+      offsetX: 0,
+      offsetY: 0,
+      visibleRect: { x: 0, y: 0, width: 200, height: 200 },
+    });
+    expect(scaleFor(200, 800, 100, 200, 'expand').visibleRect).toEqual({
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 400,
+    });
+  });
+
+  it('throws for an empty design size', () => {
+    expect(() => computeDesignScale(400, 400, 0, 200)).toThrow('Invalid design size 0x200');
+  });
+});
+
+describe('viewToDesignPoint', () => {
+  it('maps view points through a letterbox offset', () => {
+    const designScale = computeDesignScale(400, 400, 100, 200, 'fit');
+
+    expect(viewToDesignPoint(100, 0, designScale)).toEqual({ x: 0, y: 0 });
+    expect(viewToDesignPoint(300, 400, designScale)).toEqual({ x: 100, y: 200 });
+    expect(viewToDesignPoint(0, 100, designScale)).toEqual({ x: -50, y: 50 });
+  });
+
+  it('maps view points through a crop offset', () => {
+    const designScale = computeDesignScale(400, 400, 100, 200, 'fill');
+
+    expect(viewToDesignPoint(0, 0, designScale)).toEqual({ x: 0, y: 50 });
+    expect(viewToDesignPoint(400, 400, designScale)).toEqual({ x: 100, y: 150 });
+  });
+
+  it('maps the corners of the view to the visible rectangle', () => {
+    const designScale = computeDesignScale(390, 844, 1080, 1920, 'fit');
+    const { visibleRect } = designScale;
+
+    const topLeft = viewToDesignPoint(0, 0, designScale);
+    const bottomRight = viewToDesignPoint(390, 844, designScale);
+
+    expect(topLeft.x).toBeCloseTo(visibleRect.x);
+    expect(topLeft.y).toBeCloseTo(visibleRect.y);
+    expect(bottomRight.x).toBeCloseTo(visibleRect.x + visibleRect.width);
+    expect(bottomRight.y).toBeCloseTo(visibleRect.y + visibleRect.height);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Design-resolution scaling.
+ *
+ * Maps a fixed design size (e.g. 1080x1920) onto a view of any size, the
+ * way games letterbox, crop or stretch their content to fit phones and
+ * tablets. PixiView applies the result to the stage's scale and position.
+ *
+ * @module @penabt/pixi-expo/designScale
+ * @author Pena Team
+ * @license MIT
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * How the design area is fitted into the view:
+ * - 'fit': scale uniformly to fit inside the view and center (letterboxing)
+ * - 'fill': scale uniformly to cover the view and center (cropping)
+ * - 'stretch': scale each axis to the view (distorting)
+ * - 'expand': scale uniformly to fit, anchored top-left, and extend the
+ *   design area to the right or bottom to fill the view
+ */
+export type DesignScaleMode = 'fit' | 'fill' | 'stretch' | 'expand';
+
+/** Rectangle in design coordinates */
+export interface DesignRect {
+  /** Left edge */
+  x: number;
+  /** Top edge */
+  y: number;
+  /** Width */
+  width: number;
+  /** Height */
+  height: number;
+}
+
+/** Mapping from design coordinates to view points */
+export interface DesignScale {
+  /** Horizontal scale from design units to view points */
+  scaleX: number;
+  /** Vertical scale from design units to view points */
+  scaleY: number;
+  /** View x of the design origin, in points */
+  offsetX: number;
+  /** View y of the design origin, in points */
+  offsetY: number;
+  /** Part of design space that is visible in the view */
+  visibleRect: DesignRect;
+}
+
+// =============================================================================
+// SCALING
+// =============================================================================
+
+/**
+ * Compute how a design area maps onto a view.
+ *
+ * @param viewWidth - View width in points
+ * @param viewHeight - View height in points
+ * @param designWidth - Design width in design units
+ * @param designHeight - Design height in design units
+ * @param mode - Scale mode (default: 'fit')
+ * @returns Scale, offset and visible design rectangle
+ *
+ * @example
+ * ```ts
+ * // 1080x1920 design on a 390x844 phone
+ * const { scaleX, offsetY, visibleRect } = computeDesignScale(390, 844, 1080, 1920, 'fit');
+ * // scaleX ≈ 0.361, offsetY ≈ 75.3, visibleRect.y ≈ -208.6 (letterbox above)
+ * ```
+ */
+export function computeDesignScale(
+  viewWidth: number,
+  viewHeight: number,
+  designWidth: number,
+  designHeight: number,
+  mode: DesignScaleMode = 'fit',
+): DesignScale {
+  if (designWidth <= 0 || designHeight <= 0) {
+    throw new Error(`computeDesignScale: Invalid design size ${designWidth}x${designHeight}`);
+  }
+
+  const fitX = viewWidth / designWidth;
+  const fitY = viewHeight / designHeight;
+
+  let scaleX: number;
+  let scaleY: number;
+  let offsetX = 0;
+  let offsetY = 0;
+
+  switch (mode) {
+    case 'stretch':
+      scaleX = fitX;
+      scaleY = fitY;
+      break;
+
+    case 'expand':
+      scaleX = scaleY = Math.min(fitX, fitY);
+      break;
+
+    case 'fill':
+    case 'fit':
+    default:
+      scaleX = scaleY = mode === 'fill' ? Math.max(fitX, fitY) : Math.min(fitX, fitY);
+      offsetX = (viewWidth - designWidth * scaleX) / 2;
+      offsetY = (viewHeight - designHeight * scaleY) / 2;
+      break;
+  }
+
+  return {
+    scaleX,
+    scaleY,
+    offsetX,
+    offsetY,
+    visibleRect: {
+      x: -offsetX / scaleX,
+      y: -offsetY / scaleY,
+      width: viewWidth / scaleX,
+      height: viewHeight / scaleY,
+    },
+  };
+}
+
+/**
+ * Convert a point in view points to design coordinates.
+ *
+ * @param x - View x in points
+ * @param y - View y in points
+ * @param designScale - Mapping from computeDesignScale
+ * @returns Point in design coordinates
+ */
+export function viewToDesignPoint(
+  x: number,
+  y: number,
+  designScale: DesignScale,
+): { x: number; y: number } {
+  return {
+    x: (x - designScale.offsetX) / designScale.scaleX,
+    y: (y - designScale.offsetY) / designScale.scaleY,
+  };
+}
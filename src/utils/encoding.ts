@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Text and binary encoding helpers.
+ *
+ * React Native's JS engines don't reliably provide TextDecoder, atob/btoa or
+ * Blob construction from binary data, so the adapter ships small pure
+ * TypeScript implementations of the conversions it needs.
+ *
+ * @module @penabt/pixi-expo/encoding
+ * @author Pena Team
+ * @license MIT
+ */
+
+// =============================================================================
+// UTF-8
+// =============================================================================
+
+/**
+ * Decode UTF-8 bytes into a string.
+ * Uses the native TextDecoder when available.
+ *
+ * @param bytes - UTF-8 encoded bytes
+ * @returns Decoded string
+ */
+export function utf8Decode(bytes: Uint8Array): string {
+  if (typeof TextDecoder !== 'undefined') {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+
+  let result = '';
+  let i = 0;
+
+  // Skip byte order mark
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    i = 3;
+  }
+
+  while (i < bytes.length) {
+    const byte1 = bytes[i++];
+    let codePoint: number;
+
+    if (byte1 < 0x80) {
+      codePoint = byte1;
+    } else if (byte1 >= 0xc0 && byte1 < 0xe0) {
+      codePoint = ((byte1 & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte1 >= 0xe0 && byte1 < 0xf0) {
+      codePoint = ((byte1 & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte1 >= 0xf0) {
+      codePoint =
+        ((byte1 & 0x07) << 18) |
+        ((bytes[i++] & 0x3f) << 12) |
+        ((bytes[i++] & 0x3f) << 6) |
+        (bytes[i++] & 0x3f);
+    } else {
+      // Stray continuation byte
+      codePoint = 0xfffd;
+    }
+
+    result += String.fromCodePoint(codePoint);
+  }
+
+  return result;
+}
+
+/**
+ * Encode a string as UTF-8 bytes.
+ * Uses the native TextEncoder when available.
+ *
+ * @param text - String to encode
+ * @returns UTF-8 encoded bytes
+ */
+export function utf8Encode(text: string): Uint8Array {
+  if (typeof TextEncoder !== 'undefined') {
+    return new TextEncoder().encode(text);
+  }
+
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f),
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f),
+      );
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+// =============================================================================
+// BASE64
+// =============================================================================
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** Reverse lookup table for base64 decoding */
+const BASE64_LOOKUP = new Uint8Array(128);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+
+/**
+ * Encode bytes as a base64 string.
+ *
+ * @param bytes - Bytes to encode
+ * @returns Base64 string (with padding)
+ */
+export function base64Encode(bytes: Uint8Array): string {
+  let result = '';
+  const length = bytes.length;
+
+  for (let i = 0; i < length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < length ? bytes[i + 2] : 0;
+
+    result += BASE64_ALPHABET[b0 >> 2];
+    result += BASE64_ALPHABET[((b0 & 0x03) << 4) | (b1 >> 4)];
+    result += i + 1 < length ? BASE64_ALPHABET[((b1 & 0x0f) << 2) | (b2 >> 6)] : '=';
+    result += i + 2 < length ? BASE64_ALPHABET[b2 & 0x3f] : '=';
+  }
+
+  return result;
+}
+
+/**
+ * Decode a base64 string into bytes.
+ * Whitespace and padding are ignored.
+ *
+ * @param base64 - Base64 string
+ * @returns Decoded bytes
+ */
+export function base64Decode(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let offset = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const c0 = BASE64_LOOKUP[clean.charCodeAt(i)];
+    const c1 = BASE64_LOOKUP[clean.charCodeAt(i + 1)];
+    const c2 = i + 2 < clean.length ? BASE64_LOOKUP[clean.charCodeAt(i + 2)] : 0;
+    const c3 = i + 3 < clean.length ? BASE64_LOOKUP[clean.charCodeAt(i + 3)] : 0;
+
+    bytes[offset++] = (c0 << 2) | (c1 >> 4);
+    if (i + 2 < clean.length) bytes[offset++] = ((c1 & 0x0f) << 4) | (c2 >> 2);
+    if (i + 3 < clean.length) bytes[offset++] = ((c2 & 0x03) << 6) | c3;
+  }
+
+  return bytes.subarray(0, offset);
+}
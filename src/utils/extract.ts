@@ -0,0 +1,260 @@
+/**
+ * @fileoverview Pixel, base64 and file extraction of display objects.
+ *
+ * React Native counterpart of `renderer.extract`: renders a Container (or
+ * reads a Texture) into a RenderTexture, reads it back with gl.readPixels
+ * and returns straight-alpha RGBA rows, an encoded image or a cache file,
+ * without going through a canvas element.
+ *
+ * @module @penabt/pixi-expo/extract
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { Container, Rectangle, Texture } from 'pixi.js';
+import type { ColorSource, Renderer } from 'pixi.js';
+import { writeCacheFile } from '../adapter/expoFiles';
+import { encodeImage, unpremultiplyPixels } from '../image';
+import type { EncodedImage } from '../image';
+import { base64Encode } from './encoding';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Image formats extracted pixels can be encoded as */
+export type ExtractImageFormat = 'png' | 'jpeg';
+
+/** Area of a target to extract, in its local coordinates */
+export interface ExtractFrame {
+  /** Left edge */
+  x: number;
+  /** Top edge */
+  y: number;
+  /** Width */
+  width: number;
+  /** Height */
+  height: number;
+}
+
+/** Options for extractPixels */
+export interface ExtractOptions {
+  /**
+   * Area of a Container to render, in its local coordinates.
+   * Ignored for textures.
+   * @default The container's local bounds
+   */
+  frame?: ExtractFrame;
+
+  /**
+   * Output pixels per unit.
+   * @default The renderer's resolution
+   */
+  resolution?: number;
+
+  /**
+   * Color the render texture is cleared with before a Container is drawn.
+   * @default Transparent
+   */
+  clearColor?: ColorSource;
+
+  /**
+   * Antialias the render texture a Container is drawn into.
+   * @default The renderer's antialias setting
+   */
+  antialias?: boolean;
+}
+
+/** Options for extractBase64 and extractToFile */
+export interface ExtractImageOptions extends ExtractOptions {
+  /**
+   * Image format.
+   * @default 'png'
+   */
+  format?: ExtractImageFormat;
+
+  /**
+   * JPEG quality from 0 to 1. Ignored for PNG.
+   * @default 0.92
+   */
+  quality?: number;
+}
+
+/** Pixels returned by extractPixels */
+export interface ExtractedPixels {
+  /** Straight (non-premultiplied) RGBA pixels, top row first */
+  pixels: Uint8Array;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** MIME type of each image format */
+const FORMAT_TYPES: Record<ExtractImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+};
+
+/** Counter for naming cache files */
+let fileCounter = 0;
+
+// =============================================================================
+// SHARED HELPERS
+// Also used by takeSnapshot.
+// =============================================================================
+
+/**
+ * Read the pixels of a texture as straight-alpha RGBA rows.
+ *
+ * @param renderer - Renderer that owns the texture
+ * @param texture - Texture or RenderTexture to read
+ * @returns Pixels and their size
+ */
+export function readTexturePixels(renderer: Renderer, texture: Texture): ExtractedPixels {
+  // readPixels of a render texture returns top-down rows with premultiplied alpha
+  const { pixels, width, height } = renderer.extract.pixels(texture);
+  const bytes = new Uint8Array(pixels.buffer, pixels.byteOffset, pixels.byteLength);
+
+  return { pixels: unpremultiplyPixels(bytes), width, height };
+}
+
+/**
+ * Encode extracted pixels in an image format.
+ *
+ * @param extracted - Pixels from readTexturePixels
+ * @param format - Image format (default: 'png')
+ * @param quality - JPEG quality 0-1
+ * @returns Encoded bytes and MIME type
+ */
+export function encodeExtractedPixels(
+  { pixels, width, height }: ExtractedPixels,
+  format: ExtractImageFormat = 'png',
+  quality?: number,
+): EncodedImage {
+  return encodeImage(pixels, width, height, { type: FORMAT_TYPES[format], quality });
+}
+
+/**
+ * Write an encoded image to the cache directory under a unique name.
+ *
+ * @param image - Encoded image
+ * @param prefix - File name prefix
+ * @returns `file://` URI of the written file
+ */
+export function writeImageFile(image: EncodedImage, prefix: string): string {
+  fileCounter += 1;
+  const extension = image.type === 'image/jpeg' ? '.jpg' : '.png';
+
+  return writeCacheFile(`${prefix}-${Date.now()}-${fileCounter}${extension}`, image.bytes);
+}
+
+// =============================================================================
+// EXTRACTION
+// =============================================================================
+
+/**
+ * Read a display object or texture as RGBA pixels.
+ *
+ * Containers are rendered into a temporary RenderTexture, which is
+ * destroyed afterwards; textures are read directly.
+ *
+ * @param renderer - Renderer of the view the target belongs to
+ * @param target - Container or Texture to read
+ * @param options - Frame, resolution, clear color and antialias
+ * @returns Straight-alpha pixels, top row first
+ *
+ * @example
+ * ```ts
+ * const { pixels, width, height } = extractPixels(app.renderer, sprite);
+ * ```
+ */
+export function extractPixels(
+  renderer: Renderer,
+  target: Container | Texture,
+  options: ExtractOptions = {},
+): ExtractedPixels {
+  if (target instanceof Texture) {
+    return readTexturePixels(renderer, target);
+  }
+
+  if (!(target instanceof Container)) {
+    throw new Error('extractPixels: Target must be a Container or a Texture');
+  }
+
+  const { frame } = options;
+  const texture = renderer.textureGenerator.generateTexture({
+    target,
+    frame: frame ? new Rectangle(frame.x, frame.y, frame.width, frame.height) : undefined,
+    resolution: options.resolution,
+    clearColor: options.clearColor,
+    antialias: options.antialias,
+  });
+
+  try {
+    return readTexturePixels(renderer, texture);
+  } finally {
+    texture.destroy(true);
+  }
+}
+
+/**
+ * Extract a display object or texture as a base64 data URI.
+ *
+ * @param renderer - Renderer of the view the target belongs to
+ * @param target - Container or Texture to read
+ * @param options - Extract options plus format and quality
+ * @returns `data:image/png;base64,...` or `data:image/jpeg;base64,...`
+ *
+ * @example
+ * ```ts
+ * const uri = extractBase64(app.renderer, scoreCard, { format: 'jpeg', quality: 0.8 });
+ * <Image source={{ uri }} />;
+ * ```
+ */
+export function extractBase64(
+  renderer: Renderer,
+  target: Container | Texture,
+  options: ExtractImageOptions = {},
+): string {
+  const image = encodeExtractedPixels(
+    extractPixels(renderer, target, options),
+    options.format,
+    options.quality,
+  );
+
+  return `data:${image.type};base64,${base64Encode(image.bytes)}`;
+}
+
+/**
+ * Extract a display object or texture into an image file in the cache
+ * directory.
+ *
+ * @param renderer - Renderer of the view the target belongs to
+ * @param target - Container or Texture to read
+ * @param options - Extract options plus format and quality
+ * @returns `file://` URI of the written file
+ *
+ * @example
+ * ```ts
+ * const uri = extractToFile(app.renderer, scoreCard, { format: 'png' });
+ * await Sharing.shareAsync(uri);
+ * ```
+ */
+export function extractToFile(
+  renderer: Renderer,
+  target: Container | Texture,
+  options: ExtractImageOptions = {},
+): string {
+  const image = encodeExtractedPixels(
+    extractPixels(renderer, target, options),
+    options.format,
+    options.quality,
+  );
+
+  return writeImageFile(image, 'pixi-expo-extract');
+}
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Frame rate limiting aligned to the display's refresh.
+ *
+ * PixiJS's Ticker.maxFPS compares truncated frame times against the target
+ * interval, so on 90 and 120 Hz displays a 60 FPS cap drops to 40-45 FPS and
+ * rAF timestamp jitter skips frames that should run. The pacer here measures
+ * the refresh interval from the animation frames it sees and lets a frame run
+ * when it is within half a refresh of its slot on an ideal grid, so a cap
+ * that divides the refresh rate lands exactly on it.
+ *
+ * @module @penabt/pixi-expo/framePacer
+ * @author Pena Team
+ * @license MIT
+ */
+
+import type { Ticker } from 'pixi.js';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Frame rate settings for a ticker */
+export interface FrameRateOptions {
+  /**
+   * Highest rate the ticker runs at. 0 runs at the display's refresh rate.
+   * @default 0
+   */
+  maxFPS?: number;
+
+  /**
+   * Lowest rate the ticker's delta is computed for: after a longer frame,
+   * deltaMS is clamped to 1000 / minFPS. PixiJS caps this at 60.
+   * @default 10
+   */
+  minFPS?: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Refresh interval assumed until frames have been measured (60 Hz) */
+const DEFAULT_REFRESH_INTERVAL = 1000 / 60;
+
+/** Frame gaps longer than this are stalls, not refreshes */
+const MAX_REFRESH_INTERVAL = 50;
+
+/** Weight of each new frame gap in the refresh interval estimate */
+const REFRESH_SMOOTHING = 0.1;
+
+/** Pacers installed on tickers */
+const pacers = new WeakMap<Ticker, FramePacer>();
+
+// =============================================================================
+// FRAME PACER
+// =============================================================================
+
+/**
+ * Decides which animation frames run under a frame rate cap.
+ *
+ * @example
+ * ```ts
+ * const pacer = new FramePacer(30);
+ * const loop = (time: number) => {
+ *   if (pacer.shouldRunFrame(time)) update(time);
+ *   requestAnimationFrame(loop);
+ * };
+ * ```
+ */
+export class FramePacer {
+  /** Frame rate cap, 0 for none */
+  public maxFPS: number;
+
+  /** Slot of the last frame that ran on the ideal grid */
+  private _lastFrameTime = -Infinity;
+
+  /** Time of the last animation frame seen, run or skipped */
+  private _lastCallbackTime = -Infinity;
+
+  /** Estimated display refresh interval in milliseconds */
+  private _refreshInterval = DEFAULT_REFRESH_INTERVAL;
+
+  /**
+   * Create a new FramePacer.
+   *
+   * @param maxFPS - Frame rate cap, 0 for none (default: 0)
+   */
+  constructor(maxFPS = 0) {
+    this.maxFPS = maxFPS;
+  }
+
+  /** Estimated display refresh rate in frames per second */
+  get refreshRate(): number {
+    return 1000 / this._refreshInterval;
+  }
+
+  /**
+   * Record an animation frame and decide whether it runs.
+   *
+   * @param time - Frame timestamp in milliseconds
+   * @returns true if the frame should run
+   */
+  shouldRunFrame(time: number): boolean {
+    const gap = time - this._lastCallbackTime;
+    this._lastCallbackTime = time;
+
+    if (gap > 0 && gap < MAX_REFRESH_INTERVAL) {
+      this._refreshInterval += (gap - this._refreshInterval) * REFRESH_SMOOTHING;
+    }
+
+    if (this.maxFPS <= 0) return true;
+
+    const interval = 1000 / this.maxFPS;
+    const elapsed = time - this._lastFrameTime;
+
+    if (elapsed < interval - this._refreshInterval / 2) return false;
+
+    // Advance on the ideal grid so uneven refreshes average out; resync after a stall
+    this._lastFrameTime = elapsed > interval * 2 ? time : this._lastFrameTime + interval;
+    return true;
+  }
+}
+
+// =============================================================================
+// TICKER INTEGRATION
+// =============================================================================
+
+/**
+ * Install a FramePacer on a ticker, wrapping its update() so that capped
+ * frames are skipped before they reach the listeners.
+ *
+ * @param ticker - Ticker to pace
+ * @returns The ticker's pacer
+ */
+function getFramePacer(ticker: Ticker): FramePacer {
+  const existing = pacers.get(ticker);
+  if (existing) return existing;
+
+  const pacer = new FramePacer();
+  const update = ticker.update.bind(ticker);
+
+  ticker.update = (currentTime = performance.now()) => {
+    // A skipped frame keeps lastTime, so the next frame's delta covers it
+    if (pacer.shouldRunFrame(currentTime)) {
+      update(currentTime);
+    }
+  };
+
+  pacers.set(ticker, pacer);
+  return pacer;
+}
+
+/**
+ * Set the frame rate range of a ticker.
+ *
+ * maxFPS is enforced by a display-aligned pacer instead of Ticker.maxFPS;
+ * minFPS is passed to Ticker.minFPS.
+ *
+ * @param ticker - Ticker to configure
+ * @param options - Frame rate cap and delta clamp
+ *
+ * @example
+ * ```ts
+ * setTickerFrameRate(app.ticker, { maxFPS: 30 }); // Low-power mode
+ * setTickerFrameRate(app.ticker, { maxFPS: 0 }); // Full refresh rate
+ * ```
+ */
+export function setTickerFrameRate(ticker: Ticker, options: FrameRateOptions): void {
+  const { maxFPS = 0, minFPS = 10 } = options;
+
+  // Ticker.minFPS is clamped to Ticker.maxFPS, which reads 0 when uncapped
+  ticker.maxFPS = 1000;
+  ticker.minFPS = minFPS;
+  ticker.maxFPS = 0;
+
+  getFramePacer(ticker).maxFPS = Math.max(0, maxFPS);
+}
+
+/**
+ * Get the display refresh rate measured by a ticker's pacer.
+ *
+ * @param ticker - Ticker configured with setTickerFrameRate
+ * @returns Refresh rate in Hz, or null if the ticker has no pacer
+ */
+export function getTickerRefreshRate(ticker: Ticker): number | null {
+  return pacers.get(ticker)?.refreshRate ?? null;
+}
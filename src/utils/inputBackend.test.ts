@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SimulatedTouchSource, type GestureTouchListener } from './inputBackend';
+import { convertGestureTouchToPointerEvents, createTouchTracker } from './touchEventBridge';
+
+vi.mock('react-native', () => ({ PixelRatio: { get: () => 2 } }));
+
+/**
+ * Subscribe a recording listener to a source.
+ */
+function record(source: SimulatedTouchSource) {
+  const calls: Parameters<GestureTouchListener>[] = [];
+  const unsubscribe = source.subscribe((event, eventType) => calls.push([event, eventType]));
+  return { calls, unsubscribe };
+}
+
+describe('SimulatedTouchSource', () => {
+  it('emits down, move and up with changed and remaining touches', () => {
+    const source = new SimulatedTouchSource();
+    const { calls } = record(source);
+
+    source.touchDown(0, 10, 20);
+    source.touchDown(1, 30, 40);
+    source.touchMove(0, 15, 25);
+    source.touchUp(1);
+
+    expect(calls.map(([, type]) => type)).toEqual([
+      'pointerdown',
+      'pointerdown',
+      'pointermove',
+      'pointerup',
+    ]);
+
+    const [move] = calls[2];
+    expect(move.changedTouches).toEqual([{ id: 0, x: 15, y: 25, absoluteX: 15, absoluteY: 25 }]);
+    expect(move.numberOfTouches).toBe(2);
+
+    // A lifted touch is still reported in the event that lifts it
+    const [up] = calls[3];
+    expect(up.changedTouches.map((touch) => touch.id)).toEqual([1]);
+    expect(up.allTouches.map((touch) => touch.id)).toEqual([0, 1]);
+    expect(source.activeTouchCount).toBe(1);
+  });
+
+  it('offsets absolute coordinates by the origin', () => {
+    const source = new SimulatedTouchSource();
+    source.origin = { x: 100, y: 50 };
+    const { calls } = record(source);
+
+    source.touchDown(3, 5, 6);
+
+    expect(calls[0][0].changedTouches[0]).toEqual({
+      id: 3,
+      x: 5,
+      y: 6,
+      absoluteX: 105,
+      absoluteY: 56,
+    });
+  });
+
+  it('cancels every touch that is down at once', () => {
+    const source = new SimulatedTouchSource();
+    const { calls } = record(source);
+
+    source.touchDown(0, 0, 0);
+    source.touchDown(1, 1, 1);
+    source.touchCancel();
+    source.touchCancel();
+
+    expect(calls).toHaveLength(3);
+    expect(calls[2][1]).toBe('pointercancel');
+    expect(calls[2][0].changedTouches.map((touch) => touch.id)).toEqual([0, 1]);
+    expect(source.activeTouchCount).toBe(0);
+  });
+
+  it('taps with a down and an up at the same position', () => {
+    const source = new SimulatedTouchSource();
+    const { calls } = record(source);
+
+    source.tap(7, 8);
+
+    expect(calls.map(([event, type]) => [type, event.changedTouches[0].x])).toEqual([
+      ['pointerdown', 7],
+      ['pointerup', 7],
+    ]);
+  });
+
+  it('rejects touches that are already down or not down', () => {
+    const source = new SimulatedTouchSource();
+
+    source.touchDown(0, 0, 0);
+
+    expect(() => source.touchDown(0, 1, 1)).toThrow('already down');
+    expect(() => source.touchMove(1, 1, 1)).toThrow('not down');
+    expect(() => source.touchUp(1)).toThrow('not down');
+  });
+
+  it('stops calling a listener after it unsubscribes', () => {
+    const source = new SimulatedTouchSource();
+    const { calls, unsubscribe } = record(source);
+
+    source.touchDown(0, 0, 0);
+    unsubscribe();
+    source.touchUp(0);
+
+    expect(calls).toHaveLength(1);
+  });
+
+  it('converts into pointer events in physical pixels', () => {
+    const source = new SimulatedTouchSource();
+    const tracker = createTouchTracker();
+    const canvas = {};
+    const pointerEvents: ReturnType<typeof convertGestureTouchToPointerEvents> = [];
+
+    source.subscribe((event, eventType) => {
+      pointerEvents.push(
+        ...convertGestureTouchToPointerEvents(event, eventType, { canvas, tracker }),
+      );
+    });
+
+    source.touchDown(0, 10, 20);
+    source.touchDown(1, 50, 60);
+    source.touchMove(1, 55, 60);
+    source.touchUp(0);
+
+    expect(pointerEvents.map((event) => [event.type, event.pointerId, event.isPrimary])).toEqual([
+      ['pointerdown', 0, true],
+      ['pointerdown', 1, false],
+      ['pointermove', 1, false],
+      ['pointerup', 0, true],
+    ]);
+    expect(pointerEvents[0]).toMatchObject({ clientX: 20, clientY: 40, target: canvas });
+    expect(pointerEvents[2]).toMatchObject({ clientX: 110, movementX: 10, movementY: 0 });
+    expect(tracker.positions.size).toBe(1);
+  });
+});
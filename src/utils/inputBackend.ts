@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Touch input backends other than the JS responder system.
+ *
+ * PixiView reads touches with the responder system by default. The
+ * 'gesture-handler' backend attaches a manual react-native-gesture-handler
+ * gesture instead, so PixiView cooperates with other gesture handlers such
+ * as bottom sheets and swipe navigators, and a GestureTouchSource (e.g. a
+ * SimulatedTouchSource in tests) feeds touches programmatically. Both go
+ * through convertGestureTouchToPointerEvents into the same pointer event
+ * pipeline as responder touches.
+ *
+ * react-native-gesture-handler is an optional peer dependency, loaded only
+ * when the 'gesture-handler' backend is used.
+ *
+ * @module @penabt/pixi-expo/inputBackend
+ * @author Pena Team
+ * @license MIT
+ */
+
+import type { ComponentType, ReactNode } from 'react';
+import type { GestureTouchData, GestureTouchEventData } from './touchEventBridge';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * Where PixiView reads touches from:
+ * - 'responder': React Native's responder system (onResponderGrant, ...)
+ * - 'gesture-handler': a manual react-native-gesture-handler gesture
+ * - a GestureTouchSource: touches pushed by the source
+ */
+export type PixiViewInputBackend = 'responder' | 'gesture-handler' | GestureTouchSource;
+
+/** Receives touch events from a GestureTouchSource */
+export type GestureTouchListener = (
+  event: GestureTouchEventData,
+  eventType: 'pointerdown' | 'pointermove' | 'pointerup' | 'pointercancel',
+) => void;
+
+/** Source of gesture handler touch events, e.g. a SimulatedTouchSource */
+export interface GestureTouchSource {
+  /**
+   * Start receiving touch events.
+   * @param listener - Called for every touch event
+   * @returns Function that stops the listener
+   */
+  subscribe(listener: GestureTouchListener): () => void;
+}
+
+/** Manual gesture of react-native-gesture-handler (the parts PixiView uses) */
+interface ManualGesture {
+  runOnJS(runOnJS: boolean): ManualGesture;
+  onTouchesDown(callback: (event: GestureTouchEventData) => void): ManualGesture;
+  onTouchesMove(callback: (event: GestureTouchEventData) => void): ManualGesture;
+  onTouchesUp(callback: (event: GestureTouchEventData) => void): ManualGesture;
+  onTouchesCancelled(callback: (event: GestureTouchEventData) => void): ManualGesture;
+}
+
+/** Exports of react-native-gesture-handler used by the 'gesture-handler' backend */
+export interface GestureHandlerModule {
+  /** Gesture builders */
+  Gesture: { Manual(): ManualGesture };
+  /** Component attaching a gesture to its child view */
+  GestureDetector: ComponentType<{ gesture: ManualGesture; children: ReactNode }>;
+}
+
+// =============================================================================
+// GESTURE HANDLER BACKEND
+// =============================================================================
+
+/** react-native-gesture-handler, once loaded; null if it isn't installed */
+let gestureHandlerModule: GestureHandlerModule | null | undefined;
+
+/**
+ * Load react-native-gesture-handler.
+ *
+ * @returns The module's exports
+ * @throws If react-native-gesture-handler isn't installed
+ */
+export function loadGestureHandler(): GestureHandlerModule {
+  if (gestureHandlerModule === undefined) {
+    try {
+      gestureHandlerModule = require('react-native-gesture-handler') as GestureHandlerModule;
+    } catch {
+      gestureHandlerModule = null;
+    }
+  }
+
+  if (!gestureHandlerModule) {
+    throw new Error(
+      'PixiView: inputBackend="gesture-handler" requires react-native-gesture-handler. ' +
+        'Install it with `npx expo install react-native-gesture-handler`.',
+    );
+  }
+
+  return gestureHandlerModule;
+}
+
+/**
+ * Create the gesture of the 'gesture-handler' backend: a manual gesture that
+ * reports touches on the JS thread and never activates, so it doesn't block
+ * other gestures. When another gesture handler takes the touches (a swipe
+ * navigator, a bottom sheet), the gesture is cancelled and the listener
+ * gets 'pointercancel'.
+ *
+ * @param listener - Called for every touch event
+ * @returns Gesture for a GestureDetector
+ */
+export function createTouchGesture(listener: GestureTouchListener): ManualGesture {
+  const { Gesture } = loadGestureHandler();
+
+  return Gesture.Manual()
+    .runOnJS(true)
+    .onTouchesDown((event) => listener(event, 'pointerdown'))
+    .onTouchesMove((event) => listener(event, 'pointermove'))
+    .onTouchesUp((event) => listener(event, 'pointerup'))
+    .onTouchesCancelled((event) => listener(event, 'pointercancel'));
+}
+
+// =============================================================================
+// SIMULATED TOUCH SOURCE
+// =============================================================================
+
+/**
+ * Touch source driven by code, for tests and scripted input. Pass it as
+ * PixiView's inputBackend and call touchDown/touchMove/touchUp with view
+ * coordinates in points.
+ *
+ * @example
+ * ```tsx
+ * const touches = new SimulatedTouchSource();
+ * render(<PixiView inputBackend={touches} onApplicationCreate={setupScene} />);
+ *
+ * touches.touchDown(0, 100, 100);
+ * touches.touchMove(0, 150, 100);
+ * touches.touchUp(0);
+ * ```
+ */
+export class SimulatedTouchSource implements GestureTouchSource {
+  /** Position of the view in the window, added to produce absoluteX/absoluteY */
+  public origin = { x: 0, y: 0 };
+
+  /** Subscribed listeners */
+  private _listeners = new Set<GestureTouchListener>();
+
+  /** Touches that are down */
+  private _touches = new Map<number, GestureTouchData>();
+
+  /** Number of touches that are down */
+  public get activeTouchCount(): number {
+    return this._touches.size;
+  }
+
+  /**
+   * Start receiving touch events.
+   * @param listener - Called for every touch event
+   * @returns Function that stops the listener
+   */
+  public subscribe(listener: GestureTouchListener): () => void {
+    this._listeners.add(listener);
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Put a touch down.
+   *
+   * @param id - Touch identifier, unique among the touches that are down
+   * @param x - X coordinate in the view
+   * @param y - Y coordinate in the view
+   * @throws If a touch with the identifier is already down
+   */
+  public touchDown(id: number, x: number, y: number): void {
+    if (this._touches.has(id)) {
+      throw new Error(`SimulatedTouchSource: Touch ${id} is already down`);
+    }
+
+    const touch = this._createTouch(id, x, y);
+    this._touches.set(id, touch);
+    this._emit('pointerdown', [touch]);
+  }
+
+  /**
+   * Move a touch that is down.
+   *
+   * @param id - Touch identifier
+   * @param x - New x coordinate in the view
+   * @param y - New y coordinate in the view
+   * @throws If no touch with the identifier is down
+   */
+  public touchMove(id: number, x: number, y: number): void {
+    this._getTouch(id);
+
+    const touch = this._createTouch(id, x, y);
+    this._touches.set(id, touch);
+    this._emit('pointermove', [touch]);
+  }
+
+  /**
+   * Lift a touch.
+   *
+   * @param id - Touch identifier
+   * @throws If no touch with the identifier is down
+   */
+  public touchUp(id: number): void {
+    const touch = this._getTouch(id);
+
+    this._emit('pointerup', [touch]);
+    this._touches.delete(id);
+  }
+
+  /**
+   * Cancel all touches that are down, as when another gesture takes them.
+   */
+  public touchCancel(): void {
+    if (this._touches.size === 0) return;
+
+    this._emit('pointercancel', [...this._touches.values()]);
+    this._touches.clear();
+  }
+
+  /**
+   * Put a touch down and lift it at the same position.
+   *
+   * @param x - X coordinate in the view
+   * @param y - Y coordinate in the view
+   * @param id - Touch identifier (default: 0)
+   */
+  public tap(x: number, y: number, id = 0): void {
+    this.touchDown(id, x, y);
+    this.touchUp(id);
+  }
+
+  /**
+   * Create touch data at a view position.
+   */
+  private _createTouch(id: number, x: number, y: number): GestureTouchData {
+    return { id, x, y, absoluteX: this.origin.x + x, absoluteY: this.origin.y + y };
+  }
+
+  /**
+   * Get a touch that is down.
+   */
+  private _getTouch(id: number): GestureTouchData {
+    const touch = this._touches.get(id);
+    if (!touch) {
+      throw new Error(`SimulatedTouchSource: Touch ${id} is not down`);
+    }
+
+    return touch;
+  }
+
+  /**
+   * Send a touch event to the listeners.
+   */
+  private _emit(
+    eventType: 'pointerdown' | 'pointermove' | 'pointerup' | 'pointercancel',
+    changedTouches: GestureTouchData[],
+  ): void {
+    const allTouches = [...this._touches.values()];
+    const event: GestureTouchEventData = {
+      changedTouches,
+      allTouches,
+      numberOfTouches: allTouches.length,
+    };
+
+    for (const listener of [...this._listeners]) {
+      listener(event, eventType);
+    }
+  }
+}
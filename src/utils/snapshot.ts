@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Snapshots of a PixiJS application's stage.
+ *
+ * Renders the stage into a RenderTexture, reads the pixels back from the GL
+ * context and encodes them like the extract helpers. Used by
+ * PixiViewHandle.takeSnapshot.
+ *
+ * @module @penabt/pixi-expo/snapshot
+ * @author Pena Team
+ * @license MIT
+ */
+
+import { RenderTexture } from 'pixi.js';
+import type { Application } from 'pixi.js';
+import { base64Encode } from './encoding';
+import { encodeExtractedPixels, readTexturePixels, writeImageFile } from './extract';
+import type { ExtractImageFormat } from './extract';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Image formats a snapshot can be encoded as */
+export type SnapshotFormat = ExtractImageFormat;
+
+/**
+ * How a snapshot is returned:
+ * - 'base64': base64-encoded file bytes
+ * - 'data-uri': `data:image/...;base64,...` URI, usable as an Image source
+ * - 'file': `file://` URI of a file written to the cache directory
+ */
+export type SnapshotResult = 'base64' | 'data-uri' | 'file';
+
+/** Area of the view to capture, in logical points */
+export interface SnapshotRegion {
+  /** Left edge */
+  x: number;
+  /** Top edge */
+  y: number;
+  /** Width */
+  width: number;
+  /** Height */
+  height: number;
+}
+
+/** Options for takeSnapshot */
+export interface SnapshotOptions {
+  /**
+   * Image format.
+   * @default 'png'
+   */
+  format?: SnapshotFormat;
+
+  /**
+   * JPEG quality from 0 to 1. Ignored for PNG.
+   * @default 0.92
+   */
+  quality?: number;
+
+  /**
+   * Area to capture, in logical points of the view.
+   * @default The whole view
+   */
+  region?: SnapshotRegion;
+
+  /**
+   * Output pixels per logical point.
+   * @default The renderer's resolution
+   */
+  scale?: number;
+
+  /**
+   * Fill the image with the background color. When false, PNG snapshots
+   * keep transparency and JPEG snapshots are composited onto black.
+   * @default true
+   */
+  includeBackground?: boolean;
+
+  /**
+   * How the snapshot is returned.
+   * @default 'base64'
+   */
+  result?: SnapshotResult;
+}
+
+// =============================================================================
+// SNAPSHOT
+// =============================================================================
+
+/**
+ * Render an application's stage and encode it as an image.
+ *
+ * @param app - Initialized PixiJS Application
+ * @param options - Format, region, scale and result options
+ * @returns Promise resolving to base64 data, a data URI or a file URI
+ * @throws If the region is empty or the file cannot be written
+ *
+ * @example
+ * ```ts
+ * const uri = await takeSnapshot(app, {
+ *   format: 'jpeg',
+ *   quality: 0.8,
+ *   region: { x: 0, y: 0, width: 300, height: 200 },
+ *   result: 'file',
+ * });
+ * ```
+ */
+export async function takeSnapshot(
+  app: Application,
+  options: SnapshotOptions = {},
+): Promise<string> {
+  const {
+    format = 'png',
+    quality,
+    region,
+    scale = app.renderer.resolution,
+    includeBackground = true,
+    result = 'base64',
+  } = options;
+
+  const { renderer, stage } = app;
+  const { x, y, width, height } = region ?? renderer.screen;
+
+  if (width <= 0 || height <= 0 || scale <= 0) {
+    throw new Error(`takeSnapshot: Invalid region ${width}x${height} at scale ${scale}`);
+  }
+
+  const texture = RenderTexture.create({
+    width,
+    height,
+    resolution: scale,
+    antialias: renderer.view.antialias,
+  });
+
+  // Keep the stage's own transform, shifted so the region starts at the origin
+  renderer.render({
+    container: stage,
+    target: texture,
+    transform: stage.localTransform.clone().translate(-x, -y),
+    clearColor: includeBackground ? renderer.background.colorRgba : [0, 0, 0, 0],
+  });
+
+  let encoded;
+  try {
+    encoded = encodeExtractedPixels(readTexturePixels(renderer, texture), format, quality);
+  } finally {
+    texture.destroy(true);
+  }
+
+  switch (result) {
+    case 'file':
+      return writeImageFile(encoded, 'pixi-expo-snapshot');
+    case 'data-uri':
+      return `data:${encoded.type};base64,${base64Encode(encoded.bytes)}`;
+    default:
+      return base64Encode(encoded.bytes);
+  }
+}
@@ -1,8 +1,9 @@
 /**
  * @fileoverview Bridge between React Native touch events and PixiJS pointer events.
  *
- * This module converts React Native GestureResponder touch events into
- * PointerEvent-like objects that PixiJS's EventSystem can process.
+ * This module converts React Native GestureResponder touch events, and
+ * touch events of react-native-gesture-handler, into PointerEvent-like
+ * objects that PixiJS's EventSystem can process.
  *
  * @module @penabt/pixi-expo/touchEventBridge
  * @author Pena Team
@@ -10,6 +11,7 @@
  */
 
 import { type GestureResponderEvent, type NativeTouchEvent, PixelRatio } from 'react-native';
+import { viewToDesignPoint, type DesignScale } from './designScale';
 
 // =============================================================================
 // TYPE DEFINITIONS
@@ -94,16 +96,49 @@ export interface NativePointerEvent {
   stopPropagation: () => void;
   /** Stop immediate propagation */
   stopImmediatePropagation: () => void;
-  /** Native event reference */
-  nativeEvent: NativeTouchEvent;
+  /** Native event reference: a responder touch event or a gesture handler touch event */
+  nativeEvent: NativeTouchEvent | GestureTouchEventData;
   /** Global coordinates (for PixiJS) */
   global?: { x: number; y: number };
+  /** X coordinate in design units, when the view has a design size */
+  designX?: number;
+  /** Y coordinate in design units, when the view has a design size */
+  designY?: number;
   /** Get coalesced events */
   getCoalescedEvents: () => NativePointerEvent[];
   /** Get predicted events */
   getPredictedEvents: () => NativePointerEvent[];
 }
 
+/**
+ * Touch of a react-native-gesture-handler touch event (TouchData).
+ */
+export interface GestureTouchData {
+  /** Touch identifier */
+  id: number;
+  /** X coordinate relative to the view the gesture is attached to */
+  x: number;
+  /** Y coordinate relative to the view the gesture is attached to */
+  y: number;
+  /** X coordinate relative to the window */
+  absoluteX: number;
+  /** Y coordinate relative to the window */
+  absoluteY: number;
+}
+
+/**
+ * Touch event of react-native-gesture-handler (GestureTouchEvent), as passed
+ * to the onTouchesDown/Move/Up/Cancelled callbacks of a gesture.
+ */
+export interface GestureTouchEventData {
+  /** Touches that changed in this event */
+  changedTouches: GestureTouchData[];
+  /** All touches tracked by the gesture */
+  allTouches: GestureTouchData[];
+  /** Number of touches tracked by the gesture */
+  numberOfTouches?: number;
+}
+
 /**
  * Options for creating pointer events
  */
@@ -116,6 +151,19 @@ export interface TouchEventBridgeOptions {
   offsetX?: number;
   /** Canvas offset Y from screen origin */
   offsetY?: number;
+  /** Touch tracking state to use (default: the module-wide tracker) */
+  tracker?: TouchTracker;
+  /** Design-resolution mapping of the view, to fill in designX/designY */
+  designScale?: DesignScale | null;
+}
+
+/**
+ * Touch tracking state for one view.
+ * Stores the previous position of each active touch for movement calculation.
+ */
+export interface TouchTracker {
+  /** Last known position per touch identifier */
+  positions: Map<number, { x: number; y: number }>;
 }
 
 // =============================================================================
@@ -123,7 +171,18 @@ export interface TouchEventBridgeOptions {
 // Store previous positions for movement calculation
 // =============================================================================
 
-const touchPositions: Map<number, { x: number; y: number }> = new Map();
+/**
+ * Create an empty touch tracker.
+ * Each PixiView owns one so that simultaneous views don't share touch state.
+ *
+ * @returns A new TouchTracker
+ */
+export function createTouchTracker(): TouchTracker {
+  return { positions: new Map() };
+}
+
+/** Tracker used when no per-view tracker is provided */
+const defaultTracker = createTouchTracker();
 
 // =============================================================================
 // POINTER EVENT CREATION
@@ -150,16 +209,23 @@ function createPointerEvent(
   eventType: string,
   options: TouchEventBridgeOptions,
   isPrimary: boolean,
-  nativeEvent: NativeTouchEvent,
+  nativeEvent: NativeTouchEvent | GestureTouchEventData,
 ): NativePointerEvent {
-  const { canvas, offsetX = 0, offsetY = 0 } = options;
+  const { canvas, offsetX = 0, offsetY = 0, tracker = defaultTracker, designScale } = options;
+  const touchPositions = tracker.positions;
 
   // Calculate coordinates relative to canvas
   // In React Native, locationX/Y are relative to the touched view, which is our PixiView.
   // They are in logical points. We convert to physical pixels for PixiJS if needed.
   const ratio = PixelRatio.get();
-  const x = (touch.locationX ?? touch.pageX - offsetX) * ratio;
-  const y = (touch.locationY ?? touch.pageY - offsetY) * ratio;
+  const viewX = touch.locationX ?? touch.pageX - offsetX;
+  const viewY = touch.locationY ?? touch.pageY - offsetY;
+  const x = viewX * ratio;
+  const y = viewY * ratio;
+
+  // PixiJS maps the view position through the scaled stage itself; this is
+  // the same point in stage (design) coordinates for code reading raw events
+  const design = designScale ? viewToDesignPoint(viewX, viewY, designScale) : null;
 
   // Calculate movement from previous position
   const prevPos = touchPositions.get(touch.identifier);
@@ -213,7 +279,7 @@ function createPointerEvent(
     twist: 0,
 
     // Event metadata
-    timeStamp: nativeEvent.timestamp ?? Date.now(),
+    timeStamp: ('timestamp' in nativeEvent && nativeEvent.timestamp) || Date.now(),
     type: eventType,
     target: canvas,
     currentTarget: canvas,
@@ -239,6 +305,7 @@ function createPointerEvent(
 
     // PixiJS specific
     global: { x, y },
+    ...(design && { designX: design.x, designY: design.y }),
 
     // Coalesced/predicted events
     getCoalescedEvents: () => [],
@@ -279,18 +346,56 @@ export function convertTouchToPointerEvents(
   });
 }
 
+/**
+ * Convert a react-native-gesture-handler touch event to PointerEvent-like
+ * objects, for the same pipeline as responder touches.
+ *
+ * @param event - Gesture handler touch event
+ * @param eventType - PixiJS event type ('pointerdown', 'pointermove', 'pointerup', 'pointercancel')
+ * @param options - Bridge configuration options
+ * @returns Array of PointerEvent-like objects (one per changed touch)
+ */
+export function convertGestureTouchToPointerEvents(
+  event: GestureTouchEventData,
+  eventType: 'pointerdown' | 'pointermove' | 'pointerup' | 'pointercancel',
+  options: TouchEventBridgeOptions,
+): NativePointerEvent[] {
+  // For multi-touch, the first tracked touch is primary
+  const primaryIdentifier = event.allTouches[0]?.id ?? event.changedTouches[0]?.id ?? 0;
+
+  return event.changedTouches.map((touch) =>
+    createPointerEvent(
+      {
+        identifier: touch.id,
+        pageX: touch.absoluteX,
+        pageY: touch.absoluteY,
+        locationX: touch.x,
+        locationY: touch.y,
+      },
+      eventType,
+      options,
+      touch.id === primaryIdentifier,
+      event,
+    ),
+  );
+}
+
 /**
  * Clear all tracked touch positions.
  * Call this when the component unmounts or touch tracking needs to be reset.
+ *
+ * @param tracker - Tracker to clear (default: the module-wide tracker)
  */
-export function clearTouchTracking(): void {
-  touchPositions.clear();
+export function clearTouchTracking(tracker: TouchTracker = defaultTracker): void {
+  tracker.positions.clear();
 }
 
 /**
  * Get the number of currently tracked touches.
  * Useful for debugging multi-touch scenarios.
+ *
+ * @param tracker - Tracker to inspect (default: the module-wide tracker)
  */
-export function getActiveTouchCount(): number {
-  return touchPositions.size;
+export function getActiveTouchCount(tracker: TouchTracker = defaultTracker): number {
+  return tracker.positions.size;
 }
@@ -0,0 +1,16 @@
+/**
+ * PixiJS reads navigator while its modules load; Node only has it from 21.
+ */
+if (typeof globalThis.navigator === 'undefined') {
+  Object.defineProperty(globalThis, 'navigator', {
+    value: { userAgent: 'node' },
+    configurable: true,
+  });
+}
+
+/**
+ * React Native's bundler defines __DEV__; the adapter reads it for its logging.
+ */
+if (typeof (globalThis as { __DEV__?: boolean }).__DEV__ === 'undefined') {
+  (globalThis as { __DEV__?: boolean }).__DEV__ = false;
+}